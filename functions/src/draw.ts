@@ -0,0 +1,104 @@
+import { createHash } from 'node:crypto'
+
+// Sem firebase-admin aqui: src/drawParity.test.ts importa este arquivo e compara com o código do navegador.
+
+export type Contact = { type: 'phone' | 'email'; value: string }
+
+// Mesmas regras de src/contact.ts, para o contato digitado aqui bater com o gravado em raffles/{id}/buyers.
+export function normalizeContact(v: unknown): Contact | null {
+  const raw = String(v ?? '').trim()
+  if (!raw) return null
+  if (/[@a-zA-Z]/.test(raw)) {
+    const email = raw.toLowerCase()
+    return /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/.test(email) ? { type: 'email', value: email } : null
+  }
+  let d = raw.replace(/\D/g, '')
+  if ((d.length === 12 || d.length === 13) && d.startsWith('55')) d = d.slice(2)
+  if (d.length !== 10 && d.length !== 11) return null
+  if (Number(d.slice(0, 2)) < 11 || d[0] === '0' || d[1] === '0') return null
+  if (d.length === 11 && d[2] !== '9') return null
+  return { type: 'phone', value: `+55${d}` }
+}
+
+export function sha256(text: string) {
+  return createHash('sha256').update(text).digest('hex')
+}
+
+// Mesmo algoritmo de src/fairDraw.ts (sha256-mod-v2): a página /verify precisa reproduzir o resultado.
+export const FAIR_DRAW_ALGORITHM = 'sha256-mod-v2'
+
+export function normalizeEligible(list: number[]) {
+  const set = new Set<number>()
+  for (const v of list) {
+    const n = Number(v)
+    if (Number.isInteger(n) && n > 0) set.add(n)
+  }
+  return Array.from(set).sort((a, b) => a - b)
+}
+
+export function ownerKey(name: string) {
+  return String(name || '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+}
+
+// Igual a drawOwnerOf do navegador: comprador com contato conta pelo buyerId, o resto pelo nome.
+export function drawOwnerOf(data: { buyerId?: unknown; name?: unknown }) {
+  if (data.buyerId) return `id:${data.buyerId}`
+  return ownerKey(String(data.name || ''))
+}
+
+// Igual a ownerLabels de src/fairDraw.ts: o sorteio publica rótulos d1, d2... no lugar de nome ou buyerId.
+export function ownerLabels(owners: Record<string, string>) {
+  const labels = new Map<string, string>()
+  const out: Record<string, string> = {}
+  for (const n of normalizeEligible(Object.keys(owners).map(Number))) {
+    const key = owners[String(n)]
+    if (key && !labels.has(key)) labels.set(key, `d${labels.size + 1}`)
+    out[String(n)] = key ? labels.get(key) || '' : ''
+  }
+  return out
+}
+
+export function pickWinnerIndex(seed: string, pool: number[], round: number) {
+  const message = round ? `${seed.trim()}|${round}|${pool.join(',')}` : `${seed.trim()}|${pool.join(',')}`
+  return Number(BigInt('0x' + sha256(message)) % BigInt(pool.length))
+}
+
+export function runFairDraw(
+  seed: string,
+  paidNumbers: number[],
+  prizes: number,
+  ownersByNumber: Record<string, string>,
+  allowRepeatWinners: boolean
+) {
+  const eligible = normalizeEligible(paidNumbers)
+  const owners = allowRepeatWinners ? undefined : eligible.map((n) => ownerKey(ownersByNumber[String(n)] || ''))
+  const ownerOf = (n: number) => (owners && owners[eligible.indexOf(n)]) || `#${n}`
+
+  let pool = eligible.slice()
+  const indexes: number[] = []
+  const winners: number[] = []
+  for (let round = 0; round < prizes && pool.length; round++) {
+    const index = pickWinnerIndex(seed, pool, round)
+    const winner = pool[index]
+    indexes.push(index)
+    winners.push(winner)
+    const winnerOwner = ownerOf(winner)
+    pool = pool.filter((n) => n !== winner && (allowRepeatWinners || ownerOf(n) !== winnerOwner))
+  }
+
+  return {
+    algorithm: FAIR_DRAW_ALGORITHM,
+    seed: seed.trim(),
+    hash: sha256(seed.trim()),
+    eligible,
+    ...(owners ? { owners } : {}),
+    allowRepeatWinners,
+    indexes,
+    winners,
+    index: indexes[0],
+    winner: winners[0]
+  }
+}
@@ -0,0 +1,435 @@
+import { initializeApp } from 'firebase-admin/app'
+import { getFirestore, Timestamp, FieldValue, type QueryDocumentSnapshot } from 'firebase-admin/firestore'
+import { onSchedule } from 'firebase-functions/v2/scheduler'
+import { onRequest, onCall, HttpsError } from 'firebase-functions/v2/https'
+import { logger } from 'firebase-functions'
+import { randomBytes, randomInt } from 'node:crypto'
+import { drawOwnerOf, normalizeContact, ownerLabels, runFairDraw, sha256 } from './draw'
+import type { Contact } from './draw'
+
+initializeApp()
+const db = getFirestore()
+
+const CHUNK = 450
+// Liberar um número apaga o entry e o holder; com o evento de auditoria, 224 números ficam em 449 escritas.
+const RELEASE_CHUNK = 224
+const LOOKUP_CODE_TTL_MS = 10 * 60_000
+const LOOKUP_MAX_ATTEMPTS = 5
+const LOOKUP_RESEND_MS = 60_000
+// Mesmo intervalo do runScheduledDraws e mesmo corte mínimo de src/schedule.ts.
+const DRAW_JOB_INTERVAL_MS = 5 * 60_000
+const MIN_AUTO_DRAW_CUTOFF_MS = 2 * DRAW_JOB_INTERVAL_MS
+
+function clampHoldHours(n: unknown) {
+  const v = Number(n)
+  if (!Number.isFinite(v) || v <= 0) return 0
+  return Math.min(720, Math.floor(v))
+}
+
+function isExpired(data: FirebaseFirestore.DocumentData | undefined, holdHours: number, now: number) {
+  if (!data || data.paid) return false
+  const at = data.reservedAt instanceof Timestamp ? data.reservedAt.toMillis() : 0
+  if (!at) return false
+  return at + holdHours * 3600_000 <= now
+}
+
+async function releaseExpiredForRaffle(raffleId: string, holdHours: number, now: number) {
+  const cutoff = Timestamp.fromMillis(now - holdHours * 3600_000)
+  const entries = db.collection('raffles').doc(raffleId).collection('entries')
+  const snap = await entries.where('reservedAt', '<=', cutoff).get()
+  const candidates = snap.docs.filter((d) => isExpired(d.data(), holdHours, now)).map((d) => d.ref)
+
+  const released: string[] = []
+
+  for (let i = 0; i < candidates.length; i += RELEASE_CHUNK) {
+    const part = candidates.slice(i, i + RELEASE_CHUNK)
+    const done = await db.runTransaction(async (tx) => {
+      const snaps = await Promise.all(part.map((ref) => tx.get(ref)))
+      const ids: string[] = []
+      const before: Record<string, { name: string; paid: boolean }> = {}
+      const after: Record<string, null> = {}
+      snaps.forEach((s, idx) => {
+        const data = s.data()
+        if (!isExpired(data, holdHours, now)) return
+        tx.delete(part[idx])
+        tx.delete(db.collection('raffles').doc(raffleId).collection('holders').doc(s.id))
+        ids.push(s.id)
+        before[s.id] = { name: String(data?.name || ''), paid: !!data?.paid }
+        after[s.id] = null
+      })
+      if (ids.length) {
+        tx.set(db.collection('raffles').doc(raffleId).collection('audit').doc(), {
+          actor: { kind: 'system' },
+          action: 'release-expired',
+          numbers: ids.map(Number).sort((a, b) => a - b),
+          before,
+          after,
+          at: FieldValue.serverTimestamp()
+        })
+      }
+      return ids
+    })
+    released.push(...done)
+  }
+
+  return released
+}
+
+async function releaseAllExpired(now = Date.now()) {
+  const raffles = await db.collection('raffles').where('autoReleaseExpired', '==', true).get()
+  const result: Record<string, string[]> = {}
+
+  for (const r of raffles.docs) {
+    const holdHours = clampHoldHours(r.get('holdHours'))
+    if (!holdHours) continue
+    const released = await releaseExpiredForRaffle(r.id, holdHours, now)
+    if (released.length) {
+      result[r.id] = released
+      logger.info(`Rifa ${r.id}: ${released.length} reserva(s) expirada(s) liberada(s)`, { numbers: released })
+    }
+  }
+
+  return result
+}
+
+function clampTrashDays(n: unknown) {
+  const v = Number(n)
+  if (!Number.isFinite(v) || v <= 0) return 30
+  return Math.min(365, Math.floor(v))
+}
+
+async function purgeTrash(now = Date.now()) {
+  const raffles = await db.collection('raffles').get()
+  let purged = 0
+
+  for (const r of raffles.docs) {
+    const cutoff = Timestamp.fromMillis(now - clampTrashDays(r.get('trashRetentionDays')) * 86400_000)
+    const snap = await r.ref.collection('trash').where('deletedAt', '<=', cutoff).get()
+
+    for (let i = 0; i < snap.docs.length; i += CHUNK) {
+      const batch = db.batch()
+      for (const d of snap.docs.slice(i, i + CHUNK)) batch.delete(d.ref)
+      await batch.commit()
+    }
+
+    if (snap.size) {
+      purged += snap.size
+      logger.info(`Rifa ${r.id}: ${snap.size} item(ns) apagado(s) da lixeira`)
+    }
+  }
+
+  return purged
+}
+
+export const releaseExpiredReservations = onSchedule(
+  { schedule: 'every 15 minutes', timeZone: 'America/Sao_Paulo' },
+  async () => {
+    await releaseAllExpired()
+  }
+)
+
+export const purgeTrashDaily = onSchedule(
+  { schedule: 'every day 03:00', timeZone: 'America/Sao_Paulo' },
+  async () => {
+    await purgeTrash()
+  }
+)
+
+export const releaseExpiredNow = onRequest(async (_req, res) => {
+  if (process.env.FUNCTIONS_EMULATOR !== 'true') {
+    res.status(404).send('Not found')
+    return
+  }
+  res.json(await releaseAllExpired())
+})
+
+function prizeCountOf(data: FirebaseFirestore.DocumentData | undefined) {
+  const list = Array.isArray(data?.prizes) ? data.prizes.filter((p: { title?: unknown } | null) => String(p?.title || '').trim()) : []
+  return Math.max(1, list.length)
+}
+
+function millisOf(v: unknown) {
+  return v instanceof Timestamp ? v.toMillis() : 0
+}
+
+// O compromisso precisa ficar público por pelo menos um ciclo do job antes de a semente ser revelada.
+function commitmentSettled(data: FirebaseFirestore.DocumentData | undefined, now: number) {
+  const committedAt = millisOf(data?.drawCommitment?.committedAt)
+  return !!committedAt && now - committedAt >= DRAW_JOB_INTERVAL_MS
+}
+
+function hasWinners(data: FirebaseFirestore.DocumentData | undefined) {
+  return (Array.isArray(data?.winners) && data.winners.length > 0) || !!Number(data?.resultNumber || 0)
+}
+
+// Publica o compromisso quando as vendas fecham, para o hash ficar visível antes do sorteio.
+async function commitScheduledDraw(raffleId: string) {
+  const raffleRef = db.collection('raffles').doc(raffleId)
+  const secretRef = raffleRef.collection('private').doc('draw')
+  return db.runTransaction(async (tx) => {
+    const raffle = await tx.get(raffleRef)
+    if (!raffle.exists || raffle.get('drawCommitment.hash') || hasWinners(raffle.data())) return false
+
+    const seed = randomBytes(32).toString('hex')
+    const hash = sha256(seed)
+    tx.set(secretRef, { seed, hash, createdAt: FieldValue.serverTimestamp() })
+    tx.set(raffleRef, { drawCommitment: { hash, committedAt: FieldValue.serverTimestamp() } }, { merge: true })
+    tx.set(raffleRef.collection('audit').doc(), {
+      actor: { kind: 'system' },
+      action: 'commit',
+      numbers: [],
+      before: null,
+      after: { hash },
+      at: FieldValue.serverTimestamp()
+    })
+    return true
+  })
+}
+
+// Rascunho e arquivada não sorteiam; rifa antiga sem status conta como aberta.
+function drawableStatus(status: unknown) {
+  return status == null || status === 'open' || status === 'closed'
+}
+
+// Mesmas regras do botão Sortear: só número pago, e sem repetir dono a menos que a rifa permita.
+async function runScheduledDraw(raffleId: string, now: number) {
+  const raffleRef = db.collection('raffles').doc(raffleId)
+  const secretRef = raffleRef.collection('private').doc('draw')
+  return db.runTransaction(async (tx) => {
+    const raffle = await tx.get(raffleRef)
+    const data = raffle.data()
+    if (!data || hasWinners(data) || !drawableStatus(data.status) || !commitmentSettled(data, now)) return null
+
+    const secret = await tx.get(secretRef)
+    const entries = await tx.get(raffleRef.collection('entries'))
+    const holders = await tx.get(raffleRef.collection('holders'))
+
+    const commitment = String(data.drawCommitment?.hash || '')
+    const seed = String(secret.get('seed') || '')
+    const fail = (autoDrawError: string) => {
+      tx.set(raffleRef, { autoDrawError }, { merge: true })
+      return null
+    }
+    if (!commitment || !seed) return fail('Compromisso ou semente não encontrados')
+    if (sha256(seed.trim()) !== commitment) return fail('A semente guardada não confere com o compromisso publicado')
+
+    // O entry guarda o nome exibido; o dono conta pelo nome completo do holder da mesma reserva, como no painel.
+    const fullNames = new Map(holders.docs.map((h) => [h.id, h.data()]))
+    const ownerOf = (d: QueryDocumentSnapshot) => {
+      const e = d.data()
+      const h = fullNames.get(d.id)
+      const own = h?.name && String(h.orderId || '') === String(e.orderId || '')
+      return drawOwnerOf(own ? { ...e, name: h.name } : e)
+    }
+
+    const paid = entries.docs.filter((d) => !!d.get('paid'))
+    const paidNums = paid.map((d) => Number(d.id))
+    const keys: Record<string, string> = {}
+    for (const d of paid) keys[d.id] = ownerOf(d)
+    const owners = ownerLabels(keys)
+    const prizes = prizeCountOf(data)
+    const allowRepeat = !!data.allowRepeatWinners
+    const distinctOwners = new Set(paid.map((d) => keys[d.id] || `#${d.id}`)).size
+
+    if (!paidNums.length) return fail('Não tem números pagos para sortear')
+    if (prizes > (allowRepeat ? paidNums.length : distinctOwners)) {
+      return fail(`Não tem participantes pagos suficientes para ${prizes} prêmios`)
+    }
+
+    const reveal = runFairDraw(seed, paidNums, prizes, owners, allowRepeat)
+    tx.set(
+      raffleRef,
+      {
+        resultNumber: reveal.winner,
+        winners: reveal.winners,
+        draw: { ...reveal, drawnAt: FieldValue.serverTimestamp() },
+        status: 'drawn',
+        autoDrawError: null
+      },
+      { merge: true }
+    )
+    tx.set(raffleRef.collection('live').doc('draw'), {
+      phase: 'revealed',
+      winners: reveal.winners,
+      revealedAt: FieldValue.serverTimestamp()
+    })
+    tx.set(raffleRef.collection('audit').doc(), {
+      actor: { kind: 'system' },
+      action: 'draw',
+      numbers: reveal.winners,
+      before: { resultNumber: data.resultNumber ?? null, winners: data.winners ?? null },
+      after: { resultNumber: reveal.winner, winners: reveal.winners, seed: reveal.seed, hash: reveal.hash },
+      at: FieldValue.serverTimestamp()
+    })
+    return reveal.winners
+  })
+}
+
+async function runDueDraws(now = Date.now()) {
+  const raffles = await db.collection('raffles').where('autoDraw', '==', true).get()
+  const result: Record<string, { committed?: boolean; winners?: number[] | null }> = {}
+
+  for (const r of raffles.docs) {
+    const drawAt = millisOf(r.get('drawAt'))
+    if (!drawAt || hasWinners(r.data()) || !drawableStatus(r.get('status'))) continue
+    // Rifa salva antes do corte mínimo: o compromisso sai no mínimo dois ciclos antes do horário do sorteio.
+    const closeAt = Math.min(millisOf(r.get('salesCloseAt')) || drawAt, drawAt - MIN_AUTO_DRAW_CUTOFF_MS)
+
+    if (closeAt <= now && !r.get('drawCommitment.hash')) {
+      const committed = await commitScheduledDraw(r.id)
+      result[r.id] = { committed }
+      if (committed) logger.info(`Rifa ${r.id}: compromisso do sorteio automático publicado`)
+    }
+
+    if (drawAt <= now) {
+      if (!commitmentSettled((await r.ref.get()).data(), now)) {
+        logger.info(`Rifa ${r.id}: compromisso recente, o sorteio fica para a próxima passada`)
+        continue
+      }
+      const winners = await runScheduledDraw(r.id, now)
+      result[r.id] = { ...result[r.id], winners }
+      if (winners) logger.info(`Rifa ${r.id}: sorteio automático feito`, { winners })
+      else logger.warn(`Rifa ${r.id}: sorteio automático não rodou`)
+    }
+  }
+
+  return result
+}
+
+export const runScheduledDraws = onSchedule({ schedule: 'every 5 minutes', timeZone: 'America/Sao_Paulo' }, async () => {
+  await runDueDraws()
+})
+
+export const runScheduledDrawsNow = onRequest(async (_req, res) => {
+  if (process.env.FUNCTIONS_EMULATOR !== 'true') {
+    res.status(404).send('Not found')
+    return
+  }
+  res.json(await runDueDraws())
+})
+
+// Chave dos códigos de consulta. Também é o buyerId das reservas antigas, de quando ele era o hash do contato.
+function contactKey(c: Contact) {
+  return sha256(`${c.type}:${c.value}`).slice(0, 32)
+}
+
+async function entriesOfContact(contact: Contact) {
+  const docs = new Map<string, QueryDocumentSnapshot>()
+  const legacy = await db.collectionGroup('entries').where('buyerId', '==', contactKey(contact)).get()
+  for (const d of legacy.docs) docs.set(d.ref.path, d)
+
+  const buyers = await db.collectionGroup('buyers').where('contact', '==', contact.value).get()
+  const idsByRaffle = new Map<string, string[]>()
+  for (const b of buyers.docs) {
+    const raffleId = b.ref.parent.parent?.id
+    if (!raffleId) continue
+    idsByRaffle.set(raffleId, [...(idsByRaffle.get(raffleId) || []), b.id])
+  }
+  for (const [raffleId, ids] of idsByRaffle) {
+    for (let i = 0; i < ids.length; i += 30) {
+      const snap = await db
+        .collection('raffles')
+        .doc(raffleId)
+        .collection('entries')
+        .where('buyerId', 'in', ids.slice(i, i + 30))
+        .get()
+      for (const d of snap.docs) docs.set(d.ref.path, d)
+    }
+  }
+  return Array.from(docs.values())
+}
+
+function requireContact(v: unknown) {
+  const contact = normalizeContact(v)
+  if (!contact) throw new HttpsError('invalid-argument', 'Informe um celular com DDD ou um e-mail válido')
+  return contact
+}
+
+export const requestLookupCode = onCall(async (req) => {
+  const contact = requireContact(req.data?.contact)
+  const key = contactKey(contact)
+  const ref = db.collection('lookupCodes').doc(key)
+  const now = Date.now()
+
+  const prev = await ref.get()
+  const sentAt = prev.get('sentAt') instanceof Timestamp ? (prev.get('sentAt') as Timestamp).toMillis() : 0
+  if (sentAt && now - sentAt < LOOKUP_RESEND_MS) {
+    throw new HttpsError('resource-exhausted', 'Aguarde um minuto antes de pedir outro código')
+  }
+
+  const code = String(randomInt(0, 1_000_000)).padStart(6, '0')
+  await ref.set({
+    codeHash: sha256(`${key}:${code}`),
+    sentAt: Timestamp.fromMillis(now),
+    expiresAt: Timestamp.fromMillis(now + LOOKUP_CODE_TTL_MS),
+    attempts: 0
+  })
+
+  const text = `Seu código para consultar seus números da rifa é ${code}. Ele vale por 10 minutos.`
+  if (contact.type === 'email') {
+    // Consumido pela extensão "Trigger Email" (coleção mail).
+    await db.collection('mail').add({ to: contact.value, message: { subject: 'Código para ver seus números', text } })
+  } else {
+    // Consumido pela integração de SMS/WhatsApp configurada no projeto (coleção messages).
+    await db.collection('messages').add({ to: contact.value, body: text, createdAt: Timestamp.fromMillis(now) })
+  }
+
+  if (process.env.FUNCTIONS_EMULATOR === 'true') {
+    logger.info(`Código de consulta para ${contact.value}: ${code}`)
+  }
+
+  return { sent: true, channel: contact.type }
+})
+
+export const verifyLookupCode = onCall(async (req) => {
+  const contact = requireContact(req.data?.contact)
+  const code = String(req.data?.code ?? '').replace(/\D/g, '')
+  if (code.length !== 6) throw new HttpsError('invalid-argument', 'O código tem 6 dígitos')
+
+  const key = contactKey(contact)
+  const ref = db.collection('lookupCodes').doc(key)
+
+  // A transação devolve o resultado e só então lançamos: um throw lá dentro desfaria o delete do código vencido.
+  const result = await db.runTransaction(async (tx): Promise<'ok' | 'wrong' | 'expired'> => {
+    const snap = await tx.get(ref)
+    if (!snap.exists) throw new HttpsError('failed-precondition', 'Peça um código primeiro')
+
+    const expiresAt = snap.get('expiresAt') as Timestamp | undefined
+    const attempts = Number(snap.get('attempts') || 0)
+    if (!expiresAt || expiresAt.toMillis() < Date.now() || attempts >= LOOKUP_MAX_ATTEMPTS) {
+      tx.delete(ref)
+      return 'expired'
+    }
+
+    if (snap.get('codeHash') !== sha256(`${key}:${code}`)) {
+      tx.update(ref, { attempts: attempts + 1 })
+      return 'wrong'
+    }
+
+    tx.delete(ref)
+    return 'ok'
+  })
+
+  if (result === 'expired') throw new HttpsError('deadline-exceeded', 'Código expirado. Peça um novo código')
+  if (result === 'wrong') throw new HttpsError('permission-denied', 'Código incorreto')
+
+  const docs = await entriesOfContact(contact)
+  const raffleIds = Array.from(new Set(docs.map((d) => d.ref.parent.parent?.id).filter((x): x is string => !!x)))
+  const raffles = await Promise.all(raffleIds.map((id) => db.collection('raffles').doc(id).get()))
+  const names = new Map(raffles.map((r) => [r.id, String(r.get('raffleName') || r.id)]))
+
+  const entries = docs
+    .map((d) => {
+      const raffleId = d.ref.parent.parent?.id || ''
+      return {
+        raffleId,
+        raffleName: names.get(raffleId) || raffleId,
+        number: Number(d.id),
+        name: String(d.get('name') || ''),
+        paid: !!d.get('paid')
+      }
+    })
+    .sort((a, b) => a.raffleName.localeCompare(b.raffleName) || a.number - b.number)
+
+  return { entries }
+})
@@ -0,0 +1,138 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { cleanup, fireEvent, render, screen, waitFor, within } from '@testing-library/react'
+import { MemoryRouter } from 'react-router-dom'
+import App from './App'
+import { createI18n } from './i18n'
+import { repo } from './repo'
+import { reserveNumbers } from './reserve'
+
+// Tudo roda no repositório em memória, inclusive os papéis da equipe; do Firebase só sobra o login, que o teste escolhe.
+const session = vi.hoisted(() => ({ user: null as { uid: string; email: string } | null }))
+
+vi.mock('./repo', async () => {
+  const { createMemoryRepository } = await import('./memoryRepository')
+  return {
+    repo: createMemoryRepository({
+      publica: {
+        raffleName: 'Rifa da escola',
+        totalNumbers: 20,
+        pricePerNumber: 10,
+        status: 'open',
+        nameDisplay: 'initial'
+      },
+      equipe: { raffleName: 'Rifa do clube', totalNumbers: 20, pricePerNumber: 10, status: 'open' }
+    })
+  }
+})
+
+vi.mock('./firebase', () => ({ db: {}, auth: {}, functions: {}, storage: {} }))
+
+vi.mock('firebase/auth', () => ({
+  onAuthStateChanged: (_auth: unknown, next: (u: unknown) => void) => {
+    queueMicrotask(() => next(session.user))
+    return () => {}
+  },
+  signInWithEmailAndPassword: vi.fn(),
+  createUserWithEmailAndPassword: vi.fn(),
+  signOut: vi.fn()
+}))
+
+vi.mock('firebase/functions', () => ({ httpsCallable: () => vi.fn() }))
+vi.mock('firebase/storage', () => ({ ref: vi.fn(), uploadBytes: vi.fn(), getDownloadURL: vi.fn() }))
+
+const { t } = createI18n('pt-BR')
+
+const read = (raffleId: string, path: string) => repo.transact(raffleId, (tx) => tx.get(path))
+
+function renderAt(path: string) {
+  return render(
+    <MemoryRouter initialEntries={[path]}>
+      <App />
+    </MemoryRouter>
+  )
+}
+
+beforeEach(() => {
+  localStorage.clear()
+  localStorage.setItem('rifa_lang', 'pt-BR')
+  session.user = null
+})
+
+afterEach(() => cleanup())
+
+async function openReserveModal() {
+  fireEvent.click(await screen.findByTitle(t('home.newReservation')))
+  return screen.getByText(t('home.newReservation'), { selector: '.modalTitle' }).closest('.modalCard') as HTMLElement
+}
+
+describe('reserve modal', () => {
+  it('reserves the picked numbers and opens the payment step', async () => {
+    renderAt('/r/publica')
+
+    const modal = await openReserveModal()
+
+    fireEvent.change(within(modal).getByPlaceholderText(t('reserve.namePlaceholder')), {
+      target: { value: 'Ana Souza' }
+    })
+    fireEvent.change(within(modal).getByPlaceholderText(t('reserve.contactPlaceholder')), {
+      target: { value: 'ana@rifa.test' }
+    })
+    fireEvent.click(within(modal).getByRole('button', { name: '3' }))
+    fireEvent.click(within(modal).getByRole('button', { name: '7' }))
+
+    fireEvent.click(within(modal).getByRole('button', { name: t('common.next') }))
+    expect(within(modal).getByText('3, 7')).toBeTruthy()
+    fireEvent.click(within(modal).getByRole('button', { name: t('common.confirm') }))
+
+    expect(await screen.findByText(t('pay.confirmed'))).toBeTruthy()
+    expect(screen.queryByText(t('reserve.confirmTitle'))).toBeNull()
+    expect(await read('publica', 'entries/3')).toMatchObject({ name: 'Ana S.', paid: false })
+    expect(await read('publica', 'entries/7')).toMatchObject({ name: 'Ana S.', paid: false })
+    expect(await read('publica', 'holders/3')).toMatchObject({ name: 'Ana Souza' })
+  })
+
+  it('keeps the modal open and writes nothing without a valid contact', async () => {
+    renderAt('/r/publica')
+
+    const modal = await openReserveModal()
+    fireEvent.change(within(modal).getByPlaceholderText(t('reserve.namePlaceholder')), { target: { value: 'Bia' } })
+    fireEvent.change(within(modal).getByPlaceholderText(t('reserve.contactPlaceholder')), { target: { value: 'bia@' } })
+    fireEvent.click(within(modal).getByRole('button', { name: '12' }))
+
+    expect(within(modal).getByText(t('reserve.contactInvalid'))).toBeTruthy()
+    expect((within(modal).getByRole('button', { name: t('common.next') }) as HTMLButtonElement).disabled).toBe(true)
+    expect(await read('publica', 'entries/12')).toBeNull()
+  })
+})
+
+describe('multi-pay wizard', () => {
+  it('marks every number of the picked buyer as paid', async () => {
+    await reserveNumbers(repo, 'equipe', [2, 5], {
+      name: 'Carla Dias',
+      nameDisplay: 'full',
+      paid: false,
+      buyer: null,
+      actor: { kind: 'buyer' },
+      action: 'reserve',
+      pricing: { pricePerNumber: 10 }
+    })
+    await repo.createUser('admin', 'admin@rifa.test')
+    await repo.setUserRoles('admin', ['admin'])
+    session.user = { uid: 'admin', email: 'admin@rifa.test' }
+
+    renderAt('/r/equipe/admin')
+
+    fireEvent.click(await screen.findByRole('button', { name: t('multi.title') }))
+    const modal = screen.getByText(t('multi.title'), { selector: '.modalTitle' }).closest('.modalCard') as HTMLElement
+
+    fireEvent.click(await within(modal).findByTitle('Carla Dias'))
+    fireEvent.click(within(modal).getByRole('button', { name: t('multi.selectAll') }))
+    fireEvent.click(within(modal).getByTitle(t('multi.markPaidHint')))
+    expect(within(modal).getByText('2, 5')).toBeTruthy()
+    fireEvent.click(within(modal).getByRole('button', { name: t('common.confirm') }))
+
+    await waitFor(async () => expect(await read('equipe', 'entries/2')).toMatchObject({ paid: true }))
+    expect(await read('equipe', 'entries/5')).toMatchObject({ paid: true })
+  })
+})
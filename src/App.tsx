@@ -1,93 +1,728 @@
-import { useEffect, useMemo, useRef, useState } from 'react'
-import { Routes, Route, useNavigate } from 'react-router-dom'
+import { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react'
+import type { ReactNode } from 'react'
+import { Routes, Route, useNavigate, useParams } from 'react-router-dom'
 import { TbBrandCashapp } from 'react-icons/tb'
 import { AiOutlineDelete, AiOutlineCheckCircle } from 'react-icons/ai'
 import { IoIosSettings } from 'react-icons/io'
-import { FaHome } from 'react-icons/fa'
+import { FaHome, FaTicketAlt } from 'react-icons/fa'
 import { FaPix } from 'react-icons/fa6'
 import confetti from 'canvas-confetti'
+import { QRCodeSVG } from 'qrcode.react'
 import {
-  collection,
-  deleteDoc,
-  doc,
-  onSnapshot,
-  runTransaction,
-  serverTimestamp,
-  updateDoc,
-  setDoc,
-  writeBatch,
-  getDocs,
-  query,
-  orderBy
-} from 'firebase/firestore'
-import { db } from './firebase'
+  onAuthStateChanged,
+  signInWithEmailAndPassword,
+  createUserWithEmailAndPassword,
+  signOut
+} from 'firebase/auth'
+import type { User } from 'firebase/auth'
+import { httpsCallable } from 'firebase/functions'
+import { ref as storageRef, uploadBytes, getDownloadURL } from 'firebase/storage'
+import { auth, functions, storage } from './firebase'
+import { repo } from './repo'
+import type { BackupInfo, CollectionQuery, RaffleTransaction } from './repository'
+import { quotePrice, unitPrice, currencyOf, normalizePrice, normalizePackages } from './pricing'
+import type { PricingConfig, PricePackage, PriceQuote } from './pricing'
+import { buildPixPayload, buildPixTxid } from './pix'
+import { toCsv, parseCsv, buildXlsx, parseXlsx, excelSerialToDate, downloadFile, CSV_MIME, XLSX_MIME } from './spreadsheet'
+import type { SheetRows } from './spreadsheet'
+import { normalizeContact, maskContactInput, formatContact, newBuyerId } from './contact'
+import type { Contact, ContactType } from './contact'
+import {
+  generateSeed,
+  commitSeed,
+  runFairDraw,
+  verifyFairDraw,
+  parseNumberList,
+  paidDrawPool,
+  FAIR_DRAW_ALGORITHM
+} from './fairDraw'
+import type { DrawCommitment, DrawReveal, FairDrawCheck } from './fairDraw'
+import { createI18n, normalizeLocale, browserLocale, LOCALES, LOCALE_LABELS, DEFAULT_LOCALE } from './i18n'
+import type { I18n, Locale, MessageKey } from './i18n'
+import {
+  availableNumbers as availableNumbersOf,
+  maxReservedNumber,
+  numbersOfBuyer,
+  pickRandomNumbers,
+  raffleStats,
+  reservationList,
+  publicEntryName,
+  displayName,
+  reserveConflict,
+  reservedBuyerGroups,
+  revenueStats,
+  selectedNumbersOf,
+  statusChart,
+  swapDiff
+} from './reservations'
+import type { BuyerGroup, NameDisplay, RaffleStats, StatusChart } from './reservations'
+import { auditEntries, auditRecord, writeAudit } from './audit'
+import type { AuditAction, AuditActor } from './audit'
+import { entryPath, holderPath, orderPath, proofPath, trashPath, DRAW_SECRET_PATH, LIVE_DRAW_PATH } from './paths'
+import { reserveNumbers } from './reserve'
+import type { PaymentMethod } from './reserve'
+import {
+  normalizeProof,
+  proofFileProblem,
+  proofPayableNumbers,
+  proofStoragePath,
+  PROOF_ACCEPT,
+  PROOF_MAX_MB
+} from './paymentProof'
+import type { PaymentProof } from './paymentProof'
+import {
+  normalizeOrder,
+  normalizeOrderId,
+  orderLiveNumbers,
+  orderStatus,
+  refundableAmount,
+  refundedTotal,
+  suggestedRefund
+} from './orders'
+import type { Order, OrderStatus } from './orders'
+import {
+  clampCutoffMinutes,
+  MIN_AUTO_DRAW_CUTOFF_MINUTES,
+  isValidTimeZone,
+  normalizeDrawTime,
+  salesCloseMs,
+  zonedDateTimeToMs,
+  DEFAULT_TIME_ZONE,
+  TIME_ZONE_SUGGESTIONS
+} from './schedule'
+import {
+  acceptsReservations,
+  acceptsStaffSales,
+  entriesFrozen,
+  canCommitDraw,
+  canDraw,
+  canTransition,
+  configLocked,
+  normalizeStatus,
+  raffleStatusOf,
+  STATUS_TRANSITIONS
+} from './lifecycle'
+import type { RaffleStatus } from './lifecycle'
 import { BiSolidSelectMultiple } from 'react-icons/bi'
 
 type Entry = {
   name: string
   paid: boolean
-  reservedAt?: any
+  reservedAt?: unknown
+  buyerId?: string
+  paymentMethod?: PaymentMethod
+  soldBy?: string
+  orderId?: string
+}
+
+// Nome completo de quem reservou (raffles/{id}/holders/{número}), só para a equipe.
+// Vale enquanto o orderId bate com o do entry: número liberado e reservado de novo ganha outro holder.
+type Holder = {
+  name: string
+  orderId?: string
+}
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, MessageKey> = {
+  cash: 'payment.cash',
+  pix: 'payment.pix',
+  card: 'payment.card'
+}
+
+type Buyer = {
+  name?: string
+  contact?: string
+  contactType?: ContactType
+  updatedAt?: unknown
+}
+
+type Prize = {
+  title: string
+  description?: string
+  imageUrl?: string
 }
 
-type AppConfig = {
+type AppConfig = PricingConfig & {
+  status?: RaffleStatus | null
   raffleName?: string
+  headline?: string
+  description?: string
   totalNumbers?: number
+  holdHours?: number
+  autoReleaseExpired?: boolean
+  trashRetentionDays?: number
+  boardShowNames?: boolean
+  nameDisplay?: NameDisplay
+  locale?: Locale | null
   drawDate?: string
+  drawTime?: string
+  drawTimeZone?: string
+  drawAt?: unknown
+  salesCutoffMinutes?: number
+  salesCloseAt?: unknown
+  autoDraw?: boolean
+  autoDrawError?: string | null
   resultNumber?: number | null
+  winners?: number[] | null
+  prizes?: Prize[]
+  allowRepeatWinners?: boolean
+  drawCommitment?: DrawCommitment | null
+  draw?: DrawReveal | null
+}
+
+const NAME_DISPLAY_LABELS: Record<NameDisplay, MessageKey> = {
+  full: 'nameDisplay.full',
+  initial: 'nameDisplay.initial',
+  masked: 'nameDisplay.masked',
+  hidden: 'nameDisplay.hidden'
+}
+
+type RaffleMeta = AppConfig & {
+  id: string
+}
+
+type Role = 'seller' | 'admin' | 'data-admin'
+
+type StaffUser = {
+  uid: string
+  email?: string
+  roles?: Role[]
+}
+
+type AuthState = {
+  user: User | null
+  roles: Role[]
+  loading: boolean
+}
+
+const ALL_ROLES: Role[] = ['seller', 'admin', 'data-admin']
+
+const ROLE_LABELS: Record<Role, MessageKey> = {
+  seller: 'role.seller',
+  admin: 'role.admin',
+  'data-admin': 'role.dataAdmin'
+}
+
+const ROLE_IMPLIES: Record<Role, Role[]> = {
+  seller: ['seller', 'admin', 'data-admin'],
+  admin: ['admin', 'data-admin'],
+  'data-admin': ['data-admin']
+}
+
+type AuditEvent = {
+  id: string
+  actor: AuditActor
+  action: AuditAction
+  numbers: number[]
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  at?: unknown
+}
+
+const AUDIT_LABELS: Record<AuditAction, MessageKey> = {
+  reserve: 'audit.reserve',
+  sale: 'audit.sale',
+  pay: 'audit.pay',
+  unpay: 'audit.unpay',
+  delete: 'audit.delete',
+  undelete: 'audit.undelete',
+  'release-expired': 'audit.releaseExpired',
+  import: 'audit.import',
+  restore: 'audit.restore',
+  config: 'audit.config',
+  commit: 'audit.commit',
+  draw: 'audit.draw',
+  'reset-draw': 'audit.resetDraw',
+  'proof-reject': 'audit.proofReject',
+  'order-cancel': 'audit.orderCancel',
+  refund: 'audit.refund',
+  status: 'audit.status'
+}
+
+const STATUS_LABELS: Record<RaffleStatus, MessageKey> = {
+  draft: 'status.draft',
+  open: 'status.open',
+  closed: 'status.closed',
+  drawn: 'status.drawn',
+  archived: 'status.archived'
+}
+
+// Rótulo do botão que leva a rifa para cada situação.
+const STATUS_ACTION_LABELS: Record<RaffleStatus, MessageKey> = {
+  draft: 'statusAction.draft',
+  open: 'statusAction.open',
+  closed: 'statusAction.closed',
+  drawn: 'statusAction.drawn',
+  archived: 'statusAction.archived'
+}
+
+const STATUS_CLOSED_KEYS: Record<RaffleStatus, MessageKey> = {
+  draft: 'home.notOpenYet',
+  open: 'home.reserveButton',
+  closed: 'home.salesClosed',
+  drawn: 'home.drawDone',
+  archived: 'home.archived'
 }
 
-const PRICE_PER_NUMBER = 2
+const AuthContext = createContext<AuthState>({ user: null, roles: [], loading: true })
 
 const PIX_KEY = String(import.meta.env.VITE_PIX_KEY || '').trim()
 const PIX_NAME = String(import.meta.env.VITE_PIX_NAME || '').trim()
 const PIX_BANK = String(import.meta.env.VITE_PIX_BANK || '').trim()
+const PIX_CITY = String(import.meta.env.VITE_PIX_CITY || '').trim()
+
+const LANGUAGE_KEY = 'rifa_lang'
+
+type I18nState = {
+  base: Locale
+  choice: Locale | null
+  setChoice: (l: Locale | null) => void
+}
+
+const I18nContext = createContext<I18nState>({ base: DEFAULT_LOCALE, choice: null, setChoice: () => {} })
+
+// Ordem: idioma escolhido pela pessoa > idioma configurado na rifa > idioma do navegador.
+function useI18n(raffleLocale?: string | null): I18n {
+  const { base, choice } = useContext(I18nContext)
+  const locale = choice || normalizeLocale(raffleLocale) || base
+  return createI18n(locale)
+}
+
+function LocaleScope(props: { locale?: string | null; children: ReactNode }) {
+  const parent = useContext(I18nContext)
+  const base = normalizeLocale(props.locale) || parent.base
+  const value = useMemo(() => ({ ...parent, base }), [parent, base])
+  return <I18nContext.Provider value={value}>{props.children}</I18nContext.Provider>
+}
+
+function useLanguageChoice() {
+  const [choice, setChoiceState] = useState<Locale | null>(() => {
+    try {
+      return normalizeLocale(localStorage.getItem(LANGUAGE_KEY))
+    } catch {
+      return null
+    }
+  })
+
+  const base = useMemo(() => browserLocale(), [])
+
+  useEffect(() => {
+    document.documentElement.lang = choice || base
+  }, [choice, base])
+
+  return useMemo<I18nState>(
+    () => ({
+      base,
+      choice,
+      setChoice: (l) => {
+        setChoiceState(l)
+        try {
+          if (l) localStorage.setItem(LANGUAGE_KEY, l)
+          else localStorage.removeItem(LANGUAGE_KEY)
+        } catch {
+          // Sem localStorage a escolha vale só até recarregar.
+        }
+      }
+    }),
+    [base, choice]
+  )
+}
+
+function LanguageSwitcher() {
+  const { choice, setChoice } = useContext(I18nContext)
+  const { t, locale } = useI18n()
+  return (
+    <select
+      className="langSelect"
+      value={choice || locale}
+      onChange={(e) => setChoice(normalizeLocale(e.target.value))}
+      title={t('common.language')}
+      aria-label={t('common.language')}
+    >
+      {LOCALES.map((l) => (
+        <option key={l} value={l}>
+          {LOCALE_LABELS[l]}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+// Preenche um modelo do catálogo com elementos (preço destacado, link etc.) no lugar dos {placeholders}.
+function fillNodes(template: string, parts: Record<string, ReactNode>) {
+  return template.split(/(\{\w+\})/).map((chunk, i) => {
+    const m = /^\{(\w+)\}$/.exec(chunk)
+    return <span key={i}>{m && m[1] in parts ? parts[m[1]] : chunk}</span>
+  })
+}
+
+function describeQuote(q: PriceQuote, currency: string, i18n: I18n) {
+  return q.lines
+    .map((l) =>
+      l.quantity === 1
+        ? i18n.t('quote.numbers', { count: l.times, price: i18n.money(l.price, currency) })
+        : i18n.t('quote.packages', { count: l.times, size: l.quantity, price: i18n.money(l.price, currency) })
+    )
+    .join(' + ')
+}
+
+function nameDisplayOf(v: unknown): NameDisplay {
+  return v === 'initial' || v === 'masked' || v === 'hidden' ? v : 'full'
+}
+
+function clampTotal(n: unknown) {
+  const v = Number(n)
+  if (!Number.isFinite(v)) return 200
+  const i = Math.floor(v)
+  if (i < 1) return 1
+  if (i > 5000) return 5000
+  return i
+}
+
+type HoldState = 'none' | 'ok' | 'expiring' | 'expired'
+
+function clampHoldHours(n: unknown) {
+  const v = Number(n)
+  if (!Number.isFinite(v) || v <= 0) return 0
+  return Math.min(720, Math.floor(v))
+}
+
+function timeToMs(v: unknown) {
+  if (!v) return 0
+  if (typeof v === 'object' && 'toMillis' in v && typeof v.toMillis === 'function') return Number(v.toMillis())
+  const t = new Date(v instanceof Date || typeof v === 'number' ? v : String(v)).getTime()
+  return Number.isFinite(t) ? t : 0
+}
+
+function holdExpiresAt(e: Entry, holdHours: number) {
+  if (!holdHours || e.paid) return 0
+  const start = timeToMs(e.reservedAt)
+  if (!start) return 0
+  return start + holdHours * 3600_000
+}
+
+function holdStateOf(e: Entry, holdHours: number, now: number): HoldState {
+  const until = holdExpiresAt(e, holdHours)
+  if (!until) return 'none'
+  const left = until - now
+  if (left <= 0) return 'expired'
+  const warnMs = Math.min(holdHours * 3600_000 * 0.25, 6 * 3600_000)
+  return left <= warnMs ? 'expiring' : 'ok'
+}
+
+function formatCountdown(ms: number) {
+  const total = Math.max(0, Math.floor(ms / 1000))
+  const d = Math.floor(total / 86400)
+  const h = Math.floor((total % 86400) / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const sec = total % 60
+  const pad = (n: number) => String(n).padStart(2, '0')
+  if (d) return `${d}d ${pad(h)}h`
+  if (h) return `${h}h ${pad(m)}m`
+  return `${m}m ${pad(sec)}s`
+}
+
+function useNow(intervalMs: number) {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const t = setInterval(() => setNow(Date.now()), intervalMs)
+    return () => clearInterval(t)
+  }, [intervalMs])
+
+  return now
+}
 
-const moneyBR = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' })
+function HoldTag(props: { e: Entry; holdHours: number; now: number }) {
+  const { e, holdHours, now } = props
+  const { t } = useI18n()
+  const state = holdStateOf(e, holdHours, now)
+  if (state === 'none') return null
+  if (state === 'expired') return <span className="holdTag holdExpired">{t('hold.expired')}</span>
+  const left = holdExpiresAt(e, holdHours) - now
+  return (
+    <span className={'holdTag ' + (state === 'expiring' ? 'holdExpiring' : 'holdOk')}>
+      {t('hold.expiresIn', { time: formatCountdown(left) })}
+    </span>
+  )
+}
+
+function slugifyRaffleId(v: string) {
+  return String(v || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40)
+}
+
+const BUYER_IDS_KEY = 'rifa_buyer_ids'
+const LAST_CONTACT_KEY = 'rifa_last_contact'
 
-function formatWhen(v: any) {
+function readLastContact() {
   try {
-    if (!v) return ''
-    if (v.toDate) return v.toDate().toLocaleString('pt-BR')
-    const d = new Date(v)
-    if (!Number.isNaN(d.getTime())) return d.toLocaleString('pt-BR')
-    return String(v)
+    return String(localStorage.getItem(LAST_CONTACT_KEY) || '').trim()
   } catch {
     return ''
   }
 }
 
-function formatDateBR(iso: string) {
+function storedBuyerIds(): Record<string, string> {
+  try {
+    const v = JSON.parse(localStorage.getItem(BUYER_IDS_KEY) || '{}')
+    return v && typeof v === 'object' ? v : {}
+  } catch {
+    return {}
+  }
+}
+
+// O buyerId é sorteado na primeira compra com um contato e lembrado neste aparelho,
+// para as próximas compras com o mesmo contato caírem no mesmo comprador.
+function knownBuyerId(contact: Contact | null) {
+  if (!contact) return ''
+  return String(storedBuyerIds()[`${contact.type}:${contact.value}`] || '')
+}
+
+function buyerIdForContact(contact: Contact) {
+  const known = knownBuyerId(contact)
+  if (known) return known
+  const id = newBuyerId()
   try {
-    if (!iso) return ''
-    const d = new Date(iso + 'T00:00:00')
-    if (Number.isNaN(d.getTime())) return iso
-    return d.toLocaleDateString('pt-BR')
+    localStorage.setItem(BUYER_IDS_KEY, JSON.stringify({ ...storedBuyerIds(), [`${contact.type}:${contact.value}`]: id }))
   } catch {
-    return iso
+    // Sem localStorage o id vale só para esta compra.
   }
+  return id
+}
+
+function staffActor(user: User | null): AuditActor {
+  return { kind: 'staff', uid: user?.uid || '', email: user?.email || '' }
+}
+
+type TrashItem = {
+  id: string
+  n: number
+  entry: Entry
+  groupId: string
+  deletedAt?: unknown
+  deletedBy?: AuditActor
 }
 
-function clampTotal(n: any) {
+const DEFAULT_TRASH_DAYS = 30
+
+// Cada número da reserva pública custa uma leitura nas regras (holder e auditoria); o Firestore aceita 20 por escrita.
+const MAX_PUBLIC_RESERVE = 15
+
+function clampTrashDays(n: unknown) {
   const v = Number(n)
-  if (!Number.isFinite(v)) return 200
-  const i = Math.floor(v)
-  if (i < 1) return 1
-  if (i > 5000) return 5000
-  return i
+  if (!Number.isFinite(v) || v <= 0) return DEFAULT_TRASH_DAYS
+  return Math.min(365, Math.floor(v))
+}
+
+// Estado do telão: idle → spinning → revealed. Todo mundo assistindo anima a partir do mesmo documento.
+// O sorteio ao vivo grava o resultado já com "spinning": cada tela revela sozinha em startedAt + spinMs.
+type LiveDrawPhase = 'idle' | 'spinning' | 'revealed'
+
+type LiveDraw = {
+  phase: LiveDrawPhase
+  startedAt?: unknown
+  spinMs?: number
+  winners?: number[] | null
+  revealedAt?: unknown
+}
+
+const LIVE_SPIN_MS = 6000
+
+// Lê as reservas dentro da transação: o "antes" da auditoria é o que está gravado, não o que a tela mostrava.
+async function readEntries(tx: RaffleTransaction, nums: number[]) {
+  const docs = await Promise.all(nums.map((n) => tx.get(entryPath(n))))
+  const out: Record<string, Entry | null> = {}
+  nums.forEach((n, i) => {
+    out[String(n)] = docs[i] as Entry | null
+  })
+  return out
+}
+
+// Apaga as reservas guardando uma cópia na lixeira, na mesma transação.
+function moveToTrash(tx: RaffleTransaction, list: Array<{ n: number; e: Entry }>, actor: AuditActor) {
+  const groupId = tx.newId('trash')
+  return list.map(({ n, e }): TrashItem => {
+    const id = tx.newId('trash')
+    tx.delete(entryPath(n))
+    tx.set(trashPath(id), { n, entry: e, groupId, deletedAt: tx.now(), deletedBy: actor })
+    return { id, n, entry: e, groupId, deletedBy: actor }
+  })
+}
+
+// Regrava o nome público das reservas na forma nova. Reserva antiga, com o nome completo no próprio entry,
+// ganha o holder antes, para o nome completo não se perder.
+async function rewritePublicNames(raffleId: string, numbers: string[], holders: Record<string, Holder>, mode: NameDisplay) {
+  const CHUNK = 200
+  for (let i = 0; i < numbers.length; i += CHUNK) {
+    const part = numbers.slice(i, i + CHUNK)
+    await repo.transact(raffleId, async (tx) => {
+      const docs = await Promise.all(part.map((k) => tx.get(entryPath(k))))
+      part.forEach((k, idx) => {
+        const e = docs[idx] as Entry | null
+        if (!e) return
+        const h = holderOf(holders, k, e)
+        if (!h) tx.set(holderPath(k), { name: e.name, ...(e.orderId ? { orderId: e.orderId } : {}) })
+        const shown = publicEntryName(h?.name || e.name, mode)
+        if (shown !== e.name) tx.update(entryPath(k), { name: shown })
+      })
+    })
+  }
+}
+
+// Traz a rifa de antes das rifas múltiplas (app/config, entries e os backups entries-<data> na raiz) para
+// raffles/{id}. Só lê o legado: os dados antigos ficam onde estão até alguém apagar no console.
+async function importLegacyRaffle(
+  raffleId: string,
+  fallbackName: string,
+  actor: AuditActor,
+  i18n: I18n,
+  onProgress: (msg: string) => void
+) {
+  const legacy = await repo.getLegacyDoc('app/config')
+  if (!legacy) throw new Error('LEGACY_MISSING')
+  const cfg = legacy as AppConfig
+
+  await repo.transact(raffleId, async (tx) => {
+    if (await tx.get('')) throw new Error(`EXISTS:${raffleId}`)
+    tx.set('', { ...cfg, raffleName: cfg.raffleName || fallbackName, createdAt: tx.now() })
+  })
+
+  onProgress(i18n.t('raffles.legacyReading'))
+  const entries = (await repo.listLegacyCollection('entries')).filter((d) => /^\d+$/.test(d.id) && Number(d.id) >= 1)
+  const CHUNK = 450
+  for (let i = 0; i < entries.length; i += CHUNK) {
+    onProgress(i18n.t('raffles.legacyEntries', { done: Math.min(i + CHUNK, entries.length), total: entries.length }))
+    await repo.writeEntries(raffleId, entries.slice(i, i + CHUNK))
+  }
+  // O legado guardava o nome completo no entry: passa para o holder e deixa só a forma exibida.
+  await rewritePublicNames(raffleId, entries.map((d) => d.id), {}, nameDisplayOf(cfg.nameDisplay))
+
+  const backups: string[] = []
+  for (const b of await repo.listLegacyCollection('backups')) {
+    const data = b.data
+    const name = String(data?.name || b.id)
+    if (!/^entries-/.test(name)) continue
+    onProgress(i18n.t('raffles.legacyBackup', { name }))
+    const docs = await repo.listLegacyCollection(name)
+    await repo.createBackup(raffleId, name, docs, {
+      reason: data?.reason ? String(data.reason) : undefined,
+      createdAt: data?.createdAt
+    })
+    backups.push(name)
+  }
+
+  await repo.transact(raffleId, async (tx) => {
+    tx.set('', { legacyImportedAt: tx.now() }, { merge: true })
+    writeAudit(tx, { actor, action: 'import', after: { legacy: true, entries: entries.length, backups } })
+  })
+
+  return { entries: entries.length, backups }
+}
+
+async function restoreFromTrash(raffleId: string, items: TrashItem[], actor: AuditActor) {
+  const latest = new Map<number, TrashItem>()
+  for (const it of items) {
+    const prev = latest.get(it.n)
+    if (!prev || timeToMs(it.deletedAt) > timeToMs(prev.deletedAt)) latest.set(it.n, it)
+  }
+
+  const list = Array.from(latest.values()).sort((a, b) => a.n - b.n)
+  const restored: number[] = []
+  const skipped: number[] = items.filter((it) => latest.get(it.n) !== it).map((it) => it.n)
+
+  const CHUNK = 200
+  for (let i = 0; i < list.length; i += CHUNK) {
+    const part = list.slice(i, i + CHUNK)
+    const done = await repo.transact(raffleId, async (tx) => {
+      const current = await Promise.all(part.map((it) => tx.get(entryPath(it.n))))
+      const trashed = await Promise.all(part.map((it) => tx.get(trashPath(it.id))))
+      // Número que volta para um pedido cancelado reabre o pedido; senão ele ficaria "Cancelado" com números vivos.
+      const orderIds = Array.from(
+        new Set(part.filter((it, idx) => !current[idx] && trashed[idx] && it.entry.orderId).map((it) => String(it.entry.orderId)))
+      )
+      const orders = await Promise.all(orderIds.map((id) => tx.get(orderPath(id))))
+
+      const ok: TrashItem[] = []
+      part.forEach((it, idx) => {
+        if (current[idx] || !trashed[idx]) return
+        tx.set(entryPath(it.n), it.entry)
+        tx.delete(trashPath(it.id))
+        ok.push(it)
+      })
+      orderIds.forEach((id, idx) => {
+        if (orders[idx]?.cancelledAt) tx.update(orderPath(id), { cancelledAt: null, cancelledBy: '' })
+      })
+
+      if (ok.length) {
+        const nums = ok.map((it) => it.n)
+        writeAudit(tx, {
+          actor,
+          action: 'undelete',
+          numbers: nums,
+          before: auditEntries(nums, () => null),
+          after: auditEntries(nums, (n) => ok.find((it) => it.n === n)?.entry)
+        })
+      }
+      return ok.map((it) => it.n)
+    })
+    restored.push(...done)
+    for (const it of part) if (!done.includes(it.n)) skipped.push(it.n)
+  }
+
+  return { restored, skipped: skipped.sort((a, b) => a - b) }
+}
+
+// Os catch recebem unknown: Error do app, FirebaseError com code ou, raramente, uma string lançada.
+function errorMessage(e: unknown) {
+  return e instanceof Error ? e.message || String(e) : String(e)
 }
 
-function pickRandom(list: number[]) {
-  const idx = Math.floor(Math.random() * list.length)
-  return list[idx]
+function errorCode(e: unknown) {
+  return e && typeof e === 'object' && 'code' in e ? String(e.code) : ''
 }
 
-function normalizeWinnerNumber(v: any) {
+function reserveErrorMessage(e: unknown, i18n: I18n) {
+  const conflict = reserveConflict(e)
+  if (!conflict) return errorMessage(e)
+  if (conflict.kind === 'sold-out') return i18n.t('reserve.soldOut')
+  return i18n.t('reserve.taken', { n: conflict.n })
+}
+
+function rafflePath(raffleId: string, sub = '') {
+  return `/r/${encodeURIComponent(raffleId)}${sub}`
+}
+
+function normalizeWinnerNumber(v: unknown) {
   if (v === undefined || v === null) return null
   const n = Number(v)
   if (!Number.isFinite(n) || n <= 0) return null
   return Math.floor(n)
 }
 
+function normalizeWinnerList(cfg: AppConfig) {
+  const list = Array.isArray(cfg.winners)
+    ? cfg.winners.map((v) => normalizeWinnerNumber(v)).filter((n): n is number => !!n)
+    : []
+  if (list.length) return list
+  const single = normalizeWinnerNumber(cfg.resultNumber)
+  return single ? [single] : []
+}
+
+// Sem prêmio cadastrado ainda há um sorteio: fica um prêmio sem título, que a tela mostra como t('prizes.prize').
+function prizeList(cfg: AppConfig): Prize[] {
+  const list = (cfg.prizes || []).filter((p) => String(p?.title || '').trim())
+  return list.length ? list : [{ title: '' }]
+}
+
+function prizeOrdinal(i: number, i18n: I18n) {
+  return i18n.t('prize.ordinal', { n: i + 1 })
+}
+
 function fireWinnerConfetti() {
   confetti({
     particleCount: 160,
@@ -104,143 +739,658 @@ type ModalStep = 'pick' | 'review'
 type MultiPayStep = 'names' | 'numbers' | 'review'
 type MultiAction = 'paid' | 'pending' | 'delete'
 
-function useConfig() {
+function useRaffles() {
+  const [raffles, setRaffles] = useState<RaffleMeta[]>([])
+  const [loaded, setLoaded] = useState(false)
+  const [rafflesError, setRafflesError] = useState('')
+
+  useEffect(() => {
+    return repo.watchRaffles(
+      (docs) => {
+        setRaffles(docs.map((d) => ({ ...(d.data as AppConfig), id: d.id })))
+        setLoaded(true)
+      },
+      (err) => {
+        setRafflesError(errorMessage(err))
+        setLoaded(true)
+      }
+    )
+  }, [])
+
+  return { raffles, loaded, rafflesError }
+}
+
+function useConfig(raffleId: string) {
   const [cfg, setCfg] = useState<AppConfig>({})
   const [cfgError, setCfgError] = useState('')
+  const [cfgMissing, setCfgMissing] = useState(false)
 
   useEffect(() => {
-    const ref = doc(db, 'app', 'config')
-    return onSnapshot(
-      ref,
-      (snap) => {
-        if (!snap.exists()) {
+    return repo.watchConfig(
+      raffleId,
+      (data) => {
+        if (!data) {
           setCfg({})
+          setCfgMissing(true)
           return
         }
-        setCfg(snap.data() as AppConfig)
+        setCfg(data as AppConfig)
+        setCfgMissing(false)
       },
-      (err) => setCfgError(String(err?.message || err))
+      (err) => setCfgError(errorMessage(err))
     )
-  }, [])
+  }, [raffleId])
 
-  return { cfg, cfgError }
+  return { cfg, cfgError, cfgMissing }
 }
 
-function useEntries(total: number) {
-  const [entries, setEntries] = useState<Record<string, Entry | null>>({})
-  const [error, setError] = useState('')
+// Reservas feitas antes do cadastro por rifa apontam para buyers/{hash do contato}, com 32 caracteres hex.
+const LEGACY_BUYER_ID = /^[0-9a-f]{32}$/
+
+// Só os compradores desta rifa; os antigos do cadastro global são buscados um a um, conforme aparecem nas reservas.
+function useBuyers(raffleId: string, enabled: boolean, entries: Record<string, Entry | null>) {
+  const [buyers, setBuyers] = useState<Record<string, Buyer>>({})
+  const [legacy, setLegacy] = useState<Record<string, Buyer | null>>({})
 
   useEffect(() => {
-    const col = collection(db, 'entries')
-    return onSnapshot(
-      col,
-      (snap) => {
-        const map: Record<string, Entry | null> = {}
-        for (let i = 1; i <= total; i++) map[String(i)] = null
-
-        snap.forEach((d) => {
-          const id = d.id
-          if (!/^\d+$/.test(id)) return
-          const n = Number(id)
-          if (n < 1 || n > total) return
-          map[id] = d.data() as Entry
-        })
+    if (!enabled) return
+    return repo.watchCollection(
+      raffleId,
+      'buyers',
+      {},
+      (list) => {
+        const map: Record<string, Buyer> = {}
+        for (const d of list) map[d.id] = d.data as Buyer
+        setBuyers(map)
+      },
+      () => setBuyers({})
+    )
+  }, [raffleId, enabled])
+
+  const missingLegacy = useMemo(() => {
+    const ids = new Set<string>()
+    for (const e of Object.values(entries)) {
+      const id = e?.buyerId
+      if (id && LEGACY_BUYER_ID.test(id) && !(id in legacy)) ids.add(id)
+    }
+    return Array.from(ids).sort().join(',')
+  }, [entries, legacy])
+
+  useEffect(() => {
+    if (!enabled || !missingLegacy) return
+    let alive = true
+    Promise.all(
+      missingLegacy.split(',').map((id) =>
+        repo
+          .getLegacyDoc(`buyers/${id}`)
+          .then((data) => [id, (data as Buyer | null) || null] as const)
+          .catch(() => [id, null] as const)
+      )
+    ).then((list) => {
+      if (alive) setLegacy((prev) => ({ ...prev, ...Object.fromEntries(list) }))
+    })
+    return () => {
+      alive = false
+    }
+  }, [enabled, missingLegacy])
+
+  return useMemo(() => {
+    const map: Record<string, Buyer> = {}
+    for (const [id, b] of Object.entries(legacy)) if (b) map[id] = b
+    return { ...map, ...buyers }
+  }, [buyers, legacy])
+}
 
-        setEntries(map)
+function useHolders(raffleId: string, enabled: boolean) {
+  const [holders, setHolders] = useState<Record<string, Holder>>({})
+
+  useEffect(() => {
+    if (!enabled) return
+    return repo.watchCollection(
+      raffleId,
+      'holders',
+      {},
+      (list) => {
+        const map: Record<string, Holder> = {}
+        for (const d of list) map[d.id] = d.data as Holder
+        setHolders(map)
       },
-      (err) => setError(String(err?.message || err))
+      () => setHolders({})
     )
-  }, [total])
+  }, [raffleId, enabled])
 
-  return { entries, error, setError }
+  return enabled ? holders : {}
 }
 
-function TitleBlock() {
-  return (
-    <div className="titleBlock">
-      <div className="t1">
-        Estamos com uma <span className="emph">rifa incrível</span>!
-      </div>
-      <div className="t2">
-        Uma <span className="emph">faca</span> com <span className="emph">68 cm</span> de comprimento total e{' '}
-        <span className="emph">47 cm</span> de lâmina.
-      </div>
-      <div className="t3">
-        O valor é de apenas <span className="price">R$ 2,00</span> por número, num total de{' '}
-        <span className="emph">200 números</span>.
-      </div>
-    </div>
-  )
+// Quem chegou mais de 15s depois da revelação vê direto o vencedor, sem giro nem confete.
+const LIVE_LATE_MS = 15_000
+
+function liveDrawView(data: LiveDraw | null, now: number) {
+  const raw: LiveDrawPhase = data?.phase === 'spinning' || data?.phase === 'revealed' ? data.phase : 'idle'
+  const winners = Array.isArray(data?.winners) ? data.winners : []
+  const startedAt = timeToMs(data?.startedAt)
+  const endsAt = raw === 'spinning' && winners.length && startedAt ? startedAt + Number(data?.spinMs || 0) : 0
+  const revealedAt = raw === 'revealed' ? timeToMs(data?.revealedAt) : endsAt && now >= endsAt ? endsAt : 0
+  const phase: LiveDrawPhase = revealedAt ? 'revealed' : raw
+  return { phase, winners, endsAt, late: !!revealedAt && now - revealedAt > LIVE_LATE_MS }
 }
 
-function SummaryCard(props: { cfg: AppConfig; stats: any; chart: any; onOpenImage: () => void }) {
-  const { stats, chart, onOpenImage } = props
+function useLiveDraw(raffleId: string) {
+  const [data, setData] = useState<LiveDraw | null>(null)
+  const [now, setNow] = useState(() => Date.now())
 
-  return (
-    <div className="dashCard">
-      <div className="dashTop">
-        <div className="dashLeft">
-          <div className="sideTitle">Resumo</div>
+  useEffect(() => {
+    return repo.watchDoc(
+      raffleId,
+      LIVE_DRAW_PATH,
+      (data) => {
+        setData(data as LiveDraw | null)
+        setNow(Date.now())
+      },
+      () => setData(null)
+    )
+  }, [raffleId])
 
-          <div className="dashGrid">
-            <div className="dashRow">
-              <div>Total de números</div>
-              <div className="val">{stats.total}</div>
-            </div>
-            <div className="dashRow">
-              <div>Reservados</div>
-              <div className="val">{stats.reserved}</div>
-            </div>
-            <div className="dashRow">
-              <div>Disponíveis</div>
-              <div className="val">{stats.available}</div>
-            </div>
-            <div className="dashRow">
-              <div>Pagos</div>
-              <div className="val">{stats.paid}</div>
-            </div>
-            <div className="dashRow">
-              <div>Pendentes</div>
-              <div className="val">{stats.pending}</div>
-            </div>
-          </div>
+  const view = liveDrawView(data, now)
 
-          <div className="chartTitle">Gráfico</div>
-          <div className="bar">
-            <div className="seg free" style={{ width: `${chart.freePct}%` }} />
-            <div className="seg paid" style={{ width: `${chart.paidPct}%` }} />
-            <div className="seg pending" style={{ width: `${chart.pendingPct}%` }} />
-          </div>
+  // Acorda no fim do giro para revelar junto com as outras telas.
+  useEffect(() => {
+    if (view.phase !== 'spinning' || !view.endsAt) return
+    const timer = setTimeout(() => setNow(Date.now()), Math.max(0, view.endsAt - Date.now()))
+    return () => clearTimeout(timer)
+  }, [view.phase, view.endsAt])
 
-          <div className="legend">
-            <div className="leg">
-              <span className="dot free" /> Livres {chart.free}
-            </div>
-            <div className="leg">
-              <span className="dot paid" /> Pagos {chart.paid}
-            </div>
-            <div className="leg">
-              <span className="dot pending" /> Pendentes {chart.pending}
-            </div>
-          </div>
-        </div>
+  return view
+}
 
-        <div className="dashRight">
-          <button className="photoWrapBtn" onClick={onOpenImage} title="Abrir imagem">
-            <img className="photoImg" src="/image_rifa.jpeg" alt="Foto da rifa" />
-            <div className="photoHint">Toque para ampliar</div>
-          </button>
-        </div>
-      </div>
-    </div>
-  )
+function holderOf(holders: Record<string, Holder>, n: number | string, e: Entry | null | undefined) {
+  const h = holders[String(n)]
+  return e && h?.name && (h.orderId || '') === (e.orderId || '') ? h : null
 }
 
-function PixPaymentCard(props: { title?: string }) {
-  const { title } = props
+// Para a equipe: o entry com o nome completo no lugar do nome exibido. Reservas antigas já têm o nome completo no entry.
+function withHolderNames(entries: Record<string, Entry | null>, holders: Record<string, Holder>) {
+  const out: Record<string, Entry | null> = {}
+  for (const [k, e] of Object.entries(entries)) {
+    const h = holderOf(holders, k, e)
+    out[k] = e && h ? { ...e, name: h.name } : e
+  }
+  return out
+}
 
-  const [copied, setCopied] = useState(false)
-  const copiedTimer = useRef<any>(null)
+function buyerContactLabel(b: Buyer | undefined) {
+  if (!b?.contact || !b.contactType) return ''
+  return formatContact({ type: b.contactType, value: b.contact })
+}
+
+function shortHash(hash: string) {
+  const v = String(hash || '')
+  if (v.length <= 16) return v
+  return `${v.slice(0, 8)}…${v.slice(-8)}`
+}
+
+function hasRole(roles: Role[], role: Role) {
+  return ROLE_IMPLIES[role].some((r) => roles.includes(r))
+}
+
+function authErrorMessage(e: unknown, i18n: I18n) {
+  const code = errorCode(e)
+  if (code === 'auth/invalid-credential' || code === 'auth/wrong-password' || code === 'auth/user-not-found') {
+    return i18n.t('staff.authInvalid')
+  }
+  if (code === 'auth/email-already-in-use') return i18n.t('staff.authEmailInUse')
+  if (code === 'auth/weak-password') return i18n.t('staff.authWeakPassword')
+  if (code === 'auth/invalid-email') return i18n.t('staff.authInvalidEmail')
+  return errorMessage(e)
+}
+
+function useAuthState() {
+  const [user, setUser] = useState<User | null>(null)
+  const [roles, setRoles] = useState<Role[]>([])
+  const [userLoading, setUserLoading] = useState(true)
+  const [rolesLoading, setRolesLoading] = useState(false)
+
+  useEffect(() => {
+    return onAuthStateChanged(auth, (u) => {
+      setUser(u)
+      setRoles([])
+      setRolesLoading(!!u)
+      setUserLoading(false)
+    })
+  }, [])
+
+  useEffect(() => {
+    if (!user) return
+    return repo.watchUser(
+      user.uid,
+      (data) => {
+        if (!data) {
+          repo.createUser(user.uid, user.email || '').catch(() => {})
+          setRoles([])
+        } else {
+          const list = (data.roles || []) as Role[]
+          setRoles(list.filter((r) => ALL_ROLES.includes(r)))
+        }
+        setRolesLoading(false)
+      },
+      () => {
+        setRoles([])
+        setRolesLoading(false)
+      }
+    )
+  }, [user])
+
+  return { user, roles, loading: userLoading || rolesLoading }
+}
+
+function useAuth() {
+  return useContext(AuthContext)
+}
+
+function StaffGate(props: { brand: string; title: string; role: Role; backTo: string }) {
+  const { brand, title, role, backTo } = props
+  const nav = useNavigate()
+  const { user, loading } = useAuth()
+  const i18n = useI18n()
+  const { t } = i18n
+
+  const [email, setEmail] = useState('')
+  const [pw, setPw] = useState('')
+  const [error, setError] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  async function login() {
+    setBusy(true)
+    setError('')
+    try {
+      await signInWithEmailAndPassword(auth, email.trim(), pw)
+      setPw('')
+    } catch (e) {
+      setError(authErrorMessage(e, i18n))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function signup() {
+    setBusy(true)
+    setError('')
+    try {
+      await createUserWithEmailAndPassword(auth, email.trim(), pw)
+      setPw('')
+    } catch (e) {
+      setError(authErrorMessage(e, i18n))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="page">
+      <div className="topCard">
+        <div className="brandRow">
+          <div className="brandOnly">{brand}</div>
+          <LanguageSwitcher />
+        </div>
+        <div className="adminLoginCard">
+          <div className="adminLoginTitle">{title}</div>
+
+          {error ? <div className="error">{error}</div> : null}
+
+          {loading ? (
+            <div className="hint">{t('common.loading')}</div>
+          ) : user ? (
+            <>
+              <div className="hint">{t('staff.missingRole', { user: user.email || user.uid, role: t(ROLE_LABELS[role]) })}</div>
+              <div className="adminLoginRow">
+                <button className="btn" onClick={() => signOut(auth)}>
+                  {t('staff.logout')}
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="adminLoginRow">
+                <input
+                  className="adminPw"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder={t('staff.email')}
+                  type="email"
+                  autoComplete="username"
+                  disabled={busy}
+                />
+              </div>
+              <div className="adminLoginRow">
+                <input
+                  className="adminPw"
+                  value={pw}
+                  onChange={(e) => setPw(e.target.value)}
+                  placeholder={t('staff.password')}
+                  type="password"
+                  autoComplete="current-password"
+                  disabled={busy}
+                />
+                <button className="btnPrimary" onClick={login} disabled={busy || !email.trim() || !pw}>
+                  {t('staff.login')}
+                </button>
+              </div>
+              <div className="hint">
+                {fillNodes(t('staff.firstAccess'), {
+                  signup: (
+                    <button className="adminLinkBtn" onClick={signup} disabled={busy || !email.trim() || !pw}>
+                      {t('staff.signup')}
+                    </button>
+                  )
+                })}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="backRow">
+        <button className="btn" onClick={() => nav(backTo)}>
+          {t('common.back')}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function useRaffleId() {
+  const { raffleId } = useParams()
+  return String(raffleId || '')
+}
+
+function useEntries(raffleId: string, total: number) {
+  const [entries, setEntries] = useState<Record<string, Entry | null>>({})
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    return repo.watchEntries(
+      raffleId,
+      (changes, reset) => {
+        if (!changes.length && !reset) return
+
+        // Só aplica o que mudou: com 5000 números, refazer o mapa a cada reserva pesa no celular.
+        setEntries((prev) => {
+          const map = reset ? {} : { ...prev }
+          for (const ch of changes) {
+            if (!/^\d+$/.test(ch.id)) continue
+            const n = Number(ch.id)
+            if (n < 1 || n > total) continue
+            if (ch.type === 'removed') delete map[ch.id]
+            else map[ch.id] = ch.data as Entry
+          }
+          return map
+        })
+      },
+      (err) => setError(errorMessage(err))
+    )
+  }, [raffleId, total])
+
+  return { entries, error, setError }
+}
+
+const GRID_PAGE = 100
+
+function NumberGrid(props: {
+  total: number
+  entries: Record<string, Entry | null>
+  selectedSet: Record<string, true>
+  onToggle: (n: number) => void
+  disabled?: boolean
+}) {
+  const { total, entries, selectedSet, onToggle, disabled } = props
+  const { t } = useI18n()
+  const [page, setPage] = useState(() => {
+    const first = Math.min(...Object.keys(selectedSet).map(Number).filter((n) => n >= 1))
+    return Number.isFinite(first) ? Math.floor((first - 1) / GRID_PAGE) : 0
+  })
+  const [jumpText, setJumpText] = useState('')
+  const [jumped, setJumped] = useState<number | null>(null)
+  const gridRef = useRef<HTMLDivElement>(null)
+
+  const pages = Math.max(1, Math.ceil(total / GRID_PAGE))
+  const safePage = Math.min(page, pages - 1)
+  const from = safePage * GRID_PAGE + 1
+  const to = Math.min(total, from + GRID_PAGE - 1)
+
+  const freeByPage = useMemo(() => {
+    const counts = new Array(pages).fill(0)
+    for (let i = 1; i <= total; i++) {
+      if (!entries[String(i)]) counts[Math.floor((i - 1) / GRID_PAGE)]++
+    }
+    return counts
+  }, [entries, total, pages])
+
+  const selectedCount = Object.keys(selectedSet).length
+
+  useEffect(() => {
+    if (jumped === null) return
+    const el = gridRef.current?.querySelector(`[data-n="${jumped}"]`)
+    el?.scrollIntoView({ block: 'nearest' })
+  }, [jumped, safePage])
+
+  function jump() {
+    const n = Math.floor(Number(jumpText))
+    if (!Number.isFinite(n) || n < 1 || n > total) return
+    setPage(Math.floor((n - 1) / GRID_PAGE))
+    setJumped(n)
+  }
+
+  const numbers: number[] = []
+  for (let n = from; n <= to; n++) numbers.push(n)
+
+  const jumpedTaken = jumped !== null && !!entries[String(jumped)]
+
+  return (
+    <div className="numberGrid">
+      <div className="gridTools">
+        <input
+          className="modalInput small gridJump"
+          value={jumpText}
+          onChange={(e) => setJumpText(e.target.value.replace(/\D/g, '').slice(0, 5))}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') jump()
+          }}
+          placeholder={t('grid.jumpPlaceholder')}
+          inputMode="numeric"
+          disabled={disabled}
+        />
+        <button className="btn" onClick={jump} disabled={disabled || !jumpText}>
+          {t('grid.jump')}
+        </button>
+        {selectedCount ? <span className="smallHint">{t('count.selected', { count: selectedCount })}</span> : null}
+        {jumpedTaken ? <span className="smallHint fieldError">{t('grid.jumpTaken', { n: jumped })}</span> : null}
+      </div>
+
+      {pages > 1 ? (
+        <div className="rangeTabs" role="tablist">
+          {freeByPage.map((free, i) => {
+            const a = i * GRID_PAGE + 1
+            const b = Math.min(total, a + GRID_PAGE - 1)
+            return (
+              <button
+                key={i}
+                role="tab"
+                aria-selected={i === safePage}
+                className={'rangeTab' + (i === safePage ? ' rangeTabOn' : '') + (free ? '' : ' rangeTabFull')}
+                onClick={() => setPage(i)}
+                title={t('count.free', { count: free })}
+              >
+                {a}–{b}
+              </button>
+            )
+          })}
+        </div>
+      ) : null}
+
+      <div className="badges" ref={gridRef}>
+        {numbers.map((n) => {
+          const taken = !!entries[String(n)]
+          const isSel = !!selectedSet[String(n)]
+          return (
+            <button
+              key={n}
+              data-n={n}
+              className={
+                'badge ' + (taken ? 'badgeTaken' : isSel ? 'badgeSel' : 'badgeFree') + (jumped === n ? ' badgeJump' : '')
+              }
+              onClick={() => onToggle(n)}
+              disabled={disabled || taken}
+              title={taken ? t('entry.reserved') : isSel ? t('grid.remove') : t('grid.select')}
+            >
+              {n}
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+// Renderiza a lista aos poucos (de 100 em 100) conforme o usuário rola até o fim.
+function useIncrementalRows<T>(list: T[], step = 100) {
+  const { t } = useI18n()
+  const [limitCount, setLimitCount] = useState(step)
+  const sentinelRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const el = sentinelRef.current
+    if (!el || limitCount >= list.length) return
+    const obs = new IntersectionObserver((items) => {
+      if (items.some((it) => it.isIntersecting)) setLimitCount((c) => c + step)
+    })
+    obs.observe(el)
+    return () => obs.disconnect()
+  }, [limitCount, list.length, step])
+
+  const visible = useMemo(() => list.slice(0, limitCount), [list, limitCount])
+  const sentinel = limitCount < list.length ? <div ref={sentinelRef} className="listMore">{t('common.loadingMore')}</div> : null
+
+  return { visible, sentinel }
+}
+
+function TitleBlock(props: { cfg: AppConfig; total: number }) {
+  const { cfg, total } = props
+  const { t, template, money } = useI18n()
+  const currency = currencyOf(cfg)
+  const packages = normalizePackages(cfg.pricePackages)
+
+  return (
+    <div className="titleBlock">
+      <div className="t1">
+        {cfg.headline?.trim()
+          ? cfg.headline.trim()
+          : fillNodes(template('title.headline'), { emph: <span className="emph">{t('title.headlineEmph')}</span> })}
+      </div>
+      {cfg.description?.trim() ? <div className="t2">{cfg.description.trim()}</div> : null}
+      <div className="t3">
+        {fillNodes(template('title.price'), {
+          price: <span className="price">{money(unitPrice(cfg), currency)}</span>,
+          total: <span className="emph">{t('count.numbers', { count: total })}</span>
+        })}
+      </div>
+      {packages.length ? (
+        <div className="t3">
+          {t('title.packages')}{' '}
+          {packages.map((p, i) => (
+            <span key={p.quantity}>
+              {i ? ', ' : ''}
+              {fillNodes(template('title.package'), {
+                quantity: <span className="emph">{t('count.numbers', { count: p.quantity })}</span>,
+                price: <span className="price">{money(p.price, currency)}</span>
+              })}
+            </span>
+          ))}
+          .
+        </div>
+      ) : null}
+    </div>
+  )
+}
+
+function SummaryCard(props: { cfg: AppConfig; stats: RaffleStats; chart: StatusChart; revenue: { received: number; toReceive: number }; onOpenImage: () => void }) {
+  const { cfg, stats, chart, revenue, onOpenImage } = props
+  const { t, money } = useI18n()
+  const currency = currencyOf(cfg)
+
+  return (
+    <div className="dashCard">
+      <div className="dashTop">
+        <div className="dashLeft">
+          <div className="sideTitle">{t('summary.title')}</div>
+
+          <div className="dashGrid">
+            <div className="dashRow">
+              <div>{t('summary.total')}</div>
+              <div className="val">{stats.total}</div>
+            </div>
+            <div className="dashRow">
+              <div>{t('summary.reserved')}</div>
+              <div className="val">{stats.reserved}</div>
+            </div>
+            <div className="dashRow">
+              <div>{t('summary.available')}</div>
+              <div className="val">{stats.available}</div>
+            </div>
+            <div className="dashRow">
+              <div>{t('summary.paid')}</div>
+              <div className="val">{stats.paid}</div>
+            </div>
+            <div className="dashRow">
+              <div>{t('summary.pending')}</div>
+              <div className="val">{stats.pending}</div>
+            </div>
+            <div className="dashRow">
+              <div>{t('summary.received')}</div>
+              <div className="val">{money(revenue.received, currency)}</div>
+            </div>
+            <div className="dashRow">
+              <div>{t('summary.toReceive')}</div>
+              <div className="val">{money(revenue.toReceive, currency)}</div>
+            </div>
+          </div>
+
+          <div className="chartTitle">{t('summary.chart')}</div>
+          <div className="bar">
+            <div className="seg free" style={{ width: `${chart.freePct}%` }} />
+            <div className="seg paid" style={{ width: `${chart.paidPct}%` }} />
+            <div className="seg pending" style={{ width: `${chart.pendingPct}%` }} />
+          </div>
+
+          <div className="legend">
+            <div className="leg">
+              <span className="dot free" /> {t('summary.free')} {chart.free}
+            </div>
+            <div className="leg">
+              <span className="dot paid" /> {t('summary.paid')} {chart.paid}
+            </div>
+            <div className="leg">
+              <span className="dot pending" /> {t('summary.pending')} {chart.pending}
+            </div>
+          </div>
+        </div>
+
+        <div className="dashRight">
+          <button className="photoWrapBtn" onClick={onOpenImage} title={t('summary.openImage')}>
+            <img className="photoImg" src="/image_rifa.jpeg" alt={t('summary.photoAlt')} />
+            <div className="photoHint">{t('summary.tapToZoom')}</div>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function PixPaymentCard(props: { title?: string; amount?: number; numbers?: number[]; txid?: string; raffleName?: string }) {
+  const { title, amount, numbers, txid, raffleName } = props
+  const { t } = useI18n()
+
+  const [copied, setCopied] = useState('')
+  const copiedTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
 
   useEffect(() => {
     return () => {
@@ -248,16 +1398,32 @@ function PixPaymentCard(props: { title?: string }) {
     }
   }, [])
 
+  const brCode = useMemo(() => {
+    if (!PIX_KEY || !amount || amount <= 0) return ''
+    try {
+      return buildPixPayload({
+        key: PIX_KEY,
+        name: PIX_NAME,
+        city: PIX_CITY,
+        amount,
+        txid: txid || buildPixTxid(numbers || []),
+        description: raffleName
+      })
+    } catch {
+      return ''
+    }
+  }, [amount, numbers, txid, raffleName])
+
   if (!PIX_KEY) return null
 
-  async function copyPix() {
+  async function copyText(text: string, label: string) {
     try {
-      await navigator.clipboard.writeText(PIX_KEY)
-      setCopied(true)
+      await navigator.clipboard.writeText(text)
+      setCopied(label)
       if (copiedTimer.current) clearTimeout(copiedTimer.current)
-      copiedTimer.current = setTimeout(() => setCopied(false), 1600)
+      copiedTimer.current = setTimeout(() => setCopied(''), 1600)
     } catch {
-      setCopied(false)
+      setCopied('')
     }
   }
 
@@ -266,38 +1432,55 @@ function PixPaymentCard(props: { title?: string }) {
       <div className="pixTop">
         <div className="pixTopLeft">
           <FaPix className="pixIcon" />
-          <div className="pixTitle">{title || 'Pagamento via Pix'}</div>
+          <div className="pixTitle">{title || t('pix.title')}</div>
         </div>
 
         {copied ? (
           <div className="pixCopied">
             <AiOutlineCheckCircle />
-            <span>Chave copiada</span>
+            <span>{copied}</span>
           </div>
         ) : null}
       </div>
 
       <div className="pixRows">
+        {brCode ? (
+          <div className="pixQrBlock">
+            <div className="pixQr">
+              <QRCodeSVG value={brCode} size={200} marginSize={2} />
+            </div>
+            <div className="pixRow">
+              <div className="pixLabel">{t('pix.copyPaste')}</div>
+              <div className="pixValue pixKeyLine">
+                <span className="pixMono pixBrCode">{brCode}</span>
+                <button className="pixCopyBtn" onClick={() => copyText(brCode, t('pix.codeCopied'))} title={t('pix.copyCode')}>
+                  {t('common.copy')}
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : null}
+
         <div className="pixRow">
-          <div className="pixLabel">Chave Pix</div>
+          <div className="pixLabel">{t('pix.key')}</div>
           <div className="pixValue pixKeyLine">
             <span className="pixMono">{PIX_KEY}</span>
-            <button className="pixCopyBtn" onClick={copyPix} title="Copiar chave Pix">
-              Copiar
+            <button className="pixCopyBtn" onClick={() => copyText(PIX_KEY, t('pix.keyCopied'))} title={t('pix.copyKey')}>
+              {t('common.copy')}
             </button>
           </div>
         </div>
 
         {PIX_NAME ? (
           <div className="pixRow">
-            <div className="pixLabel">Nome</div>
+            <div className="pixLabel">{t('pix.name')}</div>
             <div className="pixValue">{PIX_NAME}</div>
           </div>
         ) : null}
 
         {PIX_BANK ? (
           <div className="pixRow">
-            <div className="pixLabel">Banco</div>
+            <div className="pixLabel">{t('pix.bank')}</div>
             <div className="pixValue">{PIX_BANK}</div>
           </div>
         ) : null}
@@ -306,39 +1489,231 @@ function PixPaymentCard(props: { title?: string }) {
   )
 }
 
-function HeatBarCard(props: { total: number; entries: Record<string, Entry | null>; reserved: number; available: number }) {
-  const { total, entries, reserved, available } = props
-
-  const heat = useMemo(() => {
-    const bins = Math.min(90, Math.max(40, Math.round(total / 3)))
-    const size = Math.ceil(total / bins)
+function ProofUploadCard(props: { raffleId: string; numbers: number[]; name: string; buyerId?: string; orderId?: string }) {
+  const { raffleId, numbers, name, buyerId, orderId } = props
+  const { t } = useI18n()
+  const [busy, setBusy] = useState(false)
+  const [sent, setSent] = useState(false)
+  const [error, setError] = useState('')
 
-    const items: Array<{
-      i: number
-      start: number
-      end: number
-      count: number
-      ratio: number
-      color: string
-    }> = []
+  async function upload(file: File | undefined) {
+    if (!file || busy || !numbers.length) return
+    const problem = proofFileProblem(file)
+    if (problem) {
+      setError(problem === 'type' ? t('proof.badType') : t('proof.tooBig', { mb: PROOF_MAX_MB }))
+      return
+    }
 
-    for (let i = 0; i < bins; i++) {
-      const start = i * size + 1
-      const end = Math.min(total, (i + 1) * size)
-      if (start > end) break
+    setBusy(true)
+    setError('')
+    try {
+      const proofId = repo.newId(raffleId, 'proofs')
+      const path = proofStoragePath(raffleId, proofId, file.name)
+      await uploadBytes(storageRef(storage, path), file, { contentType: file.type })
+      await repo.transact(raffleId, async (tx) => {
+        tx.set(proofPath(proofId), {
+          numbers,
+          name,
+          ...(buyerId ? { buyerId } : {}),
+          ...(orderId ? { orderId } : {}),
+          path,
+          fileName: file.name,
+          contentType: file.type,
+          size: file.size,
+          status: 'pending',
+          createdAt: tx.now()
+        })
+      })
+      setSent(true)
+    } catch (e) {
+      setError(errorMessage(e))
+    } finally {
+      setBusy(false)
+    }
+  }
 
-      let count = 0
-      for (let n = start; n <= end; n++) {
-        if (entries[String(n)]) count++
-      }
+  return (
+    <div className="proofBox">
+      <div className="proofTitle">{t('proof.title')}</div>
+      {sent ? (
+        <div className="smallHint">{t('proof.sent')}</div>
+      ) : (
+        <>
+          <div className="smallHint">{t('proof.hint')}</div>
+          <label className={'btn proofPick' + (busy ? ' disabled' : '')}>
+            {busy ? t('proof.sending') : t('proof.choose')}
+            <input
+              type="file"
+              accept={PROOF_ACCEPT}
+              disabled={busy}
+              onChange={(e) => {
+                upload(e.target.files?.[0])
+                e.target.value = ''
+              }}
+            />
+          </label>
+        </>
+      )}
+      {error ? <div className="error">{error}</div> : null}
+    </div>
+  )
+}
 
-      const span = end - start + 1
-      const ratio = span ? count / span : 0
+type BoardFilter = 'all' | 'free' | 'mine' | 'paid'
 
-      const g = { r: 34, g: 197, b: 94 }
-      const y = { r: 251, g: 191, b: 36 }
+const BOARD_FILTER_LABELS: Record<BoardFilter, MessageKey> = {
+  all: 'board.all',
+  free: 'board.free',
+  mine: 'board.mine',
+  paid: 'board.paid'
+}
 
-      const rr = Math.round(g.r + (y.r - g.r) * ratio)
+function NumberBoardCard(props: {
+  total: number
+  entries: Record<string, Entry | null>
+  showNames: boolean
+  nameMode: NameDisplay
+  myBuyerId: string
+  onPickFree: (n: number) => void
+}) {
+  const { total, entries, nameMode, myBuyerId, onPickFree } = props
+  const showNames = props.showNames && nameMode !== 'hidden'
+  const { t } = useI18n()
+  const [filter, setFilter] = useState<BoardFilter>('all')
+  const [page, setPage] = useState(0)
+
+  const numbers = useMemo(() => {
+    const list: number[] = []
+    for (let n = 1; n <= total; n++) {
+      const e = entries[String(n)]
+      if (filter === 'free' && e) continue
+      if (filter === 'paid' && !e?.paid) continue
+      if (filter === 'mine' && (!e || !myBuyerId || e.buyerId !== myBuyerId)) continue
+      list.push(n)
+    }
+    return list
+  }, [entries, total, filter, myBuyerId])
+
+  const pages = Math.max(1, Math.ceil(numbers.length / GRID_PAGE))
+  const safePage = Math.min(page, pages - 1)
+  const pageNumbers = numbers.slice(safePage * GRID_PAGE, (safePage + 1) * GRID_PAGE)
+
+  function changeFilter(f: BoardFilter) {
+    setFilter(f)
+    setPage(0)
+  }
+
+  return (
+    <div className="listCard">
+      <div className="listTitle">
+        <span>{t('board.title')}</span>
+        <span className="boardLegend">
+          <span className="boardDot boardFree" /> {t('entry.free')}
+          <span className="boardDot boardPending" /> {t('entry.reserved')}
+          <span className="boardDot boardPaid" /> {t('entry.paid')}
+        </span>
+      </div>
+
+      <div className="boardFilters">
+        {(Object.keys(BOARD_FILTER_LABELS) as BoardFilter[]).map((f) => (
+          <button
+            key={f}
+            className={'rangeTab' + (filter === f ? ' rangeTabOn' : '')}
+            onClick={() => changeFilter(f)}
+            disabled={f === 'mine' && !myBuyerId}
+            title={f === 'mine' && !myBuyerId ? t('board.mineHint') : undefined}
+          >
+            {t(BOARD_FILTER_LABELS[f])}
+          </button>
+        ))}
+      </div>
+
+      {pages > 1 ? (
+        <div className="rangeTabs boardPages">
+          {Array.from({ length: pages }, (_, i) => {
+            const part = numbers.slice(i * GRID_PAGE, (i + 1) * GRID_PAGE)
+            return (
+              <button
+                key={i}
+                className={'rangeTab' + (i === safePage ? ' rangeTabOn' : '')}
+                onClick={() => setPage(i)}
+              >
+                {part[0]}–{part[part.length - 1]}
+              </button>
+            )
+          })}
+        </div>
+      ) : null}
+
+      {pageNumbers.length ? (
+        <div className={'board' + (showNames ? ' boardNamed' : '')}>
+          {pageNumbers.map((n) => {
+            const e = entries[String(n)]
+            const state = !e ? 'boardFree' : e.paid ? 'boardPaid' : 'boardPending'
+            const mine = !!e && !!myBuyerId && e.buyerId === myBuyerId
+            return (
+              <button
+                key={n}
+                className={'boardCell ' + state + (mine ? ' boardMine' : '')}
+                onClick={() => (!e ? onPickFree(n) : undefined)}
+                disabled={!!e}
+                title={
+                  !e
+                    ? t('board.freeHint')
+                    : showNames
+                      ? displayName(e.name, nameMode, t('entry.reserved'))
+                      : e.paid
+                        ? t('entry.paid')
+                        : t('entry.reserved')
+                }
+              >
+                <span className="boardNum">{n}</span>
+                {showNames && e ? <span className="boardName">{displayName(e.name, nameMode, t('entry.reserved'))}</span> : null}
+              </button>
+            )
+          })}
+        </div>
+      ) : (
+        <div className="empty">{t('board.empty')}</div>
+      )}
+    </div>
+  )
+}
+
+function HeatBarCard(props: { total: number; entries: Record<string, Entry | null>; reserved: number; available: number }) {
+  const { total, entries, reserved, available } = props
+  const { t } = useI18n()
+
+  const heat = useMemo(() => {
+    const bins = Math.min(90, Math.max(40, Math.round(total / 3)))
+    const size = Math.ceil(total / bins)
+
+    const items: Array<{
+      i: number
+      start: number
+      end: number
+      count: number
+      ratio: number
+      color: string
+    }> = []
+
+    for (let i = 0; i < bins; i++) {
+      const start = i * size + 1
+      const end = Math.min(total, (i + 1) * size)
+      if (start > end) break
+
+      let count = 0
+      for (let n = start; n <= end; n++) {
+        if (entries[String(n)]) count++
+      }
+
+      const span = end - start + 1
+      const ratio = span ? count / span : 0
+
+      const g = { r: 34, g: 197, b: 94 }
+      const y = { r: 251, g: 191, b: 36 }
+
+      const rr = Math.round(g.r + (y.r - g.r) * ratio)
       const gg = Math.round(g.g + (y.g - g.g) * ratio)
       const bb = Math.round(g.b + (y.b - g.b) * ratio)
 
@@ -364,7 +1739,7 @@ function HeatBarCard(props: { total: number; entries: Record<string, Entry | nul
   return (
     <div className="heatBarCard">
       <div className="heatBarHead">
-        <div className="heatBarTitle">Regiões Com Mais Reservas</div>
+        <div className="heatBarTitle">{t('heat.title')}</div>
       </div>
 
       <div className="heatBarWrap">
@@ -374,8 +1749,8 @@ function HeatBarCard(props: { total: number; entries: Record<string, Entry | nul
               key={b.i}
               className="heatSeg"
               style={{ backgroundColor: b.color }}
-              title={`${b.start} a ${b.end}: ${b.count} reservado(s)`}
-              aria-label={`${b.start} a ${b.end}: ${b.count} reservados`}
+              title={t('heat.range', { from: b.start, to: b.end, count: b.count })}
+              aria-label={t('heat.range', { from: b.start, to: b.end, count: b.count })}
             />
           ))}
         </div>
@@ -394,28 +1769,170 @@ function HeatBarCard(props: { total: number; entries: Record<string, Entry | nul
 
         <div className="heatLegendRow">
           <div className="heatLegendLeft">
-            <span className="heatWordGreen">Menos reservado</span>
+            <span className="heatWordGreen">{t('heat.less')}</span>
           </div>
           <div className="heatLegendBar" aria-hidden="true" />
           <div className="heatLegendRight">
-            <span className="heatWordYellow">Mais reservado</span>
+            <span className="heatWordYellow">{t('heat.more')}</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function PrizesCard(props: {
+  prizes: Prize[]
+  winners: number[]
+  entries: Record<string, Entry | null>
+  nameMode?: NameDisplay
+}) {
+  const { prizes, winners, entries, nameMode = 'full' } = props
+  const { t } = useI18n()
+
+  return (
+    <div className="listCard prizesCard">
+      <div className="listTitle">
+        <span>{t('prizes.title')}</span>
+        <span className="smallHint">
+          {t('prizes.drawn', { done: Math.min(winners.length, prizes.length), total: prizes.length })}
+        </span>
+      </div>
+
+      <div className="listHead prizes">
+        <div className="lh center">{t('prizes.order')}</div>
+        <div className="lh">{t('prizes.prize')}</div>
+        <div className="lh center">{t('prizes.winner')}</div>
+      </div>
+
+      <div className="listBody">
+        {prizes.map((p, i) => {
+          const w = winners[i]
+          const wName = w && nameMode !== 'hidden' ? displayName(entries[String(w)]?.name || '', nameMode) : ''
+          return (
+            <div key={i} className="listRow prizes">
+              <div className="lc num center">{t('prize.position', { n: i + 1 })}</div>
+              <div className="lc prizeCell">
+                {p.imageUrl ? <img className="prizeThumb" src={p.imageUrl} alt={p.title || t('prizes.prize')} /> : null}
+                <div className="prizeText">
+                  <div className="prizeTitle">{p.title || t('prizes.prize')}</div>
+                  {p.description ? <div className="smallHint">{p.description}</div> : null}
+                </div>
+              </div>
+              <div className={'lc center ' + (w ? 'mpTextPaid' : '')}>
+                {w ? (wName ? `${w} (${wName})` : String(w)) : '-'}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+function RafflePickerPage() {
+  const nav = useNavigate()
+  const { raffles, loaded, rafflesError } = useRaffles()
+  const { t, date } = useI18n()
+  const [search, setSearch] = useState('')
+
+  const filteredRaffles = useMemo(() => {
+    const q = search.trim().toLowerCase()
+    const published = raffles.filter((r) => normalizeStatus(r.status) !== 'draft')
+    if (!q) return published
+    return published.filter((r) => String(r.raffleName || r.id).toLowerCase().includes(q))
+  }, [raffles, search])
+
+  return (
+    <div className="page">
+      <div className="topCard">
+        <div className="brandRow">
+          <div className="brandOnly">{t('picker.brand')}</div>
+
+          <div style={{ display: 'flex', gap: 10, alignItems: 'center' }}>
+            <LanguageSwitcher />
+            <button
+              className="adminIconBtn"
+              onClick={() => nav('/meus-numeros')}
+              title={t('nav.myNumbers')}
+              aria-label={t('nav.myNumbers')}
+            >
+              <FaTicketAlt />
+            </button>
+            <button
+              className="adminIconBtn"
+              onClick={() => nav('/admin')}
+              title={t('nav.manageRaffles')}
+              aria-label={t('nav.manageRaffles')}
+            >
+              <IoIosSettings />
+            </button>
           </div>
         </div>
+
+        {rafflesError ? <div className="error">{rafflesError}</div> : null}
+      </div>
+
+      <div className="listCard">
+        <div className="listTitle">
+          <span>{t('picker.title')}</span>
+          <span className="smallHint">{t('common.total', { count: filteredRaffles.length })}</span>
+        </div>
+
+        <div style={{ padding: 12 }}>
+          <div className="modalLabel" style={{ marginBottom: 5 }}>{t('picker.search')}</div>
+          <input
+            className="modalInput"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t('common.filterPlaceholder')}
+          />
+        </div>
+
+        <div className="mpNames rafflePicker">
+          {filteredRaffles.length ? (
+            filteredRaffles.map((r) => (
+              <button key={r.id} className="mpNameBtn" onClick={() => nav(rafflePath(r.id))} title={r.raffleName || r.id}>
+                <span className="mpNameText">{r.raffleName || r.id}</span>
+                <span className="mpNameCount">
+                  {r.resultNumber
+                    ? t('picker.drawn')
+                    : r.drawDate
+                      ? date(r.drawDate)
+                      : t('count.numbers', { count: clampTotal(r.totalNumbers ?? 200) })}
+                </span>
+              </button>
+            ))
+          ) : (
+            <div className="empty">{loaded ? t('picker.empty') : t('common.loading')}</div>
+          )}
+        </div>
       </div>
     </div>
   )
 }
 
 function HomePage() {
-  const { cfg, cfgError } = useConfig()
+  const raffleId = useRaffleId()
+  const { cfg, cfgError, cfgMissing } = useConfig(raffleId)
   const total = clampTotal(cfg.totalNumbers ?? 200)
-  const { entries, error, setError } = useEntries(total)
+  const { entries: publicEntries, error, setError } = useEntries(raffleId, total)
+  const holdHours = clampHoldHours(cfg.holdHours)
+  const now = useNow(holdHours ? 1000 : 60_000)
+  const { roles } = useAuth()
+  const isStaff = hasRole(roles, 'seller')
+  const nameMode: NameDisplay = isStaff ? 'full' : nameDisplayOf(cfg.nameDisplay)
+  const holders = useHolders(raffleId, isStaff)
+  const entries = useMemo(() => withHolderNames(publicEntries, holders), [publicEntries, holders])
+  const i18n = useI18n(cfg.locale)
+  const { t, money } = i18n
 
   const [busy, setBusy] = useState(false)
 
   const [modalOpen, setModalOpen] = useState(false)
   const [modalStep, setModalStep] = useState<ModalStep>('pick')
   const [modalName, setModalName] = useState('')
+  const [modalContact, setModalContact] = useState('')
   const [selectedSet, setSelectedSet] = useState<Record<string, true>>({})
 
   const [imageOpen, setImageOpen] = useState(false)
@@ -424,10 +1941,17 @@ function HomePage() {
   const [homeSearch, setHomeSearch] = useState('')
 
   const [payOpen, setPayOpen] = useState(false)
-  const [payAmount, setPayAmount] = useState<number>(0)
-  const [payCount, setPayCount] = useState<number>(0)
-
-  const lastWinnerKeyRef = useRef('')
+  const [payQuote, setPayQuote] = useState<PriceQuote | null>(null)
+  const [payNumbers, setPayNumbers] = useState<number[]>([])
+  const [paySwapNote, setPaySwapNote] = useState('')
+  const [payName, setPayName] = useState('')
+  const [payOrderId, setPayOrderId] = useState('')
+  const [luckyCount, setLuckyCount] = useState('1')
+  const [luckyPicked, setLuckyPicked] = useState(false)
+  const [myBuyerId, setMyBuyerId] = useState(() => knownBuyerId(normalizeContact(readLastContact())))
+  const [payUntil, setPayUntil] = useState(0)
+
+  const seenWinnerKeysRef = useRef<Record<string, true>>({})
 
   const LAST_NAME_KEY = 'rifa_last_name'
 
@@ -435,23 +1959,39 @@ function HomePage() {
     if (cfgError) setError(cfgError)
   }, [cfgError, setError])
 
-  const winnerNumber = useMemo(() => {
-    return normalizeWinnerNumber(cfg.resultNumber)
-  }, [cfg.resultNumber])
+  // Durante o giro ao vivo o resultado já está gravado, mas a página espera o telão revelar.
+  const liveDraw = useLiveDraw(raffleId)
+  const winners = useMemo(() => (liveDraw.phase === 'spinning' ? [] : normalizeWinnerList(cfg)), [cfg, liveDraw.phase])
+  const prizes = useMemo(() => prizeList(cfg), [cfg])
+
+  const winnerNumber = winners[0] || null
+
+  const salesCloseAt = timeToMs(cfg.salesCloseAt)
+  const status = raffleStatusOf(cfg, now)
+  const salesClosed = !acceptsReservations(status)
 
   const winnerName = useMemo(() => {
-    if (!winnerNumber) return ''
+    if (!winnerNumber || nameMode === 'hidden') return ''
     const e = entries[String(winnerNumber)]
-    return String(e?.name || '').trim()
-  }, [entries, winnerNumber])
+    return displayName(e?.name || '', nameMode)
+  }, [entries, winnerNumber, nameMode])
 
   useEffect(() => {
-    if (!winnerNumber) return
-    const key = `${winnerNumber}|${winnerName}`
-    if (key === lastWinnerKeyRef.current) return
-    lastWinnerKeyRef.current = key
-    fireWinnerConfetti()
-  }, [winnerNumber, winnerName])
+    const fresh = winners.filter((n, i) => !seenWinnerKeysRef.current[`${i}|${n}`])
+    if (!fresh.length) return
+
+    const timers: Array<ReturnType<typeof setTimeout>> = []
+    winners.forEach((n, i) => {
+      const key = `${i}|${n}`
+      if (seenWinnerKeysRef.current[key]) return
+      seenWinnerKeysRef.current[key] = true
+      timers.push(setTimeout(fireWinnerConfetti, timers.length * 900))
+    })
+
+    return () => {
+      for (const t of timers) clearTimeout(t)
+    }
+  }, [winners])
 
   useEffect(() => {
     const open = modalOpen || imageOpen || payOpen
@@ -470,103 +2010,64 @@ function HomePage() {
     }
   }, [modalOpen, imageOpen, payOpen])
 
-  const stats = useMemo(() => {
-    const totalN = total
-    let reserved = 0
-    let paid = 0
+  const stats = useMemo(() => raffleStats(entries, total), [entries, total])
 
-    for (let i = 1; i <= totalN; i++) {
-      const e = entries[String(i)]
-      if (e) {
-        reserved++
-        if (e.paid) paid++
-      }
-    }
+  const currency = currencyOf(cfg)
 
-    const available = totalN - reserved
-    const pending = reserved - paid
-    const pctReserved = totalN ? reserved / totalN : 0
-    const pctPaidOfReserved = reserved ? paid / reserved : 0
+  const chart = useMemo(() => statusChart(stats), [stats])
 
-    return { total: totalN, reserved, available, paid, pending, pctReserved, pctPaidOfReserved }
-  }, [entries, total])
+  const reservations = useMemo(() => reservationList(entries, total), [entries, total])
 
-  const chart = useMemo(() => {
-    const free = stats.available
-    const paid = stats.paid
-    const pending = stats.pending
-    const sum = free + paid + pending || 1
-    return {
-      free,
-      paid,
-      pending,
-      freePct: (free / sum) * 100,
-      paidPct: (paid / sum) * 100,
-      pendingPct: (pending / sum) * 100
-    }
-  }, [stats])
-
-  const reservations = useMemo(() => {
-    const list: Array<{ n: number; e: Entry }> = []
-    for (let i = 1; i <= total; i++) {
-      const e = entries[String(i)]
-      if (e) list.push({ n: i, e })
-    }
-    return list
-  }, [entries, total])
+  const revenue = useMemo(() => revenueStats(reservations, cfg), [reservations, cfg])
 
   const filteredReservations = useMemo(() => {
     const q = homeSearch.trim().toLowerCase()
     if (!q) return reservations
     return reservations.filter((x) => {
-      const nm = String(x.e?.name || '').toLowerCase()
+      const nm = nameMode === 'hidden' ? '' : displayName(x.e?.name || '', nameMode).toLowerCase()
       const num = String(x.n)
       return nm.includes(q) || num.includes(q)
     })
-  }, [reservations, homeSearch])
+  }, [reservations, homeSearch, nameMode])
+  const { visible: visibleReservations, sentinel: reservationsSentinel } = useIncrementalRows(filteredReservations)
 
-  const availableNumbers = useMemo(() => {
-    const list: number[] = []
-    for (let i = 1; i <= total; i++) {
-      if (!entries[String(i)]) list.push(i)
-    }
-    return list
-  }, [entries, total])
+  const availableNumbers = useMemo(() => availableNumbersOf(entries, total), [entries, total])
 
-  const selectedNumbers = useMemo(() => {
-    return Object.keys(selectedSet)
-      .map((k) => Number(k))
-      .filter((n) => Number.isInteger(n) && n >= 1 && n <= total)
-      .sort((a, b) => a - b)
-  }, [selectedSet, total])
+  const selectedNumbers = useMemo(() => selectedNumbersOf(selectedSet, total), [selectedSet, total])
 
-  function readLastName() {
+  const modalContactParsed = useMemo(() => normalizeContact(modalContact), [modalContact])
+
+  function readStored(key: string) {
     try {
-      return String(localStorage.getItem(LAST_NAME_KEY) || '').trim()
+      return String(localStorage.getItem(key) || '').trim()
     } catch {
       return ''
     }
   }
 
-  function writeLastName(name: string) {
+  function writeStored(key: string, value: string) {
     try {
-      const v = String(name || '').trim()
+      const v = String(value || '').trim()
       if (!v) {
-        localStorage.removeItem(LAST_NAME_KEY)
+        localStorage.removeItem(key)
         return
       }
-      localStorage.setItem(LAST_NAME_KEY, v)
+      localStorage.setItem(key, v)
     } catch {
+      // Sem localStorage (aba anônima, cota cheia): só não lembra o valor.
     }
   }
 
-  function openModal() {
+  function openModal(preselect?: number) {
+    if (salesClosed) return
     setError('')
     setBusy(false)
     setModalOpen(true)
     setModalStep('pick')
-    setModalName(readLastName())
-    setSelectedSet({})
+    setModalName(readStored(LAST_NAME_KEY))
+    setModalContact(maskContactInput(readStored(LAST_CONTACT_KEY)))
+    setSelectedSet(preselect ? { [String(preselect)]: true } : {})
+    setLuckyPicked(false)
   }
 
   function closeModal() {
@@ -574,11 +2075,18 @@ function HomePage() {
     setModalOpen(false)
     setModalStep('pick')
     setModalName('')
+    setModalContact('')
     setSelectedSet({})
+    setLuckyPicked(false)
   }
 
   function toggleSelect(n: number) {
     const k = String(n)
+    if (!selectedSet[k] && selectedNumbers.length >= MAX_PUBLIC_RESERVE) {
+      setError(t('reserve.tooMany', { max: MAX_PUBLIC_RESERVE }))
+      return
+    }
+    setLuckyPicked(false)
     setSelectedSet((prev) => {
       const next = { ...prev }
       if (next[k]) delete next[k]
@@ -587,338 +2095,2172 @@ function HomePage() {
     })
   }
 
+  function pickLucky() {
+    const count = Math.min(MAX_PUBLIC_RESERVE, Math.max(1, Math.floor(Number(luckyCount) || 1)))
+    const next: Record<string, true> = {}
+    for (const n of pickRandomNumbers(availableNumbers, count)) next[String(n)] = true
+    setSelectedSet(next)
+    setLuckyPicked(true)
+  }
+
   function canGoNext() {
     if (!modalName.trim()) return false
+    if (!modalContactParsed) return false
     if (!selectedNumbers.length) return false
     return true
   }
 
   function closePayModal() {
     setPayOpen(false)
-    setPayAmount(0)
-    setPayCount(0)
+    setPayQuote(null)
+    setPayNumbers([])
+    setPayOrderId('')
+    setPaySwapNote('')
+    setPayUntil(0)
   }
 
   async function confirmReserve() {
     const name = modalName.trim()
+    const contact = modalContactParsed
     const nums = selectedNumbers.slice()
-    if (!name || !nums.length) return
+    if (!name || !contact || !nums.length) return
+    if (nums.length > MAX_PUBLIC_RESERVE) {
+      setError(t('reserve.tooMany', { max: MAX_PUBLIC_RESERVE }))
+      return
+    }
+    if (salesClosed) {
+      setError(t(STATUS_CLOSED_KEYS[status]))
+      return
+    }
 
     setBusy(true)
     setError('')
 
     try {
-      await runTransaction(db, async (tx) => {
-        for (const n of nums) {
-          const ref = doc(db, 'entries', String(n))
-          const snap = await tx.get(ref)
-          if (snap.exists()) throw new Error(`RESERVED:${n}`)
-        }
-
-        for (const n of nums) {
-          const ref = doc(db, 'entries', String(n))
-          tx.set(ref, { name, paid: false, reservedAt: serverTimestamp() })
-        }
+      const buyerId = buyerIdForContact(contact)
+      setMyBuyerId(buyerId)
+
+      const { numbers: finalNums, orderId } = await reserveNumbers(repo, raffleId, nums, {
+        name,
+        nameDisplay: nameDisplayOf(cfg.nameDisplay),
+        paid: false,
+        buyer: { id: buyerId, contact },
+        actor: { kind: 'buyer', name, buyerId },
+        action: 'reserve',
+        pricing: cfg,
+        ...(luckyPicked ? { spares: pickRandomNumbers(availableNumbers, availableNumbers.length) } : {})
       })
 
-      writeLastName(name)
+      writeStored(LAST_NAME_KEY, name)
+      writeStored(LAST_CONTACT_KEY, contact.value)
 
-      const count = nums.length
-      const amount = count * PRICE_PER_NUMBER
+      const quote = quotePrice(finalNums.length, cfg)
+      const { lost, gained } = swapDiff(nums, finalNums)
 
       setBusy(false)
       closeModal()
 
-      setPayCount(count)
-      setPayAmount(amount)
+      setPayQuote(quote)
+      setPayNumbers(finalNums)
+      setPayName(name)
+      setPayOrderId(orderId)
+      setPaySwapNote(
+        lost.length ? t('pay.swapped', { count: lost.length, lost: lost.join(', '), gained: gained.join(', ') }) : ''
+      )
+      setPayUntil(holdHours ? Date.now() + holdHours * 3600_000 : 0)
       setPayOpen(true)
-    } catch (e: any) {
-      const msg = String(e?.message || e)
-      if (msg.startsWith('RESERVED:')) {
-        const n = msg.split(':')[1] || ''
-        setError(`O número ${n} foi reservado por outra pessoa. Escolha outro.`)
-      } else {
-        setError(msg)
-      }
+    } catch (e) {
+      setError(reserveErrorMessage(e, i18n))
       setBusy(false)
     }
   }
 
-  return (
-    <div className="page">
-      <div className="topCard">
-        <div className="brandRow">
-          <div className="brandOnly">{cfg.raffleName || 'Rifa'}</div>
+  if (cfgMissing) {
+    return (
+      <div className="page">
+        <div className="topCard">
+          <div className="brandOnly">{t('home.raffle')}</div>
+          <div className="error">{t('home.notFound')}</div>
+        </div>
 
-          <button
-            className="adminIconBtn"
-            onClick={() => nav('/admin')}
-            title="Configurações"
-            aria-label="Configurações"
-          >
-            <IoIosSettings />
+        <div className="backRow">
+          <button className="btn" onClick={() => nav('/')}>
+            {t('home.seeAll')}
           </button>
         </div>
-
-        <TitleBlock />
-        {error ? <div className="error">{error}</div> : null}
       </div>
+    )
+  }
 
-      <button className="reserveBtn" onClick={openModal} title="Nova reserva">
-        <span className="reserveBtnText">Reservar rifa</span>
-        <span className="reserveBtnPlus">+</span>
-      </button>
-
-      <div className="resultBox resultBoxTop">
-        <div className="resultBigLabel">{winnerNumber ? 'Vencedor' : 'Resultado'}</div>
-        <div className="resultBigValue">
-          {winnerNumber
-            ? winnerName
-              ? `${winnerNumber} (${winnerName})`
-              : String(winnerNumber)
-            : cfg.drawDate
-              ? formatDateBR(cfg.drawDate)
-              : '-'}
-        </div>
-      </div>
+  return (
+    <LocaleScope locale={cfg.locale}>
+      <div className="page">
+        <div className="topCard">
+          <div className="brandRow">
+            <div className="brandOnly">{cfg.raffleName || t('home.raffle')}</div>
 
-      <PixPaymentCard title="Pagamento" />
+            <div style={{ display: 'flex', gap: 10, alignItems: 'center' }}>
+              <LanguageSwitcher />
+              <button className="adminIconBtn" onClick={() => nav('/')} title={t('nav.allRaffles')} aria-label={t('nav.allRaffles')}>
+                <FaHome />
+              </button>
+              <button
+                className="adminIconBtn"
+                onClick={() => nav('/meus-numeros')}
+                title={t('nav.myNumbers')}
+                aria-label={t('nav.myNumbers')}
+              >
+                <FaTicketAlt />
+              </button>
+              <button
+                className="adminIconBtn"
+                onClick={() => nav(rafflePath(raffleId, '/admin'))}
+                title={t('nav.settings')}
+                aria-label={t('nav.settings')}
+              >
+                <IoIosSettings />
+              </button>
+            </div>
+          </div>
 
-      <SummaryCard cfg={cfg} stats={stats} chart={chart} onOpenImage={() => setImageOpen(true)} />
+          <TitleBlock cfg={cfg} total={total} />
+          {error ? <div className="error">{error}</div> : null}
+        </div>
 
-      <HeatBarCard total={total} entries={entries} reserved={stats.reserved} available={stats.available} />
+        <button
+          className="reserveBtn"
+          onClick={() => openModal()}
+          title={salesClosed ? t(STATUS_CLOSED_KEYS[status]) : t('home.newReservation')}
+          disabled={salesClosed}
+        >
+          <span className="reserveBtnText">{t(STATUS_CLOSED_KEYS[status])}</span>
+          <span className="reserveBtnPlus">{salesClosed ? '×' : '+'}</span>
+        </button>
+        {salesCloseAt && !salesClosed ? (
+          <div className="smallHint salesUntil">{t('home.salesUntil', { time: i18n.when(salesCloseAt) })}</div>
+        ) : null}
 
-      <div className="listCard">
-        <div className="listTitle">
-          <span>Reservas realizadas</span>
-          <span className="smallHint">Total: {filteredReservations.length}</span>
+        <div className="resultBox resultBoxTop">
+          <div className="resultBigLabel">
+            {winnerNumber
+              ? prizes.length > 1
+                ? t('home.winnerOf', { prize: prizeOrdinal(0, i18n) })
+                : t('prizes.winner')
+              : t('home.result')}
+          </div>
+          <div className="resultBigValue">
+            {winnerNumber
+              ? winnerName
+                ? `${winnerNumber} (${winnerName})`
+                : String(winnerNumber)
+              : cfg.drawAt
+                ? i18n.when(cfg.drawAt)
+                : cfg.drawDate
+                  ? i18n.date(cfg.drawDate)
+                  : '-'}
+          </div>
+          {cfg.drawCommitment?.hash ? (
+            <div className="drawProof">
+              <span className="smallHint mono" title={cfg.drawCommitment.hash}>
+                {cfg.draw?.seed ? t('home.seedRevealed') : t('home.commitment')}: {shortHash(cfg.drawCommitment.hash)}
+              </span>
+              <button className="adminLinkBtn" onClick={() => nav(rafflePath(raffleId, '/verify'))}>
+                {t('home.verifyDraw')}
+              </button>
+            </div>
+          ) : null}
         </div>
 
-        <div style={{ padding: 12 }}>
-          <div className="modalLabel" style={{ marginBottom: 5 }}>Buscar por número ou nome</div>
-          <input
-            className="modalInput"
-            value={homeSearch}
-            onChange={(e) => setHomeSearch(e.target.value)}
-            placeholder="Digite para filtrar"
-          />
-        </div>
+        {prizes.length > 1 || cfg.prizes?.length ? <PrizesCard prizes={prizes} winners={winners} entries={entries} nameMode={nameMode} /> : null}
 
-        <div className="listHead home">
-          <div className="lh center">Número</div>
-          <div className="lh">Nome</div>
-          <div className="lh center">Reserva em</div>
-          <div className="lh center">Pagamento</div>
-        </div>
+        <PixPaymentCard title={t('pix.payment')} />
 
-        <div className="listBody">
-          {filteredReservations.length ? (
-            filteredReservations.map(({ n, e }) => {
-              const paid = !!e.paid
-              return (
-                <div key={n} className="listRow home">
-                  <div className="lc num center">{n}</div>
-                  <div className="lc nameCell" title={e.name}>
-                    {e.name}
-                  </div>
-                  <div className="lc whenCell center mono">{formatWhen(e.reservedAt)}</div>
-                  <div className="lc payCell center">
-                    <div className={'payPill ' + (paid ? 'pillPaid' : 'pillPending')}>
-                      <TbBrandCashapp className={'cashIcon ' + (paid ? 'cashPaid' : 'cashPending')} />
-                      <span className="payText">{paid ? 'Pago' : 'Não Pago'}</span>
+        <SummaryCard cfg={cfg} stats={stats} chart={chart} revenue={revenue} onOpenImage={() => setImageOpen(true)} />
+
+        <HeatBarCard total={total} entries={entries} reserved={stats.reserved} available={stats.available} />
+
+        <NumberBoardCard
+          total={total}
+          entries={entries}
+          showNames={!!cfg.boardShowNames}
+          nameMode={nameMode}
+          myBuyerId={myBuyerId}
+          onPickFree={(n) => openModal(n)}
+        />
+
+        <div className="listCard">
+          <div className="listTitle">
+            <span>{t('home.reservations')}</span>
+            <span className="smallHint">{t('common.total', { count: filteredReservations.length })}</span>
+          </div>
+
+          <div style={{ padding: 12 }}>
+            <div className="modalLabel" style={{ marginBottom: 5 }}>
+              {nameMode === 'hidden' ? t('home.searchNumber') : t('home.searchNumberOrName')}
+            </div>
+            <input
+              className="modalInput"
+              value={homeSearch}
+              onChange={(e) => setHomeSearch(e.target.value)}
+              placeholder={t('common.filterPlaceholder')}
+            />
+          </div>
+
+          <div className="listHead home">
+            <div className="lh center">{t('home.colNumber')}</div>
+            <div className="lh">{t('home.colName')}</div>
+            <div className="lh center">{t('home.colReservedAt')}</div>
+            <div className="lh center">{t('home.colPayment')}</div>
+          </div>
+
+          <div className="listBody">
+            {filteredReservations.length ? (
+              visibleReservations.map(({ n, e }) => {
+                const paid = !!e.paid
+                return (
+                  <div key={n} className="listRow home">
+                    <div className="lc num center">{n}</div>
+                    <div className="lc nameCell" title={displayName(e.name, nameMode, t('entry.reserved'))}>
+                      {displayName(e.name, nameMode, t('entry.reserved'))}
+                    </div>
+                    <div className="lc whenCell center mono">
+                      {i18n.when(e.reservedAt)}
+                      <HoldTag e={e} holdHours={holdHours} now={now} />
+                    </div>
+                    <div className="lc payCell center">
+                      <div className={'payPill ' + (paid ? 'pillPaid' : 'pillPending')}>
+                        <TbBrandCashapp className={'cashIcon ' + (paid ? 'cashPaid' : 'cashPending')} />
+                        <span className="payText">{paid ? t('entry.paid') : t('entry.unpaid')}</span>
+                      </div>
                     </div>
                   </div>
-                </div>
-              )
-            })
-          ) : (
-            <div className="empty">Nenhuma reserva encontrada</div>
-          )}
+                )
+              })
+            ) : (
+              <div className="empty">{t('home.empty')}</div>
+            )}
+            {reservationsSentinel}
+          </div>
         </div>
+
+        {imageOpen ? (
+          <div className="modalOverlay" onMouseDown={() => setImageOpen(false)}>
+            <div className="imgModal" onMouseDown={(e) => e.stopPropagation()}>
+              <button className="imgClose" onClick={() => setImageOpen(false)} aria-label={t('common.close')}>
+                ×
+              </button>
+              <img className="imgFull" src="/image_rifa.jpeg" alt={t('summary.photoZoomedAlt')} />
+            </div>
+          </div>
+        ) : null}
+
+        {payOpen ? (
+          <div className="modalOverlay" onMouseDown={closePayModal}>
+            <div className="modalCard payModal" onMouseDown={(e) => e.stopPropagation()}>
+              <div className="modalHead">
+                <div className="modalTitle">{t('pay.confirmed')}</div>
+                <button className="modalClose" onClick={closePayModal} aria-label={t('common.close')}>
+                  ×
+                </button>
+              </div>
+
+              <div className="modalBody">
+                {payOrderId ? (
+                  <div className="payOrderBox">
+                    <span className="payAmountLabel">{t('pay.order')}</span>
+                    <span className="payOrderId mono">{payOrderId}</span>
+                    <span className="smallHint">{t('pay.orderHint')}</span>
+                  </div>
+                ) : null}
+
+                <div className="payAmountBox">
+                  <div className="payAmountLabel">{t('pay.amount')}</div>
+                  <div className="payAmountValue">{money(payQuote?.amount || 0, currency)}</div>
+                  <div className="payAmountHint">{payQuote ? describeQuote(payQuote, currency, i18n) : ''}</div>
+                </div>
+
+                {paySwapNote ? <div className="payHoldBox">{paySwapNote}</div> : null}
+
+                {payUntil ? (
+                  <div className="payHoldBox">
+                    {payUntil > now
+                      ? fillNodes(i18n.template('pay.deadline'), {
+                          time: <span className="mono">{formatCountdown(payUntil - now)}</span>
+                        })
+                      : t('pay.deadlinePassed')}
+                  </div>
+                ) : null}
+
+                <PixPaymentCard
+                  title={t('pix.details')}
+                  amount={currency === 'BRL' ? payQuote?.amount : undefined}
+                  numbers={payNumbers}
+                  txid={payOrderId}
+                  raffleName={cfg.raffleName}
+                />
+                {!PIX_KEY ? (
+                  <div className="hint" style={{ marginTop: 10 }}>
+                    {t('pix.missingKey')}
+                  </div>
+                ) : null}
+
+                <ProofUploadCard raffleId={raffleId} numbers={payNumbers} name={payName} buyerId={myBuyerId} orderId={payOrderId} />
+              </div>
+
+              <div className="modalActions">
+                <button className="btnPrimary btnPrimaryWide" onClick={closePayModal}>
+                  {t('common.ok')}
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : null}
+
+        {modalOpen ? (
+          <div className="modalOverlay" onMouseDown={closeModal}>
+            <div className="modalCard" onMouseDown={(e) => e.stopPropagation()}>
+              <div className="modalHead">
+                <div className="modalTitle">{modalStep === 'pick' ? t('home.newReservation') : t('reserve.confirmTitle')}</div>
+                <button className="modalClose" onClick={closeModal} aria-label={t('common.close')}>
+                  ×
+                </button>
+              </div>
+
+              {modalStep === 'pick' ? (
+                <div className="modalBody">
+                  <div className="nameRow">
+                    <div className="modalLabel">{t('reserve.yourName')}</div>
+                    <input
+                      className="modalInput small"
+                      value={modalName}
+                      onChange={(e) => setModalName(e.target.value)}
+                      placeholder={t('reserve.namePlaceholder')}
+                      disabled={busy}
+                    />
+                  </div>
+
+                  <div className="nameRow">
+                    <div className="modalLabel">{t('reserve.contact')}</div>
+                    <input
+                      className="modalInput small"
+                      value={modalContact}
+                      onChange={(e) => setModalContact(maskContactInput(e.target.value))}
+                      placeholder={t('reserve.contactPlaceholder')}
+                      inputMode={/[@a-zA-Z]/.test(modalContact) ? 'email' : 'tel'}
+                      autoComplete="tel"
+                      disabled={busy}
+                    />
+                    {modalContact.trim() && !modalContactParsed ? (
+                      <div className="smallHint fieldError">{t('reserve.contactInvalid')}</div>
+                    ) : null}
+                  </div>
+
+                  <div className="luckyRow">
+                    <div className="modalLabel">{t('reserve.lucky')}</div>
+                    <input
+                      className="modalInput small luckyCount"
+                      value={luckyCount}
+                      onChange={(e) => setLuckyCount(e.target.value.replace(/\D/g, '').slice(0, 4))}
+                      inputMode="numeric"
+                      aria-label={t('reserve.luckyCount')}
+                      disabled={busy}
+                    />
+                    <button className="btn" onClick={pickLucky} disabled={busy || !availableNumbers.length}>
+                      {luckyPicked ? t('reserve.luckyAgain') : t('reserve.luckyPick')}
+                    </button>
+                  </div>
+
+                  <div className="modalLabel">{t('reserve.orPick')}</div>
+
+                  <NumberGrid
+                    total={total}
+                    entries={entries}
+                    selectedSet={selectedSet}
+                    onToggle={toggleSelect}
+                    disabled={busy}
+                  />
+                </div>
+              ) : (
+                <div className="modalBody">
+                  <div className="reviewBlock">
+                    <div className="reviewLine">
+                      <span className="reviewLabel">{t('reserve.name')}</span>
+                      <span className="reviewValue">{modalName.trim()}</span>
+                    </div>
+
+                    <div className="reviewLine">
+                      <span className="reviewLabel">{t('reserve.contactShort')}</span>
+                      <span className="reviewValue">{formatContact(modalContactParsed)}</span>
+                    </div>
+
+                    <div className="reviewLine">
+                      <span className="reviewLabel">{t('reserve.numbers')}</span>
+                      <span className="reviewValue">{selectedNumbers.join(', ')}</span>
+                    </div>
+                  </div>
+
+                  <div className="hint">
+                    {luckyPicked ? t('reserve.luckySwapHint') : t('reserve.takenHint')} {t('reserve.lookupHint')}
+                  </div>
+                </div>
+              )}
+
+              <div className="modalActions">
+                <button className="btn" onClick={closeModal} disabled={busy}>
+                  {t('common.cancel')}
+                </button>
+
+                {modalStep === 'pick' ? (
+                  <button className="btnPrimary" onClick={() => setModalStep('review')} disabled={busy || !canGoNext()}>
+                    {t('common.next')}
+                  </button>
+                ) : (
+                  <>
+                    <button className="btn" onClick={() => setModalStep('pick')} disabled={busy}>
+                      {t('common.back')}
+                    </button>
+                    <button className="btnPrimary" onClick={confirmReserve} disabled={busy}>
+                      {t('common.confirm')}
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        ) : null}
+      </div>
+    </LocaleScope>
+  )
+}
+
+function RafflesAdminPage() {
+  const nav = useNavigate()
+  const { raffles, rafflesError } = useRaffles()
+  const { user, roles } = useAuth()
+  const isDataAdmin = hasRole(roles, 'data-admin')
+  const now = useNow(60_000)
+  const i18n = useI18n()
+  const { t } = i18n
+
+  const [staff, setStaff] = useState<StaffUser[]>([])
+  const [staffBusy, setStaffBusy] = useState<Record<string, true>>({})
+
+  const [error, setError] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  const [newName, setNewName] = useState('')
+  const [newId, setNewId] = useState('')
+  const [newTotal, setNewTotal] = useState('200')
+  const [newDrawDate, setNewDrawDate] = useState('')
+  const [progress, setProgress] = useState('')
+
+  const suggestedId = slugifyRaffleId(newId || newName)
+
+  useEffect(() => {
+    if (!isDataAdmin) return
+    return repo.watchUsers(
+      (docs) => {
+        const list: StaffUser[] = docs.map((d) => ({
+          uid: d.id,
+          email: String(d.data.email || ''),
+          roles: (d.data.roles || []) as Role[]
+        }))
+        list.sort((a, b) => String(a.email).localeCompare(String(b.email), 'pt-BR'))
+        setStaff(list)
+      },
+      (err) => setError(errorMessage(err))
+    )
+  }, [isDataAdmin])
+
+  function logout() {
+    signOut(auth)
+    setError('')
+  }
+
+  async function toggleStaffRole(u: StaffUser, role: Role) {
+    if (staffBusy[u.uid]) return
+    const current = u.roles || []
+    const next = current.includes(role) ? current.filter((r) => r !== role) : current.concat(role)
+
+    setStaffBusy((prev) => ({ ...prev, [u.uid]: true }))
+    setError('')
+    try {
+      await repo.setUserRoles(u.uid, next)
+    } catch (e) {
+      setError(errorMessage(e))
+    } finally {
+      setStaffBusy((prev) => {
+        const copy = { ...prev }
+        delete copy[u.uid]
+        return copy
+      })
+    }
+  }
+
+  async function createRaffle() {
+    const raffleName = newName.trim()
+    const raffleId = suggestedId
+    if (!raffleName) {
+      setError(t('raffles.nameRequired'))
+      return
+    }
+    if (!raffleId) {
+      setError(t('raffles.idInvalid'))
+      return
+    }
+
+    setBusy(true)
+    setError('')
+
+    try {
+      await repo.transact(raffleId, async (tx) => {
+        if (await tx.get('')) throw new Error(`EXISTS:${raffleId}`)
+
+        tx.set('', {
+          raffleName,
+          totalNumbers: clampTotal(newTotal),
+          drawDate: newDrawDate.trim(),
+          status: 'draft',
+          resultNumber: null,
+          createdAt: tx.now()
+        })
+      })
+
+      setBusy(false)
+      nav(rafflePath(raffleId, '/admin'))
+    } catch (e) {
+      const msg = errorMessage(e)
+      if (msg.startsWith('EXISTS:')) {
+        setError(t('raffles.exists', { id: raffleId }))
+      } else {
+        setError(msg)
+      }
+      setBusy(false)
+    }
+  }
+
+  // Uma vez só, na migração: usa o identificador do formulário e o nome de app/config (ou o digitado).
+  async function importLegacy() {
+    const raffleId = suggestedId
+    if (!raffleId) {
+      setError(t('raffles.idInvalid'))
+      return
+    }
+
+    setBusy(true)
+    setError('')
+    try {
+      await importLegacyRaffle(raffleId, newName.trim() || raffleId, staffActor(user), i18n, setProgress)
+      setProgress('')
+      setBusy(false)
+      nav(rafflePath(raffleId, '/admin'))
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e)
+      if (msg.startsWith('EXISTS:')) setError(t('raffles.exists', { id: raffleId }))
+      else if (msg === 'LEGACY_MISSING') setError(t('raffles.legacyMissing'))
+      else setError(msg)
+      setProgress('')
+      setBusy(false)
+    }
+  }
+
+  if (!hasRole(roles, 'admin')) {
+    return <StaffGate brand={t('raffles.brand')} title={t('role.admin')} role="admin" backTo="/" />
+  }
+
+  return (
+    <div className="page">
+      <div className="topCard">
+        <div className="brandRow">
+          <div className="brandOnly">{t('raffles.brand')}</div>
+          <div style={{ display: 'flex', gap: 10, alignItems: 'center' }}>
+            <LanguageSwitcher />
+            <button className="adminIconBtn" onClick={() => nav('/')} title={t('staff.home')} aria-label={t('staff.home')}>
+              <FaHome />
+            </button>
+            <button className="adminLinkBtn" onClick={logout}>
+              {t('staff.logout')}
+            </button>
+          </div>
+        </div>
+
+        <div className="adminPanel">
+          <div className="adminPanelTitle">{t('raffles.newTitle')}</div>
+
+          {error || rafflesError ? <div className="error">{error || rafflesError}</div> : null}
+
+          <div className="adminGrid">
+            <div className="adminField">
+              <div className="adminLabel">{t('raffles.name')}</div>
+              <input className="adminInput" value={newName} onChange={(e) => setNewName(e.target.value)} disabled={busy} />
+            </div>
+
+            <div className="adminField">
+              <div className="adminLabel">{t('raffles.id')}</div>
+              <input
+                className="adminInput"
+                value={newId}
+                onChange={(e) => setNewId(e.target.value)}
+                placeholder={slugifyRaffleId(newName) || t('raffles.idPlaceholder')}
+                disabled={busy}
+              />
+              <div className="smallHint">{suggestedId ? rafflePath(suggestedId) : t('raffles.idHint')}</div>
+            </div>
+
+            <div className="adminField">
+              <div className="adminLabel">{t('raffles.total')}</div>
+              <input
+                className="adminInput"
+                value={newTotal}
+                onChange={(e) => setNewTotal(e.target.value)}
+                inputMode="numeric"
+                disabled={busy}
+              />
+            </div>
+
+            <div className="adminField">
+              <div className="adminLabel">{t('raffles.drawDate')}</div>
+              <input
+                className="adminInput"
+                type="date"
+                value={newDrawDate}
+                onChange={(e) => setNewDrawDate(e.target.value)}
+                onClick={(e) => e.currentTarget.showPicker?.()}
+                disabled={busy}
+              />
+            </div>
+          </div>
+
+          <div className="adminButtons">
+            <button className="btnPrimary" onClick={createRaffle} disabled={busy}>
+              {t('raffles.create')}
+            </button>
+            {isDataAdmin ? (
+              <button className="btn" onClick={importLegacy} disabled={busy} title={t('raffles.importLegacyHint')}>
+                {t('raffles.importLegacy')}
+              </button>
+            ) : null}
+          </div>
+          {progress ? <div className="smallHint">{progress}</div> : null}
+        </div>
+      </div>
+
+      <div className="listCard">
+        <div className="listTitle">
+          <span>{t('raffles.list')}</span>
+          <span className="smallHint">{t('common.total', { count: raffles.length })}</span>
+        </div>
+
+        <div className="mpNames rafflePicker">
+          {raffles.length ? (
+            raffles.map((r) => (
+              <button
+                key={r.id}
+                className="mpNameBtn"
+                onClick={() => nav(rafflePath(r.id, '/admin'))}
+                title={r.raffleName || r.id}
+              >
+                <span className="mpNameText">{r.raffleName || r.id}</span>
+                <span className="mpNameCount">
+                  {t(STATUS_LABELS[raffleStatusOf(r, now)])} · {r.id}
+                </span>
+              </button>
+            ))
+          ) : (
+            <div className="empty">{t('raffles.empty')}</div>
+          )}
+        </div>
+      </div>
+
+      {isDataAdmin ? (
+        <div className="listCard" style={{ marginTop: 14 }}>
+          <div className="listTitle">
+            <span>{t('raffles.staff')}</span>
+            <span className="smallHint">{t('common.total', { count: staff.length })}</span>
+          </div>
+
+          <div className="listHead staff">
+            <div className="lh">{t('staff.email')}</div>
+            {ALL_ROLES.map((r) => (
+              <div key={r} className="lh center">
+                {t(ROLE_LABELS[r])}
+              </div>
+            ))}
+          </div>
+
+          <div className="listBody">
+            {staff.length ? (
+              staff.map((u) => (
+                <div key={u.uid} className="listRow staff">
+                  <div className="lc nameCell" title={u.uid}>
+                    {u.email || u.uid}
+                  </div>
+                  {ALL_ROLES.map((r) => (
+                    <div key={r} className="lc center">
+                      <input
+                        type="checkbox"
+                        checked={!!u.roles?.includes(r)}
+                        onChange={() => toggleStaffRole(u, r)}
+                        disabled={!!staffBusy[u.uid] || (u.uid === user?.uid && r === 'data-admin')}
+                        aria-label={t('raffles.roleFor', { role: t(ROLE_LABELS[r]), user: u.email || u.uid })}
+                      />
+                    </div>
+                  ))}
+                </div>
+              ))
+            ) : (
+              <div className="empty">{t('raffles.noStaff')}</div>
+            )}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  )
+}
+
+type ImportRow = { line: number; n: number; e: Entry }
+
+type ImportConflict = { n: number; incoming: Entry; live: Entry }
+
+type ImportPlan = {
+  fileName: string
+  fresh: ImportRow[]
+  same: number
+  conflicts: ImportConflict[]
+  issues: string[]
+}
+
+const SHEET_HEADER = ['Número', 'Nome', 'Pago', 'Reservado em']
+
+function plainKey(v: string) {
+  return String(v || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase()
+}
+
+function formatSheetDate(v: unknown) {
+  const ms = timeToMs(v)
+  if (!ms) return ''
+  const d = new Date(ms)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`
+}
+
+function parseSheetDate(v: string): Date | null | undefined {
+  const raw = String(v || '').trim()
+  if (!raw) return null
+  if (/^\d+(\.\d+)?$/.test(raw) && Number(raw) > 20000) return excelSerialToDate(Number(raw))
+  const br = raw.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:,?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/)
+  if (br) {
+    const [, dd, mm, yyyy, hh = '0', mi = '0', ss = '0'] = br
+    const d = new Date(Number(yyyy), Number(mm) - 1, Number(dd), Number(hh), Number(mi), Number(ss))
+    return Number.isNaN(d.getTime()) ? undefined : d
+  }
+  const d = new Date(raw.replace(' ', 'T'))
+  return Number.isNaN(d.getTime()) ? undefined : d
+}
+
+function parseSheetPaid(v: string): boolean | undefined {
+  const k = plainKey(v)
+  if (!k || ['nao', 'n', 'no', 'false', '0', 'nao pago', 'pendente'].includes(k)) return false
+  if (['sim', 's', 'yes', 'y', 'true', '1', 'pago', 'x', 'ok'].includes(k)) return true
+  return undefined
+}
+
+function entriesToSheetRows(list: Array<{ n: number; e: Entry }>): SheetRows {
+  return [SHEET_HEADER as SheetRows[number]].concat(
+    list.map(({ n, e }) => [n, e.name, e.paid ? 'sim' : 'não', formatSheetDate(e.reservedAt)])
+  )
+}
+
+function sheetColumns(header: string[]) {
+  const cols = { number: -1, name: -1, paid: -1, reservedAt: -1 }
+  header.forEach((h, i) => {
+    const k = plainKey(h)
+    if (cols.number < 0 && ['numero', 'number', 'n', 'no', 'nº', 'n°'].includes(k)) cols.number = i
+    else if (cols.name < 0 && ['nome', 'name', 'comprador'].includes(k)) cols.name = i
+    else if (cols.paid < 0 && ['pago', 'paid', 'pagamento', 'status'].includes(k)) cols.paid = i
+    else if (cols.reservedAt < 0 && ['reservado em', 'reserva em', 'reservedat', 'data'].includes(k)) cols.reservedAt = i
+  })
+  return cols
+}
+
+function planEntriesImport(
+  fileName: string,
+  rows: string[][],
+  total: number,
+  live: Record<string, Entry | null>,
+  isAdmin: boolean,
+  i18n: I18n
+): ImportPlan {
+  const { t } = i18n
+  const issues: string[] = []
+  const fresh: ImportRow[] = []
+  const conflicts: ImportConflict[] = []
+  let same = 0
+
+  const headerCols = rows.length ? sheetColumns(rows[0]) : null
+  const hasHeader = !!headerCols && headerCols.number >= 0 && headerCols.name >= 0
+  const cols = hasHeader && headerCols ? headerCols : { number: 0, name: 1, paid: 2, reservedAt: 3 }
+  const seen = new Map<number, number>()
+
+  rows.slice(hasHeader ? 1 : 0).forEach((r, idx) => {
+    const line = idx + (hasHeader ? 2 : 1)
+    const cell = (i: number) => (i >= 0 ? String(r[i] ?? '').trim() : '')
+
+    const rawNumber = cell(cols.number)
+    const n = Number(rawNumber)
+    if (!/^\d+$/.test(rawNumber) || n < 1 || n > total) {
+      issues.push(t('sheet.issueRange', { line, value: rawNumber, total }))
+      return
+    }
+
+    const name = cell(cols.name)
+    if (!name) {
+      issues.push(t('sheet.issueName', { line, n }))
+      return
+    }
+
+    const paid = parseSheetPaid(cell(cols.paid))
+    if (paid === undefined) {
+      issues.push(t('sheet.issuePaid', { line, value: cell(cols.paid) }))
+      return
+    }
+    if (paid && !isAdmin) {
+      issues.push(t('sheet.issuePaidAdmin', { line, n }))
+      return
+    }
+
+    const when = parseSheetDate(cell(cols.reservedAt))
+    if (when === undefined) {
+      issues.push(t('sheet.issueDate', { line, value: cell(cols.reservedAt) }))
+      return
+    }
+
+    const prevLine = seen.get(n)
+    if (prevLine) {
+      issues.push(t('sheet.issueRepeated', { line, n, prev: prevLine }))
+      return
+    }
+    seen.set(n, line)
+
+    const e: Entry = { name, paid, reservedAt: when }
+    const current = live[String(n)]
+    if (!current) fresh.push({ line, n, e })
+    else if (String(current.name || '').trim() === name && !!current.paid === paid) same++
+    else conflicts.push({ n, incoming: e, live: current })
+  })
+
+  return { fileName, fresh, same, conflicts, issues }
+}
+
+// Cada linha importada grava o entry e o holder, e cada lote um evento de auditoria: 224 linhas são 449 escritas.
+const IMPORT_CHUNK = 224
+
+function EntriesSheetCard(props: {
+  raffleId: string
+  raffleName: string
+  total: number
+  entries: Record<string, Entry | null>
+  nameDisplay: NameDisplay
+  isAdmin: boolean
+}) {
+  const { raffleId, raffleName, total, entries, nameDisplay, isAdmin } = props
+  const { user } = useAuth()
+  const i18n = useI18n()
+  const { t } = i18n
+  const fileRef = useRef<HTMLInputElement>(null)
+  const [busy, setBusy] = useState(false)
+  const [progress, setProgress] = useState('')
+  const [error, setError] = useState('')
+  const [rows, setRows] = useState<{ fileName: string; rows: string[][] } | null>(null)
+  const [overwrite, setOverwrite] = useState(false)
+
+  const plan = useMemo(
+    () => (rows ? planEntriesImport(rows.fileName, rows.rows, total, entries, isAdmin, i18n) : null),
+    [rows, total, entries, isAdmin, i18n]
+  )
+
+  function exportName(ext: string) {
+    const d = new Date()
+    const pad = (n: number) => String(n).padStart(2, '0')
+    return `${raffleId}-reservas-${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}.${ext}`
+  }
+
+  function currentList() {
+    const list: Array<{ n: number; e: Entry }> = []
+    for (let i = 1; i <= total; i++) {
+      const e = entries[String(i)]
+      if (e) list.push({ n: i, e })
+    }
+    return list
+  }
+
+  function exportCsv() {
+    downloadFile(exportName('csv'), toCsv(entriesToSheetRows(currentList())), CSV_MIME)
+  }
+
+  function exportXlsx() {
+    const data = buildXlsx(entriesToSheetRows(currentList()), raffleName || t('sheet.sheetName'))
+    downloadFile(exportName('xlsx'), data as BlobPart, XLSX_MIME)
+  }
+
+  async function onPickFile(file: File | undefined) {
+    if (!file) return
+    setError('')
+    setProgress('')
+    setOverwrite(false)
+    try {
+      const isXlsx = /\.xlsx$/i.test(file.name)
+      const parsed = isXlsx ? parseXlsx(new Uint8Array(await file.arrayBuffer())) : parseCsv(await file.text())
+      if (!parsed.length) throw new Error(t('sheet.empty'))
+      setRows({ fileName: file.name, rows: parsed })
+    } catch (e) {
+      setRows(null)
+      setError(errorMessage(e))
+    } finally {
+      if (fileRef.current) fileRef.current.value = ''
+    }
+  }
+
+  async function runImport() {
+    if (!rows || busy) return
+
+    setBusy(true)
+    setError('')
+    setProgress(t('sheet.checking'))
+
+    try {
+      const [entryDocs, holderDocs] = await Promise.all([
+        repo.listEntries(raffleId),
+        repo.listCollection(raffleId, 'holders')
+      ])
+      const stored: Record<string, Entry | null> = {}
+      for (const d of entryDocs) stored[d.id] = d.data as Entry
+      const holders: Record<string, Holder> = {}
+      for (const d of holderDocs) holders[d.id] = d.data as Holder
+      const live = withHolderNames(stored, holders)
+
+      const fresh = planEntriesImport(rows.fileName, rows.rows, total, live, isAdmin, i18n)
+      const canOverwrite = overwrite && isAdmin
+      const items: ImportRow[] = fresh.fresh.concat(
+        canOverwrite ? fresh.conflicts.map((c) => ({ line: 0, n: c.n, e: c.incoming })) : []
+      )
+
+      const totalChunks = Math.ceil(items.length / IMPORT_CHUNK)
+      let imported = 0
+      // Números reservados por outra pessoa entre a conferência e a gravação do lote.
+      const late: number[] = []
+
+      for (let i = 0; i < items.length; i += IMPORT_CHUNK) {
+        const chunkIndex = Math.floor(i / IMPORT_CHUNK) + 1
+        setProgress(t('sheet.importingChunk', { done: chunkIndex, total: totalChunks }))
+
+        const part = items.slice(i, i + IMPORT_CHUNK)
+        const result = await repo.transact(raffleId, async (tx) => {
+          const current = await readEntries(tx, part.map((x) => x.n))
+          const write = part.filter((x) => canOverwrite || !current[String(x.n)])
+          const conflicts = part.filter((x) => !write.includes(x)).map((x) => x.n)
+
+          for (const x of write) {
+            const reservedAt = x.e.reservedAt || tx.now()
+            tx.set(entryPath(x.n), { name: publicEntryName(x.e.name, nameDisplay), paid: x.e.paid, reservedAt })
+            tx.set(holderPath(x.n), { name: x.e.name })
+          }
+          if (write.length) {
+            const byNumber = new Map(write.map((x) => [x.n, x.e]))
+            const nums = write.map((x) => x.n)
+            writeAudit(tx, {
+              actor: staffActor(user),
+              action: 'import',
+              numbers: nums,
+              before: auditEntries(nums, (n) => current[String(n)]),
+              after: auditEntries(nums, (n) => byNumber.get(n))
+            })
+          }
+          return { written: write.length, conflicts }
+        })
+        imported += result.written
+        late.push(...result.conflicts)
+      }
+
+      const skipped = (canOverwrite ? 0 : fresh.conflicts.length) + late.length
+      setProgress(
+        t('sheet.imported', { imported, same: fresh.same, skipped, issues: fresh.issues.length }) +
+          (late.length ? ' ' + t('sheet.importedLate', { numbers: late.join(', ') }) : '')
+      )
+      setRows(null)
+      setOverwrite(false)
+    } catch (e) {
+      setProgress('')
+      setError(errorMessage(e))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const toWrite = plan ? plan.fresh.length + (overwrite && isAdmin ? plan.conflicts.length : 0) : 0
+
+  return (
+    <div className="listCard">
+      <div className="listTitle">
+        <span>{t('sheet.title')}</span>
+        <span className="smallHint">{t('sheet.hint')}</span>
+      </div>
+
+      <div style={{ padding: 12 }}>
+        {error ? <div className="error">{error}</div> : null}
+
+        <div className="adminButtons sheetButtons">
+          <button className="btn" onClick={exportCsv} disabled={busy}>
+            {t('sheet.exportCsv')}
+          </button>
+          <button className="btn" onClick={exportXlsx} disabled={busy}>
+            {t('sheet.exportXlsx')}
+          </button>
+          <button className="btnPrimary" onClick={() => fileRef.current?.click()} disabled={busy}>
+            {t('sheet.import')}
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            style={{ display: 'none' }}
+            onChange={(e) => onPickFile(e.target.files?.[0])}
+          />
+        </div>
+
+        {progress ? <div className="smallHint" style={{ marginTop: 8 }}>{progress}</div> : null}
+
+        {plan ? (
+          <div className="importPreview">
+            <div className="adminLabel">{plan.fileName}</div>
+            <div className="smallHint">
+              {t('sheet.planSummary', {
+                fresh: plan.fresh.length,
+                same: plan.same,
+                conflicts: plan.conflicts.length,
+                issues: plan.issues.length
+              })}
+            </div>
+
+            {plan.conflicts.length ? (
+              <div className="importList">
+                <div className="modalLabel">{t('sheet.conflicts')}</div>
+                {plan.conflicts.map((c) => (
+                  <div key={c.n} className="importLine">
+                    <span className="mono">{c.n}</span>{' '}
+                    {t('sheet.conflictLine', {
+                      incoming: describeRestoreEntry(c.incoming, i18n),
+                      live: describeRestoreEntry(c.live, i18n)
+                    })}
+                  </div>
+                ))}
+                <label className="checkRow">
+                  <input
+                    type="checkbox"
+                    checked={overwrite}
+                    onChange={(e) => setOverwrite(e.target.checked)}
+                    disabled={busy || !isAdmin}
+                  />
+                  <span>{t(isAdmin ? 'sheet.overwrite' : 'sheet.overwriteAdminOnly')}</span>
+                </label>
+              </div>
+            ) : null}
+
+            {plan.issues.length ? (
+              <div className="importList">
+                <div className="modalLabel">{t('sheet.skippedLines')}</div>
+                {plan.issues.map((msg, i) => (
+                  <div key={i} className="importLine importIssue">
+                    {msg}
+                  </div>
+                ))}
+              </div>
+            ) : null}
+
+            <div className="adminButtons">
+              <button className="btn" onClick={() => setRows(null)} disabled={busy}>
+                {t('common.cancel')}
+              </button>
+              <button className="btnPrimary" onClick={runImport} disabled={busy || !toWrite}>
+                {busy ? t('sheet.importing') : t('sheet.importCount', { count: toWrite })}
+              </button>
+            </div>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  )
+}
+
+function auditActorLabel(a: AuditActor | undefined, i18n: I18n) {
+  if (!a) return '-'
+  if (a.kind === 'system') return i18n.t('audit.actorSystem')
+  if (a.kind === 'buyer') return i18n.t('audit.actorBuyer', { name: a.name || i18n.t('audit.buyer') })
+  return a.email || a.uid || i18n.t('audit.actorStaff')
+}
+
+function describeAuditValue(v: unknown, i18n: I18n) {
+  if (v === null || v === undefined) return i18n.t('audit.free')
+  if (typeof v === 'object' && 'paid' in v) {
+    const name = 'name' in v ? String(v.name) : ''
+    return `${name} (${i18n.t(v.paid ? 'audit.paid' : 'audit.unpaid')})`
+  }
+  return JSON.stringify(v)
+}
+
+function shortAuditJson(v: unknown) {
+  const text = v === null || v === undefined ? '-' : typeof v === 'string' ? v : JSON.stringify(v)
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text
+}
+
+function describeAuditChange(ev: AuditEvent, focus: number | null, i18n: I18n) {
+  const { t } = i18n
+  const before = ev.before || {}
+  const after = ev.after || {}
+  const list = (v: unknown) => (Array.isArray(v) ? v.join(', ') : '') || '-'
+  const text = (v: unknown) => String(v ?? '') || '-'
+
+  if (ev.action === 'config') {
+    return Object.keys(after)
+      .map((k) => `${k}: ${shortAuditJson(before[k])} → ${shortAuditJson(after[k])}`)
+      .join(' · ')
+  }
+  if (ev.action === 'commit') return `hash ${shortHash(String(after.hash || ''))}`
+  if (ev.action === 'draw') return t('audit.winners', { numbers: list(after.winners) })
+  if (ev.action === 'reset-draw') {
+    const previous = t('audit.previousWinners', { numbers: list(before.winners) })
+    return after.reason ? `${previous} · ${t('audit.reason', { reason: text(after.reason) })}` : previous
+  }
+  if (ev.action === 'status') return `${text(before.status)} → ${text(after.status)}`
+  if (ev.action === 'proof-reject') return t('audit.proofOf', { name: text(before.name), numbers: ev.numbers.join(', ') })
+
+  const nums = focus !== null ? [focus] : ev.numbers
+  const lines = nums
+    .slice(0, 5)
+    .map((n) => `${n}: ${describeAuditValue(before[String(n)], i18n)} → ${describeAuditValue(after[String(n)], i18n)}`)
+  if (nums.length > 5) lines.push(`+${nums.length - 5}`)
+  const suffix =
+    ev.action === 'restore' && after.backup
+      ? ` (${t('audit.fromBackup', { name: text(after.backup) })})`
+      : ev.action === 'pay' && after.proof
+        ? ` (${t('audit.fromProof')})`
+        : after.order
+          ? ` (${t(after.refund !== undefined ? 'audit.orderRefund' : 'audit.order', { order: text(after.order), refund: String(after.refund ?? '') })})`
+          : ''
+  return lines.join(' · ') + suffix
+}
+
+function AuditHistoryCard(props: { raffleId: string }) {
+  const { raffleId } = props
+  const i18n = useI18n()
+  const { t } = i18n
+  const [events, setEvents] = useState<AuditEvent[]>([])
+  const [error, setError] = useState('')
+  const [search, setSearch] = useState('')
+  const [action, setAction] = useState<AuditAction | ''>('')
+
+  const focus = /^\d+$/.test(search.trim()) ? Number(search.trim()) : null
+
+  // Com um número no filtro, a consulta já vem só com os eventos dele: a linha do tempo de um número
+  // em disputa não pode sumir atrás dos 500 eventos mais recentes da rifa.
+  useEffect(() => {
+    const q: CollectionQuery = { orderBy: ['at', 'desc'], limit: 500 }
+    if (focus !== null) q.where = ['numbers', 'array-contains', focus]
+    return repo.watchCollection(
+      raffleId,
+      'audit',
+      q,
+      (docs) => {
+        setEvents(
+          docs.map((d) => {
+            const data = d.data as Omit<AuditEvent, 'id'>
+            return { ...data, id: d.id, numbers: (data.numbers || []).map(Number) }
+          })
+        )
+      },
+      (err) => setError(errorMessage(err))
+    )
+  }, [raffleId, focus])
+
+  const filtered = useMemo(() => {
+    const q = search.trim().toLowerCase()
+    return events.filter((ev) => {
+      if (action && ev.action !== action) return false
+      if (!q) return true
+      if (focus !== null) return ev.numbers.includes(focus)
+      const actor = auditActorLabel(ev.actor, i18n).toLowerCase()
+      const label = AUDIT_LABELS[ev.action] ? t(AUDIT_LABELS[ev.action]) : ev.action
+      return actor.includes(q) || label.toLowerCase().includes(q)
+    })
+  }, [events, search, action, focus, i18n, t])
+
+  return (
+    <div className="listCard">
+      <div className="listTitle">
+        <span>{focus !== null ? t('audit.titleNumber', { n: focus }) : t('audit.title')}</span>
+        <span className="smallHint">{t('common.total', { count: filtered.length })}</span>
+      </div>
+
+      <div className="auditFilters">
+        <div className="nameRow">
+          <div className="modalLabel">{t('audit.search')}</div>
+          <input
+            className="modalInput"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t('audit.searchPlaceholder')}
+          />
+        </div>
+        <div className="nameRow">
+          <div className="modalLabel">{t('audit.action')}</div>
+          <select className="modalInput" value={action} onChange={(e) => setAction(e.target.value as AuditAction | '')}>
+            <option value="">{t('audit.allActions')}</option>
+            {(Object.keys(AUDIT_LABELS) as AuditAction[]).map((a) => (
+              <option key={a} value={a}>
+                {t(AUDIT_LABELS[a])}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error ? <div className="error">{error}</div> : null}
+
+      <div className="listHead audit">
+        <div className="lh">{t('audit.when')}</div>
+        <div className="lh">{t('audit.who')}</div>
+        <div className="lh">{t('audit.action')}</div>
+        <div className="lh">{t('audit.change')}</div>
+      </div>
+
+      <div className="listBody">
+        {filtered.length ? (
+          filtered.map((ev) => (
+            <div key={ev.id} className="listRow audit">
+              <div className="lc mono">{i18n.when(ev.at)}</div>
+              <div className="lc nameCell" title={auditActorLabel(ev.actor, i18n)}>
+                {auditActorLabel(ev.actor, i18n)}
+              </div>
+              <div className="lc">{AUDIT_LABELS[ev.action] ? t(AUDIT_LABELS[ev.action]) : ev.action}</div>
+              <div className="lc auditChange">{describeAuditChange(ev, focus, i18n)}</div>
+            </div>
+          ))
+        ) : (
+          <div className="empty">{t('audit.empty')}</div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function TrashCard(props: {
+  raffleId: string
+  entries: Record<string, Entry | null>
+  holders: Record<string, Holder>
+  retentionDays: number
+}) {
+  const { raffleId, entries, holders, retentionDays } = props
+  const { user } = useAuth()
+  const i18n = useI18n()
+  const { t } = i18n
+  const [items, setItems] = useState<TrashItem[]>([])
+  const [selected, setSelected] = useState<Record<string, true>>({})
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    return repo.watchCollection(
+      raffleId,
+      'trash',
+      { orderBy: ['deletedAt', 'desc'] },
+      (docs) => {
+        setItems(
+          docs.map((d) => {
+            const data = d.data as Omit<TrashItem, 'id'>
+            return { ...data, id: d.id, n: Number(data.n) }
+          })
+        )
+      },
+      (err) => setError(errorMessage(err))
+    )
+  }, [raffleId])
+
+  const selectedItems = useMemo(() => items.filter((it) => !!selected[it.id]), [items, selected])
+
+  function toggle(id: string) {
+    setSelected((prev) => {
+      const next = { ...prev }
+      if (next[id]) delete next[id]
+      else next[id] = true
+      return next
+    })
+  }
+
+  async function restoreSelected() {
+    if (!selectedItems.length || busy) return
+    setBusy(true)
+    setError('')
+    setMessage('')
+    try {
+      const { restored, skipped } = await restoreFromTrash(raffleId, selectedItems, staffActor(user))
+      setSelected({})
+      setMessage(
+        t('trash.restored', { count: restored.length }) +
+          (skipped.length ? ' ' + t('trash.skipped', { numbers: skipped.join(', ') }) : '')
+      )
+    } catch (e) {
+      setError(errorMessage(e))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="listCard">
+      <div className="listTitle">
+        <span>{t('trash.title')}</span>
+        <span className="smallHint">
+          {items.length} · {t('trash.retention', { count: retentionDays })}
+        </span>
+      </div>
+
+      {error ? <div className="error">{error}</div> : null}
+      {message ? <div className="smallHint" style={{ padding: '8px 12px' }}>{message}</div> : null}
+
+      <div className="listHead trash">
+        <div className="lh center">{t('staff.number')}</div>
+        <div className="lh">{t('staff.name')}</div>
+        <div className="lh">{t('trash.deletedAt')}</div>
+        <div className="lh">{t('trash.deletedBy')}</div>
+        <div className="lh center">{t('trash.restore')}</div>
+      </div>
+
+      <div className="listBody">
+        {items.length ? (
+          items.map((it) => {
+            const taken = !!entries[String(it.n)]
+            return (
+              <div key={it.id} className="listRow trash">
+                <div className="lc num center">{it.n}</div>
+                <div className="lc nameCell" title={holderOf(holders, it.n, it.entry)?.name || it.entry?.name}>
+                  {describeRestoreEntry({ ...it.entry, name: holderOf(holders, it.n, it.entry)?.name || it.entry.name }, i18n)}
+                </div>
+                <div className="lc mono">{i18n.when(it.deletedAt)}</div>
+                <div className="lc nameCell">{auditActorLabel(it.deletedBy, i18n)}</div>
+                <div className="lc center">
+                  {taken ? (
+                    <span className="smallHint">{t('trash.taken')}</span>
+                  ) : (
+                    <input type="checkbox" checked={!!selected[it.id]} onChange={() => toggle(it.id)} disabled={busy} />
+                  )}
+                </div>
+              </div>
+            )
+          })
+        ) : (
+          <div className="empty">{t('trash.empty')}</div>
+        )}
+      </div>
+
+      {items.length ? (
+        <div className="adminButtons" style={{ padding: 12 }}>
+          <button className="btnPrimary" onClick={restoreSelected} disabled={busy || !selectedItems.length}>
+            {busy ? t('trash.restoring') : `${t('trash.restore')} ${selectedItems.length || ''}`.trim()}
+          </button>
+        </div>
+      ) : null}
+    </div>
+  )
+}
+
+const ORDER_STATUS_LABELS: Record<OrderStatus, MessageKey> = {
+  open: 'orderStatus.open',
+  partial: 'orderStatus.partial',
+  paid: 'orderStatus.paid',
+  released: 'orderStatus.released',
+  cancelled: 'orderStatus.cancelled'
+}
+
+type OrderAction = { kind: 'cancel' | 'refund'; order: Order }
+
+function OrdersCard(props: { raffleId: string; entries: Record<string, Entry | null>; cfg: AppConfig }) {
+  const { raffleId, entries, cfg } = props
+  const { user } = useAuth()
+  const i18n = useI18n()
+  const { t } = i18n
+  const [rawOrders, setOrders] = useState<Order[]>([])
+  const [search, setSearch] = useState('')
+  const [busyId, setBusyId] = useState('')
+  const [error, setError] = useState('')
+  const [action, setAction] = useState<OrderAction | null>(null)
+  const [refundSet, setRefundSet] = useState<Record<string, true>>({})
+  const [refundText, setRefundText] = useState('')
+
+  useEffect(() => {
+    return repo.watchCollection(
+      raffleId,
+      'orders',
+      { orderBy: ['createdAt', 'desc'] },
+      (docs) => setOrders(docs.map((d) => normalizeOrder(d.id, d.data))),
+      (err) => setError(errorMessage(err))
+    )
+  }, [raffleId])
+
+  // O pedido guarda o nome exibido; o completo vem dos números que ainda são dele.
+  const orders = useMemo(
+    () =>
+      rawOrders.map((o) => {
+        const own = o.numbers.map((n) => entries[String(n)]).find((e) => e?.orderId === o.id)
+        return own ? { ...o, name: own.name } : o
+      }),
+    [rawOrders, entries]
+  )
+
+  const rows = useMemo(() => {
+    const q = search.trim().toLowerCase()
+    const qId = normalizeOrderId(search)
+    return orders
+      .map((o) => ({ o, live: orderLiveNumbers(o, entries), status: orderStatus(o, entries) }))
+      .filter(({ o }) => {
+        if (!q) return true
+        return (!!qId && o.id.includes(qId)) || o.name.toLowerCase().includes(q) || o.numbers.some((n) => String(n) === q)
+      })
+  }, [orders, entries, search])
+  const { visible, sentinel } = useIncrementalRows(rows)
+
+  const refundNumbers = useMemo(
+    () => (action?.kind === 'refund' ? orderLiveNumbers(action.order, entries).filter((n) => !!refundSet[String(n)]) : []),
+    [action, entries, refundSet]
+  )
+
+  function liveEntries(o: Order) {
+    return orderLiveNumbers(o, entries).flatMap((n) => {
+      const e = entries[String(n)]
+      return e ? [{ n, e }] : []
+    })
+  }
+
+  function openRefund(o: Order) {
+    setAction({ kind: 'refund', order: o })
+    setRefundSet({})
+    setRefundText('')
+  }
+
+  function toggleRefund(o: Order, n: number) {
+    const next = { ...refundSet }
+    if (next[String(n)]) delete next[String(n)]
+    else next[String(n)] = true
+    setRefundSet(next)
+    const keep = orderLiveNumbers(o, entries).filter((x) => !next[String(x)]).length
+    setRefundText(String(suggestedRefund(o, keep, cfg)))
+  }
+
+  async function payOrder(o: Order) {
+    const list = liveEntries(o).filter((r) => !r.e.paid)
+    if (!list.length || busyId) return
+    const nums = list.map((r) => r.n)
+
+    setBusyId(o.id)
+    setError('')
+    try {
+      await repo.transact(raffleId, async (tx) => {
+        const current = await readEntries(tx, nums)
+        const due = nums.filter((n) => current[String(n)] && !current[String(n)]?.paid)
+        if (!due.length) return
+        for (const n of due) tx.update(entryPath(n), { paid: true })
+        writeAudit(tx, {
+          actor: staffActor(user),
+          action: 'pay',
+          numbers: due,
+          before: auditEntries(due, (n) => current[String(n)]),
+          after: {
+            ...auditEntries(due, (n) => {
+              const e = current[String(n)]
+              return e ? { ...e, paid: true } : null
+            }),
+            order: o.id
+          }
+        })
+      })
+    } catch (e) {
+      setError(errorMessage(e))
+    } finally {
+      setBusyId('')
+    }
+  }
+
+  // Cancelar e reembolsar mandam os números para a lixeira, como a exclusão avulsa.
+  async function confirmAction() {
+    if (!action || busyId) return
+    const o = action.order
+    const list = action.kind === 'cancel' ? liveEntries(o) : liveEntries(o).filter((r) => !!refundSet[String(r.n)])
+    const nums = list.map((r) => r.n)
+    const refund = action.kind === 'refund' ? normalizePrice(refundText, -1) : 0
+    if (action.kind === 'refund' && (!nums.length || refund < 0)) {
+      setError(t('orders.refundInvalid'))
+      return
+    }
+
+    setBusyId(o.id)
+    setError('')
+    try {
+      const kind = action.kind
+      await repo.transact(raffleId, async (tx) => {
+        const current = await readEntries(tx, nums)
+        // Relê o pedido: outro reembolso pode ter entrado depois que a lista foi carregada.
+        const stored = normalizeOrder(o.id, await tx.get(orderPath(o.id)))
+        const left = refundableAmount(stored)
+        if (kind === 'refund' && refund > left) {
+          throw new Error(t('orders.refundTooHigh', { amount: i18n.money(left, stored.currency || currencyOf(cfg)) }))
+        }
+        moveToTrash(
+          tx,
+          list.flatMap((r) => {
+            const e = current[String(r.n)]
+            return e ? [{ n: r.n, e }] : []
+          }),
+          staffActor(user)
+        )
+        if (kind === 'cancel') {
+          tx.update(orderPath(o.id), { cancelledAt: tx.now(), cancelledBy: user?.uid || '' })
+        } else {
+          tx.set(
+            orderPath(o.id),
+            { refunds: { [tx.newId('refunds')]: { numbers: nums, amount: refund, at: tx.now(), by: user?.uid || '' } } },
+            { merge: true }
+          )
+        }
+        writeAudit(tx, {
+          actor: staffActor(user),
+          action: kind === 'cancel' ? 'order-cancel' : 'refund',
+          numbers: nums,
+          before: auditEntries(nums, (n) => current[String(n)]),
+          after: { ...auditEntries(nums, () => null), order: o.id, ...(kind === 'refund' ? { refund } : {}) }
+        })
+      })
+      setAction(null)
+    } catch (e) {
+      setError(errorMessage(e))
+    } finally {
+      setBusyId('')
+    }
+  }
+
+  return (
+    <div className="listCard">
+      <div className="listTitle">
+        <span>{t('orders.title')}</span>
+        <span className="smallHint">{orders.length}</span>
+      </div>
+
+      {error ? <div className="error">{error}</div> : null}
+
+      <div style={{ padding: 12 }}>
+        <input
+          className="modalInput"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder={t('orders.search')}
+        />
+      </div>
+
+      <div className="listHead orders">
+        <div className="lh">{t('orders.order')}</div>
+        <div className="lh">{t('staff.name')}</div>
+        <div className="lh">{t('orders.numbers')}</div>
+        <div className="lh">{t('orders.amount')}</div>
+        <div className="lh">{t('orders.status')}</div>
+        <div className="lh center">{t('orders.actions')}</div>
+      </div>
+
+      <div className="listBody">
+        {visible.length ? (
+          visible.map(({ o, live, status }) => {
+            const refunded = refundedTotal(o)
+            const closed = status === 'cancelled' || status === 'released'
+            return (
+              <div key={o.id} className="listRow orders">
+                <div className="lc mono">
+                  {o.id}
+                  <div className="smallHint">{i18n.when(o.createdAt)}</div>
+                </div>
+                <div className="lc nameCell" title={o.name}>
+                  {o.name}
+                  {o.source === 'sale' ? <div className="smallHint">{t('audit.sale')}</div> : null}
+                </div>
+                <div className="lc mono">{(closed ? o.numbers : live).join(', ')}</div>
+                <div className="lc mono">
+                  {i18n.money(o.amount, o.currency || currencyOf(cfg))}
+                  {refunded ? (
+                    <div className="smallHint">
+                      {t('orders.refunded', { amount: i18n.money(refunded, o.currency || currencyOf(cfg)) })}
+                    </div>
+                  ) : null}
+                </div>
+                <div className="lc">{t(ORDER_STATUS_LABELS[status])}</div>
+                <div className="lc center proofActions">
+                  {status === 'open' || status === 'partial' ? (
+                    <button className="btnPrimary" onClick={() => payOrder(o)} disabled={!!busyId}>
+                      {busyId === o.id ? '...' : t('orders.pay')}
+                    </button>
+                  ) : null}
+                  {!closed ? (
+                    <>
+                      <button className="btn" onClick={() => openRefund(o)} disabled={!!busyId}>
+                        {t('orders.refund')}
+                      </button>
+                      <button className="btn" onClick={() => setAction({ kind: 'cancel', order: o })} disabled={!!busyId}>
+                        {t('common.cancel')}
+                      </button>
+                    </>
+                  ) : null}
+                </div>
+              </div>
+            )
+          })
+        ) : (
+          <div className="empty">{t('orders.empty')}</div>
+        )}
+        {sentinel}
+      </div>
+
+      {action ? (
+        <div className="modalOverlay" onMouseDown={() => setAction(null)}>
+          <div className="modalCard" onMouseDown={(e) => e.stopPropagation()}>
+            <div className="modalHead">
+              <div className="modalTitle">{t(action.kind === 'cancel' ? 'orders.cancelTitle' : 'orders.refundTitle')}</div>
+              <button className="modalClose" onClick={() => setAction(null)} aria-label={t('common.close')}>
+                ×
+              </button>
+            </div>
+
+            <div className="modalBody">
+              <div className="reviewBlock">
+                <div className="reviewLine">
+                  <span className="reviewLabel">{t('orders.order')}</span>
+                  <span className="reviewValue mono">{action.order.id}</span>
+                </div>
+                <div className="reviewLine">
+                  <span className="reviewLabel">{t('staff.name')}</span>
+                  <span className="reviewValue">{action.order.name}</span>
+                </div>
+
+                {action.kind === 'cancel' ? (
+                  <div className="hint">
+                    {t('orders.cancelHint', { numbers: orderLiveNumbers(action.order, entries).join(', ') })}
+                  </div>
+                ) : (
+                  <>
+                    <div className="modalLabel">{t('orders.refundNumbers')}</div>
+                    <div className="badges">
+                      {orderLiveNumbers(action.order, entries).map((n) => (
+                        <button
+                          key={n}
+                          className={'badge ' + (refundSet[String(n)] ? 'badgeSel' : 'badgeFree')}
+                          onClick={() => toggleRefund(action.order, n)}
+                          disabled={!!busyId}
+                        >
+                          {n}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="modalLabel">{t('orders.refundAmount')}</div>
+                    <input
+                      className="modalInput"
+                      inputMode="decimal"
+                      value={refundText}
+                      onChange={(e) => setRefundText(e.target.value)}
+                      placeholder="0,00"
+                    />
+                    <div className="hint">{t('orders.refundHint')}</div>
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div className="modalActions">
+              <button className="btn" onClick={() => setAction(null)}>
+                {t('common.back')}
+              </button>
+              <button
+                className="btnPrimary"
+                onClick={confirmAction}
+                disabled={!!busyId || (action.kind === 'refund' && !refundNumbers.length)}
+              >
+                {action.kind === 'cancel'
+                  ? t('orders.cancelTitle')
+                  : `${t('orders.refund')} ${refundNumbers.length || ''}`.trim()}
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  )
+}
+
+function ProofReviewCard(props: { raffleId: string; entries: Record<string, Entry | null> }) {
+  const { raffleId, entries } = props
+  const { user } = useAuth()
+  const i18n = useI18n()
+  const { t } = i18n
+  const [items, setItems] = useState<PaymentProof[]>([])
+  const [urls, setUrls] = useState<Record<string, string>>({})
+  const [busyId, setBusyId] = useState('')
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    // Sem orderBy no Firestore para não exigir índice composto; a fila é pequena.
+    return repo.watchCollection(
+      raffleId,
+      'proofs',
+      { where: ['status', '==', 'pending'] },
+      (docs) => {
+        const list = docs.map((d) => normalizeProof(d.id, d.data))
+        list.sort((a, b) => timeToMs(a.createdAt) - timeToMs(b.createdAt))
+        setItems(list)
+      },
+      (err) => setError(errorMessage(err))
+    )
+  }, [raffleId])
+
+  useEffect(() => {
+    let alive = true
+    for (const p of items) {
+      if (urls[p.id] || !p.path) continue
+      getDownloadURL(storageRef(storage, p.path))
+        .then((url) => {
+          if (alive) setUrls((prev) => ({ ...prev, [p.id]: url }))
+        })
+        .catch(() => {})
+    }
+    return () => {
+      alive = false
+    }
+  }, [items, urls])
+
+  // Só entra na fila o comprovante que ainda tem número reservado e não pago para aquele comprador.
+  const queue = useMemo(
+    () => items.map((p) => ({ p, payable: proofPayableNumbers(p, entries) })),
+    [items, entries]
+  )
+
+  async function approve(p: PaymentProof, payable: number[]) {
+    if (busyId) return
+    if (!payable.length) {
+      setError(t('proofs.nothingPayable', { name: p.name }))
+      return
+    }
+
+    setBusyId(p.id)
+    setError('')
+    try {
+      await repo.transact(raffleId, async (tx) => {
+        const current = await readEntries(tx, payable)
+        const due = payable.filter((n) => current[String(n)] && !current[String(n)]?.paid)
+        for (const n of due) tx.update(entryPath(n), { paid: true })
+        tx.update(proofPath(p.id), { status: 'approved', reviewedAt: tx.now(), reviewedBy: user?.uid || '' })
+        writeAudit(tx, {
+          actor: staffActor(user),
+          action: 'pay',
+          numbers: due,
+          before: auditEntries(due, (n) => current[String(n)]),
+          after: {
+            ...auditEntries(due, (n) => {
+              const e = current[String(n)]
+              return e ? { ...e, paid: true } : null
+            }),
+            proof: p.id
+          }
+        })
+      })
+    } catch (e) {
+      setError(errorMessage(e))
+    } finally {
+      setBusyId('')
+    }
+  }
+
+  async function reject(p: PaymentProof) {
+    if (busyId) return
+    setBusyId(p.id)
+    setError('')
+    try {
+      await repo.transact(raffleId, async (tx) => {
+        tx.update(proofPath(p.id), { status: 'rejected', reviewedAt: tx.now(), reviewedBy: user?.uid || '' })
+        writeAudit(tx, {
+          actor: staffActor(user),
+          action: 'proof-reject',
+          numbers: p.numbers,
+          before: { proof: p.id, name: p.name, status: 'pending' },
+          after: { proof: p.id, name: p.name, status: 'rejected' }
+        })
+      })
+    } catch (e) {
+      setError(errorMessage(e))
+    } finally {
+      setBusyId('')
+    }
+  }
+
+  return (
+    <div className="listCard">
+      <div className="listTitle">
+        <span>{t('proofs.title')}</span>
+        <span className="smallHint">{items.length}</span>
       </div>
 
-      {imageOpen ? (
-        <div className="modalOverlay" onMouseDown={() => setImageOpen(false)}>
-          <div className="imgModal" onMouseDown={(e) => e.stopPropagation()}>
-            <button className="imgClose" onClick={() => setImageOpen(false)} aria-label="Fechar">
-              ×
-            </button>
-            <img className="imgFull" src="/image_rifa.jpeg" alt="Foto da rifa ampliada" />
-          </div>
-        </div>
-      ) : null}
+      {error ? <div className="error">{error}</div> : null}
 
-      {payOpen ? (
-        <div className="modalOverlay" onMouseDown={closePayModal}>
-          <div className="modalCard payModal" onMouseDown={(e) => e.stopPropagation()}>
-            <div className="modalHead">
-              <div className="modalTitle">Reserva confirmada</div>
-              <button className="modalClose" onClick={closePayModal} aria-label="Fechar">
-                ×
-              </button>
-            </div>
+      <div className="listHead proofs">
+        <div className="lh">{t('orders.numbers')}</div>
+        <div className="lh">{t('staff.name')}</div>
+        <div className="lh">{t('proofs.sentAt')}</div>
+        <div className="lh">{t('proofs.file')}</div>
+        <div className="lh center">{t('orders.actions')}</div>
+      </div>
 
-            <div className="modalBody">
-              <div className="payAmountBox">
-                <div className="payAmountLabel">Valor a pagar</div>
-                <div className="payAmountValue">{moneyBR.format(payAmount)}</div>
-                <div className="payAmountHint">
-                  {payCount} {payCount === 1 ? 'número' : 'números'} x {moneyBR.format(PRICE_PER_NUMBER)}
+      <div className="listBody">
+        {queue.length ? (
+          queue.map(({ p, payable }) => {
+            const busy = busyId === p.id
+            const gone = p.numbers.filter((n) => !payable.includes(n))
+            return (
+              <div key={p.id} className="listRow proofs">
+                <div className="lc mono">
+                  {payable.join(', ') || '-'}
+                  {gone.length ? <div className="smallHint">{t('proofs.gone', { numbers: gone.join(', ') })}</div> : null}
+                </div>
+                <div className="lc nameCell" title={p.name}>
+                  {p.name}
+                </div>
+                <div className="lc mono">{i18n.when(p.createdAt)}</div>
+                <div className="lc nameCell">
+                  {urls[p.id] ? (
+                    <a href={urls[p.id]} target="_blank" rel="noreferrer" title={p.fileName}>
+                      {t(p.contentType === 'application/pdf' ? 'proofs.openPdf' : 'proofs.openImage')}
+                    </a>
+                  ) : (
+                    <span className="smallHint">{t('common.loading')}</span>
+                  )}
+                </div>
+                <div className="lc center proofActions">
+                  <button className="btnPrimary" onClick={() => approve(p, payable)} disabled={!!busyId}>
+                    {busy ? '...' : t('proofs.approve')}
+                  </button>
+                  <button className="btn" onClick={() => reject(p)} disabled={!!busyId}>
+                    {t('proofs.reject')}
+                  </button>
                 </div>
               </div>
+            )
+          })
+        ) : (
+          <div className="empty">{t('proofs.empty')}</div>
+        )}
+      </div>
+    </div>
+  )
+}
 
-              <PixPaymentCard title="Dados do Pix" />
-              {!PIX_KEY ? (
-                <div className="hint" style={{ marginTop: 10 }}>
-                  Faltou configurar VITE_PIX_KEY no .env, então não dá para mostrar a chave aqui.
-                </div>
-              ) : null}
-            </div>
+function ManualSaleModal(props: {
+  raffleId: string
+  total: number
+  entries: Record<string, Entry | null>
+  cfg: AppConfig
+  isAdmin: boolean
+  onClose: () => void
+}) {
+  const { raffleId, total, entries, cfg, isAdmin, onClose } = props
+  const { user } = useAuth()
+  const i18n = useI18n()
+  const { t } = i18n
+  const [name, setName] = useState('')
+  const [contactText, setContactText] = useState('')
+  const [selectedSet, setSelectedSet] = useState<Record<string, true>>({})
+  // Vendedor só registra a reserva; marcar como pago é com o admin (as regras recusam o resto).
+  const [paid, setPaid] = useState(isAdmin)
+  const [method, setMethod] = useState<PaymentMethod>('cash')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
 
-            <div className="modalActions">
-              <button className="btnPrimary btnPrimaryWide" onClick={closePayModal}>
-                Ok
-              </button>
-            </div>
-          </div>
-        </div>
-      ) : null}
+  const contact = useMemo(() => normalizeContact(contactText), [contactText])
 
-      {modalOpen ? (
-        <div className="modalOverlay" onMouseDown={closeModal}>
-          <div className="modalCard" onMouseDown={(e) => e.stopPropagation()}>
-            <div className="modalHead">
-              <div className="modalTitle">{modalStep === 'pick' ? 'Nova reserva' : 'Confirmar reserva'}</div>
-              <button className="modalClose" onClick={closeModal} aria-label="Fechar">
-                ×
-              </button>
-            </div>
+  const selectedNumbers = useMemo(() => selectedNumbersOf(selectedSet, total), [selectedSet, total])
 
-            {modalStep === 'pick' ? (
-              <div className="modalBody">
-                <div className="nameRow">
-                  <div className="modalLabel">Seu nome</div>
-                  <input
-                    className="modalInput small"
-                    value={modalName}
-                    onChange={(e) => setModalName(e.target.value)}
-                    placeholder="Digite seu nome"
-                    disabled={busy}
-                  />
-                </div>
+  const quote = useMemo(() => quotePrice(selectedNumbers.length, cfg), [selectedNumbers.length, cfg])
 
-                <div className="modalLabel">Escolha seus números disponíveis</div>
+  function toggleSelect(n: number) {
+    const k = String(n)
+    setSelectedSet((prev) => {
+      const next = { ...prev }
+      if (next[k]) delete next[k]
+      else next[k] = true
+      return next
+    })
+  }
 
-                <div className="badges">
-                  {availableNumbers.map((n) => {
-                    const isSel = !!selectedSet[String(n)]
-                    return (
-                      <button
-                        key={n}
-                        className={'badge ' + (isSel ? 'badgeSel' : 'badgeFree')}
-                        onClick={() => toggleSelect(n)}
-                        disabled={busy}
-                        title={isSel ? 'Remover' : 'Selecionar'}
-                      >
-                        {n}
-                      </button>
-                    )
-                  })}
-                </div>
-              </div>
-            ) : (
-              <div className="modalBody">
-                <div className="reviewBlock">
-                  <div className="reviewLine">
-                    <span className="reviewLabel">Nome</span>
-                    <span className="reviewValue">{modalName.trim()}</span>
-                  </div>
+  function close() {
+    if (busy) return
+    onClose()
+  }
 
-                  <div className="reviewLine">
-                    <span className="reviewLabel">Números</span>
-                    <span className="reviewValue">{selectedNumbers.join(', ')}</span>
-                  </div>
-                </div>
+  async function confirmSale() {
+    const nm = name.trim()
+    const nums = selectedNumbers.slice()
+    if (!nm || !nums.length) return
+    if (contactText.trim() && !contact) return
 
-                <div className="hint">Se alguém pegar um dos números antes de você confirmar, vamos avisar.</div>
-              </div>
-            )}
+    setBusy(true)
+    setError('')
+    try {
+      await reserveNumbers(repo, raffleId, nums, {
+        name: nm,
+        nameDisplay: nameDisplayOf(cfg.nameDisplay),
+        paid,
+        buyer: contact ? { id: newBuyerId(), contact } : null,
+        actor: staffActor(user),
+        action: 'sale',
+        pricing: cfg,
+        paymentMethod: method
+      })
+      setBusy(false)
+      onClose()
+    } catch (e) {
+      setError(reserveErrorMessage(e, i18n))
+      setSelectedSet((prev) => {
+        const taken = errorMessage(e).split(':')[1]
+        if (!taken) return prev
+        const next = { ...prev }
+        delete next[taken]
+        return next
+      })
+      setBusy(false)
+    }
+  }
 
-            <div className="modalActions">
-              <button className="btn" onClick={closeModal} disabled={busy}>
-                Cancelar
-              </button>
+  const canConfirm = !!name.trim() && !!selectedNumbers.length && (!contactText.trim() || !!contact)
 
-              {modalStep === 'pick' ? (
-                <button className="btnPrimary" onClick={() => setModalStep('review')} disabled={busy || !canGoNext()}>
-                  Avançar
-                </button>
-              ) : (
-                <>
-                  <button className="btn" onClick={() => setModalStep('pick')} disabled={busy}>
-                    Voltar
-                  </button>
-                  <button className="btnPrimary" onClick={confirmReserve} disabled={busy}>
-                    Confirmar
-                  </button>
-                </>
-              )}
-            </div>
+  return (
+    <div className="modalOverlay" onMouseDown={close}>
+      <div className="modalCard" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="modalHead">
+          <div className="modalTitle">{t('audit.sale')}</div>
+          <button className="modalClose" onClick={close} aria-label={t('common.close')}>
+            ×
+          </button>
+        </div>
+
+        <div className="modalBody">
+          {error ? <div className="error">{error}</div> : null}
+
+          <div className="nameRow">
+            <div className="modalLabel">{t('sale.buyerName')}</div>
+            <input
+              className="modalInput small"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('staff.name')}
+              disabled={busy}
+            />
+          </div>
+
+          <div className="nameRow">
+            <div className="modalLabel">{t('sale.contact')}</div>
+            <input
+              className="modalInput small"
+              value={contactText}
+              onChange={(e) => setContactText(maskContactInput(e.target.value))}
+              placeholder={t('sale.contactPlaceholder')}
+              disabled={busy}
+            />
+            {contactText.trim() && !contact ? (
+              <div className="smallHint fieldError">{t('reserve.contactInvalid')}</div>
+            ) : null}
           </div>
+
+          <div className="nameRow saleRow">
+            <label className="checkRow">
+              <input
+                type="checkbox"
+                checked={paid}
+                onChange={(e) => setPaid(e.target.checked)}
+                disabled={busy || !isAdmin}
+              />
+              <span>{t('sale.paid')}</span>
+            </label>
+            <select
+              className="modalInput small"
+              value={method}
+              onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+              disabled={busy || !paid}
+            >
+              {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map((m) => (
+                <option key={m} value={m}>
+                  {t(PAYMENT_METHOD_LABELS[m])}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="modalLabel">
+            {t('sale.available')}
+            {selectedNumbers.length ? ` · ${selectedNumbers.length} · ${i18n.money(quote.amount, currencyOf(cfg))}` : ''}
+          </div>
+
+          <NumberGrid
+            total={total}
+            entries={entries}
+            selectedSet={selectedSet}
+            onToggle={toggleSelect}
+            disabled={busy}
+          />
         </div>
-      ) : null}
+
+        <div className="modalActions">
+          <button className="btn" onClick={close} disabled={busy}>
+            {t('common.cancel')}
+          </button>
+          <button className="btnPrimary" onClick={confirmSale} disabled={busy || !canConfirm}>
+            {busy ? t('staff.saving') : t(paid ? 'sale.confirmPaid' : 'sale.confirmReserve')}
+          </button>
+        </div>
+      </div>
     </div>
   )
 }
 
 function AdminPage() {
   const nav = useNavigate()
-  const { cfg, cfgError } = useConfig()
+  const raffleId = useRaffleId()
+  const { cfg, cfgError } = useConfig(raffleId)
+  const i18n = useI18n()
+  const { t } = i18n
   const totalCfg = clampTotal(cfg.totalNumbers ?? 200)
-  const { entries, error, setError } = useEntries(totalCfg)
+  const { entries: publicEntries, error, setError } = useEntries(raffleId, totalCfg)
 
   const [busy, setBusy] = useState(false)
   const [rowBusy, setRowBusy] = useState<Record<string, true>>({})
   const [confirmDelete, setConfirmDelete] = useState<{ n: number } | null>(null)
 
-  const [pw, setPw] = useState('')
-  const [authed, setAuthed] = useState(false)
+  const { roles, user } = useAuth()
+  const isAdmin = hasRole(roles, 'admin')
+  const holders = useHolders(raffleId, hasRole(roles, 'seller'))
+  const entries = useMemo(() => withHolderNames(publicEntries, holders), [publicEntries, holders])
+  const buyers = useBuyers(raffleId, hasRole(roles, 'seller'), entries)
 
   const [raffleName, setRaffleName] = useState('')
   const [drawDate, setDrawDate] = useState('')
+  const [drawTime, setDrawTime] = useState('')
+  const [drawTimeZone, setDrawTimeZone] = useState(DEFAULT_TIME_ZONE)
+  const [cutoffText, setCutoffText] = useState('')
+  const [autoDraw, setAutoDraw] = useState(false)
   const [resultNumber, setResultNumber] = useState<string>('')
   const [totalNumbers, setTotalNumbers] = useState<string>('')
+  const [prizesDraft, setPrizesDraft] = useState<Prize[]>([])
+  const [allowRepeatWinners, setAllowRepeatWinners] = useState(false)
+  const [headline, setHeadline] = useState('')
+  const [description, setDescription] = useState('')
+  const [priceText, setPriceText] = useState('')
+  const [currencyText, setCurrencyText] = useState('BRL')
+  const [packagesDraft, setPackagesDraft] = useState<Array<{ quantity: string; price: string }>>([])
 
   const [multiOpen, setMultiOpen] = useState(false)
   const [multiStep, setMultiStep] = useState<MultiPayStep>('names')
   const [multiSearch, setMultiSearch] = useState('')
-  const [multiName, setMultiName] = useState('')
+  const [multiBuyer, setMultiBuyer] = useState<BuyerGroup | null>(null)
   const [multiSet, setMultiSet] = useState<Record<string, true>>({})
   const [multiAction, setMultiAction] = useState<MultiAction | null>(null)
   const [multiBusy, setMultiBusy] = useState(false)
 
   const [adminListSearch, setAdminListSearch] = useState('')
+  const [holdHoursText, setHoldHoursText] = useState('')
+  const [autoReleaseExpired, setAutoReleaseExpired] = useState(false)
+  const [confirmRelease, setConfirmRelease] = useState(false)
+  const [trashDaysText, setTrashDaysText] = useState('')
+  const [boardShowNames, setBoardShowNames] = useState(false)
+  const [nameDisplay, setNameDisplay] = useState<NameDisplay>('full')
+  const [localeText, setLocaleText] = useState<Locale | ''>('')
+  const [undo, setUndo] = useState<{ items: TrashItem[]; label: string } | null>(null)
+  const [undoBusy, setUndoBusy] = useState(false)
+  const [saleOpen, setSaleOpen] = useState(false)
+  const [reopenOpen, setReopenOpen] = useState(false)
+  const [reopenReason, setReopenReason] = useState('')
+  const undoTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const holdHours = clampHoldHours(cfg.holdHours)
+  const now = useNow(30_000)
+  const status = raffleStatusOf(cfg, now)
+  const locked = configLocked(status)
+  const frozen = entriesFrozen(cfg)
 
   useEffect(() => {
     if (cfgError) setError(cfgError)
   }, [cfgError, setError])
 
-  useEffect(() => {
-    const ok = localStorage.getItem('rifa_admin_ok') === '1'
-    setAuthed(ok)
-  }, [])
-
   useEffect(() => {
     setRaffleName(cfg.raffleName || '')
     setDrawDate(cfg.drawDate || '')
+    setDrawTime(normalizeDrawTime(cfg.drawTime))
+    setDrawTimeZone(cfg.drawTimeZone || DEFAULT_TIME_ZONE)
+    setCutoffText(cfg.salesCutoffMinutes ? String(clampCutoffMinutes(cfg.salesCutoffMinutes)) : '')
+    setAutoDraw(!!cfg.autoDraw)
     setResultNumber(
       cfg.resultNumber !== undefined && cfg.resultNumber !== null && cfg.resultNumber !== 0 ? String(cfg.resultNumber) : ''
     )
     setTotalNumbers(String(clampTotal(cfg.totalNumbers ?? 200)))
-  }, [cfg.raffleName, cfg.drawDate, cfg.resultNumber, cfg.totalNumbers])
+    setPrizesDraft(cfg.prizes?.length ? cfg.prizes.map((p) => ({ ...p })) : [])
+    setAllowRepeatWinners(!!cfg.allowRepeatWinners)
+    setHeadline(cfg.headline || '')
+    setDescription(cfg.description || '')
+    setPriceText(String(normalizePrice(cfg.pricePerNumber)).replace('.', ','))
+    setCurrencyText(currencyOf({ currency: cfg.currency }))
+    setHoldHoursText(cfg.holdHours ? String(clampHoldHours(cfg.holdHours)) : '')
+    setAutoReleaseExpired(!!cfg.autoReleaseExpired)
+    setTrashDaysText(String(clampTrashDays(cfg.trashRetentionDays)))
+    setBoardShowNames(!!cfg.boardShowNames)
+    setNameDisplay(nameDisplayOf(cfg.nameDisplay))
+    setLocaleText(normalizeLocale(cfg.locale) || '')
+    setPackagesDraft(
+      normalizePackages(cfg.pricePackages).map((p) => ({ quantity: String(p.quantity), price: String(p.price).replace('.', ',') }))
+    )
+  }, [
+    cfg.raffleName,
+    cfg.drawDate,
+    cfg.drawTime,
+    cfg.drawTimeZone,
+    cfg.salesCutoffMinutes,
+    cfg.autoDraw,
+    cfg.resultNumber,
+    cfg.totalNumbers,
+    cfg.prizes,
+    cfg.allowRepeatWinners,
+    cfg.headline,
+    cfg.description,
+    cfg.pricePerNumber,
+    cfg.currency,
+    cfg.pricePackages,
+    cfg.holdHours,
+    cfg.autoReleaseExpired,
+    cfg.trashRetentionDays,
+    cfg.boardShowNames,
+    cfg.nameDisplay,
+    cfg.locale
+  ])
+
+  useEffect(() => {
+    return () => {
+      if (undoTimer.current) clearTimeout(undoTimer.current)
+    }
+  }, [])
 
   useEffect(() => {
-    const open = multiOpen || !!confirmDelete
+    const open = multiOpen || !!confirmDelete || confirmRelease || saleOpen
 
     const prevBodyOverflow = document.body.style.overflow
     const prevHtmlOverflow = document.documentElement.style.overflow
@@ -932,16 +4274,9 @@ function AdminPage() {
       document.body.style.overflow = prevBodyOverflow
       document.documentElement.style.overflow = prevHtmlOverflow
     }
-  }, [multiOpen, confirmDelete])
+  }, [multiOpen, confirmDelete, confirmRelease, saleOpen])
 
-  const reservations = useMemo(() => {
-    const list: Array<{ n: number; e: Entry }> = []
-    for (let i = 1; i <= totalCfg; i++) {
-      const e = entries[String(i)]
-      if (e) list.push({ n: i, e })
-    }
-    return list
-  }, [entries, totalCfg])
+  const reservations = useMemo(() => reservationList(entries, totalCfg), [entries, totalCfg])
 
   const filteredReservations = useMemo(() => {
     const q = adminListSearch.trim().toLowerCase()
@@ -951,7 +4286,10 @@ function AdminPage() {
       : reservations.filter((x) => {
         const nm = String(x.e?.name || '').toLowerCase()
         const num = String(x.n)
-        return nm.includes(q) || num.includes(q)
+        const contact = x.e?.buyerId ? String(buyers[x.e.buyerId]?.contact || '').toLowerCase() : ''
+        const qDigits = q.replace(/\D/g, '')
+        const contactHit = !!contact && (contact.includes(q) || (qDigits.length >= 4 && contact.includes(qDigits)))
+        return nm.includes(q) || num.includes(q) || contactHit
       })
 
     const pending: Array<{ n: number; e: Entry }> = []
@@ -963,197 +4301,549 @@ function AdminPage() {
     }
 
     return pending.concat(paid)
-  }, [reservations, adminListSearch])
+  }, [reservations, adminListSearch, buyers])
+
+  const revenueAdmin = useMemo(() => revenueStats(reservations, cfg), [reservations, cfg])
+  const { visible: visibleReservations, sentinel: reservationsSentinel } = useIncrementalRows(filteredReservations)
+
+  const expiredNumbers = useMemo(() => {
+    if (!holdHours) return []
+    return reservations.filter((r) => holdStateOf(r.e, holdHours, now) === 'expired').map((r) => r.n)
+  }, [reservations, holdHours, now])
+
+  const expiringCount = useMemo(() => {
+    if (!holdHours) return 0
+    return reservations.filter((r) => holdStateOf(r.e, holdHours, now) === 'expiring').length
+  }, [reservations, holdHours, now])
+
+  const maxReserved = useMemo(() => maxReservedNumber(entries, totalCfg), [entries, totalCfg])
+
+  const reservedBuyers = useMemo(() => reservedBuyerGroups(reservations), [reservations])
+
+  const filteredReservedBuyers = useMemo(() => {
+    const q = multiSearch.trim().toLowerCase()
+    if (!q) return reservedBuyers
+    return reservedBuyers.filter((x) => {
+      const contact = x.buyerId ? buyerContactLabel(buyers[x.buyerId]).toLowerCase() : ''
+      return x.name.toLowerCase().includes(q) || (!!contact && contact.includes(q))
+    })
+  }, [reservedBuyers, multiSearch, buyers])
+
+  const numbersForSelectedName = useMemo(
+    () => numbersOfBuyer(reservations, multiBuyer?.key || ''),
+    [reservations, multiBuyer]
+  )
+
+  const selectedMultiNumbers = useMemo(() => selectedNumbersOf(multiSet, totalCfg), [multiSet, totalCfg])
+
+  const winnersAdmin = useMemo(() => normalizeWinnerList(cfg), [cfg])
+  const prizesAdmin = useMemo(() => prizeList(cfg), [cfg])
+
+  const winnerNumberAdmin = winnersAdmin[0] || null
+
+  const winnerNameAdmin = useMemo(() => {
+    if (!winnerNumberAdmin) return ''
+    const e = entries[String(winnerNumberAdmin)]
+    return String(e?.name || '').trim()
+  }, [entries, winnerNumberAdmin])
+
+  function setLineBusy(n: number, v: boolean) {
+    const k = String(n)
+    setRowBusy((prev) => {
+      const next = { ...prev }
+      if (v) next[k] = true
+      else delete next[k]
+      return next
+    })
+  }
+
+  async function togglePaid(n: number) {
+    const e = entries[String(n)]
+    if (!e) return
+    if (rowBusy[String(n)]) return
+    if (frozen) {
+      setError(t('admin.frozen'))
+      return
+    }
+
+    setLineBusy(n, true)
+    setError('')
+
+    try {
+      // O clique pede o contrário do que a tela mostrava; se outra pessoa já fez isso, não há o que gravar.
+      const paid = !e.paid
+      await repo.transact(raffleId, async (tx) => {
+        const current = (await readEntries(tx, [n]))[String(n)]
+        if (!current) throw new Error(t('admin.notReserved', { n }))
+        if (!!current.paid === paid) return
+        tx.update(entryPath(n), { paid })
+        writeAudit(tx, {
+          actor: staffActor(user),
+          action: paid ? 'pay' : 'unpay',
+          numbers: [n],
+          before: auditEntries([n], () => current),
+          after: auditEntries([n], () => ({ ...current, paid }))
+        })
+      })
+    } catch (e) {
+      setError(errorMessage(e))
+    } finally {
+      setLineBusy(n, false)
+    }
+  }
+
+  async function doDelete(n: number) {
+    const e = entries[String(n)]
+    if (!e) return
+    if (rowBusy[String(n)]) return
+    if (frozen) {
+      setError(t('admin.frozen'))
+      return
+    }
+
+    setLineBusy(n, true)
+    setError('')
+
+    try {
+      const trashed = await repo.transact(raffleId, async (tx) => {
+        const current = (await readEntries(tx, [n]))[String(n)]
+        if (!current) throw new Error(t('admin.notReserved', { n }))
+        const items = moveToTrash(tx, [{ n, e: current }], staffActor(user))
+        writeAudit(tx, {
+          actor: staffActor(user),
+          action: 'delete',
+          numbers: [n],
+          before: auditEntries([n], () => current),
+          after: auditEntries([n], () => null)
+        })
+        return items
+      })
+      showUndo(trashed, t('admin.deletedOne', { n }))
+    } catch (e) {
+      setError(errorMessage(e))
+    } finally {
+      setLineBusy(n, false)
+      setConfirmDelete(null)
+    }
+  }
+
+  function showUndo(items: TrashItem[], label: string) {
+    if (undoTimer.current) clearTimeout(undoTimer.current)
+    setUndo({ items, label })
+    undoTimer.current = setTimeout(() => setUndo(null), 10_000)
+  }
+
+  async function undoDelete() {
+    if (!undo || undoBusy) return
+    if (undoTimer.current) clearTimeout(undoTimer.current)
+
+    setUndoBusy(true)
+    setError('')
+    try {
+      const { skipped } = await restoreFromTrash(raffleId, undo.items, staffActor(user))
+      if (skipped.length) setError(t('admin.undoSkipped', { numbers: skipped.join(', ') }))
+      setUndo(null)
+    } catch (e) {
+      setError(errorMessage(e))
+    } finally {
+      setUndoBusy(false)
+    }
+  }
+
+  function logout() {
+    signOut(auth)
+    setError('')
+  }
+
+  async function changeStatus(to: RaffleStatus) {
+    if (!canTransition(status, to)) return
+    if (to === 'open' && timeToMs(cfg.salesCloseAt) && now >= timeToMs(cfg.salesCloseAt)) {
+      setError(t('admin.reopenAfterClose'))
+      return
+    }
+    if (to === 'draft' && reservations.length) {
+      setError(t('admin.draftWithReservations'))
+      return
+    }
+
+    setBusy(true)
+    setError('')
+    try {
+      await repo.saveConfig(
+        raffleId,
+        { status: to },
+        auditRecord({ actor: staffActor(user), action: 'status', before: { status }, after: { status: to } })
+      )
+    } catch (e) {
+      setError(errorMessage(e))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function saveConfig() {
+    if (locked) {
+      setError(t('admin.configLocked'))
+      return
+    }
+
+    const nameDisplayChanged = nameDisplay !== nameDisplayOf(cfg.nameDisplay)
+    if (nameDisplayChanged && frozen) {
+      setError(t('admin.nameDisplayFrozen'))
+      return
+    }
+
+    const newTotal = clampTotal(totalNumbers)
+    if (newTotal < maxReserved) {
+      setError(t('admin.totalBelowReserved', { total: newTotal, max: maxReserved }))
+      return
+    }
+
+    const pricePerNumber = normalizePrice(priceText, -1)
+    if (pricePerNumber < 0) {
+      setError(t('admin.priceInvalid'))
+      return
+    }
 
-  const maxReservedNumber = useMemo(() => {
-    let max = 0
-    for (let i = 1; i <= totalCfg; i++) {
-      if (entries[String(i)]) max = i
+    const currency = currencyText.trim().toUpperCase()
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      setError(t('admin.currencyInvalid'))
+      return
+    }
+
+    const pricePackages: PricePackage[] = normalizePackages(
+      packagesDraft.map((p) => ({ quantity: Number(p.quantity), price: normalizePrice(p.price, -1) }))
+    )
+    if (pricePackages.length !== packagesDraft.filter((p) => p.quantity.trim() || p.price.trim()).length) {
+      setError(t('admin.packagesInvalid'))
+      return
+    }
+
+    const zone = drawTimeZone.trim() || DEFAULT_TIME_ZONE
+    if (!isValidTimeZone(zone)) {
+      setError(t('admin.timeZoneInvalid'))
+      return
     }
-    return max
-  }, [entries, totalCfg])
-
-  const reservedNames = useMemo(() => {
-    const map = new Map<string, number>()
-    for (const r of reservations) {
-      const nm = String(r.e.name || '').trim()
-      if (!nm) continue
-      map.set(nm, (map.get(nm) || 0) + 1)
+    const time = normalizeDrawTime(drawTime)
+    if (drawTime.trim() && !time) {
+      setError(t('admin.drawTimeInvalid'))
+      return
     }
-    return Array.from(map.entries())
-      .sort((a, b) => a[0].localeCompare(b[0], 'pt-BR'))
-      .map(([name, count]) => ({ name, count }))
-  }, [reservations])
-
-  const filteredReservedNames = useMemo(() => {
-    const q = multiSearch.trim().toLowerCase()
-    if (!q) return reservedNames
-    return reservedNames.filter((x) => x.name.toLowerCase().includes(q))
-  }, [reservedNames, multiSearch])
-
-  const numbersForSelectedName = useMemo(() => {
-    if (!multiName) return []
-    const list: number[] = []
-    for (const r of reservations) {
-      if (String(r.e.name || '').trim() === multiName) list.push(r.n)
+    // drawAt e salesCloseAt são instantes prontos para o job agendado e para as regras do Firestore.
+    const drawAtMs = zonedDateTimeToMs(drawDate.trim(), time, zone)
+    if (autoDraw && !drawAtMs) {
+      setError(t('admin.autoDrawNeedsTime'))
+      return
+    }
+    const cutoff = clampCutoffMinutes(cutoffText)
+    if (autoDraw && cutoff < MIN_AUTO_DRAW_CUTOFF_MINUTES) {
+      setError(t('admin.autoDrawCutoff', { minutes: MIN_AUTO_DRAW_CUTOFF_MINUTES }))
+      return
     }
-    return list.sort((a, b) => a - b)
-  }, [reservations, multiName])
 
-  const selectedMultiNumbers = useMemo(() => {
-    return Object.keys(multiSet)
-      .map((k) => Number(k))
-      .filter((n) => Number.isInteger(n) && n >= 1 && n <= totalCfg)
-      .sort((a, b) => a - b)
-  }, [multiSet, totalCfg])
+    setBusy(true)
+    setError('')
 
-  const winnerNumberAdmin = useMemo(() => {
-    return normalizeWinnerNumber(cfg.resultNumber)
-  }, [cfg.resultNumber])
+    try {
+      const next: Record<string, unknown> = {
+          raffleName: raffleName.trim(),
+          totalNumbers: newTotal,
+          drawDate: drawDate.trim(),
+          drawTime: time,
+          drawTimeZone: zone,
+          drawAt: drawAtMs ? new Date(drawAtMs) : null,
+          salesCutoffMinutes: cutoff,
+          salesCloseAt: drawAtMs ? new Date(salesCloseMs(drawAtMs, cutoff)) : null,
+          autoDraw,
+          prizes: prizesDraft
+            .map((p) => ({
+              title: String(p.title || '').trim(),
+              description: String(p.description || '').trim(),
+              imageUrl: String(p.imageUrl || '').trim()
+            }))
+            .filter((p) => p.title),
+          allowRepeatWinners,
+          headline: headline.trim(),
+          description: description.trim(),
+          pricePerNumber,
+          currency,
+          pricePackages,
+          holdHours: clampHoldHours(holdHoursText),
+          autoReleaseExpired,
+          trashRetentionDays: clampTrashDays(trashDaysText),
+          boardShowNames,
+          nameDisplay,
+          locale: localeText || null
+      }
 
-  const winnerNameAdmin = useMemo(() => {
-    if (!winnerNumberAdmin) return ''
-    const e = entries[String(winnerNumberAdmin)]
-    return String(e?.name || '').trim()
-  }, [entries, winnerNumberAdmin])
+      const before: Record<string, unknown> = {}
+      const after: Record<string, unknown> = {}
+      for (const k of Object.keys(next)) {
+        const prev = (cfg as Record<string, unknown>)[k] ?? null
+        if (JSON.stringify(prev) === JSON.stringify(next[k])) continue
+        before[k] = prev
+        after[k] = next[k]
+      }
 
-  function setLineBusy(n: number, v: boolean) {
-    const k = String(n)
-    setRowBusy((prev) => {
-      const next = { ...prev }
-      if (v) next[k] = true
-      else delete next[k]
-      return next
-    })
+      await repo.saveConfig(
+        raffleId,
+        next,
+        Object.keys(after).length ? auditRecord({ actor: staffActor(user), action: 'config', before, after }) : undefined
+      )
+      if (nameDisplayChanged) await rewritePublicNames(raffleId, Object.keys(publicEntries), holders, nameDisplay)
+    } catch (e) {
+      setError(errorMessage(e))
+    } finally {
+      setBusy(false)
+    }
   }
 
-  async function togglePaid(n: number) {
-    const e = entries[String(n)]
-    if (!e) return
-    if (rowBusy[String(n)]) return
+  async function releaseExpired() {
+    const nums = expiredNumbers.slice()
+    if (!nums.length) {
+      setConfirmRelease(false)
+      return
+    }
 
-    setLineBusy(n, true)
+    setBusy(true)
     setError('')
 
     try {
-      await updateDoc(doc(db, 'entries', String(n)), { paid: !e.paid })
-    } catch (e: any) {
-      setError(String(e?.message || e))
+      // Entry e holder saem juntos; com a auditoria, 224 números cabem nas 450 escritas.
+      const CHUNK = 224
+      for (let i = 0; i < nums.length; i += CHUNK) {
+        const part = nums.slice(i, i + CHUNK)
+        await repo.transact(raffleId, async (tx) => {
+          const docs = await Promise.all(part.map((n) => tx.get(entryPath(n))))
+          const released: Record<string, Entry> = {}
+          docs.forEach((data, idx) => {
+            if (!data) return
+            const e = data as Entry
+            if (holdStateOf(e, holdHours, Date.now()) !== 'expired') return
+            tx.delete(entryPath(part[idx]))
+            tx.delete(holderPath(part[idx]))
+            released[String(part[idx])] = e
+          })
+
+          const releasedNums = Object.keys(released).map(Number)
+          if (!releasedNums.length) return
+          writeAudit(tx, {
+            actor: staffActor(user),
+            action: 'release-expired',
+            numbers: releasedNums,
+            before: auditEntries(releasedNums, (n) => released[String(n)]),
+            after: auditEntries(releasedNums, () => null)
+          })
+        })
+      }
+      setConfirmRelease(false)
+    } catch (e) {
+      setError(errorMessage(e))
     } finally {
-      setLineBusy(n, false)
+      setBusy(false)
     }
   }
 
-  async function doDelete(n: number) {
-    const e = entries[String(n)]
-    if (!e) return
-    if (rowBusy[String(n)]) return
+  function addPackage() {
+    setPackagesDraft((prev) => prev.concat({ quantity: '', price: '' }))
+  }
 
-    setLineBusy(n, true)
-    setError('')
+  function updatePackage(i: number, patch: Partial<{ quantity: string; price: string }>) {
+    setPackagesDraft((prev) => prev.map((p, idx) => (idx === i ? { ...p, ...patch } : p)))
+  }
 
-    try {
-      await deleteDoc(doc(db, 'entries', String(n)))
-    } catch (e: any) {
-      setError(String(e?.message || e))
-    } finally {
-      setLineBusy(n, false)
-      setConfirmDelete(null)
-    }
+  function removePackage(i: number) {
+    setPackagesDraft((prev) => prev.filter((_, idx) => idx !== i))
   }
 
-  function login() {
-    const expected = String(import.meta.env.VITE_ADMIN_PASSWORD || '')
-    if (!expected) {
-      setError('Faltou VITE_ADMIN_PASSWORD no .env')
-      return
-    }
-    if (pw.trim() !== expected) {
-      setError('Senha incorreta')
-      return
-    }
-    localStorage.setItem('rifa_admin_ok', '1')
-    setAuthed(true)
-    setError('')
+  function addPrize() {
+    setPrizesDraft((prev) => prev.concat({ title: '', description: '', imageUrl: '' }))
   }
 
-  function logout() {
-    localStorage.removeItem('rifa_admin_ok')
-    setAuthed(false)
-    setPw('')
-    setError('')
+  function updatePrize(i: number, patch: Partial<Prize>) {
+    setPrizesDraft((prev) => prev.map((p, idx) => (idx === i ? { ...p, ...patch } : p)))
   }
 
-  async function saveConfig() {
-    const newTotal = clampTotal(totalNumbers)
-    if (newTotal < maxReservedNumber) {
-      setError(`Não é possível reduzir para ${newTotal} porque já existe reserva no número ${maxReservedNumber}.`)
+  function removePrize(i: number) {
+    setPrizesDraft((prev) => prev.filter((_, idx) => idx !== i))
+  }
+
+  function movePrize(i: number, dir: -1 | 1) {
+    setPrizesDraft((prev) => {
+      const j = i + dir
+      if (j < 0 || j >= prev.length) return prev
+      const next = prev.slice()
+      const tmp = next[i]
+      next[i] = next[j]
+      next[j] = tmp
+      return next
+    })
+  }
+
+  async function publishCommitment() {
+    if (cfg.drawCommitment?.hash) {
+      setError(t('admin.commitExists'))
+      return
+    }
+    if (!canCommitDraw(status)) {
+      setError(t('admin.commitNeedsClosed'))
       return
     }
 
     setBusy(true)
     setError('')
-
     try {
-      const ref = doc(db, 'app', 'config')
-
-      await setDoc(
-        ref,
-        {
-          raffleName: raffleName.trim(),
-          totalNumbers: newTotal,
-          drawDate: drawDate.trim()
-        },
-        { merge: true }
-      )
-    } catch (e: any) {
-      setError(String(e?.message || e))
+      const seed = generateSeed()
+      const hash = await commitSeed(seed)
+
+      await repo.transact(raffleId, async (tx) => {
+        const current = ((await tx.get('')) || {}) as AppConfig
+        if (current.drawCommitment?.hash) throw new Error(t('admin.commitExists'))
+        tx.set(DRAW_SECRET_PATH, { seed, hash, createdAt: tx.now() })
+        tx.set('', { drawCommitment: { hash, committedAt: tx.now() } }, { merge: true })
+        writeAudit(tx, { actor: staffActor(user), action: 'commit', after: { hash } })
+      })
+    } catch (e) {
+      setError(errorMessage(e))
     } finally {
       setBusy(false)
     }
   }
 
-  async function sortear() {
-    const paidNums = reservations.filter((r) => !!r.e.paid).map((r) => r.n)
+  async function sortear(live = false) {
+    if (!canDraw(status)) {
+      setError(t('admin.drawWrongStatus', { status: t(STATUS_LABELS[status]) }))
+      return
+    }
 
-    if (!paidNums.length) {
-      setError('Não tem números pagos para sortear')
+    const prizeCount = prizesAdmin.length
+    const allowRepeat = !!cfg.allowRepeatWinners
+    const { numbers: paidNums, owners, problem } = paidDrawPool(reservations, prizeCount, allowRepeat)
+
+    if (problem === 'no-paid') {
+      setError(t('admin.drawNoPaid'))
+      return
+    }
+    if (problem === 'too-few') {
+      setError(t('admin.drawTooFew', { count: prizeCount }))
       return
     }
 
-    const n = pickRandom(paidNums)
-    setResultNumber(String(n))
+    const commitment = String(cfg.drawCommitment?.hash || '')
+    if (!commitment) {
+      setError(t('admin.drawNeedsCommit'))
+      return
+    }
 
     setBusy(true)
     setError('')
     try {
-      await setDoc(doc(db, 'app', 'config'), { resultNumber: n }, { merge: true })
-    } catch (e: any) {
-      setError(String(e?.message || e))
+      // Relê a rifa e a semente na transação: se outra aba (ou o sorteio agendado) já publicou o resultado, não sobrescreve.
+      const drawn = await repo.transact(raffleId, async (tx) => {
+        const current = ((await tx.get('')) || {}) as AppConfig
+        const seed = String((await tx.get(DRAW_SECRET_PATH))?.seed || '')
+        if (normalizeWinnerList(current).length) throw new Error('ALREADY_DRAWN')
+        if (String(current.drawCommitment?.hash || '') !== commitment) throw new Error('COMMITMENT_CHANGED')
+        if (!seed) throw new Error(t('admin.seedMissing'))
+
+        const reveal = await runFairDraw(seed, paidNums, { prizes: prizeCount, owners, allowRepeatWinners: allowRepeat })
+        if (reveal.hash !== commitment) throw new Error(t('admin.seedMismatch'))
+
+        tx.set(
+          '',
+          { resultNumber: reveal.winner, winners: reveal.winners, draw: { ...reveal, drawnAt: tx.now() }, status: 'drawn' },
+          { merge: true }
+        )
+        writeAudit(tx, {
+          actor: staffActor(user),
+          action: 'draw',
+          numbers: reveal.winners,
+          before: { resultNumber: cfg.resultNumber ?? null, winners: cfg.winners ?? null },
+          after: { resultNumber: reveal.winner, winners: reveal.winners, seed: reveal.seed, hash: reveal.hash }
+        })
+        // O resultado entra antes do giro; as telas ao vivo só o mostram quando o giro termina.
+        tx.set(
+          LIVE_DRAW_PATH,
+          live
+            ? { phase: 'spinning', startedAt: tx.now(), spinMs: LIVE_SPIN_MS, winners: reveal.winners }
+            : { phase: 'revealed', winners: reveal.winners, revealedAt: tx.now() }
+        )
+        return reveal
+      })
+      setResultNumber(String(drawn.winner))
+    } catch (e) {
+      const msg = errorMessage(e)
+      if (msg === 'ALREADY_DRAWN') setError(t('admin.alreadyDrawn'))
+      else if (msg === 'COMMITMENT_CHANGED') setError(t('admin.commitChanged'))
+      else setError(msg)
     } finally {
       setBusy(false)
     }
   }
 
-  async function resetSorteio() {
+  // Com resultado publicado, resetar é reabrir a rifa: precisa de motivo e volta para "vendas encerradas".
+  async function resetSorteio(reason = '') {
+    const reopening = status === 'drawn'
+    if (reopening && !reason.trim()) {
+      setError(t('admin.reopenNeedsReason'))
+      return
+    }
+    if (status === 'archived') return
+
     setResultNumber('')
     setBusy(true)
     setError('')
     try {
-      await setDoc(doc(db, 'app', 'config'), { resultNumber: null }, { merge: true })
-    } catch (e: any) {
-      setError(String(e?.message || e))
+      await repo.transact(raffleId, async (tx) => {
+        tx.set(
+          '',
+          {
+            resultNumber: null,
+            winners: null,
+            draw: null,
+            drawCommitment: null,
+            ...(reopening ? { status: 'closed' } : {})
+          },
+          { merge: true }
+        )
+        tx.delete(DRAW_SECRET_PATH)
+        tx.set(LIVE_DRAW_PATH, { phase: 'idle', winners: null })
+        writeAudit(tx, {
+          actor: staffActor(user),
+          action: 'reset-draw',
+          numbers: normalizeWinnerList(cfg),
+          before: {
+            resultNumber: cfg.resultNumber ?? null,
+            winners: cfg.winners ?? null,
+            hash: cfg.drawCommitment?.hash ?? null
+          },
+          after: {
+            resultNumber: null,
+            winners: null,
+            hash: null,
+            ...(reopening ? { status: 'closed', reason: reason.trim() } : {})
+          }
+        })
+      })
+      setReopenOpen(false)
+      setReopenReason('')
+    } catch (e) {
+      setError(errorMessage(e))
     } finally {
       setBusy(false)
     }
   }
 
   function openMultiPay() {
+    if (frozen) {
+      setError(t('admin.frozen'))
+      return
+    }
     setError('')
     setMultiOpen(true)
     setMultiStep('names')
     setMultiSearch('')
-    setMultiName('')
+    setMultiBuyer(null)
     setMultiSet({})
     setMultiAction(null)
     setMultiBusy(false)
@@ -1164,14 +4854,14 @@ function AdminPage() {
     setMultiOpen(false)
     setMultiStep('names')
     setMultiSearch('')
-    setMultiName('')
+    setMultiBuyer(null)
     setMultiSet({})
     setMultiAction(null)
     setMultiBusy(false)
   }
 
-  function pickMultiName(name: string) {
-    setMultiName(name)
+  function pickMultiBuyer(b: BuyerGroup) {
+    setMultiBuyer(b)
     setMultiSet({})
     setMultiAction(null)
     setMultiStep('numbers')
@@ -1201,14 +4891,14 @@ function AdminPage() {
   }
 
   function goReviewMulti(action: MultiAction) {
-    if (!multiName) return
+    if (!multiBuyer) return
     if (!selectedMultiNumbers.length) return
     setMultiAction(action)
     setMultiStep('review')
   }
 
   async function confirmMultiPay() {
-    if (!multiName) return
+    if (!multiBuyer) return
     if (!multiAction) return
     const nums = selectedMultiNumbers.slice()
     if (!nums.length) return
@@ -1217,114 +4907,173 @@ function AdminPage() {
     setError('')
 
     try {
-      const batch = writeBatch(db)
-
-      if (multiAction === 'delete') {
-        for (const n of nums) {
-          batch.delete(doc(db, 'entries', String(n)))
+      const trashed = await repo.transact(raffleId, async (tx): Promise<TrashItem[]> => {
+        const current = await readEntries(tx, nums)
+        const live = nums.filter((n) => !!current[String(n)])
+
+        if (multiAction === 'delete') {
+          const list = live.map((n) => ({ n, e: current[String(n)] as Entry }))
+          if (!list.length) return []
+          const items = moveToTrash(tx, list, staffActor(user))
+          writeAudit(tx, {
+            actor: staffActor(user),
+            action: 'delete',
+            numbers: live,
+            before: auditEntries(live, (n) => current[String(n)]),
+            after: auditEntries(live, () => null)
+          })
+          return items
         }
-      } else {
+
         const paidValue = multiAction === 'paid'
-        for (const n of nums) {
-          batch.update(doc(db, 'entries', String(n)), { paid: paidValue })
+        const changed = live.filter((n) => !!current[String(n)]?.paid !== paidValue)
+        if (!changed.length) return []
+        for (const n of changed) {
+          tx.update(entryPath(n), { paid: paidValue })
         }
+        writeAudit(tx, {
+          actor: staffActor(user),
+          action: paidValue ? 'pay' : 'unpay',
+          numbers: changed,
+          before: auditEntries(changed, (n) => current[String(n)]),
+          after: auditEntries(changed, (n) => {
+            const e = current[String(n)]
+            return e ? { ...e, paid: paidValue } : null
+          })
+        })
+        return []
+      })
+      if (trashed.length) {
+        showUndo(trashed, t('admin.deletedMany', { count: trashed.length }))
       }
 
-      await batch.commit()
-
       setMultiBusy(false)
       closeMultiPay()
-    } catch (e: any) {
-      setError(String(e?.message || e))
+    } catch (e) {
+      setError(errorMessage(e))
       setMultiBusy(false)
     }
   }
 
-  if (!authed) {
-    return (
-      <div className="page">
-        <div className="topCard">
-          <div className="brandOnly">{cfg.raffleName || 'Rifa'}</div>
-          <div className="adminLoginCard">
-            <div className="adminLoginTitle">Admin</div>
-
-            {error ? <div className="error">{error}</div> : null}
-
-            <div className="adminLoginRow">
-              <input
-                className="adminPw"
-                value={pw}
-                onChange={(e) => setPw(e.target.value)}
-                placeholder="Senha"
-                type="password"
-              />
-              <button className="btnPrimary" onClick={login}>
-                Entrar
-              </button>
-            </div>
-
-            <div className="hint">Acesse direto por /admin</div>
-          </div>
-        </div>
-
-        <div className="backRow">
-          <button className="btn" onClick={() => nav('/')}>
-            Voltar
-          </button>
-        </div>
-      </div>
-    )
+  if (!hasRole(roles, 'seller')) {
+    return <StaffGate brand={cfg.raffleName || t('admin.brand')} title={t('admin.title')} role="seller" backTo={rafflePath(raffleId)} />
   }
 
   return (
     <div className="page">
       <div className="topCard">
         <div className="brandRow">
-          <div className="brandOnly">{cfg.raffleName || 'Rifa'}</div>
+          <div className="brandOnly">{cfg.raffleName || t('admin.brand')}</div>
           <div style={{ display: 'flex', gap: 10, alignItems: 'center' }}>
-            <button className="adminIconBtn" onClick={() => nav('/')} title="Página inicial" aria-label="Página inicial">
+            <LanguageSwitcher />
+            <button
+              className="adminIconBtn"
+              onClick={() => nav(rafflePath(raffleId))}
+              title={t('admin.rafflePage')}
+              aria-label={t('admin.rafflePage')}
+            >
               <FaHome />
             </button>
             <button className="adminLinkBtn" onClick={logout}>
-              Sair
+              {t('staff.logout')}
             </button>
           </div>
         </div>
 
         <div className="adminPanel">
-          <div className="adminPanelTitle">Configuração do resultado</div>
+          <div className="adminPanelTitle">{t('admin.statusTitle')}</div>
+          <div className="statusRow">
+            <span className={'statusTag status-' + status}>{t(STATUS_LABELS[status])}</span>
+            {isAdmin
+              ? STATUS_TRANSITIONS[status]
+                  .filter((to) => !(status === 'drawn' && to === 'closed'))
+                  .map((to) => (
+                    <button key={to} className="btn" onClick={() => changeStatus(to)} disabled={busy}>
+                      {t(STATUS_ACTION_LABELS[to])}
+                    </button>
+                  ))
+              : null}
+          </div>
+
+          <div className="adminPanelTitle" style={{ marginTop: 16 }}>{t('admin.configTitle')}</div>
 
           {error ? <div className="error">{error}</div> : null}
 
           <div className="adminGrid">
             <div className="adminField">
-              <div className="adminLabel">Quantidade de Rifas para Sorteio</div>
+              <div className="adminLabel">{t('admin.totalNumbers')}</div>
               <input
                 className="adminInput"
                 value={totalNumbers}
                 onChange={(e) => setTotalNumbers(e.target.value)}
                 inputMode="numeric"
               />
-              {maxReservedNumber ? (
-                <div className="smallHint">Maior número reservado hoje: {maxReservedNumber}</div>
+              {maxReserved ? (
+                <div className="smallHint">{t('admin.maxReserved', { n: maxReserved })}</div>
               ) : (
-                <div className="smallHint">Ainda não tem reservas</div>
+                <div className="smallHint">{t('admin.noReservations')}</div>
               )}
             </div>
 
             <div className="adminField">
-              <div className="adminLabel">Data do sorteio</div>
+              <div className="adminLabel">{t('admin.drawDate')}</div>
               <input
                 className="adminInput"
                 type="date"
                 value={drawDate}
                 onChange={(e) => setDrawDate(e.target.value)}
-                onClick={(e) => (e.currentTarget as any).showPicker?.()}
+                onClick={(e) => e.currentTarget.showPicker?.()}
+              />
+            </div>
+
+            <div className="adminField">
+              <div className="adminLabel">{t('admin.drawTimeZone')}</div>
+              <div style={{ display: 'flex', gap: 8 }}>
+                <input
+                  className="adminInput"
+                  type="time"
+                  value={drawTime}
+                  onChange={(e) => setDrawTime(e.target.value)}
+                  disabled={busy}
+                  style={{ maxWidth: 130 }}
+                />
+                <input
+                  className="adminInput"
+                  list="drawTimeZones"
+                  value={drawTimeZone}
+                  onChange={(e) => setDrawTimeZone(e.target.value)}
+                  placeholder={DEFAULT_TIME_ZONE}
+                  disabled={busy}
+                />
+                <datalist id="drawTimeZones">
+                  {TIME_ZONE_SUGGESTIONS.map((z) => (
+                    <option key={z} value={z} />
+                  ))}
+                </datalist>
+              </div>
+              <div className="smallHint">{cfg.drawAt ? t('admin.drawAtLocal', { when: i18n.when(cfg.drawAt) }) : t('admin.noSchedule')}</div>
+            </div>
+
+            <div className="adminField">
+              <div className="adminLabel">{t('admin.cutoff')}</div>
+              <input
+                className="adminInput"
+                value={cutoffText}
+                onChange={(e) => setCutoffText(e.target.value)}
+                inputMode="numeric"
+                placeholder={autoDraw ? t('admin.cutoffMin', { minutes: MIN_AUTO_DRAW_CUTOFF_MINUTES }) : t('admin.cutoffNone')}
+                disabled={busy}
               />
+              <label className="checkRow" style={{ marginTop: 6 }}>
+                <input type="checkbox" checked={autoDraw} onChange={(e) => setAutoDraw(e.target.checked)} disabled={busy} />
+                <span>{t('admin.autoDraw')}</span>
+              </label>
+              {cfg.salesCloseAt ? <div className="smallHint">{t('admin.salesCloseAt', { when: i18n.when(cfg.salesCloseAt) })}</div> : null}
+              {cfg.autoDraw && cfg.autoDrawError ? <div className="error">{t('admin.autoDrawError', { error: cfg.autoDrawError })}</div> : null}
             </div>
 
             <div className="adminField">
-              <div className="adminLabel">Resultado</div>
+              <div className="adminLabel">{t('admin.result')}</div>
               <div className="adminInput">
                 {winnerNumberAdmin
                   ? winnerNameAdmin
@@ -1335,86 +5084,401 @@ function AdminPage() {
                     : '-'}
               </div>
             </div>
+
+            <div className="adminField">
+              <div className="adminLabel">{t('admin.commitment')}</div>
+              <div className="adminInput mono" title={cfg.drawCommitment?.hash || ''}>
+                {cfg.drawCommitment?.hash ? shortHash(cfg.drawCommitment.hash) : '-'}
+              </div>
+              <div className="smallHint">
+                {cfg.draw?.seed
+                  ? t('admin.seedRevealed')
+                  : cfg.drawCommitment?.hash
+                    ? t('admin.committedAt', { when: i18n.when(cfg.drawCommitment.committedAt) })
+                    : t('admin.commitBeforeDraw')}
+              </div>
+            </div>
+          </div>
+
+          <div className="adminPanelTitle" style={{ marginTop: 16 }}>{t('admin.textsTitle')}</div>
+
+          <div className="adminGrid">
+            <div className="adminField">
+              <div className="adminLabel">{t('admin.headline')}</div>
+              <input
+                className="adminInput"
+                value={headline}
+                onChange={(e) => setHeadline(e.target.value)}
+                placeholder={t('admin.headlinePlaceholder')}
+                disabled={busy}
+              />
+            </div>
+
+            <div className="adminField">
+              <div className="adminLabel">{t('admin.description')}</div>
+              <textarea
+                className="adminInput"
+                rows={2}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder={t('admin.descriptionPlaceholder')}
+                disabled={busy}
+              />
+            </div>
+
+            <div className="adminField">
+              <div className="adminLabel">{t('admin.price')}</div>
+              <input
+                className="adminInput"
+                value={priceText}
+                onChange={(e) => setPriceText(e.target.value)}
+                inputMode="decimal"
+                disabled={busy}
+              />
+            </div>
+
+            <div className="adminField">
+              <div className="adminLabel">{t('admin.holdHours')}</div>
+              <input
+                className="adminInput"
+                value={holdHoursText}
+                onChange={(e) => setHoldHoursText(e.target.value)}
+                inputMode="numeric"
+                placeholder={t('admin.holdNone')}
+                disabled={busy}
+              />
+              <label className="checkRow" style={{ marginTop: 6 }}>
+                <input
+                  type="checkbox"
+                  checked={autoReleaseExpired}
+                  onChange={(e) => setAutoReleaseExpired(e.target.checked)}
+                  disabled={busy}
+                />
+                <span>{t('admin.autoRelease')}</span>
+              </label>
+            </div>
+
+            <div className="adminField">
+              <div className="adminLabel">{t('admin.trashDays')}</div>
+              <input
+                className="adminInput"
+                value={trashDaysText}
+                onChange={(e) => setTrashDaysText(e.target.value)}
+                inputMode="numeric"
+                disabled={busy}
+              />
+              <div className="smallHint">{t('admin.trashDaysHint')}</div>
+            </div>
+
+            <div className="adminField">
+              <div className="adminLabel">{t('admin.board')}</div>
+              <label className="checkRow">
+                <input
+                  type="checkbox"
+                  checked={boardShowNames}
+                  onChange={(e) => setBoardShowNames(e.target.checked)}
+                  disabled={busy}
+                />
+                <span>{t('admin.boardShowNames')}</span>
+              </label>
+            </div>
+
+            <div className="adminField">
+              <div className="adminLabel">{t('admin.nameDisplay')}</div>
+              <select
+                className="adminInput"
+                value={nameDisplay}
+                onChange={(e) => setNameDisplay(e.target.value as NameDisplay)}
+                disabled={busy}
+              >
+                {(Object.keys(NAME_DISPLAY_LABELS) as NameDisplay[]).map((m) => (
+                  <option key={m} value={m}>
+                    {t(NAME_DISPLAY_LABELS[m])}
+                  </option>
+                ))}
+              </select>
+              <div className="smallHint">{t('admin.nameDisplayHint')}</div>
+            </div>
+
+            <div className="adminField">
+              <div className="adminLabel">{t('admin.locale')}</div>
+              <select
+                className="adminInput"
+                value={localeText}
+                onChange={(e) => setLocaleText(normalizeLocale(e.target.value) || '')}
+                disabled={busy}
+              >
+                <option value="">{t('admin.localeAuto')}</option>
+                {LOCALES.map((l) => (
+                  <option key={l} value={l}>
+                    {LOCALE_LABELS[l]}
+                  </option>
+                ))}
+              </select>
+              <div className="smallHint">{t('admin.localeHint')}</div>
+            </div>
+
+            <div className="adminField">
+              <div className="adminLabel">{t('admin.currency')}</div>
+              <input
+                className="adminInput"
+                value={currencyText}
+                onChange={(e) => setCurrencyText(e.target.value.toUpperCase())}
+                maxLength={3}
+                placeholder="BRL"
+                disabled={busy}
+              />
+            </div>
+          </div>
+
+          <div className="prizeEditor" style={{ marginTop: 12 }}>
+            {packagesDraft.map((p, i) => (
+              <div key={i} className="packageEditRow">
+                <div className="adminLabel">{t('admin.package')}</div>
+                <input
+                  className="adminInput"
+                  value={p.quantity}
+                  onChange={(e) => updatePackage(i, { quantity: e.target.value })}
+                  placeholder={t('admin.quantity')}
+                  inputMode="numeric"
+                  disabled={busy}
+                />
+                <input
+                  className="adminInput"
+                  value={p.price}
+                  onChange={(e) => updatePackage(i, { price: e.target.value })}
+                  placeholder={t('admin.packagePrice')}
+                  inputMode="decimal"
+                  disabled={busy}
+                />
+                <button className="delBtn" onClick={() => removePackage(i)} disabled={busy} title={t('admin.removePackage')}>
+                  <AiOutlineDelete className="delIcon" />
+                </button>
+              </div>
+            ))}
+
+            <div className="mpTopActions">
+              <button className="btn" onClick={addPackage} disabled={busy}>
+                {t('admin.addPackage')}
+              </button>
+              <span className="smallHint">{t('admin.packagesHint')}</span>
+            </div>
           </div>
 
+          <div className="adminPanelTitle" style={{ marginTop: 16 }}>{t('admin.prizes')}</div>
+
+          <div className="prizeEditor">
+            {prizesDraft.length ? (
+              prizesDraft.map((p, i) => (
+                <div key={i} className="prizeEditRow">
+                  <div className="adminLabel">{prizeOrdinal(i, i18n)}</div>
+                  <input
+                    className="adminInput"
+                    value={p.title}
+                    onChange={(e) => updatePrize(i, { title: e.target.value })}
+                    placeholder={t('admin.prizeTitle')}
+                    disabled={busy}
+                  />
+                  <input
+                    className="adminInput"
+                    value={p.description || ''}
+                    onChange={(e) => updatePrize(i, { description: e.target.value })}
+                    placeholder={t('admin.description')}
+                    disabled={busy}
+                  />
+                  <input
+                    className="adminInput"
+                    value={p.imageUrl || ''}
+                    onChange={(e) => updatePrize(i, { imageUrl: e.target.value })}
+                    placeholder={t('admin.prizeImage')}
+                    disabled={busy}
+                  />
+                  <div className="prizeEditActions">
+                    <button className="btn" onClick={() => movePrize(i, -1)} disabled={busy || i === 0} title={t('admin.moveUp')}>
+                      ↑
+                    </button>
+                    <button
+                      className="btn"
+                      onClick={() => movePrize(i, 1)}
+                      disabled={busy || i === prizesDraft.length - 1}
+                      title={t('admin.moveDown')}
+                    >
+                      ↓
+                    </button>
+                    <button className="delBtn" onClick={() => removePrize(i)} disabled={busy} title={t('admin.removePrize')}>
+                      <AiOutlineDelete className="delIcon" />
+                    </button>
+                  </div>
+                </div>
+              ))
+            ) : (
+              <div className="smallHint">{t('admin.noPrizes')}</div>
+            )}
+
+            <div className="mpTopActions">
+              <button className="btn" onClick={addPrize} disabled={busy}>
+                {t('admin.addPrize')}
+              </button>
+              <label className="checkRow">
+                <input
+                  type="checkbox"
+                  checked={allowRepeatWinners}
+                  onChange={(e) => setAllowRepeatWinners(e.target.checked)}
+                  disabled={busy}
+                />
+                <span>{t('admin.allowRepeat')}</span>
+              </label>
+            </div>
+          </div>
+
+          {winnersAdmin.length ? (
+            <div style={{ marginTop: 12 }}>
+              <PrizesCard prizes={prizesAdmin} winners={winnersAdmin} entries={entries} />
+            </div>
+          ) : null}
+
+          {isAdmin ? null : <div className="hint">{t('admin.adminOnly')}</div>}
+
+          {locked ? <div className="hint">{t('admin.lockedHint')}</div> : null}
+
           <div className="adminButtons">
-            <button className="btn" onClick={resetSorteio} disabled={busy}>
-              Resetar sorteio
+            {status === 'drawn' ? (
+              <button className="btn" onClick={() => setReopenOpen(true)} disabled={busy || !isAdmin}>
+                {t('admin.reopen')}
+              </button>
+            ) : (
+              <button className="btn" onClick={() => resetSorteio()} disabled={busy || !isAdmin || locked}>
+                {t('admin.resetDraw')}
+              </button>
+            )}
+            <button className="btn" onClick={publishCommitment} disabled={busy || !isAdmin || !!cfg.drawCommitment?.hash || !canCommitDraw(status)}>
+              {t('admin.publishCommit')}
             </button>
-            <button className="btn" onClick={sortear} disabled={busy}>
-              Sortear
+            <button
+              className="btn"
+              onClick={() => sortear()}
+              disabled={busy || !isAdmin || !cfg.drawCommitment?.hash || !!winnerNumberAdmin || !canDraw(status)}
+            >
+              {t('admin.draw')}
             </button>
-            <button className="btnPrimary" onClick={saveConfig} disabled={busy}>
-              Salvar
+            <button className="btn" onClick={() => window.open(rafflePath(raffleId, '/sorteio'), '_blank')}>
+              {t('admin.openScreen')}
+            </button>
+            <button
+              className="btn"
+              onClick={() => sortear(true)}
+              disabled={busy || !isAdmin || !cfg.drawCommitment?.hash || !!winnerNumberAdmin || !canDraw(status)}
+              title={t('admin.drawLiveHint')}
+            >
+              {t('admin.drawLive')}
+            </button>
+            <button className="btnPrimary" onClick={saveConfig} disabled={busy || !isAdmin || locked}>
+              {t('admin.save')}
             </button>
           </div>
         </div>
       </div>
 
+      <EntriesSheetCard
+        raffleId={raffleId}
+        raffleName={cfg.raffleName || ''}
+        total={totalCfg}
+        entries={entries}
+        nameDisplay={nameDisplayOf(cfg.nameDisplay)}
+        isAdmin={isAdmin}
+      />
+
       <div className="listCard">
         <div className="listTitle">
-          <span>Reservas realizadas</span>
+          <span>{t('admin.listTitle')}</span>
 
           <div style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
-            <span className="smallHint">Total: {filteredReservations.length}</span>
+            {expiringCount ? <span className="holdTag holdExpiring">{t('admin.expiring', { count: expiringCount })}</span> : null}
+            <span className="smallHint">
+              {t('admin.revenue', {
+                received: i18n.money(revenueAdmin.received, currencyOf(cfg)),
+                toReceive: i18n.money(revenueAdmin.toReceive, currencyOf(cfg))
+              })}
+            </span>
+            <span className="smallHint">{t('common.total', { count: filteredReservations.length })}</span>
+
+            {isAdmin && expiredNumbers.length ? (
+              <button className="btnBad" onClick={() => setConfirmRelease(true)} disabled={busy} title={t('admin.releaseExpired')}>
+                <span>{t('admin.releaseExpiredCount', { count: expiredNumbers.length })}</span>
+              </button>
+            ) : null}
 
-            <button className="multiPayBtn" onClick={openMultiPay} title="Pagar múltiplos" aria-label="Pagar múltiplos">
-              <span>Ação Sobre Vários</span>
-              <BiSolidSelectMultiple color="green" />
+            <button className="btnGood" onClick={() => setSaleOpen(true)} title={t('admin.manualSale')} disabled={!acceptsStaffSales(status) || frozen}>
+              <span>{t('admin.manualSale')}</span>
             </button>
+
+            {isAdmin ? (
+              <button className="multiPayBtn" onClick={openMultiPay} title={t('multi.title')} aria-label={t('multi.title')}>
+                <span>{t('multi.open')}</span>
+                <BiSolidSelectMultiple color="green" />
+              </button>
+            ) : null}
           </div>
         </div>
 
         <div style={{ padding: 12 }}>
-          <div className="modalLabel" style={{ marginBottom: 5 }}>Buscar por número ou nome</div>
+          <div className="modalLabel" style={{ marginBottom: 5 }}>{t('admin.search')}</div>
           <input
             className="modalInput"
             value={adminListSearch}
             onChange={(e) => setAdminListSearch(e.target.value)}
-            placeholder="Digite para filtrar"
+            placeholder={t('common.filterPlaceholder')}
           />
         </div>
 
         <div className="listHead admin">
-          <div className="lh center">Número</div>
-          <div className="lh">Nome</div>
-          <div className="lh center">Reserva em</div>
-          <div className="lh center">Pagamento</div>
-          <div className="lh center">Excluir</div>
+          <div className="lh center">{t('staff.number')}</div>
+          <div className="lh">{t('staff.name')}</div>
+          <div className="lh center">{t('admin.reservedAt')}</div>
+          <div className="lh center">{t('admin.payment')}</div>
+          <div className="lh center">{t('admin.delete')}</div>
         </div>
 
         <div className="listBody">
           {filteredReservations.length ? (
-            filteredReservations.map(({ n, e }) => {
+            visibleReservations.map(({ n, e }) => {
               const paid = !!e.paid
               const isRowBusy = !!rowBusy[String(n)]
+              const contact = e.buyerId ? buyerContactLabel(buyers[e.buyerId]) : ''
 
               return (
                 <div key={n} className="listRow admin">
                   <div className="lc num center">{n}</div>
-                  <div className="lc nameCell" title={e.name}>
+                  <div className="lc nameCell" title={contact ? `${e.name} · ${contact}` : e.name}>
                     {e.name}
+                    {contact ? <div className="contactLine">{contact}</div> : null}
+                  </div>
+                  <div className="lc whenCell center mono">
+                    {i18n.when(e.reservedAt)}
+                    <HoldTag e={e} holdHours={holdHours} now={now} />
                   </div>
-                  <div className="lc whenCell center mono">{formatWhen(e.reservedAt)}</div>
 
                   <div className="lc payCell center">
                     <button
                       className={'payToggle ' + (paid ? 'isPaid' : 'isPending') + (isRowBusy ? ' isLoading' : '')}
                       onClick={() => togglePaid(n)}
-                      disabled={isRowBusy}
-                      title="Alternar pago"
+                      disabled={isRowBusy || !isAdmin}
+                      title={t('admin.togglePaid')}
                     >
                       <TbBrandCashapp className={'cashIcon ' + (paid ? 'cashPaid' : 'cashPending')} />
-                      <span className="payText">{paid ? 'Pago' : 'Não Pago'}</span>
+                      <span className="payText">{paid ? t('admin.paid') : t('admin.unpaid')}</span>
                     </button>
+                    {paid && e.paymentMethod ? (
+                      <div className="smallHint">{e.paymentMethod in PAYMENT_METHOD_LABELS ? t(PAYMENT_METHOD_LABELS[e.paymentMethod as PaymentMethod]) : e.paymentMethod}</div>
+                    ) : null}
                   </div>
 
                   <div className="lc delCell center">
                     <button
                       className="delBtn"
                       onClick={() => setConfirmDelete({ n })}
-                      disabled={isRowBusy}
-                      title="Excluir reserva"
+                      disabled={isRowBusy || !isAdmin}
+                      title={t('admin.deleteReservation')}
                     >
                       <AiOutlineDelete className="delIcon" />
                     </button>
@@ -1423,17 +5487,126 @@ function AdminPage() {
               )
             })
           ) : (
-            <div className="empty">Nenhuma reserva encontrada</div>
+            <div className="empty">{t('admin.empty')}</div>
           )}
+          {reservationsSentinel}
         </div>
       </div>
 
+      {isAdmin ? <OrdersCard raffleId={raffleId} entries={entries} cfg={cfg} /> : null}
+
+      {isAdmin ? <ProofReviewCard raffleId={raffleId} entries={entries} /> : null}
+
+      {isAdmin ? (
+        <TrashCard
+          raffleId={raffleId}
+          entries={entries}
+          holders={holders}
+          retentionDays={clampTrashDays(cfg.trashRetentionDays)}
+        />
+      ) : null}
+
+      <AuditHistoryCard raffleId={raffleId} />
+
+      {saleOpen ? (
+        <ManualSaleModal
+          raffleId={raffleId}
+          total={totalCfg}
+          entries={entries}
+          cfg={cfg}
+          isAdmin={isAdmin}
+          onClose={() => setSaleOpen(false)}
+        />
+      ) : null}
+
+      {undo ? (
+        <div className="toast" role="status">
+          <span>{undo.label}</span>
+          <button className="toastAction" onClick={undoDelete} disabled={undoBusy}>
+            {undoBusy ? t('admin.undoing') : t('admin.undo')}
+          </button>
+        </div>
+      ) : null}
+
+      {confirmRelease ? (
+        <div className="modalOverlay" onMouseDown={() => !busy && setConfirmRelease(false)}>
+          <div className="modalCard" onMouseDown={(e) => e.stopPropagation()}>
+            <div className="modalHead">
+              <div className="modalTitle">{t('admin.releaseTitle')}</div>
+              <button className="modalClose" onClick={() => setConfirmRelease(false)} aria-label={t('common.close')} disabled={busy}>
+                ×
+              </button>
+            </div>
+
+            <div className="modalBody">
+              <div className="reviewBlock">
+                <div className="reviewLine">
+                  <span className="reviewLabel">{t('orders.numbers')}</span>
+                  <span className="reviewValue">{expiredNumbers.join(', ')}</span>
+                </div>
+                <div className="hint">{t('admin.releaseHint', { hours: holdHours })}</div>
+              </div>
+            </div>
+
+            <div className="modalActions">
+              <button className="btn" onClick={() => setConfirmRelease(false)} disabled={busy}>
+                {t('common.cancel')}
+              </button>
+              <button className="btnPrimary" onClick={releaseExpired} disabled={busy}>
+                {t('admin.release')}
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+
+      {reopenOpen ? (
+        <div className="modalOverlay" onMouseDown={() => !busy && setReopenOpen(false)}>
+          <div className="modalCard" onMouseDown={(e) => e.stopPropagation()}>
+            <div className="modalHead">
+              <div className="modalTitle">{t('admin.reopenTitle')}</div>
+              <button className="modalClose" onClick={() => setReopenOpen(false)} aria-label={t('common.close')} disabled={busy}>
+                ×
+              </button>
+            </div>
+
+            <div className="modalBody">
+              <div className="reviewBlock">
+                <div className="reviewLine">
+                  <span className="reviewLabel">{t('admin.publishedWinners')}</span>
+                  <span className="reviewValue">{winnersAdmin.join(', ') || '-'}</span>
+                </div>
+                <div className="hint">{t('admin.reopenHint', { status: t(STATUS_LABELS.closed) })}</div>
+                <div className="modalLabel">{t('admin.reason')}</div>
+                <textarea
+                  className="modalInput"
+                  rows={3}
+                  value={reopenReason}
+                  onChange={(e) => setReopenReason(e.target.value)}
+                  placeholder={t('admin.reasonPlaceholder')}
+                  disabled={busy}
+                />
+              </div>
+            </div>
+
+            <div className="modalActions">
+              <button className="btn" onClick={() => setReopenOpen(false)} disabled={busy}>
+                {t('common.cancel')}
+              </button>
+              <button className="btnPrimary" onClick={() => resetSorteio(reopenReason)} disabled={busy || !reopenReason.trim()}>
+                {t('admin.reopenConfirm')}
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+
       {confirmDelete ? (
         <div className="modalOverlay" onMouseDown={() => setConfirmDelete(null)}>
           <div className="modalCard" onMouseDown={(e) => e.stopPropagation()}>
             <div className="modalHead">
-              <div className="modalTitle">Confirmar exclusão</div>
-              <button className="modalClose" onClick={() => setConfirmDelete(null)} aria-label="Fechar">
+              <div className="modalTitle">{t('admin.deleteTitle')}</div>
+              <button className="modalClose" onClick={() => setConfirmDelete(null)} aria-label={t('common.close')}>
                 ×
               </button>
             </div>
@@ -1441,23 +5614,23 @@ function AdminPage() {
             <div className="modalBody">
               <div className="reviewBlock">
                 <div className="reviewLine">
-                  <span className="reviewLabel">Número</span>
+                  <span className="reviewLabel">{t('staff.number')}</span>
                   <span className="reviewValue">{confirmDelete.n}</span>
                 </div>
-                <div className="hint">Isso vai remover a reserva desse número.</div>
+                <div className="hint">{t('admin.deleteHint')}</div>
               </div>
             </div>
 
             <div className="modalActions">
               <button className="btn" onClick={() => setConfirmDelete(null)}>
-                Cancelar
+                {t('common.cancel')}
               </button>
               <button
                 className="btnPrimary"
                 onClick={() => doDelete(confirmDelete.n)}
                 disabled={!!rowBusy[String(confirmDelete.n)]}
               >
-                Excluir
+                {t('admin.delete')}
               </button>
             </div>
           </div>
@@ -1468,8 +5641,8 @@ function AdminPage() {
         <div className="modalOverlay" onMouseDown={closeMultiPay}>
           <div className="modalCard" onMouseDown={(e) => e.stopPropagation()}>
             <div className="modalHead">
-              <div className="modalTitle">Pagar múltiplos</div>
-              <button className="modalClose" onClick={closeMultiPay} aria-label="Fechar" disabled={multiBusy}>
+              <div className="modalTitle">{t('multi.title')}</div>
+              <button className="modalClose" onClick={closeMultiPay} aria-label={t('common.close')} disabled={multiBusy}>
                 ×
               </button>
             </div>
@@ -1477,34 +5650,40 @@ function AdminPage() {
             {multiStep === 'names' ? (
               <div className="modalBody">
                 <div className="nameRow">
-                  <div className="modalLabel">Buscar nome</div>
+                  <div className="modalLabel">{t('multi.search')}</div>
                   <input
                     className="modalInput"
                     value={multiSearch}
                     onChange={(e) => setMultiSearch(e.target.value)}
-                    placeholder="Digite para filtrar"
+                    placeholder={t('common.filterPlaceholder')}
                     disabled={multiBusy}
                   />
                 </div>
 
-                <div className="modalLabel">Selecione um nome</div>
+                <div className="modalLabel">{t('multi.pickName')}</div>
 
                 <div className="mpNames">
-                  {filteredReservedNames.length ? (
-                    filteredReservedNames.map((x) => (
-                      <button
-                        key={x.name}
-                        className="mpNameBtn"
-                        onClick={() => pickMultiName(x.name)}
-                        disabled={multiBusy}
-                        title={x.name}
-                      >
-                        <span className="mpNameText">{x.name}</span>
-                        <span className="mpNameCount">{x.count}</span>
-                      </button>
-                    ))
+                  {filteredReservedBuyers.length ? (
+                    filteredReservedBuyers.map((x) => {
+                      const contact = x.buyerId ? buyerContactLabel(buyers[x.buyerId]) : ''
+                      return (
+                        <button
+                          key={x.key}
+                          className="mpNameBtn"
+                          onClick={() => pickMultiBuyer(x)}
+                          disabled={multiBusy}
+                          title={contact ? `${x.name} · ${contact}` : x.name}
+                        >
+                          <span className="mpNameText">
+                            {x.name || '-'}
+                            {contact ? <span className="smallHint"> · {contact}</span> : null}
+                          </span>
+                          <span className="mpNameCount">{x.count}</span>
+                        </button>
+                      )
+                    })
                   ) : (
-                    <div className="empty">Nenhuma reserva encontrada</div>
+                    <div className="empty">{t('admin.empty')}</div>
                   )}
                 </div>
               </div>
@@ -1512,18 +5691,18 @@ function AdminPage() {
               <div className="modalBody">
                 <div className="reviewBlock">
                   <div className="reviewLine">
-                    <span className="reviewLabel">Nome</span>
-                    <span className="reviewValue">{multiName}</span>
+                    <span className="reviewLabel">{t('staff.name')}</span>
+                    <span className="reviewValue">{multiBuyer?.name}</span>
                   </div>
-                  <div className="hint">Selecione as rifas que deseja marcar.</div>
+                  <div className="hint">{t('multi.pickNumbers')}</div>
                 </div>
 
                 <div className="mpTopActions">
                   <button className="btn" onClick={toggleSelectAllMulti} disabled={multiBusy || !numbersForSelectedName.length}>
-                    Selecionar todas
+                    {t('multi.selectAll')}
                   </button>
                   <div className="smallHint">
-                    Total: {numbersForSelectedName.length} | Selecionadas: {selectedMultiNumbers.length}
+                    {t('multi.totals', { total: numbersForSelectedName.length, selected: selectedMultiNumbers.length })}
                   </div>
                 </div>
 
@@ -1536,7 +5715,7 @@ function AdminPage() {
                         className={'badge ' + (isSel ? 'badgeSel' : 'badgeFree')}
                         onClick={() => toggleMultiNumber(n)}
                         disabled={multiBusy}
-                        title={isSel ? 'Remover' : 'Selecionar'}
+                        title={isSel ? t('multi.unselect') : t('multi.select')}
                       >
                         {n}
                       </button>
@@ -1548,17 +5727,17 @@ function AdminPage() {
               <div className="modalBody">
                 <div className="reviewBlock">
                   <div className="reviewLine">
-                    <span className="reviewLabel">Nome</span>
-                    <span className="reviewValue">{multiName}</span>
+                    <span className="reviewLabel">{t('staff.name')}</span>
+                    <span className="reviewValue">{multiBuyer?.name}</span>
                   </div>
 
                   <div className="reviewLine">
-                    <span className="reviewLabel">Rifas</span>
+                    <span className="reviewLabel">{t('orders.numbers')}</span>
                     <span className="reviewValue">{selectedMultiNumbers.join(', ')}</span>
                   </div>
 
                   <div className="reviewLine">
-                    <span className="reviewLabel">Ação</span>
+                    <span className="reviewLabel">{t('multi.action')}</span>
                     <span
                       className={
                         'reviewValue ' +
@@ -1566,149 +5745,663 @@ function AdminPage() {
                       }
                     >
                       {multiAction === 'paid'
-                        ? 'Declarar pago'
+                        ? t('multi.markPaid')
                         : multiAction === 'pending'
-                          ? 'Declarar não pago'
-                          : 'Excluir'}
+                          ? t('multi.markUnpaid')
+                          : t('admin.delete')}
                     </span>
                   </div>
                 </div>
 
-                <div className="hint">
-                  {multiAction === 'delete'
-                    ? 'Confirme para excluir as reservas selecionadas.'
-                    : 'Confirme para aplicar o status em lote.'}
+                <div className="hint">
+                  {multiAction === 'delete'
+                    ? t('multi.confirmDelete')
+                    : t('multi.confirmStatus')}
+                </div>
+              </div>
+            )}
+
+            <div className="modalActions">
+              {multiStep === 'names' ? null : multiStep === 'numbers' ? (
+                <>
+                  <button
+                    className="btnGood"
+                    onClick={() => goReviewMulti('paid')}
+                    disabled={multiBusy || !selectedMultiNumbers.length}
+                    title={t('multi.markPaidHint')}
+                  >
+                    <TbBrandCashapp className="cashIcon cashPaid" />
+                    <span>{t('multi.markPaid')}</span>
+                  </button>
+                  <button
+                    className="btnBad"
+                    onClick={() => goReviewMulti('pending')}
+                    disabled={multiBusy || !selectedMultiNumbers.length}
+                    title={t('multi.markUnpaidHint')}
+                  >
+                    <TbBrandCashapp className="cashIcon cashPending" />
+                    <span>{t('multi.markUnpaid')}</span>
+                  </button>
+                  <button
+                    className="btnDanger"
+                    onClick={() => goReviewMulti('delete')}
+                    disabled={multiBusy || !selectedMultiNumbers.length}
+                    title={t('multi.deleteHint')}
+                  >
+                    <AiOutlineDelete className="delIcon" />
+                    <span>{t('admin.delete')}</span>
+                  </button>
+
+                  <button className="btn" onClick={() => setMultiStep('names')} disabled={multiBusy}>
+                    {t('common.back')}
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button className="btnPrimary btnPrimaryWide" onClick={confirmMultiPay} disabled={multiBusy}>
+                    {t('common.confirm')}
+                  </button>
+
+                  <button className="btn" onClick={() => setMultiStep('numbers')} disabled={multiBusy}>
+                    {t('common.back')}
+                  </button>
+                </>
+              )}
+
+              <button className="btn" onClick={closeMultiPay} disabled={multiBusy}>
+                {t('common.cancel')}
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  )
+}
+
+type LookupEntry = {
+  raffleId: string
+  raffleName: string
+  number: number
+  name: string
+  paid: boolean
+}
+
+function callableErrorMessage(e: unknown, i18n: I18n) {
+  const code = errorCode(e)
+  if (code === 'functions/unavailable' || code === 'functions/internal') return i18n.t('common.serviceUnavailable')
+  return errorMessage(e)
+}
+
+function MyNumbersPage() {
+  const nav = useNavigate()
+  const i18n = useI18n()
+  const { t } = i18n
+  const [contactText, setContactText] = useState('')
+  const [code, setCode] = useState('')
+  const [step, setStep] = useState<'contact' | 'code' | 'done'>('contact')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+  const [found, setFound] = useState<LookupEntry[]>([])
+
+  const contact = useMemo(() => normalizeContact(contactText), [contactText])
+
+  const groups = useMemo(() => {
+    const map = new Map<string, { raffleId: string; raffleName: string; list: LookupEntry[] }>()
+    for (const e of found) {
+      const g = map.get(e.raffleId) || { raffleId: e.raffleId, raffleName: e.raffleName, list: [] }
+      g.list.push(e)
+      map.set(e.raffleId, g)
+    }
+    return Array.from(map.values())
+  }, [found])
+
+  async function requestCode() {
+    if (!contact) return
+    setBusy(true)
+    setError('')
+    try {
+      await httpsCallable(functions, 'requestLookupCode')({ contact: contact.value })
+      setCode('')
+      setStep('code')
+    } catch (e) {
+      setError(callableErrorMessage(e, i18n))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function verifyCode() {
+    if (!contact || code.length !== 6) return
+    setBusy(true)
+    setError('')
+    try {
+      const res = await httpsCallable<{ contact: string; code: string }, { entries: LookupEntry[] }>(
+        functions,
+        'verifyLookupCode'
+      )({ contact: contact.value, code })
+      setFound(res.data?.entries || [])
+      setStep('done')
+    } catch (e) {
+      setError(callableErrorMessage(e, i18n))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  function restart() {
+    setStep('contact')
+    setCode('')
+    setFound([])
+    setError('')
+  }
+
+  return (
+    <div className="page">
+      <div className="topCard">
+        <div className="brandRow">
+          <div className="brandOnly">{t('nav.myNumbers')}</div>
+
+          <div style={{ display: 'flex', gap: 10, alignItems: 'center' }}>
+            <LanguageSwitcher />
+            <button className="adminIconBtn" onClick={() => nav('/')} title={t('nav.allRaffles')} aria-label={t('nav.allRaffles')}>
+              <FaHome />
+            </button>
+          </div>
+        </div>
+
+        {error ? <div className="error">{error}</div> : null}
+      </div>
+
+      {step !== 'done' ? (
+        <div className="listCard">
+          <div className="listTitle">
+            <span>{step === 'contact' ? t('lookup.askContact') : t('lookup.askCode')}</span>
+          </div>
+
+          <div style={{ padding: 12 }}>
+            <div className="modalLabel" style={{ marginBottom: 5 }}>{t('reserve.contact')}</div>
+            <input
+              className="modalInput"
+              value={contactText}
+              onChange={(e) => setContactText(maskContactInput(e.target.value))}
+              placeholder={t('reserve.contactPlaceholder')}
+              disabled={busy || step === 'code'}
+            />
+
+            {step === 'code' ? (
+              <>
+                <div className="modalLabel" style={{ marginTop: 12, marginBottom: 5 }}>
+                  {t('lookup.codeSentTo', { contact: formatContact(contact) })}
+                </div>
+                <input
+                  className="modalInput mono"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                  placeholder="000000"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  disabled={busy}
+                />
+              </>
+            ) : null}
+
+            <div className="adminButtons">
+              {step === 'code' ? (
+                <>
+                  <button className="btn" onClick={restart} disabled={busy}>
+                    {t('lookup.changeContact')}
+                  </button>
+                  <button className="btnPrimary" onClick={verifyCode} disabled={busy || code.length !== 6}>
+                    {busy ? t('lookup.verifying') : t('lookup.show')}
+                  </button>
+                </>
+              ) : (
+                <button className="btnPrimary" onClick={requestCode} disabled={busy || !contact}>
+                  {busy ? t('lookup.sending') : t('lookup.send')}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="listCard">
+          <div className="listTitle">
+            <span>{formatContact(contact)}</span>
+            <button className="adminLinkBtn" onClick={restart}>
+              {t('lookup.another')}
+            </button>
+          </div>
+
+          {groups.length ? (
+            groups.map((g) => (
+              <div key={g.raffleId} className="lookupGroup">
+                <div className="lookupHead">
+                  <button className="adminLinkBtn" onClick={() => nav(rafflePath(g.raffleId))}>
+                    {g.raffleName}
+                  </button>
+                  <span className="smallHint">
+                    {t('count.numbers', { count: g.list.length })} ·{' '}
+                    {t('count.paid', { count: g.list.filter((e) => e.paid).length })}
+                  </span>
+                </div>
+                <div className="lookupNums">
+                  {g.list.map((e) => (
+                    <span key={e.number} className={'lookupNum ' + (e.paid ? 'isPaid' : 'isPending')} title={e.paid ? t('entry.paid') : t('entry.unpaid')}>
+                      {e.number}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))
+          ) : (
+            <div className="empty">{t('lookup.empty')}</div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function VerifyPage() {
+  const nav = useNavigate()
+  const raffleId = useRaffleId()
+  const [raffleLocale, setRaffleLocale] = useState<string | null>(null)
+  const i18n = useI18n(raffleLocale)
+  const { t } = i18n
+  const [seed, setSeed] = useState('')
+  const [hash, setHash] = useState('')
+  const [numbersText, setNumbersText] = useState('')
+  const [prizeCount, setPrizeCount] = useState('1')
+  const [owners, setOwners] = useState<string[] | undefined>(undefined)
+  const [allowRepeat, setAllowRepeat] = useState(true)
+  const [loadedFrom, setLoadedFrom] = useState('')
+  const [error, setError] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [result, setResult] = useState<FairDrawCheck | null>(null)
+
+  useEffect(() => {
+    if (!raffleId) return
+    return repo.watchConfig(
+      raffleId,
+      (data) => {
+        const cfg = (data || {}) as AppConfig
+        setLoadedFrom(cfg.raffleName || raffleId)
+        setRaffleLocale(cfg.locale || null)
+        setHash(cfg.draw?.hash || cfg.drawCommitment?.hash || '')
+        setSeed(cfg.draw?.seed || '')
+        setNumbersText((cfg.draw?.eligible || []).join(', '))
+        setPrizeCount(String(cfg.draw?.winners?.length || prizeList(cfg).length))
+        setOwners(cfg.draw?.owners)
+        setAllowRepeat(cfg.draw ? cfg.draw.allowRepeatWinners !== false : true)
+        setResult(null)
+      },
+      (err) => setError(errorMessage(err))
+    )
+  }, [raffleId])
+
+  const eligible = useMemo(() => parseNumberList(numbersText), [numbersText])
+
+  async function verify() {
+    setBusy(true)
+    setError('')
+    try {
+      const owned = owners && owners.length === eligible.length ? owners : undefined
+      setResult(
+        await verifyFairDraw({
+          seed,
+          hash,
+          eligible,
+          prizes: Number(prizeCount) || 1,
+          owners: owned,
+          allowRepeatWinners: allowRepeat || !owned
+        })
+      )
+    } catch (e) {
+      setError(errorMessage(e))
+      setResult(null)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <LocaleScope locale={raffleLocale}>
+      <div className="page">
+        <div className="topCard">
+          <div className="brandRow">
+            <div className="brandOnly">{t('verify.title')}</div>
+            <div style={{ display: 'flex', gap: 10, alignItems: 'center' }}>
+              <LanguageSwitcher />
+              <button
+                className="adminIconBtn"
+                onClick={() => nav(raffleId ? rafflePath(raffleId) : '/')}
+                title={t('common.back')}
+                aria-label={t('common.back')}
+              >
+                <FaHome />
+              </button>
+            </div>
+          </div>
+
+          {error ? <div className="error">{error}</div> : null}
+
+          <div className="adminPanel">
+            <div className="adminPanelTitle">{loadedFrom ? t('verify.raffle', { name: loadedFrom }) : t('verify.data')}</div>
+
+            <div className="hint">{t('verify.explain', { algorithm: FAIR_DRAW_ALGORITHM })}</div>
+
+            <div className="adminGrid">
+              <div className="adminField">
+                <div className="adminLabel">{t('verify.hash')}</div>
+                <input className="adminInput mono" value={hash} onChange={(e) => setHash(e.target.value)} />
+              </div>
+
+              <div className="adminField">
+                <div className="adminLabel">{t('verify.seed')}</div>
+                <input
+                  className="adminInput mono"
+                  value={seed}
+                  onChange={(e) => setSeed(e.target.value)}
+                  placeholder={t('verify.seedPlaceholder')}
+                />
+              </div>
+            </div>
+
+            <div className="adminField" style={{ marginTop: 12 }}>
+              <div className="adminLabel">{t('verify.eligible')}</div>
+              <textarea
+                className="modalInput mono"
+                rows={4}
+                value={numbersText}
+                onChange={(e) => setNumbersText(e.target.value)}
+              />
+              <div className="smallHint">{t('common.total', { count: eligible.length })}</div>
+            </div>
+
+            <div className="adminField" style={{ marginTop: 12 }}>
+              <div className="adminLabel">{t('verify.prizeCount')}</div>
+              <input
+                className="adminInput"
+                value={prizeCount}
+                onChange={(e) => setPrizeCount(e.target.value)}
+                inputMode="numeric"
+              />
+              {owners && !allowRepeat ? (
+                <div className="smallHint">{t('verify.oneWin')}</div>
+              ) : null}
+            </div>
+
+            <div className="adminButtons">
+              <button className="btnPrimary" onClick={verify} disabled={busy || !seed.trim() || !eligible.length}>
+                {t('verify.run')}
+              </button>
+            </div>
+
+            {result ? (
+              <div className="reviewBlock" style={{ marginTop: 12 }}>
+                <div className="reviewLine">
+                  <span className="reviewLabel">{t('verify.seedHash')}</span>
+                  <span className={'reviewValue mono ' + (result.hashOk ? 'mpTextPaid' : 'mpTextPending')}>
+                    {result.hashOk ? t('verify.hashOk') : t('verify.hashBad', { hash: shortHash(result.computedHash) })}
+                  </span>
                 </div>
+                {result.winners.length ? (
+                  result.winners.map((w, i) => (
+                    <div key={i} className="reviewLine">
+                      <span className="reviewLabel">{prizeOrdinal(i, i18n)}</span>
+                      <span className="reviewValue">{t('verify.position', { n: w, position: result.indexes[i] + 1 })}</span>
+                    </div>
+                  ))
+                ) : (
+                  <div className="reviewLine">
+                    <span className="reviewLabel">{t('prizes.winner')}</span>
+                    <span className="reviewValue">-</span>
+                  </div>
+                )}
               </div>
-            )}
+            ) : null}
+          </div>
+        </div>
+      </div>
+    </LocaleScope>
+  )
+}
 
-            <div className="modalActions">
-              {multiStep === 'names' ? null : multiStep === 'numbers' ? (
-                <>
-                  <button
-                    className="btnGood"
-                    onClick={() => goReviewMulti('paid')}
-                    disabled={multiBusy || !selectedMultiNumbers.length}
-                    title="Marcar como pago"
-                  >
-                    <TbBrandCashapp className="cashIcon cashPaid" />
-                    <span>Declarar pago</span>
-                  </button>
-                  <button
-                    className="btnBad"
-                    onClick={() => goReviewMulti('pending')}
-                    disabled={multiBusy || !selectedMultiNumbers.length}
-                    title="Marcar como não pago"
-                  >
-                    <TbBrandCashapp className="cashIcon cashPending" />
-                    <span>Declarar não pago</span>
-                  </button>
-                  <button
-                    className="btnDanger"
-                    onClick={() => goReviewMulti('delete')}
-                    disabled={multiBusy || !selectedMultiNumbers.length}
-                    title="Excluir reservas"
-                  >
-                    <AiOutlineDelete className="delIcon" />
-                    <span>Excluir</span>
-                  </button>
+function LiveDrawPage() {
+  const raffleId = useRaffleId()
+  const { cfg, cfgMissing } = useConfig(raffleId)
+  const total = clampTotal(cfg.totalNumbers ?? 200)
+  const { entries } = useEntries(raffleId, total)
+  const nameMode = nameDisplayOf(cfg.nameDisplay)
+  const i18n = useI18n(cfg.locale)
+  const { t } = i18n
 
-                  <button className="btn" onClick={() => setMultiStep('names')} disabled={multiBusy}>
-                    Voltar
-                  </button>
-                </>
-              ) : (
-                <>
-                  <button className="btnPrimary btnPrimaryWide" onClick={confirmMultiPay} disabled={multiBusy}>
-                    Confirmar
-                  </button>
+  const live = useLiveDraw(raffleId)
+  const [frame, setFrame] = useState<{ key: string; reel: number | null; landed: boolean }>({ key: '', reel: null, landed: false })
+  const [fullscreen, setFullscreen] = useState(false)
 
-                  <button className="btn" onClick={() => setMultiStep('numbers')} disabled={multiBusy}>
-                    Voltar
-                  </button>
-                </>
-              )}
+  useEffect(() => {
+    const onChange = () => setFullscreen(!!document.fullscreenElement)
+    document.addEventListener('fullscreenchange', onChange)
+    return () => document.removeEventListener('fullscreenchange', onChange)
+  }, [])
 
-              <button className="btn" onClick={closeMultiPay} disabled={multiBusy}>
-                Cancelar
-              </button>
+  const prizes = useMemo(() => prizeList(cfg), [cfg])
+
+  // Depois do sorteio vale a lista congelada no resultado; antes, os pagos de agora.
+  const eligible = useMemo(() => {
+    if (live.phase === 'revealed' && cfg.draw?.eligible?.length) return cfg.draw.eligible
+    return reservationList(entries, total)
+      .filter((r) => r.e.paid)
+      .map((r) => r.n)
+  }, [live.phase, cfg.draw, entries, total])
+
+  const winners = useMemo(() => {
+    if (live.phase !== 'revealed') return []
+    return live.winners.length ? live.winners : normalizeWinnerList(cfg)
+  }, [live.phase, live.winners, cfg])
+
+  const winnersKey = winners.join(',')
+  const animKey = `${live.phase}|${winnersKey}`
+
+  const eligibleRef = useRef(eligible)
+  useEffect(() => {
+    eligibleRef.current = eligible
+  }, [eligible])
+
+  useEffect(() => {
+    const randomEligible = () => {
+      const list = eligibleRef.current
+      return list.length ? list[Math.floor(Math.random() * list.length)] : null
+    }
+    const spin = () => setFrame({ key: animKey, reel: randomEligible(), landed: false })
+
+    if (live.phase === 'spinning') {
+      const timer = setInterval(spin, 70)
+      return () => clearInterval(timer)
+    }
+
+    const final = winnersKey ? winnersKey.split(',').map(Number) : []
+    if (live.phase !== 'revealed' || !final.length || live.late) return
+
+    // Desacelera o giro e para no vencedor do 1º prêmio.
+    const timers: Array<ReturnType<typeof setTimeout>> = []
+    let at = 0
+    for (let i = 0; i < 12; i++) {
+      at += 70 + i * i * 4
+      timers.push(setTimeout(spin, at))
+    }
+    timers.push(
+      setTimeout(() => {
+        setFrame({ key: animKey, reel: final[0], landed: true })
+        final.forEach((_, i) => timers.push(setTimeout(fireWinnerConfetti, i * 900)))
+      }, at + 500)
+    )
+    return () => {
+      for (const x of timers) clearTimeout(x)
+    }
+  }, [animKey, live.phase, live.late, winnersKey])
+
+  const current = live.late
+    ? { reel: winners[0] ?? null, landed: true }
+    : frame.key === animKey
+      ? frame
+      : { reel: null, landed: false }
+  const { reel, landed } = current
+
+  function toggleFullscreen() {
+    if (document.fullscreenElement) document.exitFullscreen?.()
+    else document.documentElement.requestFullscreen?.()
+  }
+
+  if (cfgMissing) {
+    return (
+      <div className="page">
+        <div className="topCard">
+          <div className="brandOnly">{t('home.raffle')}</div>
+          <div className="error">{t('home.notFound')}</div>
+        </div>
+      </div>
+    )
+  }
+
+  const winnerSet = new Set(landed ? winners : [])
+
+  return (
+    <LocaleScope locale={cfg.locale}>
+      <div className="liveDraw">
+        <div className="liveHead">
+          <div>
+            <div className="liveKicker">{t('live.title')}</div>
+            <div className="liveName">{cfg.raffleName || t('home.raffle')}</div>
+          </div>
+          <button className="btn" onClick={toggleFullscreen}>
+            {fullscreen ? t('live.exitFullscreen') : t('live.fullscreen')}
+          </button>
+        </div>
+
+        <div className="liveStage">
+          <div className={'liveReel' + (live.phase === 'spinning' ? ' spinning' : '') + (landed ? ' landed' : '')}>
+            {reel ?? '?'}
+          </div>
+
+          {landed ? (
+            <div className="liveWinners">
+              {winners.map((n, i) => {
+                const name = nameMode === 'hidden' ? '' : displayName(entries[String(n)]?.name || '', nameMode)
+                return (
+                  <div key={`${i}|${n}`} className="liveWinner">
+                    <span className="liveWinnerPrize">
+                      {prizes.length > 1 ? `${prizeOrdinal(i, i18n)} · ${prizes[i]?.title || t('prizes.prize')}` : t('prizes.winner')}
+                    </span>
+                    <span className="liveWinnerNumber">{n}</span>
+                    {name ? <span className="liveWinnerName">{name}</span> : null}
+                  </div>
+                )
+              })}
             </div>
+          ) : (
+            <div className="liveStatus">{live.phase === 'idle' ? t('live.waiting') : t('live.spinning')}</div>
+          )}
+        </div>
+
+        <div className="liveEligible">
+          <div className="liveEligibleTitle">
+            {eligible.length ? t('live.eligible', { count: eligible.length }) : t('live.noPaid')}
+          </div>
+          <div className="liveChips">
+            {eligible.map((n) => (
+              <span key={n} className={'liveChip' + (winnerSet.has(n) ? ' win' : reel === n && !landed ? ' hot' : '')}>
+                {n}
+              </span>
+            ))}
           </div>
         </div>
-      ) : null}
-    </div>
+      </div>
+    </LocaleScope>
   )
 }
 
-type BackupMeta = {
-  name: string
-  createdAt?: any
-  docCount?: number
+type RestoreKind = 'added' | 'removed' | 'changed'
+
+type RestoreDiffItem = {
+  n: number
+  kind: RestoreKind
+  backup: Entry | null
+  live: Entry | null
+}
+
+type RestoreScope = 'all' | 'selected'
+
+const BACKUP_CHUNK = 450
+
+function diffBackupAgainstLive(backup: Array<{ n: number; e: Entry }>, live: Array<{ n: number; e: Entry }>) {
+  const backupMap = new Map<number, Entry>()
+  const liveMap = new Map<number, Entry>()
+  for (const x of backup) backupMap.set(x.n, x.e)
+  for (const x of live) liveMap.set(x.n, x.e)
+
+  const list: RestoreDiffItem[] = []
+
+  for (const [n, b] of backupMap) {
+    const l = liveMap.get(n)
+    if (!l) {
+      list.push({ n, kind: 'added', backup: b, live: null })
+      continue
+    }
+    const sameName = String(b.name || '').trim() === String(l.name || '').trim()
+    const samePaid = !!b.paid === !!l.paid
+    if (!sameName || !samePaid) list.push({ n, kind: 'changed', backup: b, live: l })
+  }
+
+  for (const [n, l] of liveMap) {
+    if (!backupMap.has(n)) list.push({ n, kind: 'removed', backup: null, live: l })
+  }
+
+  return list.sort((a, b) => a.n - b.n)
+}
+
+const RESTORE_KIND_LABELS: Record<RestoreKind, MessageKey> = {
+  added: 'data.kindAdded',
+  removed: 'data.kindRemoved',
+  changed: 'data.kindChanged'
+}
+
+function describeRestoreEntry(e: Entry | null, i18n: I18n) {
+  if (!e) return '-'
+  return i18n.t('data.entry', { name: e.name, paid: i18n.t(e.paid ? 'admin.paid' : 'admin.unpaid') })
 }
 
 function DataAdminPage() {
   const nav = useNavigate()
-  const { cfg } = useConfig()
-
-  const [pw, setPw] = useState('')
-  const [authed, setAuthed] = useState(false)
+  const raffleId = useRaffleId()
+  const { cfg } = useConfig(raffleId)
+  const { roles, user } = useAuth()
+  const i18n = useI18n()
+  const { t } = i18n
 
   const [error, setError] = useState('')
   const [busy, setBusy] = useState(false)
   const [progress, setProgress] = useState('')
 
-  const [backups, setBackups] = useState<BackupMeta[]>([])
+  const [backups, setBackups] = useState<BackupInfo[]>([])
   const [selectedBackup, setSelectedBackup] = useState<string>('')
   const [backupSearch, setBackupSearch] = useState('')
 
   const [backupEntries, setBackupEntries] = useState<Array<{ n: number; e: Entry }>>([])
   const [backupEntrySearch, setBackupEntrySearch] = useState('')
 
-  useEffect(() => {
-    const ok = localStorage.getItem('rifa_admin_manage_ok') === '1'
-    setAuthed(ok)
-  }, [])
+  const [restoreDiff, setRestoreDiff] = useState<RestoreDiffItem[] | null>(null)
+  const [restoreSet, setRestoreSet] = useState<Record<string, true>>({})
+  const [restoreConfirm, setRestoreConfirm] = useState<RestoreScope | null>(null)
 
   useEffect(() => {
-    const qy = query(collection(db, 'backups'), orderBy('createdAt', 'desc'))
-    return onSnapshot(
-      qy,
-      (snap) => {
-        const list: BackupMeta[] = []
-        snap.forEach((d) => {
-          const data = d.data() as any
-          const name = String(data?.name || d.id)
-          list.push({
-            name,
-            createdAt: data?.createdAt,
-            docCount: Number(data?.docCount || 0)
-          })
-        })
-        setBackups(list)
-      },
-      (err) => setError(String(err?.message || err))
-    )
-  }, [])
-
-  function login() {
-    const expected = String(import.meta.env.VITE_ADMIN_PASSWORD_MANAGE || '')
-    if (!expected) {
-      setError('Faltou VITE_ADMIN_PASSWORD_MANAGE no .env')
-      return
-    }
-    if (pw.trim() !== expected) {
-      setError('Senha incorreta')
-      return
-    }
-    localStorage.setItem('rifa_admin_manage_ok', '1')
-    setAuthed(true)
-    setError('')
-  }
+    return repo.watchBackups(raffleId, setBackups, (err) => setError(errorMessage(err)))
+  }, [raffleId])
 
   function logout() {
-    localStorage.removeItem('rifa_admin_manage_ok')
-    setAuthed(false)
-    setPw('')
+    signOut(auth)
     setError('')
   }
 
@@ -1718,61 +6411,58 @@ function DataAdminPage() {
     return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`
   }
 
+  async function readEntriesList(backupName?: string) {
+    const docs = backupName ? await repo.listBackupEntries(raffleId, backupName) : await repo.listEntries(raffleId)
+    const list: Array<{ n: number; e: Entry }> = []
+
+    for (const d of docs) {
+      if (!/^\d+$/.test(d.id)) continue
+      const n = Number(d.id)
+      if (n < 1) continue
+      list.push({ n, e: d.data as Entry })
+    }
+
+    return list.sort((a, b) => a.n - b.n)
+  }
+
+  async function writeBackup(reason?: string) {
+    const backupName = `entries-${stamp()}`
+
+    const docs = await repo.listEntries(raffleId)
+    if (!docs.length) return null
+
+    await repo.createBackup(raffleId, backupName, docs, {
+      reason,
+      onProgress: (done, total) => setProgress(t('data.writing', { done, total }))
+    })
+
+    return backupName
+  }
+
   async function generateBackup() {
     if (busy) return
 
     setBusy(true)
     setError('')
-    setProgress('Lendo entries...')
+    setProgress(t('data.reading'))
 
     try {
-      const backupName = `entries-${stamp()}`
-
-      const snap = await getDocs(collection(db, 'entries'))
-      const docs = snap.docs.map((d) => ({ id: d.id, data: d.data() }))
+      const backupName = await writeBackup()
 
-      if (!docs.length) {
+      if (!backupName) {
         setProgress('')
         setBusy(false)
-        setError('Não tem nada em entries para fazer backup')
+        setError(t('data.nothingToBackup'))
         return
       }
 
-      const CHUNK = 450
-      const totalChunks = Math.ceil(docs.length / CHUNK)
-
-      for (let i = 0; i < docs.length; i += CHUNK) {
-        const chunkIndex = Math.floor(i / CHUNK) + 1
-        setProgress(`Gravando ${chunkIndex}/${totalChunks}...`)
-
-        const batch = writeBatch(db)
-        const part = docs.slice(i, i + CHUNK)
-
-        for (const x of part) {
-          batch.set(doc(db, backupName, String(x.id)), x.data as any)
-        }
-
-        await batch.commit()
-      }
-
-      setProgress('Registrando backup...')
-      await setDoc(
-        doc(db, 'backups', backupName),
-        {
-          name: backupName,
-          createdAt: serverTimestamp(),
-          docCount: docs.length
-        },
-        { merge: true }
-      )
-
       setSelectedBackup(backupName)
       setProgress('')
       setBusy(false)
-    } catch (e: any) {
+    } catch (e) {
       setProgress('')
       setBusy(false)
-      setError(String(e?.message || e))
+      setError(errorMessage(e))
     }
   }
 
@@ -1782,30 +6472,121 @@ function DataAdminPage() {
     setSelectedBackup(name)
     setBackupEntries([])
     setBackupEntrySearch('')
+    setRestoreDiff(null)
+    setRestoreSet({})
     setError('')
-    setProgress('Carregando backup...')
+    setProgress(t('data.loadingBackup'))
 
     try {
-      const snap = await getDocs(collection(db, name))
-      const list: Array<{ n: number; e: Entry }> = []
-
-      snap.forEach((d) => {
-        const id = d.id
-        if (!/^\d+$/.test(id)) return
-        const n = Number(id)
-        if (n < 1) return
-        list.push({ n, e: d.data() as Entry })
-      })
-
-      list.sort((a, b) => a.n - b.n)
+      const list = await readEntriesList(name)
       setBackupEntries(list)
       setProgress('')
-    } catch (e: any) {
+    } catch (e) {
+      setProgress('')
+      setError(errorMessage(e))
+    }
+  }
+
+  async function compareWithLive() {
+    if (busy || !selectedBackup) return
+
+    setBusy(true)
+    setError('')
+    setProgress(t('data.comparing'))
+
+    try {
+      const live = await readEntriesList()
+      setRestoreDiff(diffBackupAgainstLive(backupEntries, live))
+      setRestoreSet({})
+      setProgress('')
+      setBusy(false)
+    } catch (e) {
+      setProgress('')
+      setBusy(false)
+      setError(errorMessage(e))
+    }
+  }
+
+  function toggleRestoreNumber(n: number) {
+    const k = String(n)
+    setRestoreSet((prev) => {
+      const next = { ...prev }
+      if (next[k]) delete next[k]
+      else next[k] = true
+      return next
+    })
+  }
+
+  function toggleRestoreAll() {
+    if (!restoreDiff?.length) return
+    const allSelected = restoreDiff.every((x) => !!restoreSet[String(x.n)])
+    if (allSelected) {
+      setRestoreSet({})
+      return
+    }
+    const next: Record<string, true> = {}
+    for (const x of restoreDiff) next[String(x.n)] = true
+    setRestoreSet(next)
+  }
+
+  async function restoreBackup(scope: RestoreScope) {
+    if (busy || !selectedBackup || !restoreDiff) return
+
+    const items = scope === 'all' ? restoreDiff : restoreDiff.filter((x) => !!restoreSet[String(x.n)])
+    if (!items.length) {
+      setRestoreConfirm(null)
+      return
+    }
+
+    setBusy(true)
+    setError('')
+    setProgress(t('data.safetyBackup'))
+
+    try {
+      const safetyName = await writeBackup(t('data.safetyReason', { backup: selectedBackup }))
+
+      const totalChunks = Math.ceil(items.length / BACKUP_CHUNK)
+
+      for (let i = 0; i < items.length; i += BACKUP_CHUNK) {
+        const chunkIndex = Math.floor(i / BACKUP_CHUNK) + 1
+        setProgress(t('data.restoring', { done: chunkIndex, total: totalChunks }))
+
+        const part = items.slice(i, i + BACKUP_CHUNK)
+        const nums = part.map((x) => x.n)
+
+        await repo.writeEntries(
+          raffleId,
+          part.map((x) => ({ id: String(x.n), data: x.backup })),
+          auditRecord({
+            actor: staffActor(user),
+            action: 'restore',
+            numbers: nums,
+            before: auditEntries(nums, (n) => part.find((x) => x.n === n)?.live),
+            after: { ...auditEntries(nums, (n) => part.find((x) => x.n === n)?.backup), backup: selectedBackup }
+          })
+        )
+      }
+
+      setProgress(t('data.checking'))
+      const live = await readEntriesList()
+      setRestoreDiff(diffBackupAgainstLive(backupEntries, live))
+      setRestoreSet({})
+      setRestoreConfirm(null)
+      setProgress(safetyName ? t('data.restoredWithBackup', { backup: safetyName }) : t('data.restored'))
+      setBusy(false)
+    } catch (e) {
       setProgress('')
-      setError(String(e?.message || e))
+      setBusy(false)
+      setRestoreConfirm(null)
+      setError(errorMessage(e))
     }
   }
 
+  const restoreSelectedCount = useMemo(() => {
+    if (!restoreDiff) return 0
+    return restoreDiff.filter((x) => !!restoreSet[String(x.n)]).length
+  }, [restoreDiff, restoreSet])
+
   const filteredBackups = useMemo(() => {
     const q = backupSearch.trim().toLowerCase()
     if (!q) return backups
@@ -1822,39 +6603,9 @@ function DataAdminPage() {
     })
   }, [backupEntries, backupEntrySearch])
 
-  if (!authed) {
+  if (!hasRole(roles, 'data-admin')) {
     return (
-      <div className="page dataPage">
-        <div className="topCard">
-          <div className="brandOnly">{cfg.raffleName || 'Rifa'}</div>
-          <div className="adminLoginCard">
-            <div className="adminLoginTitle">Admin Data</div>
-
-            {error ? <div className="error">{error}</div> : null}
-
-            <div className="adminLoginRow">
-              <input
-                className="adminPw"
-                value={pw}
-                onChange={(e) => setPw(e.target.value)}
-                placeholder="Senha"
-                type="password"
-              />
-              <button className="btnPrimary" onClick={login}>
-                Entrar
-              </button>
-            </div>
-
-            <div className="hint">Acesse direto por /admin/data</div>
-          </div>
-        </div>
-
-        <div className="backRow">
-          <button className="btn" onClick={() => nav('/')}>
-            Voltar
-          </button>
-        </div>
-      </div>
+      <StaffGate brand={cfg.raffleName || t('admin.brand')} title={t('data.title')} role="data-admin" backTo={rafflePath(raffleId)} />
     )
   }
 
@@ -1862,16 +6613,27 @@ function DataAdminPage() {
     <div className="page dataPage">
       <div className="topCard">
         <div className="brandRow">
-          <div className="brandOnly">{cfg.raffleName || 'Rifa'}</div>
+          <div className="brandOnly">{cfg.raffleName || t('admin.brand')}</div>
           <div style={{ display: 'flex', gap: 10, alignItems: 'center' }}>
-            <button className="adminIconBtn" onClick={() => nav('/admin')} title="Admin" aria-label="Admin">
+            <LanguageSwitcher />
+            <button
+              className="adminIconBtn"
+              onClick={() => nav(rafflePath(raffleId, '/admin'))}
+              title={t('admin.title')}
+              aria-label={t('admin.title')}
+            >
               <IoIosSettings />
             </button>
-            <button className="adminIconBtn" onClick={() => nav('/')} title="Página inicial" aria-label="Página inicial">
+            <button
+              className="adminIconBtn"
+              onClick={() => nav(rafflePath(raffleId))}
+              title={t('admin.rafflePage')}
+              aria-label={t('admin.rafflePage')}
+            >
               <FaHome />
             </button>
             <button className="adminLinkBtn" onClick={logout}>
-              Sair
+              {t('staff.logout')}
             </button>
           </div>
         </div>
@@ -1879,11 +6641,11 @@ function DataAdminPage() {
         {error ? <div className="error">{error}</div> : null}
 
         <div className="adminPanel dataPanel">
-          <div className="adminPanelTitle">Backups de entries</div>
+          <div className="adminPanelTitle">{t('data.backupsTitle')}</div>
 
           <div className="dataTopRow">
             <button className="btnPrimary" onClick={generateBackup} disabled={busy}>
-              Gerar backup agora
+              {t('data.backupNow')}
             </button>
 
             <div className="dataProgress">
@@ -1893,15 +6655,15 @@ function DataAdminPage() {
 
           <div className="dataSplit">
             <div className="dataCol">
-              <div className="dataColTitle">Backups</div>
+              <div className="dataColTitle">{t('data.backups')}</div>
 
               <div className="nameRow">
-                <div className="modalLabel">Buscar backup</div>
+                <div className="modalLabel">{t('data.searchBackup')}</div>
                 <input
                   className="modalInput"
                   value={backupSearch}
                   onChange={(e) => setBackupSearch(e.target.value)}
-                  placeholder="Digite para filtrar"
+                  placeholder={t('common.filterPlaceholder')}
                   disabled={busy}
                 />
               </div>
@@ -1921,53 +6683,54 @@ function DataAdminPage() {
                         <div className="dataBackupMain">
                           <div className="dataBackupName">{b.name}</div>
                           <div className="smallHint">
-                            {b.createdAt ? formatWhen(b.createdAt) : ''}{b.docCount ? ` | docs: ${b.docCount}` : ''}
+                            {b.createdAt ? i18n.when(b.createdAt) : ''}{b.docCount ? ` | ${t('data.docCount', { count: b.docCount })}` : ''}
                           </div>
+                          {b.reason ? <div className="smallHint">{b.reason}</div> : null}
                         </div>
                       </button>
                     )
                   })
                 ) : (
-                  <div className="empty">Nenhum backup ainda</div>
+                  <div className="empty">{t('data.noBackups')}</div>
                 )}
               </div>
             </div>
 
             <div className="dataCol">
-              <div className="dataColTitle">Conteúdo do backup</div>
+              <div className="dataColTitle">{t('data.contents')}</div>
 
               {selectedBackup ? (
                 <>
                   <div className="reviewBlock">
                     <div className="reviewLine">
-                      <span className="reviewLabel">Backup</span>
+                      <span className="reviewLabel">{t('data.backup')}</span>
                       <span className="reviewValue">{selectedBackup}</span>
                     </div>
-                    <div className="hint">Isso é uma cópia da coleção entries no momento do backup.</div>
+                    <div className="hint">{t('data.contentsHint')}</div>
                   </div>
 
                   <div className="nameRow" style={{ marginTop: 12 }}>
-                    <div className="modalLabel" style={{ marginBottom: 5 }}>Buscar por número ou nome</div>
+                    <div className="modalLabel" style={{ marginBottom: 5 }}>{t('data.searchEntries')}</div>
                     <input
                       className="modalInput"
                       value={backupEntrySearch}
                       onChange={(e) => setBackupEntrySearch(e.target.value)}
-                      placeholder="Digite para filtrar"
+                      placeholder={t('common.filterPlaceholder')}
                       disabled={busy}
                     />
                   </div>
 
                   <div className="listCard" style={{ marginTop: 12 }}>
                     <div className="listTitle">
-                      <span>Itens</span>
-                      <span className="smallHint">Total: {filteredBackupEntries.length}</span>
+                      <span>{t('data.items')}</span>
+                      <span className="smallHint">{t('common.total', { count: filteredBackupEntries.length })}</span>
                     </div>
 
                     <div className="listHead home">
-                      <div className="lh center">Número</div>
-                      <div className="lh">Nome</div>
-                      <div className="lh center">Reserva em</div>
-                      <div className="lh center">Pagamento</div>
+                      <div className="lh center">{t('staff.number')}</div>
+                      <div className="lh">{t('staff.name')}</div>
+                      <div className="lh center">{t('admin.reservedAt')}</div>
+                      <div className="lh center">{t('admin.payment')}</div>
                     </div>
 
                     <div className="listBody">
@@ -1980,24 +6743,101 @@ function DataAdminPage() {
                               <div className="lc nameCell" title={e.name}>
                                 {e.name}
                               </div>
-                              <div className="lc whenCell center mono">{formatWhen(e.reservedAt)}</div>
+                              <div className="lc whenCell center mono">{i18n.when(e.reservedAt)}</div>
                               <div className="lc payCell center">
                                 <div className={'payPill ' + (paid ? 'pillPaid' : 'pillPending')}>
                                   <TbBrandCashapp className={'cashIcon ' + (paid ? 'cashPaid' : 'cashPending')} />
-                                  <span className="payText">{paid ? 'Pago' : 'Não Pago'}</span>
+                                  <span className="payText">{paid ? t('admin.paid') : t('admin.unpaid')}</span>
                                 </div>
                               </div>
                             </div>
                           )
                         })
                       ) : (
-                        <div className="empty">Nenhum item para mostrar</div>
+                        <div className="empty">{t('data.noItems')}</div>
                       )}
                     </div>
                   </div>
+
+                  <div className="listCard" style={{ marginTop: 12 }}>
+                    <div className="listTitle">
+                      <span>{t('data.restore')}</span>
+                      <button className="btn" onClick={compareWithLive} disabled={busy || !backupEntries.length}>
+                        {t('data.compare')}
+                      </button>
+                    </div>
+
+                    {restoreDiff ? (
+                      <>
+                        <div className="mpTopActions" style={{ padding: '0 12px' }}>
+                          <button className="btn" onClick={toggleRestoreAll} disabled={busy || !restoreDiff.length}>
+                            {t('multi.selectAll')}
+                          </button>
+                          <div className="smallHint">
+                            {t('data.diffTotals', { total: restoreDiff.length, selected: restoreSelectedCount })}
+                          </div>
+                        </div>
+
+                        <div className="listHead restore">
+                          <div className="lh center">{t('staff.number')}</div>
+                          <div className="lh">{t('data.change')}</div>
+                          <div className="lh">{t('data.current')}</div>
+                          <div className="lh">{t('data.backup')}</div>
+                        </div>
+
+                        <div className="listBody">
+                          {restoreDiff.length ? (
+                            restoreDiff.map((x) => {
+                              const isSel = !!restoreSet[String(x.n)]
+                              return (
+                                <div key={x.n} className="listRow restore">
+                                  <div className="lc center">
+                                    <button
+                                      className={'badge ' + (isSel ? 'badgeSel' : 'badgeFree')}
+                                      onClick={() => toggleRestoreNumber(x.n)}
+                                      disabled={busy}
+                                      title={isSel ? t('multi.unselect') : t('multi.select')}
+                                    >
+                                      {x.n}
+                                    </button>
+                                  </div>
+                                  <div className={'lc ' + (x.kind === 'removed' ? 'mpTextPending' : 'mpTextPaid')}>
+                                    {t(RESTORE_KIND_LABELS[x.kind])}
+                                  </div>
+                                  <div className="lc nameCell">{describeRestoreEntry(x.live, i18n)}</div>
+                                  <div className="lc nameCell">{describeRestoreEntry(x.backup, i18n)}</div>
+                                </div>
+                              )
+                            })
+                          ) : (
+                            <div className="empty">{t('data.noDiff')}</div>
+                          )}
+                        </div>
+
+                        <div className="modalActions">
+                          <button
+                            className="btn"
+                            onClick={() => setRestoreConfirm('selected')}
+                            disabled={busy || !restoreSelectedCount}
+                          >
+                            {t('data.restoreSelected')}
+                          </button>
+                          <button
+                            className="btnPrimary"
+                            onClick={() => setRestoreConfirm('all')}
+                            disabled={busy || !restoreDiff.length}
+                          >
+                            {t('data.restoreAll')}
+                          </button>
+                        </div>
+                      </>
+                    ) : (
+                      <div className="empty">{t('data.compareFirst')}</div>
+                    )}
+                  </div>
                 </>
               ) : (
-                <div className="empty">Selecione um backup para visualizar</div>
+                <div className="empty">{t('data.pickBackup')}</div>
               )}
             </div>
           </div>
@@ -2005,20 +6845,72 @@ function DataAdminPage() {
       </div>
 
       <div className="backRow">
-        <button className="btn" onClick={() => nav('/admin')}>
-          Voltar
+        <button className="btn" onClick={() => nav(rafflePath(raffleId, '/admin'))}>
+          {t('common.back')}
         </button>
       </div>
+
+      {restoreConfirm && restoreDiff ? (
+        <div className="modalOverlay" onMouseDown={() => !busy && setRestoreConfirm(null)}>
+          <div className="modalCard" onMouseDown={(e) => e.stopPropagation()}>
+            <div className="modalHead">
+              <div className="modalTitle">{t('data.confirmTitle')}</div>
+              <button className="modalClose" onClick={() => setRestoreConfirm(null)} aria-label={t('common.close')} disabled={busy}>
+                ×
+              </button>
+            </div>
+
+            <div className="modalBody">
+              <div className="reviewBlock">
+                <div className="reviewLine">
+                  <span className="reviewLabel">{t('data.backup')}</span>
+                  <span className="reviewValue">{selectedBackup}</span>
+                </div>
+                <div className="reviewLine">
+                  <span className="reviewLabel">{t('orders.numbers')}</span>
+                  <span className="reviewValue">
+                    {restoreConfirm === 'all' ? restoreDiff.length : restoreSelectedCount}
+                  </span>
+                </div>
+                <div className="hint">{t('data.confirmHint')}</div>
+              </div>
+              {progress ? <div className="smallHint" style={{ marginTop: 10 }}>{progress}</div> : null}
+            </div>
+
+            <div className="modalActions">
+              <button className="btn" onClick={() => setRestoreConfirm(null)} disabled={busy}>
+                {t('common.cancel')}
+              </button>
+              <button className="btnPrimary" onClick={() => restoreBackup(restoreConfirm)} disabled={busy}>
+                {t('data.restore')}
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
     </div>
   )
 }
 
 export default function App() {
+  const authState = useAuthState()
+  const language = useLanguageChoice()
+
   return (
-    <Routes>
-      <Route path="/" element={<HomePage />} />
-      <Route path="/admin" element={<AdminPage />} />
-      <Route path="/admin/data" element={<DataAdminPage />} />
-    </Routes>
+    <AuthContext.Provider value={authState}>
+      <I18nContext.Provider value={language}>
+        <Routes>
+          <Route path="/" element={<RafflePickerPage />} />
+          <Route path="/admin" element={<RafflesAdminPage />} />
+          <Route path="/verify" element={<VerifyPage />} />
+          <Route path="/meus-numeros" element={<MyNumbersPage />} />
+          <Route path="/r/:raffleId" element={<HomePage />} />
+          <Route path="/r/:raffleId/verify" element={<VerifyPage />} />
+          <Route path="/r/:raffleId/sorteio" element={<LiveDrawPage />} />
+          <Route path="/r/:raffleId/admin" element={<AdminPage />} />
+          <Route path="/r/:raffleId/admin/data" element={<DataAdminPage />} />
+        </Routes>
+      </I18nContext.Provider>
+    </AuthContext.Provider>
   )
 }
@@ -0,0 +1,63 @@
+import type { AuditRecord, RaffleTransaction } from './repository'
+
+export type AuditAction =
+  | 'reserve'
+  | 'sale'
+  | 'pay'
+  | 'unpay'
+  | 'delete'
+  | 'undelete'
+  | 'release-expired'
+  | 'import'
+  | 'restore'
+  | 'config'
+  | 'commit'
+  | 'draw'
+  | 'reset-draw'
+  | 'proof-reject'
+  | 'order-cancel'
+  | 'refund'
+  | 'status'
+
+export type AuditActor = {
+  kind: 'staff' | 'buyer' | 'system'
+  uid?: string
+  email?: string
+  name?: string
+  buyerId?: string
+}
+
+export type AuditEntryValue = { name: string; paid: boolean } | null
+
+type AuditedEntry = { name?: string; paid?: boolean }
+
+export function auditEntry(e: AuditedEntry | null | undefined): AuditEntryValue {
+  return e ? { name: String(e.name || ''), paid: !!e.paid } : null
+}
+
+export function auditEntries(nums: number[], pick: (n: number) => AuditedEntry | null | undefined) {
+  const out: Record<string, AuditEntryValue> = {}
+  for (const n of nums) out[String(n)] = auditEntry(pick(n))
+  return out
+}
+
+export function auditRecord(event: {
+  actor: AuditActor
+  action: AuditAction
+  numbers?: number[]
+  before?: unknown
+  after?: unknown
+}): AuditRecord {
+  return {
+    actor: event.actor,
+    action: event.action,
+    numbers: (event.numbers || []).slice().sort((a, b) => a - b),
+    before: event.before ?? null,
+    after: event.after ?? null
+  }
+}
+
+// Grava o evento na mesma transação da mudança: ou os dois entram, ou nenhum.
+export function writeAudit(tx: RaffleTransaction, event: Parameters<typeof auditRecord>[0], id?: string) {
+  tx.audit(auditRecord(event), id)
+}
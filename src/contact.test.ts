@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { formatContact, maskBrPhone, maskContactInput, newBuyerId, normalizeBrPhone, normalizeContact } from './contact'
+
+describe('maskBrPhone', () => {
+  it('masks while the number is typed', () => {
+    expect(maskBrPhone('1')).toBe('(1')
+    expect(maskBrPhone('1198')).toBe('(11) 98')
+    expect(maskBrPhone('1134567890')).toBe('(11) 3456-7890')
+    expect(maskBrPhone('11987654321999')).toBe('(11) 98765-4321')
+  })
+
+  it('leaves e-mails alone', () => {
+    expect(maskContactInput(' ana@rifa.test ')).toBe('ana@rifa.test')
+    expect(maskContactInput('11987654321')).toBe('(11) 98765-4321')
+  })
+})
+
+describe('normalizeBrPhone', () => {
+  it('accepts landlines and mobiles, with or without the country code', () => {
+    expect(normalizeBrPhone('(11) 98765-4321')).toBe('+5511987654321')
+    expect(normalizeBrPhone('+55 11 3456-7890')).toBe('+551134567890')
+  })
+
+  it('rejects bad area codes and mobiles without the leading 9', () => {
+    expect(normalizeBrPhone('(01) 98765-4321')).toBe('')
+    expect(normalizeBrPhone('(10) 98765-4321')).toBe('')
+    expect(normalizeBrPhone('(11) 88765-4321')).toBe('')
+    expect(normalizeBrPhone('98765-4321')).toBe('')
+  })
+})
+
+describe('normalizeContact / formatContact', () => {
+  it('lowercases e-mails and checks their shape', () => {
+    expect(normalizeContact('Ana@Rifa.Test')).toEqual({ type: 'email', value: 'ana@rifa.test' })
+    expect(normalizeContact('ana@rifa')).toBeNull()
+    expect(normalizeContact('  ')).toBeNull()
+  })
+
+  it('round-trips a phone into the masked form', () => {
+    const c = normalizeContact('11 98765 4321')
+    expect(c).toEqual({ type: 'phone', value: '+5511987654321' })
+    expect(formatContact(c)).toBe('(11) 98765-4321')
+    expect(formatContact(null)).toBe('')
+  })
+})
+
+describe('newBuyerId', () => {
+  it('is random hex, longer than the old hashed ids', () => {
+    const id = newBuyerId()
+    expect(id).toMatch(/^[0-9a-f]{40}$/)
+    expect(newBuyerId()).not.toBe(id)
+  })
+})
@@ -0,0 +1,65 @@
+export type ContactType = 'phone' | 'email'
+
+export type Contact = {
+  type: ContactType
+  value: string
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/
+
+export function onlyDigits(v: string) {
+  return String(v || '').replace(/\D/g, '')
+}
+
+export function looksLikeEmail(v: string) {
+  return /[@a-zA-Z]/.test(String(v || ''))
+}
+
+export function normalizeBrPhone(v: string) {
+  let d = onlyDigits(v)
+  if ((d.length === 12 || d.length === 13) && d.startsWith('55')) d = d.slice(2)
+  if (d.length !== 10 && d.length !== 11) return ''
+  const ddd = Number(d.slice(0, 2))
+  if (ddd < 11 || d[0] === '0' || d[1] === '0') return ''
+  if (d.length === 11 && d[2] !== '9') return ''
+  return `+55${d}`
+}
+
+export function maskBrPhone(v: string) {
+  const d = onlyDigits(v).slice(0, 11)
+  if (!d) return ''
+  if (d.length <= 2) return `(${d}`
+  if (d.length <= 6) return `(${d.slice(0, 2)}) ${d.slice(2)}`
+  if (d.length <= 10) return `(${d.slice(0, 2)}) ${d.slice(2, 6)}-${d.slice(6)}`
+  return `(${d.slice(0, 2)}) ${d.slice(2, 7)}-${d.slice(7)}`
+}
+
+export function maskContactInput(v: string) {
+  return looksLikeEmail(v) ? String(v || '').trim() : maskBrPhone(v)
+}
+
+export function normalizeContact(v: string): Contact | null {
+  const raw = String(v || '').trim()
+  if (!raw) return null
+  if (looksLikeEmail(raw)) {
+    const email = raw.toLowerCase()
+    return EMAIL_RE.test(email) ? { type: 'email', value: email } : null
+  }
+  const phone = normalizeBrPhone(raw)
+  return phone ? { type: 'phone', value: phone } : null
+}
+
+export function formatContact(c: Contact | null | undefined) {
+  if (!c) return ''
+  if (c.type === 'email') return c.value
+  return maskBrPhone(c.value.replace(/^\+55/, ''))
+}
+
+// Aleatório de propósito: o buyerId fica nas reservas públicas, e um hash do celular dava para
+// reverter testando todos os números. Quem liga o id ao contato é o cadastro do comprador (só equipe lê).
+// 40 caracteres, para não confundir com os ids antigos (hash de 32).
+export function newBuyerId() {
+  const bytes = new Uint8Array(20)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import * as server from '../functions/src/draw'
+import { normalizeContact } from './contact'
+import { FAIR_DRAW_ALGORITHM, commitSeed, drawOwnerOf, paidDrawPool, runFairDraw } from './fairDraw'
+
+// functions/src/draw.ts repete o código do navegador (o pacote das functions não enxerga src/).
+// Estes testes garantem que os dois lados continuam dando o mesmo resultado.
+
+const SEED = '5f2b0c9d8e7a6b5c4d3e2f1a0b9c8d7e6f5a4b3c2d1e0f9a8b7c6d5e4f3a2b1c'
+
+describe('contact normalization parity', () => {
+  const inputs = [
+    '(11) 98765-4321',
+    '+55 11 98765-4321',
+    '5511987654321',
+    '1133334444',
+    '(01) 98765-4321',
+    '11 8765-43210',
+    '  Ana@Example.COM ',
+    'ana@example',
+    'abc',
+    ''
+  ]
+
+  it.each(inputs)('normalizes %j the same way', (v) => {
+    expect(server.normalizeContact(v)).toEqual(normalizeContact(v))
+  })
+})
+
+describe('fair draw parity', () => {
+  const entries = [
+    { n: 7, e: { name: 'Ana', buyerId: 'b1' } },
+    { n: 13, e: { name: 'ana', buyerId: 'b1' } },
+    { n: 21, e: { name: ' Bruno  Silva ' } },
+    { n: 40, e: { name: 'bruno silva' } },
+    { n: 55, e: { name: 'Carla', buyerId: 'b2' } },
+    { n: 99, e: { name: 'Carla' } }
+  ]
+  const paid = entries.map((r) => r.n)
+  const keys = Object.fromEntries(entries.map((r) => [String(r.n), drawOwnerOf(r)]))
+  const { owners } = paidDrawPool(
+    entries.map((r) => ({ n: r.n, e: { ...r.e, paid: true } })),
+    1,
+    false
+  )
+
+  it('keys and labels owners the same way', () => {
+    for (const r of entries) expect(server.drawOwnerOf(r.e)).toBe(drawOwnerOf(r))
+    expect(server.ownerLabels(keys)).toEqual(owners)
+  })
+
+  it('hashes the seed like the published commitment', async () => {
+    expect(server.sha256(SEED.trim())).toBe(await commitSeed(SEED))
+    expect(server.FAIR_DRAW_ALGORITHM).toBe(FAIR_DRAW_ALGORITHM)
+  })
+
+  it.each([
+    { prizes: 1, allowRepeatWinners: false },
+    { prizes: 3, allowRepeatWinners: false },
+    { prizes: 4, allowRepeatWinners: true }
+  ])('draws the same winners for %j', async ({ prizes, allowRepeatWinners }) => {
+    const browser = await runFairDraw(SEED, paid, { prizes, owners, allowRepeatWinners })
+    const scheduled = server.runFairDraw(SEED, paid, prizes, owners, allowRepeatWinners)
+    expect(scheduled.eligible).toEqual(browser.eligible)
+    expect(scheduled.indexes).toEqual(browser.indexes)
+    expect(scheduled.winners).toEqual(browser.winners)
+    expect(scheduled.owners).toEqual(browser.owners)
+    expect(scheduled.hash).toBe(browser.hash)
+  })
+})
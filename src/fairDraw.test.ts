@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest'
+import {
+  FAIR_DRAW_ALGORITHM,
+  commitSeed,
+  normalizeEligible,
+  ownerLabels,
+  paidDrawPool,
+  parseNumberList,
+  pickWinnerIndex,
+  runFairDraw,
+  sha256Hex,
+  verifyFairDraw
+} from './fairDraw'
+
+const SEED = 'a3f1c9e0b7d24c6e8f0a1b2c3d4e5f60718293a4b5c6d7e8f9a0b1c2d3e4f506'
+
+describe('sha256Hex / commitSeed', () => {
+  it('matches the SHA-256 test vector', async () => {
+    expect(await sha256Hex('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+  })
+
+  it('ignores surrounding whitespace in the seed', async () => {
+    expect(await commitSeed(`  ${SEED}\n`)).toBe(await commitSeed(SEED))
+  })
+})
+
+describe('normalizeEligible / parseNumberList', () => {
+  it('sorts, dedupes and drops invalid numbers', () => {
+    expect(normalizeEligible([5, 3, 3, 0, -1, 2.5, 10])).toEqual([3, 5, 10])
+    expect(parseNumberList('12, 3;3\n 7 abc')).toEqual([3, 7, 12])
+  })
+})
+
+describe('paidDrawPool', () => {
+  const list = [
+    { n: 1, e: { name: 'Ana', paid: true } },
+    { n: 2, e: { name: 'ana ', paid: true } },
+    { n: 3, e: { name: 'Bruno', paid: false } },
+    { n: 4, e: { name: 'Carla', paid: true } }
+  ]
+
+  it('keeps only paid numbers and labels their owners', () => {
+    const pool = paidDrawPool(list, 1, false)
+    expect(pool.numbers).toEqual([1, 2, 4])
+    expect(pool.owners).toEqual({ '1': 'd1', '2': 'd1', '4': 'd2' })
+    expect(pool.problem).toBeNull()
+  })
+
+  it('counts each owner once when winners cannot repeat', () => {
+    expect(paidDrawPool(list, 3, false).problem).toBe('too-few')
+    expect(paidDrawPool(list, 3, true).problem).toBeNull()
+  })
+
+  it('treats two buyers with the same name as different owners', () => {
+    const joaos = [
+      { n: 1, e: { name: 'João', paid: true, buyerId: 'a' } },
+      { n: 2, e: { name: 'João', paid: true, buyerId: 'b' } }
+    ]
+    const pool = paidDrawPool(joaos, 2, false)
+    expect(pool.problem).toBeNull()
+    expect(pool.owners).toEqual({ '1': 'd1', '2': 'd2' })
+  })
+
+  it('publishes labels instead of names or buyer ids', () => {
+    const pool = paidDrawPool(
+      [
+        { n: 9, e: { name: 'Zé', paid: true, buyerId: 'secret' } },
+        { n: 5, e: { name: 'Maria Souza', paid: true } },
+        { n: 7, e: { name: '', paid: true } }
+      ],
+      1,
+      false
+    )
+    expect(pool.owners).toEqual({ '5': 'd1', '7': '', '9': 'd2' })
+  })
+
+  it('numbers the labels in the order of the numbers', () => {
+    expect(ownerLabels({ '30': 'b', '4': 'a', '12': 'b' })).toEqual({ '4': 'd1', '12': 'd2', '30': 'd2' })
+  })
+
+  it('flags a raffle with nothing paid', () => {
+    expect(paidDrawPool([{ n: 3, e: { name: 'Bruno' } }], 1, false).problem).toBe('no-paid')
+  })
+})
+
+describe('runFairDraw / verifyFairDraw', () => {
+  const paid = [40, 7, 13, 99, 21, 7]
+
+  it('is deterministic and independent of input order', async () => {
+    const a = await runFairDraw(SEED, paid, { prizes: 3, allowRepeatWinners: true })
+    const b = await runFairDraw(SEED, paid.slice().reverse(), { prizes: 3, allowRepeatWinners: true })
+    expect(a).toEqual(b)
+    expect(a.algorithm).toBe(FAIR_DRAW_ALGORITHM)
+    expect(a.eligible).toEqual([7, 13, 21, 40, 99])
+    expect(a.hash).toBe(await commitSeed(SEED))
+  })
+
+  it('draws distinct paid numbers, the first one picked from the full list', async () => {
+    const r = await runFairDraw(SEED, paid, { prizes: 3, allowRepeatWinners: true })
+    expect(new Set(r.winners).size).toBe(3)
+    for (const w of r.winners) expect(r.eligible).toContain(w)
+    expect(r.winner).toBe(r.eligible[await pickWinnerIndex(SEED, r.eligible)])
+  })
+
+  it('skips the other numbers of a winning owner unless repeats are allowed', async () => {
+    const owners = { '7': 'Ana', '13': 'Ana', '21': 'Ana', '40': 'Bruno', '99': 'Carla' }
+    const r = await runFairDraw(SEED, paid, { prizes: 3, owners, allowRepeatWinners: false })
+    const names = r.winners.map((n) => owners[String(n) as keyof typeof owners])
+    expect(new Set(names).size).toBe(3)
+    expect(r.owners).toEqual(['ana', 'ana', 'ana', 'bruno', 'carla'])
+  })
+
+  it('recomputes the same winners from the published data', async () => {
+    const owners = { '7': 'Ana', '13': 'Ana', '21': 'Bia', '40': 'Bruno', '99': 'Carla' }
+    const r = await runFairDraw(SEED, paid, { prizes: 2, owners })
+    const check = await verifyFairDraw({
+      seed: r.seed,
+      hash: r.hash,
+      eligible: r.eligible,
+      prizes: 2,
+      owners: r.owners,
+      allowRepeatWinners: false
+    })
+    expect(check.hashOk).toBe(true)
+    expect(check.winners).toEqual(r.winners)
+    expect(check.indexes).toEqual(r.indexes)
+  })
+
+  it('flags a seed that does not match the commitment', async () => {
+    const r = await runFairDraw(SEED, paid)
+    const check = await verifyFairDraw({ seed: SEED.replace('a', 'b'), hash: r.hash, eligible: r.eligible })
+    expect(check.hashOk).toBe(false)
+  })
+
+  it('refuses an empty list', async () => {
+    await expect(runFairDraw(SEED, [])).rejects.toThrow()
+  })
+})
@@ -0,0 +1,197 @@
+export const FAIR_DRAW_ALGORITHM = 'sha256-mod-v2'
+
+export type DrawCommitment = {
+  hash: string
+  committedAt?: unknown
+}
+
+export type DrawReveal = {
+  algorithm: string
+  seed: string
+  hash: string
+  eligible: number[]
+  owners?: string[]
+  allowRepeatWinners: boolean
+  indexes: number[]
+  winners: number[]
+  index: number
+  winner: number
+  drawnAt?: unknown
+}
+
+export type FairDrawOptions = {
+  prizes?: number
+  owners?: Record<string, string>
+  allowRepeatWinners?: boolean
+}
+
+export type FairDrawCheck = {
+  hashOk: boolean
+  computedHash: string
+  indexes: number[]
+  winners: number[]
+}
+
+function toHex(buf: ArrayBuffer) {
+  return Array.from(new Uint8Array(buf))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+export async function sha256Hex(text: string) {
+  const data = new TextEncoder().encode(text)
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return toHex(digest)
+}
+
+export function generateSeed() {
+  const bytes = new Uint8Array(32)
+  crypto.getRandomValues(bytes)
+  return toHex(bytes.buffer)
+}
+
+export function commitSeed(seed: string) {
+  return sha256Hex(seed.trim())
+}
+
+export function normalizeEligible(list: number[]) {
+  const set = new Set<number>()
+  for (const v of list) {
+    const n = Number(v)
+    if (Number.isInteger(n) && n > 0) set.add(n)
+  }
+  return Array.from(set).sort((a, b) => a - b)
+}
+
+export function parseNumberList(text: string) {
+  const list = String(text || '')
+    .split(/[^0-9]+/)
+    .filter(Boolean)
+    .map((x) => Number(x))
+  return normalizeEligible(list)
+}
+
+export function ownerKey(name: string) {
+  return String(name || '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+}
+
+export type DrawPool = {
+  numbers: number[]
+  owners: Record<string, string>
+  problem: 'no-paid' | 'too-few' | null
+}
+
+// Dono de um número para a regra "sem repetir ganhador": o comprador (buyerId) quando há contato,
+// senão o nome. Assim dois "João" diferentes concorrem cada um por si.
+export function drawOwnerOf(r: { n: number; e: { name?: string; buyerId?: string } }) {
+  if (r.e.buyerId) return `id:${r.e.buyerId}`
+  return ownerKey(r.e.name || '')
+}
+
+// Os donos saem publicados com o sorteio (para /verify refazer a conta), então vão como rótulos d1, d2...
+// na ordem dos números, e não como nome ou buyerId. Número sem dono fica vazio e conta por si.
+export function ownerLabels(owners: Record<string, string>) {
+  const labels = new Map<string, string>()
+  const out: Record<string, string> = {}
+  for (const n of normalizeEligible(Object.keys(owners).map(Number))) {
+    const key = owners[String(n)]
+    if (key && !labels.has(key)) labels.set(key, `d${labels.size + 1}`)
+    out[String(n)] = key ? labels.get(key) || '' : ''
+  }
+  return out
+}
+
+// Só número pago concorre; sem repetir ganhador, cada dono conta uma vez para saber se dá para todos os prêmios.
+export function paidDrawPool(
+  list: Array<{ n: number; e: { name?: string; paid?: boolean; buyerId?: string } }>,
+  prizes: number,
+  allowRepeatWinners: boolean
+): DrawPool {
+  const paid = list.filter((r) => !!r.e.paid)
+  const numbers = paid.map((r) => r.n)
+  const owners: Record<string, string> = {}
+  for (const r of paid) owners[String(r.n)] = drawOwnerOf(r)
+
+  if (!numbers.length) return { numbers, owners: ownerLabels(owners), problem: 'no-paid' }
+  const distinctOwners = new Set(paid.map((r) => drawOwnerOf(r) || `#${r.n}`)).size
+  const problem = prizes > (allowRepeatWinners ? numbers.length : distinctOwners) ? 'too-few' : null
+  return { numbers, owners: ownerLabels(owners), problem }
+}
+
+export async function pickWinnerIndex(seed: string, pool: number[], round = 0) {
+  if (!pool.length) throw new Error('Lista de números elegíveis vazia')
+  const message = round ? `${seed.trim()}|${round}|${pool.join(',')}` : `${seed.trim()}|${pool.join(',')}`
+  const digest = await sha256Hex(message)
+  return Number(BigInt('0x' + digest) % BigInt(pool.length))
+}
+
+async function drawRounds(seed: string, eligible: number[], owners: string[] | undefined, prizes: number, allowRepeat: boolean) {
+  const ownerOf = (n: number) => {
+    const i = eligible.indexOf(n)
+    return (owners && owners[i]) || `#${n}`
+  }
+
+  let pool = eligible.slice()
+  const indexes: number[] = []
+  const winners: number[] = []
+
+  for (let round = 0; round < prizes && pool.length; round++) {
+    const index = await pickWinnerIndex(seed, pool, round)
+    const winner = pool[index]
+    indexes.push(index)
+    winners.push(winner)
+
+    const winnerOwner = ownerOf(winner)
+    pool = pool.filter((n) => n !== winner && (allowRepeat || ownerOf(n) !== winnerOwner))
+  }
+
+  return { indexes, winners }
+}
+
+export async function runFairDraw(seed: string, paidNumbers: number[], opts: FairDrawOptions = {}): Promise<DrawReveal> {
+  const eligible = normalizeEligible(paidNumbers)
+  const prizes = Math.max(1, Math.floor(opts.prizes || 1))
+  const allowRepeatWinners = !!opts.allowRepeatWinners
+  const owners = allowRepeatWinners ? undefined : eligible.map((n) => ownerKey(opts.owners?.[String(n)] || ''))
+
+  if (!eligible.length) throw new Error('Lista de números elegíveis vazia')
+
+  const { indexes, winners } = await drawRounds(seed, eligible, owners, prizes, allowRepeatWinners)
+  const hash = await commitSeed(seed)
+
+  return {
+    algorithm: FAIR_DRAW_ALGORITHM,
+    seed: seed.trim(),
+    hash,
+    eligible,
+    ...(owners ? { owners } : {}),
+    allowRepeatWinners,
+    indexes,
+    winners,
+    index: indexes[0],
+    winner: winners[0]
+  }
+}
+
+export async function verifyFairDraw(input: {
+  seed: string
+  hash: string
+  eligible: number[]
+  prizes?: number
+  owners?: string[]
+  allowRepeatWinners?: boolean
+}): Promise<FairDrawCheck> {
+  const seed = String(input.seed || '').trim()
+  const eligible = normalizeEligible(input.eligible)
+  const computedHash = await commitSeed(seed)
+  const hashOk = !!input.hash && computedHash === String(input.hash).trim().toLowerCase()
+  if (!eligible.length) return { hashOk, computedHash, indexes: [], winners: [] }
+
+  const prizes = Math.max(1, Math.floor(input.prizes || 1))
+  const allowRepeat = input.allowRepeatWinners !== false || !input.owners
+  const { indexes, winners } = await drawRounds(seed, eligible, input.owners, prizes, allowRepeat)
+  return { hashOk, computedHash, indexes, winners }
+}
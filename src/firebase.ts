@@ -1,5 +1,8 @@
 import { initializeApp } from 'firebase/app'
-import { getFirestore } from 'firebase/firestore'
+import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore'
+import { getAuth, connectAuthEmulator } from 'firebase/auth'
+import { getFunctions, connectFunctionsEmulator } from 'firebase/functions'
+import { getStorage, connectStorageEmulator } from 'firebase/storage'
 
 const firebaseConfig = {
     apiKey: import.meta.env.VITE_APP_FIREBASE_API_KEY,
@@ -12,3 +15,14 @@ const firebaseConfig = {
 
 const app = initializeApp(firebaseConfig)
 export const db = getFirestore(app)
+export const auth = getAuth(app)
+export const functions = getFunctions(app)
+export const storage = getStorage(app)
+
+if (import.meta.env.VITE_USE_EMULATORS === '1') {
+    const host = String(import.meta.env.VITE_EMULATOR_HOST || '127.0.0.1')
+    connectFirestoreEmulator(db, host, 8080)
+    connectAuthEmulator(auth, `http://${host}:9099`, { disableWarnings: true })
+    connectFunctionsEmulator(functions, host, 5001)
+    connectStorageEmulator(storage, host, 9199)
+}
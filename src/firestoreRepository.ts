@@ -0,0 +1,216 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch
+} from 'firebase/firestore'
+import type { Firestore, QueryConstraint, QuerySnapshot, WriteBatch } from 'firebase/firestore'
+import type { AuditRecord, BackupInfo, CollectionQuery, RaffleRepository, StoredDoc } from './repository'
+
+const CHUNK = 450
+
+// 'estimate': escrita local com serverTimestamp já aparece com a hora do aparelho, em vez de null até o servidor responder.
+function docsOf(snap: QuerySnapshot): StoredDoc[] {
+  return snap.docs.map((d) => ({ id: d.id, data: d.data({ serverTimestamps: 'estimate' }) }))
+}
+
+function constraintsOf(q: CollectionQuery | undefined) {
+  const list: QueryConstraint[] = []
+  if (q?.where) list.push(where(...q.where))
+  if (q?.orderBy) list.push(orderBy(...q.orderBy))
+  if (q?.limit) list.push(limit(q.limit))
+  return list
+}
+
+export function createFirestoreRepository(db: Firestore): RaffleRepository {
+  const raffleDoc = (raffleId: string) => doc(db, 'raffles', raffleId)
+  const entriesCol = (raffleId: string) => collection(db, 'raffles', raffleId, 'entries')
+  const backupsCol = (raffleId: string) => collection(db, 'raffles', raffleId, 'backups')
+  const pathDoc = (raffleId: string, path: string) =>
+    path ? doc(db, 'raffles', raffleId, ...path.split('/')) : raffleDoc(raffleId)
+  const pathQuery = (raffleId: string, col: string, q?: CollectionQuery) =>
+    query(collection(db, 'raffles', raffleId, ...col.split('/')), ...constraintsOf(q))
+
+  function addAudit(batch: WriteBatch, raffleId: string, audit: AuditRecord | undefined) {
+    if (!audit) return
+    batch.set(doc(collection(db, 'raffles', raffleId, 'audit')), { ...audit, at: serverTimestamp() })
+  }
+
+  return {
+    watchRaffles(next, fail) {
+      return onSnapshot(query(collection(db, 'raffles'), orderBy('createdAt', 'desc')), (snap) => next(docsOf(snap)), fail)
+    },
+
+    watchConfig(raffleId, next, fail) {
+      return onSnapshot(raffleDoc(raffleId), (snap) => next(snap.exists() ? snap.data() : null), fail)
+    },
+
+    async saveConfig(raffleId, patch, audit) {
+      const batch = writeBatch(db)
+      batch.set(raffleDoc(raffleId), patch, { merge: true })
+      addAudit(batch, raffleId, audit)
+      await batch.commit()
+    },
+
+    watchEntries(raffleId, next, fail) {
+      let first = true
+      return onSnapshot(
+        entriesCol(raffleId),
+        (snap) => {
+          const reset = first
+          first = false
+          next(
+            snap.docChanges().map((ch) => ({ type: ch.type, id: ch.doc.id, data: ch.doc.data() })),
+            reset
+          )
+        },
+        fail
+      )
+    },
+
+    async listEntries(raffleId) {
+      return docsOf(await getDocs(entriesCol(raffleId)))
+    },
+
+    async writeEntries(raffleId, writes, audit) {
+      const batch = writeBatch(db)
+      for (const w of writes) {
+        const ref = doc(entriesCol(raffleId), w.id)
+        if (w.data) batch.set(ref, w.data)
+        else batch.delete(ref)
+      }
+      addAudit(batch, raffleId, audit)
+      await batch.commit()
+    },
+
+    watchBackups(raffleId, next, fail) {
+      return onSnapshot(
+        query(backupsCol(raffleId), orderBy('createdAt', 'desc')),
+        (snap) => {
+          const list: BackupInfo[] = snap.docs.map((d) => {
+            const data = d.data()
+            return {
+              name: String(data?.name || d.id),
+              createdAt: data?.createdAt,
+              docCount: Number(data?.docCount || 0),
+              reason: data?.reason ? String(data.reason) : undefined
+            }
+          })
+          next(list)
+        },
+        fail
+      )
+    },
+
+    // Cada backup é uma coleção irmã de entries (raffles/{id}/{nome}) mais um registro em backups.
+    async createBackup(raffleId, name, docs, opts) {
+      const total = Math.ceil(docs.length / CHUNK)
+      for (let i = 0; i < docs.length; i += CHUNK) {
+        opts?.onProgress?.(Math.floor(i / CHUNK) + 1, total)
+        const batch = writeBatch(db)
+        for (const x of docs.slice(i, i + CHUNK)) batch.set(doc(db, 'raffles', raffleId, name, x.id), x.data)
+        await batch.commit()
+      }
+
+      await setDoc(
+        doc(backupsCol(raffleId), name),
+        {
+          name,
+          createdAt: opts?.createdAt ?? serverTimestamp(),
+          docCount: docs.length,
+          ...(opts?.reason ? { reason: opts.reason } : {})
+        },
+        { merge: true }
+      )
+    },
+
+    async listBackupEntries(raffleId, name) {
+      return docsOf(await getDocs(collection(db, 'raffles', raffleId, name)))
+    },
+
+    watchDoc(raffleId, path, next, fail) {
+      return onSnapshot(
+        pathDoc(raffleId, path),
+        (snap) => next(snap.exists() ? snap.data({ serverTimestamps: 'estimate' }) : null),
+        fail
+      )
+    },
+
+    watchCollection(raffleId, col, q, next, fail) {
+      return onSnapshot(pathQuery(raffleId, col, q), (snap) => next(docsOf(snap)), fail)
+    },
+
+    async listCollection(raffleId, col, q) {
+      return docsOf(await getDocs(pathQuery(raffleId, col, q)))
+    },
+
+    newId(raffleId, col) {
+      return doc(collection(db, 'raffles', raffleId, col)).id
+    },
+
+    transact(raffleId, fn) {
+      return runTransaction(db, (t) =>
+        fn({
+          async get(path) {
+            const snap = await t.get(pathDoc(raffleId, path))
+            return snap.exists() ? snap.data() : null
+          },
+          set(path, data, opts) {
+            t.set(pathDoc(raffleId, path), data, { merge: !!opts?.merge })
+          },
+          update(path, patch) {
+            t.update(pathDoc(raffleId, path), patch)
+          },
+          delete(path) {
+            t.delete(pathDoc(raffleId, path))
+          },
+          newId(col) {
+            return doc(collection(db, 'raffles', raffleId, col)).id
+          },
+          now() {
+            return serverTimestamp()
+          },
+          audit(record, id) {
+            const col = collection(db, 'raffles', raffleId, 'audit')
+            t.set(id ? doc(col, id) : doc(col), { ...record, at: serverTimestamp() })
+          }
+        })
+      )
+    },
+
+    watchUser(uid, next, fail) {
+      return onSnapshot(doc(db, 'users', uid), (snap) => next(snap.exists() ? snap.data() : null), fail)
+    },
+
+    async createUser(uid, email) {
+      await setDoc(doc(db, 'users', uid), { email, roles: [], createdAt: serverTimestamp() })
+    },
+
+    watchUsers(next, fail) {
+      return onSnapshot(collection(db, 'users'), (snap) => next(docsOf(snap)), fail)
+    },
+
+    async setUserRoles(uid, roles) {
+      await updateDoc(doc(db, 'users', uid), { roles })
+    },
+
+    async getLegacyDoc(path) {
+      const snap = await getDoc(doc(db, path))
+      return snap.exists() ? snap.data() : null
+    },
+
+    async listLegacyCollection(col) {
+      return docsOf(await getDocs(collection(db, col)))
+    }
+  }
+}
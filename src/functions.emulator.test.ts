@@ -0,0 +1,215 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { initializeTestEnvironment } from '@firebase/rules-unit-testing'
+import type { RulesTestEnvironment } from '@firebase/rules-unit-testing'
+import firebase from 'firebase/compat/app'
+import 'firebase/compat/firestore'
+import { sha256 } from '../functions/src/draw'
+
+// As Cloud Functions chamadas direto pelo handler, com o Admin SDK apontado para o emulador: npm run test:emulators.
+// O import fica no beforeAll para que, sem emulador, o firebase-admin nem chegue a inicializar.
+const EMULATOR = process.env.FIRESTORE_EMULATOR_HOST
+
+const RAFFLE = 'raffles/r1'
+const HOUR = 3600_000
+const at = (ms: number) => firebase.firestore.Timestamp.fromMillis(ms)
+
+type Functions = typeof import('../functions/src/index')
+type CallRequest = Parameters<Functions['verifyLookupCode']['run']>[0]
+
+const call = (data: unknown) => ({ data, acceptsStreaming: false, rawRequest: {} }) as CallRequest
+const tick = () => ({ scheduleTime: new Date().toISOString() })
+
+describe.skipIf(!EMULATOR)('cloud functions', () => {
+  let env: RulesTestEnvironment
+  let fns: Functions
+
+  beforeAll(async () => {
+    env = await initializeTestEnvironment({ projectId: process.env.GCLOUD_PROJECT || 'demo-rifa' })
+    fns = await import('../functions/src/index')
+  })
+
+  afterAll(async () => {
+    await env?.cleanup()
+  })
+
+  beforeEach(() => env.clearFirestore())
+
+  async function seed(docs: Record<string, object>) {
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      const db = ctx.firestore()
+      for (const [path, data] of Object.entries(docs)) await db.doc(path).set(data)
+    })
+  }
+
+  async function read(path: string) {
+    let data: firebase.firestore.DocumentData | undefined
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      data = (await ctx.firestore().doc(path).get()).data()
+    })
+    return data ?? null
+  }
+
+  async function list(col: string) {
+    let docs: firebase.firestore.DocumentData[] = []
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      docs = (await ctx.firestore().collection(col).get()).docs.map((d) => d.data())
+    })
+    return docs
+  }
+
+  describe('releaseExpiredReservations', () => {
+    it('frees expired holds with their holders and leaves paid and fresh ones', async () => {
+      const now = Date.now()
+      await seed({
+        [RAFFLE]: { status: 'open', autoReleaseExpired: true, holdHours: 1 },
+        [`${RAFFLE}/entries/3`]: { name: 'Ana S.', paid: false, reservedAt: at(now - 2 * HOUR), orderId: 'A' },
+        [`${RAFFLE}/holders/3`]: { name: 'Ana Souza', orderId: 'A' },
+        [`${RAFFLE}/entries/4`]: { name: 'Ana S.', paid: true, reservedAt: at(now - 2 * HOUR), orderId: 'A' },
+        [`${RAFFLE}/entries/5`]: { name: 'Bia S.', paid: false, reservedAt: at(now - HOUR / 2), orderId: 'B' },
+        [`${RAFFLE}/holders/5`]: { name: 'Bia Souza', orderId: 'B' }
+      })
+
+      await fns.releaseExpiredReservations.run(tick())
+
+      expect(await read(`${RAFFLE}/entries/3`)).toBeNull()
+      expect(await read(`${RAFFLE}/holders/3`)).toBeNull()
+      expect(await read(`${RAFFLE}/entries/4`)).toMatchObject({ paid: true })
+      expect(await read(`${RAFFLE}/entries/5`)).toMatchObject({ paid: false })
+      expect(await read(`${RAFFLE}/holders/5`)).toMatchObject({ name: 'Bia Souza' })
+      expect(await list(`${RAFFLE}/audit`)).toEqual([
+        expect.objectContaining({ action: 'release-expired', numbers: [3], after: { '3': null } })
+      ])
+    })
+
+    it('skips raffles without automatic release', async () => {
+      await seed({
+        [RAFFLE]: { status: 'open', autoReleaseExpired: false, holdHours: 1 },
+        [`${RAFFLE}/entries/3`]: { name: 'Ana S.', paid: false, reservedAt: at(Date.now() - 2 * HOUR) }
+      })
+
+      await fns.releaseExpiredReservations.run(tick())
+
+      expect(await read(`${RAFFLE}/entries/3`)).toMatchObject({ paid: false })
+    })
+  })
+
+  describe('runScheduledDraws', () => {
+    const paid = {
+      [`${RAFFLE}/entries/2`]: { name: 'Ana S.', paid: true },
+      [`${RAFFLE}/entries/7`]: { name: 'Bia S.', paid: true },
+      [`${RAFFLE}/entries/9`]: { name: 'Caio S.', paid: false }
+    }
+
+    it('publishes the commitment once sales close, without drawing yet', async () => {
+      const now = Date.now()
+      await seed({
+        [RAFFLE]: { status: 'closed', autoDraw: true, drawAt: at(now + HOUR), salesCloseAt: at(now - 60_000) },
+        ...paid
+      })
+
+      await fns.runScheduledDraws.run(tick())
+
+      const raffle = await read(RAFFLE)
+      const secret = await read(`${RAFFLE}/private/draw`)
+      expect(raffle?.drawCommitment?.hash).toBe(sha256(String(secret?.seed)))
+      expect(raffle?.winners).toBeUndefined()
+      expect(await list(`${RAFFLE}/audit`)).toEqual([expect.objectContaining({ action: 'commit' })])
+    })
+
+    it('draws a paid number from the stored seed once the commitment has settled', async () => {
+      const now = Date.now()
+      const seedText = 'a'.repeat(64)
+      await seed({
+        [RAFFLE]: {
+          status: 'closed',
+          autoDraw: true,
+          drawAt: at(now - 60_000),
+          salesCloseAt: at(now - HOUR),
+          drawCommitment: { hash: sha256(seedText), committedAt: at(now - HOUR) }
+        },
+        [`${RAFFLE}/private/draw`]: { seed: seedText, hash: sha256(seedText) },
+        ...paid
+      })
+
+      await fns.runScheduledDraws.run(tick())
+
+      const raffle = await read(RAFFLE)
+      expect(raffle).toMatchObject({ status: 'drawn', autoDrawError: null })
+      expect([2, 7]).toContain(raffle?.resultNumber)
+      expect(await read(`${RAFFLE}/live/draw`)).toMatchObject({ phase: 'revealed', winners: [raffle?.resultNumber] })
+    })
+
+    it('records an error instead of drawing when the seed does not match', async () => {
+      const now = Date.now()
+      await seed({
+        [RAFFLE]: {
+          status: 'closed',
+          autoDraw: true,
+          drawAt: at(now - 60_000),
+          drawCommitment: { hash: sha256('b'.repeat(64)), committedAt: at(now - HOUR) }
+        },
+        [`${RAFFLE}/private/draw`]: { seed: 'c'.repeat(64) },
+        ...paid
+      })
+
+      await fns.runScheduledDraws.run(tick())
+
+      const raffle = await read(RAFFLE)
+      expect(raffle?.winners).toBeUndefined()
+      expect(String(raffle?.autoDrawError)).toContain('semente')
+    })
+  })
+
+  describe('lookup codes', () => {
+    const email = 'ana@rifa.test'
+    const key = sha256(`email:${email}`).slice(0, 32)
+    const code = '123456'
+
+    function seedCode(expiresAt: number, attempts = 0) {
+      return seed({
+        [`lookupCodes/${key}`]: { codeHash: sha256(`${key}:${code}`), sentAt: at(Date.now()), expiresAt: at(expiresAt), attempts },
+        [RAFFLE]: { raffleName: 'Rifa da escola' },
+        [`${RAFFLE}/buyers/b1`]: { name: 'Ana Souza', contact: email, contactType: 'email' },
+        [`${RAFFLE}/entries/3`]: { name: 'Ana S.', paid: true, buyerId: 'b1' }
+      })
+    }
+
+    it('sends a code by e-mail and refuses a second request within a minute', async () => {
+      await expect(fns.requestLookupCode.run(call({ contact: email }))).resolves.toEqual({ sent: true, channel: 'email' })
+      expect(await read(`lookupCodes/${key}`)).toMatchObject({ attempts: 0 })
+      expect(await list('mail')).toEqual([expect.objectContaining({ to: email })])
+
+      await expect(fns.requestLookupCode.run(call({ contact: email }))).rejects.toMatchObject({ code: 'resource-exhausted' })
+    })
+
+    it('lists the numbers of the contact and spends the code', async () => {
+      await seedCode(Date.now() + 60_000)
+
+      const res = await fns.verifyLookupCode.run(call({ contact: email, code }))
+
+      expect(res).toMatchObject({
+        entries: [{ raffleId: 'r1', raffleName: 'Rifa da escola', number: 3, name: 'Ana S.', paid: true }]
+      })
+      expect(await read(`lookupCodes/${key}`)).toBeNull()
+    })
+
+    it('counts a wrong code as an attempt', async () => {
+      await seedCode(Date.now() + 60_000)
+
+      await expect(fns.verifyLookupCode.run(call({ contact: email, code: '654321' }))).rejects.toMatchObject({
+        code: 'permission-denied'
+      })
+      expect(await read(`lookupCodes/${key}`)).toMatchObject({ attempts: 1 })
+    })
+
+    it('deletes an expired or exhausted code even though the call fails', async () => {
+      await seedCode(Date.now() - 1)
+      await expect(fns.verifyLookupCode.run(call({ contact: email, code }))).rejects.toMatchObject({ code: 'deadline-exceeded' })
+      expect(await read(`lookupCodes/${key}`)).toBeNull()
+
+      await seedCode(Date.now() + 60_000, 5)
+      await expect(fns.verifyLookupCode.run(call({ contact: email, code }))).rejects.toMatchObject({ code: 'deadline-exceeded' })
+      expect(await read(`lookupCodes/${key}`)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,1842 @@
+export type Locale = 'pt-BR' | 'en' | 'es'
+
+export const LOCALES: Locale[] = ['pt-BR', 'en', 'es']
+export const DEFAULT_LOCALE: Locale = 'pt-BR'
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  'pt-BR': 'Português',
+  en: 'English',
+  es: 'Español'
+}
+
+// Textos com plural escolhem a forma pelo Intl.PluralRules do idioma; "other" é o fallback.
+type Plural = { one: string; other: string; many?: string }
+type Message = string | Plural
+
+export type MessageVars = Record<string, string | number>
+
+const ptBR = {
+  'common.loading': 'Carregando...',
+  'common.loadingMore': 'Carregando mais...',
+  'common.back': 'Voltar',
+  'common.cancel': 'Cancelar',
+  'common.close': 'Fechar',
+  'common.next': 'Avançar',
+  'common.confirm': 'Confirmar',
+  'common.ok': 'Ok',
+  'common.copy': 'Copiar',
+  'common.total': 'Total: {count}',
+  'common.filterPlaceholder': 'Digite para filtrar',
+  'common.language': 'Idioma',
+  'common.serviceUnavailable': 'Serviço indisponível. Tente novamente.',
+
+  'nav.allRaffles': 'Todas as rifas',
+  'nav.myNumbers': 'Meus números',
+  'nav.manageRaffles': 'Gerenciar rifas',
+  'nav.settings': 'Configurações',
+
+  'count.numbers': { one: '{count} número', other: '{count} números' },
+  'count.paid': { one: '{count} pago', other: '{count} pagos' },
+  'count.free': { one: '{count} livre', other: '{count} livres' },
+  'count.selected': { one: '{count} selecionado', other: '{count} selecionados' },
+
+  'entry.free': 'Livre',
+  'entry.reserved': 'Reservado',
+  'entry.paid': 'Pago',
+  'entry.unpaid': 'Não pago',
+
+  'hold.expired': 'Reserva expirada',
+  'hold.expiresIn': 'Expira em {time}',
+
+  'reserve.soldOut': 'Não sobraram números livres suficientes. Escolha menos números.',
+  'reserve.taken': 'O número {n} foi reservado por outra pessoa. Escolha outro.',
+  'reserve.tooMany': 'Reserve no máximo {max} números por vez.',
+
+  'prize.ordinal': '{n}º prêmio',
+  'prize.position': '{n}º',
+
+  'quote.numbers': { one: '{count} número x {price}', other: '{count} números x {price}' },
+  'quote.packages': { one: '{count} pacote de {size} por {price}', other: '{count} pacotes de {size} por {price}' },
+
+  'picker.brand': 'Rifas',
+  'picker.title': 'Escolha uma rifa',
+  'picker.search': 'Buscar rifa',
+  'picker.drawn': 'Sorteada',
+  'picker.empty': 'Nenhuma rifa encontrada',
+
+  'grid.jumpPlaceholder': 'Ir para nº',
+  'grid.jump': 'Ir',
+  'grid.jumpTaken': 'O número {n} já está reservado',
+  'grid.select': 'Selecionar',
+  'grid.remove': 'Remover',
+
+  'title.headline': 'Estamos com uma {emph}!',
+  'title.headlineEmph': 'rifa incrível',
+  'title.price': 'O valor é de apenas {price} por número, num total de {total}.',
+  'title.packages': 'Pacotes:',
+  'title.package': '{quantity} por {price}',
+
+  'summary.title': 'Resumo',
+  'summary.total': 'Total de números',
+  'summary.reserved': 'Reservados',
+  'summary.available': 'Disponíveis',
+  'summary.paid': 'Pagos',
+  'summary.pending': 'Pendentes',
+  'summary.received': 'Arrecadado',
+  'summary.toReceive': 'A receber',
+  'summary.chart': 'Gráfico',
+  'summary.free': 'Livres',
+  'summary.openImage': 'Abrir imagem',
+  'summary.photoAlt': 'Foto da rifa',
+  'summary.photoZoomedAlt': 'Foto da rifa ampliada',
+  'summary.tapToZoom': 'Toque para ampliar',
+
+  'pix.title': 'Pagamento via Pix',
+  'pix.payment': 'Pagamento',
+  'pix.details': 'Dados do Pix',
+  'pix.copyPaste': 'Copia e cola',
+  'pix.copyCode': 'Copiar código Pix',
+  'pix.codeCopied': 'Código copiado',
+  'pix.key': 'Chave Pix',
+  'pix.copyKey': 'Copiar chave Pix',
+  'pix.keyCopied': 'Chave copiada',
+  'pix.name': 'Nome',
+  'pix.bank': 'Banco',
+  'pix.missingKey': 'Faltou configurar VITE_PIX_KEY no .env, então não dá para mostrar a chave aqui.',
+
+  'board.title': 'Quadro de números',
+  'board.all': 'Todos',
+  'board.free': 'Livres',
+  'board.mine': 'Meus',
+  'board.paid': 'Pagos',
+  'board.mineHint': 'Faça uma reserva neste aparelho para ver os seus',
+  'board.freeHint': 'Livre: toque para reservar',
+  'board.empty': 'Nenhum número nesse filtro',
+
+  'heat.title': 'Regiões Com Mais Reservas',
+  'heat.range': { one: '{from} a {to}: {count} reservado', other: '{from} a {to}: {count} reservados' },
+  'heat.less': 'Menos reservado',
+  'heat.more': 'Mais reservado',
+
+  'prizes.title': 'Prêmios',
+  'prizes.drawn': 'Sorteados: {done}/{total}',
+  'prizes.order': 'Ordem',
+  'prizes.prize': 'Prêmio',
+  'prizes.winner': 'Vencedor',
+
+  'live.title': 'Sorteio ao vivo',
+  'live.waiting': 'Aguardando o início do sorteio',
+  'live.spinning': 'Sorteando...',
+  'live.eligible': { one: '{count} número concorrendo', other: '{count} números concorrendo' },
+  'live.noPaid': 'Ainda não há números pagos',
+  'live.fullscreen': 'Tela cheia',
+  'live.exitFullscreen': 'Sair da tela cheia',
+
+  'home.raffle': 'Rifa',
+  'home.notFound': 'Rifa não encontrada.',
+  'home.seeAll': 'Ver todas as rifas',
+  'home.newReservation': 'Nova reserva',
+  'home.reserveButton': 'Reservar rifa',
+  'home.salesClosed': 'Vendas encerradas',
+  'home.notOpenYet': 'Vendas ainda não abertas',
+  'home.drawDone': 'Sorteio realizado',
+  'home.archived': 'Rifa encerrada',
+  'home.salesUntil': 'Vendas até {time}',
+  'home.winnerOf': 'Vencedor do {prize}',
+  'home.result': 'Resultado',
+  'home.seedRevealed': 'Semente revelada',
+  'home.commitment': 'Compromisso',
+  'home.verifyDraw': 'Verificar sorteio',
+  'home.reservations': 'Reservas realizadas',
+  'home.searchNumber': 'Buscar por número',
+  'home.searchNumberOrName': 'Buscar por número ou nome',
+  'home.colNumber': 'Número',
+  'home.colName': 'Nome',
+  'home.colReservedAt': 'Reserva em',
+  'home.colPayment': 'Pagamento',
+  'home.empty': 'Nenhuma reserva encontrada',
+
+  'pay.confirmed': 'Reserva confirmada',
+  'pay.amount': 'Valor a pagar',
+  'pay.swapped': {
+    one: '{lost} foi pego por outra pessoa enquanto você confirmava. Trocamos por {gained}.',
+    other: '{lost} foram pegos por outra pessoa enquanto você confirmava. Trocamos por {gained}.'
+  },
+  'pay.deadline': 'Pague em até {time} ou seus números serão liberados para outras pessoas.',
+  'pay.deadlinePassed': 'O prazo de pagamento acabou. Se ainda não pagou, seus números podem ser liberados.',
+  'pay.order': 'Pedido',
+  'pay.orderHint': 'Guarde este código: ele identifica a sua compra.',
+
+  'proof.title': 'Comprovante',
+  'proof.hint': 'Já pagou? Envie o comprovante (imagem ou PDF) para o organizador conferir.',
+  'proof.choose': 'Enviar comprovante',
+  'proof.sending': 'Enviando...',
+  'proof.sent': 'Comprovante enviado. Assim que for conferido, seus números aparecem como pagos.',
+  'proof.badType': 'Envie uma imagem ou um PDF',
+  'proof.tooBig': 'Arquivo muito grande (máximo {mb} MB)',
+
+  'reserve.confirmTitle': 'Confirmar reserva',
+  'reserve.yourName': 'Seu nome',
+  'reserve.namePlaceholder': 'Digite seu nome',
+  'reserve.contact': 'Celular (WhatsApp) ou e-mail',
+  'reserve.contactPlaceholder': '(11) 98765-4321 ou voce@email.com',
+  'reserve.contactInvalid': 'Informe um celular com DDD ou um e-mail válido',
+  'reserve.lucky': 'Surpresinha',
+  'reserve.luckyCount': 'Quantidade de números',
+  'reserve.luckyPick': 'Me escolhe',
+  'reserve.luckyAgain': 'Sortear de novo',
+  'reserve.orPick': 'Ou escolha seus números disponíveis',
+  'reserve.name': 'Nome',
+  'reserve.contactShort': 'Contato',
+  'reserve.numbers': 'Números',
+  'reserve.luckySwapHint': 'Se alguém pegar um dos números da surpresinha antes de você confirmar, trocamos por outro livre.',
+  'reserve.takenHint': 'Se alguém pegar um dos números antes de você confirmar, vamos avisar.',
+  'reserve.lookupHint': 'Com esse contato você consulta seus números depois em "Meus números".',
+
+  'lookup.askContact': 'Informe o contato usado na reserva',
+  'lookup.askCode': 'Digite o código recebido',
+  'lookup.codeSentTo': 'Código enviado para {contact}',
+  'lookup.changeContact': 'Trocar contato',
+  'lookup.verifying': 'Verificando...',
+  'lookup.show': 'Ver meus números',
+  'lookup.sending': 'Enviando...',
+  'lookup.send': 'Enviar código',
+  'lookup.another': 'Consultar outro contato',
+  'lookup.empty': 'Nenhum número encontrado para esse contato',
+
+  'verify.title': 'Verificar sorteio',
+  'verify.raffle': 'Rifa: {name}',
+  'verify.data': 'Dados do sorteio',
+  'verify.explain':
+    'Antes do sorteio publicamos o hash SHA-256 de uma semente secreta. No sorteio, os números pagos são ordenados e o vencedor é o da posição SHA-256(semente|números separados por vírgula) módulo a quantidade de números. Para os prêmios seguintes, o número sorteado sai da lista (e, se a mesma pessoa não pode ganhar duas vezes, os outros números dela também) e a conta usa SHA-256(semente|ordem do prêmio|lista). Depois a semente é revelada e qualquer pessoa pode refazer a conta aqui ({algorithm}).',
+  'verify.hash': 'Compromisso publicado (hash)',
+  'verify.seed': 'Semente revelada',
+  'verify.seedPlaceholder': 'Disponível depois do sorteio',
+  'verify.eligible': 'Números elegíveis (pagos no momento do sorteio)',
+  'verify.prizeCount': 'Quantidade de prêmios',
+  'verify.oneWin': 'Uma pessoa só pode ganhar um prêmio (donos dos números carregados do sorteio).',
+  'verify.run': 'Verificar',
+  'verify.seedHash': 'Hash da semente',
+  'verify.hashOk': 'Confere com o compromisso',
+  'verify.hashBad': 'Não confere ({hash})',
+  'verify.position': '{n} (posição {position})',
+  'payment.cash': 'Dinheiro',
+  'payment.pix': 'Pix',
+  'payment.card': 'Cartão',
+  'nameDisplay.full': 'Nome completo',
+  'nameDisplay.initial': 'Primeiro nome e inicial',
+  'nameDisplay.masked': 'Mascarado (M*** S***)',
+  'nameDisplay.hidden': 'Oculto',
+  'role.seller': 'Vendedor',
+  'role.admin': 'Admin',
+  'role.dataAdmin': 'Admin Data',
+  'audit.reserve': 'Reserva',
+  'audit.sale': 'Venda manual',
+  'audit.pay': 'Marcou pago',
+  'audit.unpay': 'Marcou não pago',
+  'audit.delete': 'Excluiu',
+  'audit.undelete': 'Restaurou da lixeira',
+  'audit.releaseExpired': 'Liberou expiradas',
+  'audit.import': 'Importou planilha',
+  'audit.restore': 'Restaurou backup',
+  'audit.config': 'Alterou configuração',
+  'audit.commit': 'Publicou compromisso',
+  'audit.draw': 'Sorteou',
+  'audit.resetDraw': 'Resetou sorteio',
+  'audit.proofReject': 'Recusou comprovante',
+  'audit.orderCancel': 'Cancelou pedido',
+  'audit.refund': 'Reembolsou',
+  'audit.status': 'Mudou situação',
+  'audit.actorSystem': 'Sistema',
+  'audit.actorBuyer': '{name} (comprador)',
+  'audit.buyer': 'Comprador',
+  'audit.actorStaff': 'Equipe',
+  'audit.free': 'livre',
+  'audit.paid': 'Pago',
+  'audit.unpaid': 'Não Pago',
+  'audit.winners': 'Vencedores: {numbers}',
+  'audit.previousWinners': 'Vencedores anteriores: {numbers}',
+  'audit.reason': 'motivo: {reason}',
+  'audit.proofOf': 'Comprovante de {name}: {numbers}',
+  'audit.fromBackup': 'backup {name}',
+  'audit.fromProof': 'comprovante',
+  'audit.order': 'pedido {order}',
+  'audit.orderRefund': 'pedido {order}, reembolso {refund}',
+  'audit.titleNumber': 'Histórico do número {n}',
+  'audit.title': 'Histórico de alterações',
+  'audit.search': 'Número, pessoa ou e-mail',
+  'audit.searchPlaceholder': 'Digite um número para ver a linha do tempo',
+  'audit.action': 'Ação',
+  'audit.allActions': 'Todas',
+  'audit.when': 'Quando',
+  'audit.who': 'Quem',
+  'audit.change': 'Mudança',
+  'audit.empty': 'Nenhum evento encontrado',
+  'status.draft': 'Rascunho',
+  'status.open': 'Vendas abertas',
+  'status.closed': 'Vendas encerradas',
+  'status.drawn': 'Sorteada',
+  'status.archived': 'Arquivada',
+  'statusAction.draft': 'Voltar para rascunho',
+  'statusAction.open': 'Abrir vendas',
+  'statusAction.closed': 'Encerrar vendas',
+  'statusAction.drawn': 'Desarquivar',
+  'statusAction.archived': 'Arquivar',
+  'orderStatus.open': 'Aguardando pagamento',
+  'orderStatus.partial': 'Pago em parte',
+  'orderStatus.paid': 'Pago',
+  'orderStatus.released': 'Liberado',
+  'orderStatus.cancelled': 'Cancelado',
+  'staff.authInvalid': 'E-mail ou senha incorretos',
+  'staff.authEmailInUse': 'Esse e-mail já tem conta',
+  'staff.authWeakPassword': 'A senha precisa de pelo menos 6 caracteres',
+  'staff.authInvalidEmail': 'E-mail inválido',
+  'staff.missingRole':
+    'Conectado como {user}, mas sua conta não tem a permissão {role}. Peça para um Admin Data liberar o acesso.',
+  'staff.logout': 'Sair',
+  'staff.email': 'E-mail',
+  'staff.password': 'Senha',
+  'staff.login': 'Entrar',
+  'staff.firstAccess': 'Primeiro acesso? {signup} e peça a permissão para um Admin Data.',
+  'staff.signup': 'Criar conta',
+  'staff.home': 'Página inicial',
+  'staff.number': 'Número',
+  'staff.name': 'Nome',
+  'staff.saving': 'Salvando...',
+  'raffles.brand': 'Rifas',
+  'raffles.newTitle': 'Nova rifa',
+  'raffles.name': 'Nome da rifa',
+  'raffles.id': 'Identificador (link)',
+  'raffles.idPlaceholder': 'minha-rifa',
+  'raffles.idHint': 'Use letras, números e hífen',
+  'raffles.total': 'Quantidade de Rifas para Sorteio',
+  'raffles.drawDate': 'Data do sorteio',
+  'raffles.create': 'Criar rifa',
+  'raffles.importLegacy': 'Importar rifa antiga',
+  'raffles.importLegacyHint': 'Copia app/config, entries e backups antigos',
+  'raffles.list': 'Rifas cadastradas',
+  'raffles.empty': 'Nenhuma rifa cadastrada',
+  'raffles.staff': 'Equipe e permissões',
+  'raffles.roleFor': '{role} para {user}',
+  'raffles.noStaff': 'Ninguém criou conta ainda',
+  'raffles.nameRequired': 'Informe o nome da rifa',
+  'raffles.idInvalid': 'Informe um identificador válido para a rifa',
+  'raffles.exists': 'Já existe uma rifa com o identificador {id}.',
+  'raffles.legacyMissing': 'Não tem rifa antiga (app/config) para importar',
+  'raffles.legacyReading': 'Lendo entries...',
+  'raffles.legacyEntries': 'Copiando entries {done}/{total}...',
+  'raffles.legacyBackup': 'Copiando backup {name}...',
+  'sheet.issueRange': 'Linha {line}: número "{value}" fora de 1 a {total}',
+  'sheet.issueName': 'Linha {line}: número {n} sem nome',
+  'sheet.issuePaid': 'Linha {line}: pagamento "{value}" não reconhecido (use sim ou não)',
+  'sheet.issuePaidAdmin': 'Linha {line}: somente Admin pode importar o número {n} como pago',
+  'sheet.issueDate': 'Linha {line}: data "{value}" inválida',
+  'sheet.issueRepeated': 'Linha {line}: número {n} repetido (já está na linha {prev})',
+  'sheet.sheetName': 'Reservas',
+  'sheet.empty': 'Planilha vazia',
+  'sheet.checking': 'Conferindo reservas atuais...',
+  'sheet.importingChunk': 'Importando {done}/{total}...',
+  'sheet.imported': 'Importados {imported}. Iguais: {same}. Conflitos ignorados: {skipped}. Linhas com erro: {issues}.',
+  'sheet.importedLate': 'Reservados por outra pessoa durante a importação: {numbers}.',
+  'sheet.title': 'Planilha de reservas',
+  'sheet.hint': 'CSV ou XLSX com Número, Nome, Pago e Reservado em',
+  'sheet.exportCsv': 'Exportar CSV',
+  'sheet.exportXlsx': 'Exportar XLSX',
+  'sheet.import': 'Importar planilha',
+  'sheet.planSummary': 'Novos: {fresh} · Iguais aos atuais: {same} · Conflitos: {conflicts} · Erros: {issues}',
+  'sheet.conflicts': 'Já reservados com outro nome ou pagamento',
+  'sheet.conflictLine': 'planilha: {incoming} · atual: {live}',
+  'sheet.overwrite': 'Sobrescrever conflitos com a planilha',
+  'sheet.overwriteAdminOnly': 'Sobrescrever conflitos com a planilha (somente Admin)',
+  'sheet.skippedLines': 'Linhas ignoradas',
+  'sheet.importing': 'Importando...',
+  'sheet.importCount': { one: 'Importar {count} reserva', other: 'Importar {count} reservas' },
+  'trash.restored': 'Restaurados: {count}.',
+  'trash.skipped': 'Não restaurados (reservados de novo): {numbers}.',
+  'trash.title': 'Lixeira',
+  'trash.retention': { one: 'apagadas de vez após {count} dia', other: 'apagadas de vez após {count} dias' },
+  'trash.deletedAt': 'Excluído em',
+  'trash.deletedBy': 'Por',
+  'trash.restore': 'Restaurar',
+  'trash.taken': 'Reservado de novo',
+  'trash.empty': 'Lixeira vazia',
+  'trash.restoring': 'Restaurando...',
+  'orders.refundInvalid': 'Escolha os números devolvidos e um valor de reembolso válido',
+  'orders.refundTooHigh': 'O reembolso passa do que ainda pode ser devolvido neste pedido ({amount})',
+  'orders.title': 'Pedidos',
+  'orders.search': 'Buscar por pedido, nome ou número',
+  'orders.order': 'Pedido',
+  'orders.numbers': 'Números',
+  'orders.amount': 'Valor',
+  'orders.status': 'Situação',
+  'orders.actions': 'Ações',
+  'orders.refunded': 'Reembolsado {amount}',
+  'orders.pay': 'Pagar',
+  'orders.refund': 'Reembolsar',
+  'orders.empty': 'Nenhum pedido encontrado',
+  'orders.cancelTitle': 'Cancelar pedido',
+  'orders.refundTitle': 'Reembolso parcial',
+  'orders.cancelHint': 'Os números {numbers} vão para a lixeira e ficam livres para outras pessoas.',
+  'orders.refundNumbers': 'Números devolvidos',
+  'orders.refundAmount': 'Valor reembolsado',
+  'orders.refundHint':
+    'Sugestão: o que foi cobrado menos o preço dos números que ficam. Os devolvidos vão para a lixeira.',
+  'proofs.nothingPayable':
+    'Nenhum número do comprovante de {name} continua reservado sem pagamento. Recuse para tirar da fila.',
+  'proofs.title': 'Comprovantes para conferir',
+  'proofs.sentAt': 'Enviado em',
+  'proofs.file': 'Arquivo',
+  'proofs.gone': 'Já pagos ou liberados: {numbers}',
+  'proofs.openPdf': 'Abrir PDF',
+  'proofs.openImage': 'Ver imagem',
+  'proofs.approve': 'Aprovar',
+  'proofs.reject': 'Recusar',
+  'proofs.empty': 'Nenhum comprovante esperando conferência',
+  'sale.buyerName': 'Nome do comprador',
+  'sale.contact': 'Celular ou e-mail (opcional)',
+  'sale.contactPlaceholder': '(11) 98765-4321 ou email@exemplo.com',
+  'sale.paid': 'Já pago',
+  'sale.available': 'Números disponíveis',
+  'sale.confirmPaid': 'Registrar venda',
+  'sale.confirmReserve': 'Reservar',
+  'admin.frozen': 'O compromisso do sorteio já foi publicado: reservas e pagamentos ficam travados até o sorteio',
+  'admin.notReserved': 'O número {n} não está mais reservado',
+  'admin.deletedOne': 'Número {n} excluído',
+  'admin.undoSkipped': 'Não deu para desfazer {numbers}: reservado de novo.',
+  'admin.reopenAfterClose':
+    'O horário de encerramento das vendas já passou. Ajuste a data ou o horário do sorteio antes de reabrir.',
+  'admin.draftWithReservations': 'Só dá para voltar para rascunho enquanto não houver reservas',
+  'admin.configLocked': 'Depois do sorteio a configuração fica travada. Reabra a rifa para alterar.',
+  'admin.nameDisplayFrozen':
+    'Com o compromisso publicado não dá para regravar os nomes das reservas. Mude a exibição depois do sorteio.',
+  'admin.totalBelowReserved': 'Não é possível reduzir para {total} porque já existe reserva no número {max}.',
+  'admin.priceInvalid': 'Preço por número inválido',
+  'admin.currencyInvalid': 'Moeda inválida (use o código de 3 letras, ex.: BRL)',
+  'admin.packagesInvalid':
+    'Revise os pacotes: cada um precisa de quantidade (2 ou mais) e preço, sem quantidades repetidas',
+  'admin.timeZoneInvalid': 'Fuso horário inválido (ex.: America/Sao_Paulo)',
+  'admin.drawTimeInvalid': 'Horário do sorteio inválido',
+  'admin.autoDrawNeedsTime': 'Para o sorteio automático, informe data e horário do sorteio',
+  'admin.autoDrawCutoff': 'Com sorteio automático, encerre as vendas pelo menos {minutes} minutos antes do sorteio',
+  'admin.commitExists': 'O compromisso já foi publicado. Resete o sorteio para gerar outro.',
+  'admin.commitNeedsClosed': 'Encerre as vendas antes de publicar o compromisso',
+  'admin.drawWrongStatus': 'Não dá para sortear com a rifa em "{status}"',
+  'admin.drawNoPaid': 'Não tem números pagos para sortear',
+  'admin.drawTooFew': {
+    one: 'Não tem participantes pagos suficientes para {count} prêmio',
+    other: 'Não tem participantes pagos suficientes para {count} prêmios'
+  },
+  'admin.drawNeedsCommit': 'Publique o compromisso (hash da semente) antes de sortear',
+  'admin.seedMissing': 'Semente do sorteio não encontrada',
+  'admin.seedMismatch': 'A semente guardada não confere com o compromisso publicado',
+  'admin.alreadyDrawn': 'O resultado já foi publicado por outra pessoa ou pelo sorteio agendado',
+  'admin.commitChanged': 'O compromisso mudou enquanto sorteava. Confira e sorteie de novo',
+  'admin.reopenNeedsReason': 'Informe o motivo para reabrir a rifa',
+  'admin.deletedMany': { one: '{count} número excluído', other: '{count} números excluídos' },
+  'admin.brand': 'Rifa',
+  'admin.title': 'Admin',
+  'admin.rafflePage': 'Página da rifa',
+  'admin.statusTitle': 'Situação da rifa',
+  'admin.configTitle': 'Configuração do resultado',
+  'admin.totalNumbers': 'Quantidade de Rifas para Sorteio',
+  'admin.maxReserved': 'Maior número reservado hoje: {n}',
+  'admin.noReservations': 'Ainda não tem reservas',
+  'admin.drawDate': 'Data do sorteio',
+  'admin.drawTimeZone': 'Horário e fuso do sorteio',
+  'admin.drawAtLocal': 'Sorteio em {when} (seu horário)',
+  'admin.noSchedule': 'Sem horário, nada é agendado',
+  'admin.cutoff': 'Encerrar vendas (minutos antes do sorteio)',
+  'admin.cutoffMin': 'Mínimo {minutes}',
+  'admin.cutoffNone': 'No horário do sorteio',
+  'admin.autoDraw': 'Sortear automaticamente no horário',
+  'admin.salesCloseAt': 'Vendas encerram em {when}',
+  'admin.autoDrawError': 'Sorteio automático: {error}',
+  'admin.result': 'Resultado',
+  'admin.commitment': 'Compromisso (hash da semente)',
+  'admin.seedRevealed': 'Semente revelada após o sorteio',
+  'admin.committedAt': 'Publicado em {when}',
+  'admin.commitBeforeDraw': 'Publique antes da data do sorteio',
+  'admin.textsTitle': 'Textos e preço',
+  'admin.headline': 'Título da página',
+  'admin.headlinePlaceholder': 'Estamos com uma rifa incrível!',
+  'admin.description': 'Descrição',
+  'admin.descriptionPlaceholder': 'O que está sendo rifado',
+  'admin.price': 'Preço por número',
+  'admin.holdHours': 'Prazo para pagar (horas)',
+  'admin.holdNone': 'Sem prazo',
+  'admin.autoRelease': 'Liberar expiradas automaticamente',
+  'admin.trashDays': 'Dias na lixeira',
+  'admin.trashDaysHint': 'Reservas excluídas podem ser restauradas até serem apagadas de vez',
+  'admin.board': 'Quadro de números',
+  'admin.boardShowNames': 'Mostrar nomes no quadro público',
+  'admin.nameDisplay': 'Nomes na página pública',
+  'admin.nameDisplayHint': 'Vale para a lista, o quadro e o vencedor. A equipe logada vê o nome completo.',
+  'admin.locale': 'Idioma da página pública',
+  'admin.localeAuto': 'Automático (idioma do navegador)',
+  'admin.localeHint': 'Idioma e formato de datas e valores. Quem visita pode trocar no seletor do topo.',
+  'admin.currency': 'Moeda',
+  'admin.package': 'Pacote',
+  'admin.quantity': 'Quantidade',
+  'admin.packagePrice': 'Preço',
+  'admin.removePackage': 'Remover pacote',
+  'admin.addPackage': 'Adicionar pacote',
+  'admin.packagesHint': 'Ex.: 3 números por 5,00. O valor é calculado pela combinação mais barata.',
+  'admin.prizes': 'Prêmios',
+  'admin.prizeTitle': 'Título',
+  'admin.prizeImage': 'URL da imagem',
+  'admin.moveUp': 'Subir',
+  'admin.moveDown': 'Descer',
+  'admin.removePrize': 'Remover prêmio',
+  'admin.noPrizes': 'Sem prêmios cadastrados: o sorteio escolhe um único vencedor.',
+  'admin.addPrize': 'Adicionar prêmio',
+  'admin.allowRepeat': 'Mesma pessoa pode ganhar mais de um prêmio',
+  'admin.adminOnly': 'Somente Admin pode alterar a configuração e sortear.',
+  'admin.lockedHint': 'Rifa sorteada: a configuração fica travada até ela ser reaberta.',
+  'admin.reopen': 'Reabrir rifa',
+  'admin.resetDraw': 'Resetar sorteio',
+  'admin.publishCommit': 'Publicar compromisso',
+  'admin.draw': 'Sortear',
+  'admin.openScreen': 'Abrir telão',
+  'admin.drawLiveHint': 'Gira o telão por alguns segundos em todas as telas e depois revela o resultado',
+  'admin.drawLive': 'Sortear ao vivo',
+  'admin.save': 'Salvar',
+  'admin.listTitle': 'Reservas realizadas',
+  'admin.expiring': { one: '{count} expirando', other: '{count} expirando' },
+  'admin.revenue': 'Arrecadado: {received} | A receber: {toReceive}',
+  'admin.releaseExpired': 'Liberar expiradas',
+  'admin.releaseExpiredCount': 'Liberar expiradas ({count})',
+  'admin.manualSale': 'Venda manual',
+  'admin.search': 'Buscar por número, nome ou contato',
+  'admin.reservedAt': 'Reserva em',
+  'admin.payment': 'Pagamento',
+  'admin.delete': 'Excluir',
+  'admin.togglePaid': 'Alternar pago',
+  'admin.paid': 'Pago',
+  'admin.unpaid': 'Não Pago',
+  'admin.deleteReservation': 'Excluir reserva',
+  'admin.empty': 'Nenhuma reserva encontrada',
+  'admin.undoing': 'Desfazendo...',
+  'admin.undo': 'Desfazer',
+  'admin.releaseTitle': 'Liberar reservas expiradas',
+  'admin.releaseHint':
+    'Reservas não pagas há mais de {hours}h voltam a ficar disponíveis. Quem pagar nesse meio tempo não é afetado.',
+  'admin.release': 'Liberar',
+  'admin.reopenTitle': 'Reabrir rifa sorteada',
+  'admin.publishedWinners': 'Vencedores publicados',
+  'admin.reopenHint':
+    'O resultado, a semente e o compromisso são apagados e a rifa volta para "{status}". Quem já viu o resultado vai notar a mudança; o motivo fica no histórico.',
+  'admin.reason': 'Motivo',
+  'admin.reasonPlaceholder': 'Ex.: pagamento confirmado depois do sorteio',
+  'admin.reopenConfirm': 'Reabrir',
+  'admin.deleteTitle': 'Confirmar exclusão',
+  'admin.deleteHint': 'A reserva vai para a lixeira e pode ser restaurada enquanto o número estiver livre.',
+  'multi.title': 'Pagar múltiplos',
+  'multi.open': 'Ação Sobre Vários',
+  'multi.search': 'Buscar nome',
+  'multi.pickName': 'Selecione um nome',
+  'multi.pickNumbers': 'Selecione as rifas que deseja marcar.',
+  'multi.selectAll': 'Selecionar todas',
+  'multi.totals': 'Total: {total} | Selecionadas: {selected}',
+  'multi.unselect': 'Remover',
+  'multi.select': 'Selecionar',
+  'multi.action': 'Ação',
+  'multi.markPaid': 'Declarar pago',
+  'multi.markUnpaid': 'Declarar não pago',
+  'multi.confirmDelete': 'Confirme para excluir as reservas selecionadas.',
+  'multi.confirmStatus': 'Confirme para aplicar o status em lote.',
+  'multi.markPaidHint': 'Marcar como pago',
+  'multi.markUnpaidHint': 'Marcar como não pago',
+  'multi.deleteHint': 'Excluir reservas',
+  'data.kindAdded': 'Volta do backup',
+  'data.kindRemoved': 'Sai (não existe no backup)',
+  'data.kindChanged': 'Nome/pagamento alterado',
+  'data.entry': '{name} ({paid})',
+  'data.writing': 'Gravando {done}/{total}...',
+  'data.reading': 'Lendo entries...',
+  'data.nothingToBackup': 'Não tem nada em entries para fazer backup',
+  'data.loadingBackup': 'Carregando backup...',
+  'data.comparing': 'Comparando com entries...',
+  'data.safetyBackup': 'Gerando backup automático...',
+  'data.safetyReason': 'antes de restaurar {backup}',
+  'data.restoring': 'Restaurando {done}/{total}...',
+  'data.checking': 'Conferindo resultado...',
+  'data.restoredWithBackup': 'Restaurado. Backup automático: {backup}',
+  'data.restored': 'Restaurado.',
+  'data.title': 'Admin Data',
+  'data.backupsTitle': 'Backups de entries',
+  'data.backupNow': 'Gerar backup agora',
+  'data.backups': 'Backups',
+  'data.searchBackup': 'Buscar backup',
+  'data.docCount': 'docs: {count}',
+  'data.noBackups': 'Nenhum backup ainda',
+  'data.contents': 'Conteúdo do backup',
+  'data.backup': 'Backup',
+  'data.contentsHint': 'Isso é uma cópia da coleção entries no momento do backup.',
+  'data.searchEntries': 'Buscar por número ou nome',
+  'data.items': 'Itens',
+  'data.noItems': 'Nenhum item para mostrar',
+  'data.restore': 'Restaurar',
+  'data.compare': 'Comparar com entries atuais',
+  'data.diffTotals': 'Diferenças: {total} | Selecionadas: {selected}',
+  'data.change': 'Mudança',
+  'data.current': 'Atual',
+  'data.noDiff': 'Entries atuais já estão iguais ao backup',
+  'data.restoreSelected': 'Restaurar selecionados',
+  'data.restoreAll': 'Restaurar tudo',
+  'data.compareFirst': 'Compare para ver o que muda antes de restaurar',
+  'data.pickBackup': 'Selecione um backup para visualizar',
+  'data.confirmTitle': 'Confirmar restauração',
+  'data.confirmHint': 'Antes de sobrescrever, um backup automático das entries atuais será gerado.'
+} satisfies Record<string, Message>
+
+export type MessageKey = keyof typeof ptBR
+
+type Messages = Record<MessageKey, Message>
+
+const en: Messages = {
+  'common.loading': 'Loading...',
+  'common.loadingMore': 'Loading more...',
+  'common.back': 'Back',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.next': 'Next',
+  'common.confirm': 'Confirm',
+  'common.ok': 'Ok',
+  'common.copy': 'Copy',
+  'common.total': 'Total: {count}',
+  'common.filterPlaceholder': 'Type to filter',
+  'common.language': 'Language',
+  'common.serviceUnavailable': 'Service unavailable. Please try again.',
+
+  'nav.allRaffles': 'All raffles',
+  'nav.myNumbers': 'My numbers',
+  'nav.manageRaffles': 'Manage raffles',
+  'nav.settings': 'Settings',
+
+  'count.numbers': { one: '{count} number', other: '{count} numbers' },
+  'count.paid': { one: '{count} paid', other: '{count} paid' },
+  'count.free': { one: '{count} free', other: '{count} free' },
+  'count.selected': { one: '{count} selected', other: '{count} selected' },
+
+  'entry.free': 'Free',
+  'entry.reserved': 'Reserved',
+  'entry.paid': 'Paid',
+  'entry.unpaid': 'Not paid',
+
+  'hold.expired': 'Reservation expired',
+  'hold.expiresIn': 'Expires in {time}',
+
+  'reserve.soldOut': 'There are not enough free numbers left. Pick fewer numbers.',
+  'reserve.taken': 'Number {n} was reserved by someone else. Pick another one.',
+  'reserve.tooMany': 'Reserve at most {max} numbers at a time.',
+
+  'prize.ordinal': 'Prize #{n}',
+  'prize.position': '#{n}',
+
+  'quote.numbers': { one: '{count} number x {price}', other: '{count} numbers x {price}' },
+  'quote.packages': { one: '{count} pack of {size} for {price}', other: '{count} packs of {size} for {price}' },
+
+  'picker.brand': 'Raffles',
+  'picker.title': 'Choose a raffle',
+  'picker.search': 'Search raffles',
+  'picker.drawn': 'Drawn',
+  'picker.empty': 'No raffles found',
+
+  'grid.jumpPlaceholder': 'Go to #',
+  'grid.jump': 'Go',
+  'grid.jumpTaken': 'Number {n} is already reserved',
+  'grid.select': 'Select',
+  'grid.remove': 'Remove',
+
+  'title.headline': 'We are running an {emph}!',
+  'title.headlineEmph': 'amazing raffle',
+  'title.price': 'Each number costs only {price}, out of {total} in total.',
+  'title.packages': 'Packs:',
+  'title.package': '{quantity} for {price}',
+
+  'summary.title': 'Summary',
+  'summary.total': 'Total numbers',
+  'summary.reserved': 'Reserved',
+  'summary.available': 'Available',
+  'summary.paid': 'Paid',
+  'summary.pending': 'Pending',
+  'summary.received': 'Collected',
+  'summary.toReceive': 'To collect',
+  'summary.chart': 'Chart',
+  'summary.free': 'Free',
+  'summary.openImage': 'Open image',
+  'summary.photoAlt': 'Raffle photo',
+  'summary.photoZoomedAlt': 'Raffle photo, enlarged',
+  'summary.tapToZoom': 'Tap to enlarge',
+
+  'pix.title': 'Pay with Pix',
+  'pix.payment': 'Payment',
+  'pix.details': 'Pix details',
+  'pix.copyPaste': 'Copy and paste',
+  'pix.copyCode': 'Copy Pix code',
+  'pix.codeCopied': 'Code copied',
+  'pix.key': 'Pix key',
+  'pix.copyKey': 'Copy Pix key',
+  'pix.keyCopied': 'Key copied',
+  'pix.name': 'Name',
+  'pix.bank': 'Bank',
+  'pix.missingKey': 'VITE_PIX_KEY is not set in .env, so the key cannot be shown here.',
+
+  'board.title': 'Number board',
+  'board.all': 'All',
+  'board.free': 'Free',
+  'board.mine': 'Mine',
+  'board.paid': 'Paid',
+  'board.mineHint': 'Make a reservation on this device to see yours',
+  'board.freeHint': 'Free: tap to reserve',
+  'board.empty': 'No numbers for this filter',
+
+  'heat.title': 'Most Reserved Ranges',
+  'heat.range': { one: '{from} to {to}: {count} reserved', other: '{from} to {to}: {count} reserved' },
+  'heat.less': 'Less reserved',
+  'heat.more': 'More reserved',
+
+  'prizes.title': 'Prizes',
+  'prizes.drawn': 'Drawn: {done}/{total}',
+  'prizes.order': 'Order',
+  'prizes.prize': 'Prize',
+  'prizes.winner': 'Winner',
+
+  'live.title': 'Live draw',
+  'live.waiting': 'Waiting for the draw to start',
+  'live.spinning': 'Drawing...',
+  'live.eligible': { one: '{count} number in the draw', other: '{count} numbers in the draw' },
+  'live.noPaid': 'No paid numbers yet',
+  'live.fullscreen': 'Full screen',
+  'live.exitFullscreen': 'Exit full screen',
+
+  'home.raffle': 'Raffle',
+  'home.notFound': 'Raffle not found.',
+  'home.seeAll': 'See all raffles',
+  'home.newReservation': 'New reservation',
+  'home.reserveButton': 'Reserve numbers',
+  'home.salesClosed': 'Sales closed',
+  'home.notOpenYet': 'Sales not open yet',
+  'home.drawDone': 'Draw completed',
+  'home.archived': 'Raffle ended',
+  'home.salesUntil': 'Sales close {time}',
+  'home.winnerOf': 'Winner of {prize}',
+  'home.result': 'Result',
+  'home.seedRevealed': 'Revealed seed',
+  'home.commitment': 'Commitment',
+  'home.verifyDraw': 'Verify draw',
+  'home.reservations': 'Reservations',
+  'home.searchNumber': 'Search by number',
+  'home.searchNumberOrName': 'Search by number or name',
+  'home.colNumber': 'Number',
+  'home.colName': 'Name',
+  'home.colReservedAt': 'Reserved at',
+  'home.colPayment': 'Payment',
+  'home.empty': 'No reservations found',
+
+  'pay.confirmed': 'Reservation confirmed',
+  'pay.amount': 'Amount due',
+  'pay.swapped': {
+    one: '{lost} was taken by someone else while you were confirming. We replaced it with {gained}.',
+    other: '{lost} were taken by someone else while you were confirming. We replaced them with {gained}.'
+  },
+  'pay.deadline': 'Pay within {time} or your numbers will be released to other people.',
+  'pay.deadlinePassed': 'The payment window is over. If you have not paid yet, your numbers may be released.',
+  'pay.order': 'Order',
+  'pay.orderHint': 'Keep this code: it identifies your purchase.',
+
+  'proof.title': 'Receipt',
+  'proof.hint': 'Already paid? Send the receipt (image or PDF) so the organizer can check it.',
+  'proof.choose': 'Send receipt',
+  'proof.sending': 'Sending...',
+  'proof.sent': 'Receipt sent. Once it is checked, your numbers will show as paid.',
+  'proof.badType': 'Send an image or a PDF',
+  'proof.tooBig': 'File too large (max {mb} MB)',
+
+  'reserve.confirmTitle': 'Confirm reservation',
+  'reserve.yourName': 'Your name',
+  'reserve.namePlaceholder': 'Type your name',
+  'reserve.contact': 'Mobile (WhatsApp) or e-mail',
+  'reserve.contactPlaceholder': '(11) 98765-4321 or you@email.com',
+  'reserve.contactInvalid': 'Enter a mobile number with area code or a valid e-mail',
+  'reserve.lucky': 'Lucky pick',
+  'reserve.luckyCount': 'How many numbers',
+  'reserve.luckyPick': 'Pick for me',
+  'reserve.luckyAgain': 'Pick again',
+  'reserve.orPick': 'Or choose from the available numbers',
+  'reserve.name': 'Name',
+  'reserve.contactShort': 'Contact',
+  'reserve.numbers': 'Numbers',
+  'reserve.luckySwapHint': 'If someone takes one of your lucky-pick numbers before you confirm, we swap it for another free one.',
+  'reserve.takenHint': 'If someone takes one of the numbers before you confirm, we will let you know.',
+  'reserve.lookupHint': 'Use this contact later to look up your numbers under "My numbers".',
+
+  'lookup.askContact': 'Enter the contact used for the reservation',
+  'lookup.askCode': 'Enter the code you received',
+  'lookup.codeSentTo': 'Code sent to {contact}',
+  'lookup.changeContact': 'Change contact',
+  'lookup.verifying': 'Checking...',
+  'lookup.show': 'Show my numbers',
+  'lookup.sending': 'Sending...',
+  'lookup.send': 'Send code',
+  'lookup.another': 'Look up another contact',
+  'lookup.empty': 'No numbers found for this contact',
+
+  'verify.title': 'Verify draw',
+  'verify.raffle': 'Raffle: {name}',
+  'verify.data': 'Draw data',
+  'verify.explain':
+    'Before the draw we publish the SHA-256 hash of a secret seed. At draw time the paid numbers are sorted and the winner is the one at position SHA-256(seed|comma-separated numbers) modulo the count of numbers. For the next prizes, the drawn number leaves the list (and, if the same person cannot win twice, their other numbers too) and the hash uses SHA-256(seed|prize order|list). Then the seed is revealed and anyone can redo the math here ({algorithm}).',
+  'verify.hash': 'Published commitment (hash)',
+  'verify.seed': 'Revealed seed',
+  'verify.seedPlaceholder': 'Available after the draw',
+  'verify.eligible': 'Eligible numbers (paid at draw time)',
+  'verify.prizeCount': 'Number of prizes',
+  'verify.oneWin': 'Each person can win only one prize (owners loaded from the draw).',
+  'verify.run': 'Verify',
+  'verify.seedHash': 'Seed hash',
+  'verify.hashOk': 'Matches the commitment',
+  'verify.hashBad': 'Does not match ({hash})',
+  'verify.position': '{n} (position {position})',
+  'payment.cash': 'Cash',
+  'payment.pix': 'Pix',
+  'payment.card': 'Card',
+  'nameDisplay.full': 'Full name',
+  'nameDisplay.initial': 'First name and initial',
+  'nameDisplay.masked': 'Masked (M*** S***)',
+  'nameDisplay.hidden': 'Hidden',
+  'role.seller': 'Seller',
+  'role.admin': 'Admin',
+  'role.dataAdmin': 'Data admin',
+  'audit.reserve': 'Reservation',
+  'audit.sale': 'Manual sale',
+  'audit.pay': 'Marked paid',
+  'audit.unpay': 'Marked unpaid',
+  'audit.delete': 'Deleted',
+  'audit.undelete': 'Restored from trash',
+  'audit.releaseExpired': 'Released expired',
+  'audit.import': 'Imported spreadsheet',
+  'audit.restore': 'Restored backup',
+  'audit.config': 'Changed settings',
+  'audit.commit': 'Published commitment',
+  'audit.draw': 'Drew',
+  'audit.resetDraw': 'Reset draw',
+  'audit.proofReject': 'Rejected proof',
+  'audit.orderCancel': 'Cancelled order',
+  'audit.refund': 'Refunded',
+  'audit.status': 'Changed status',
+  'audit.actorSystem': 'System',
+  'audit.actorBuyer': '{name} (buyer)',
+  'audit.buyer': 'Buyer',
+  'audit.actorStaff': 'Staff',
+  'audit.free': 'free',
+  'audit.paid': 'Paid',
+  'audit.unpaid': 'Unpaid',
+  'audit.winners': 'Winners: {numbers}',
+  'audit.previousWinners': 'Previous winners: {numbers}',
+  'audit.reason': 'reason: {reason}',
+  'audit.proofOf': 'Proof from {name}: {numbers}',
+  'audit.fromBackup': 'backup {name}',
+  'audit.fromProof': 'proof',
+  'audit.order': 'order {order}',
+  'audit.orderRefund': 'order {order}, refund {refund}',
+  'audit.titleNumber': 'History of number {n}',
+  'audit.title': 'Change history',
+  'audit.search': 'Number, person or e-mail',
+  'audit.searchPlaceholder': 'Type a number to see its timeline',
+  'audit.action': 'Action',
+  'audit.allActions': 'All',
+  'audit.when': 'When',
+  'audit.who': 'Who',
+  'audit.change': 'Change',
+  'audit.empty': 'No events found',
+  'status.draft': 'Draft',
+  'status.open': 'Sales open',
+  'status.closed': 'Sales closed',
+  'status.drawn': 'Drawn',
+  'status.archived': 'Archived',
+  'statusAction.draft': 'Back to draft',
+  'statusAction.open': 'Open sales',
+  'statusAction.closed': 'Close sales',
+  'statusAction.drawn': 'Unarchive',
+  'statusAction.archived': 'Archive',
+  'orderStatus.open': 'Awaiting payment',
+  'orderStatus.partial': 'Partly paid',
+  'orderStatus.paid': 'Paid',
+  'orderStatus.released': 'Released',
+  'orderStatus.cancelled': 'Cancelled',
+  'staff.authInvalid': 'Wrong e-mail or password',
+  'staff.authEmailInUse': 'This e-mail already has an account',
+  'staff.authWeakPassword': 'The password needs at least 6 characters',
+  'staff.authInvalidEmail': 'Invalid e-mail',
+  'staff.missingRole':
+    'Signed in as {user}, but your account does not have the {role} permission. Ask a data admin to grant access.',
+  'staff.logout': 'Sign out',
+  'staff.email': 'E-mail',
+  'staff.password': 'Password',
+  'staff.login': 'Sign in',
+  'staff.firstAccess': 'First time here? {signup} and ask a data admin for permission.',
+  'staff.signup': 'Create account',
+  'staff.home': 'Home page',
+  'staff.number': 'Number',
+  'staff.name': 'Name',
+  'staff.saving': 'Saving...',
+  'raffles.brand': 'Raffles',
+  'raffles.newTitle': 'New raffle',
+  'raffles.name': 'Raffle name',
+  'raffles.id': 'Identifier (link)',
+  'raffles.idPlaceholder': 'my-raffle',
+  'raffles.idHint': 'Use letters, numbers and hyphens',
+  'raffles.total': 'Numbers in the raffle',
+  'raffles.drawDate': 'Draw date',
+  'raffles.create': 'Create raffle',
+  'raffles.importLegacy': 'Import old raffle',
+  'raffles.importLegacyHint': 'Copies app/config, entries and the old backups',
+  'raffles.list': 'Raffles',
+  'raffles.empty': 'No raffles yet',
+  'raffles.staff': 'Team and permissions',
+  'raffles.roleFor': '{role} for {user}',
+  'raffles.noStaff': 'Nobody has created an account yet',
+  'raffles.nameRequired': 'Enter the raffle name',
+  'raffles.idInvalid': 'Enter a valid identifier for the raffle',
+  'raffles.exists': 'There is already a raffle with the identifier {id}.',
+  'raffles.legacyMissing': 'There is no old raffle (app/config) to import',
+  'raffles.legacyReading': 'Reading entries...',
+  'raffles.legacyEntries': 'Copying entries {done}/{total}...',
+  'raffles.legacyBackup': 'Copying backup {name}...',
+  'sheet.issueRange': 'Line {line}: number "{value}" is outside 1 to {total}',
+  'sheet.issueName': 'Line {line}: number {n} has no name',
+  'sheet.issuePaid': 'Line {line}: payment "{value}" not recognized (use yes or no)',
+  'sheet.issuePaidAdmin': 'Line {line}: only an admin can import number {n} as paid',
+  'sheet.issueDate': 'Line {line}: invalid date "{value}"',
+  'sheet.issueRepeated': 'Line {line}: number {n} repeated (already on line {prev})',
+  'sheet.sheetName': 'Reservations',
+  'sheet.empty': 'Empty spreadsheet',
+  'sheet.checking': 'Checking current reservations...',
+  'sheet.importingChunk': 'Importing {done}/{total}...',
+  'sheet.imported': 'Imported {imported}. Unchanged: {same}. Conflicts skipped: {skipped}. Lines with errors: {issues}.',
+  'sheet.importedLate': 'Reserved by someone else during the import: {numbers}.',
+  'sheet.title': 'Reservations spreadsheet',
+  'sheet.hint': 'CSV or XLSX with Número, Nome, Pago and Reservado em',
+  'sheet.exportCsv': 'Export CSV',
+  'sheet.exportXlsx': 'Export XLSX',
+  'sheet.import': 'Import spreadsheet',
+  'sheet.planSummary': 'New: {fresh} · Same as current: {same} · Conflicts: {conflicts} · Errors: {issues}',
+  'sheet.conflicts': 'Already reserved with another name or payment',
+  'sheet.conflictLine': 'spreadsheet: {incoming} · current: {live}',
+  'sheet.overwrite': 'Overwrite conflicts with the spreadsheet',
+  'sheet.overwriteAdminOnly': 'Overwrite conflicts with the spreadsheet (admin only)',
+  'sheet.skippedLines': 'Skipped lines',
+  'sheet.importing': 'Importing...',
+  'sheet.importCount': { one: 'Import {count} reservation', other: 'Import {count} reservations' },
+  'trash.restored': 'Restored: {count}.',
+  'trash.skipped': 'Not restored (reserved again): {numbers}.',
+  'trash.title': 'Trash',
+  'trash.retention': { one: 'deleted for good after {count} day', other: 'deleted for good after {count} days' },
+  'trash.deletedAt': 'Deleted at',
+  'trash.deletedBy': 'By',
+  'trash.restore': 'Restore',
+  'trash.taken': 'Reserved again',
+  'trash.empty': 'Trash is empty',
+  'trash.restoring': 'Restoring...',
+  'orders.refundInvalid': 'Choose the returned numbers and a valid refund amount',
+  'orders.refundTooHigh': 'The refund is more than what is left to refund on this order ({amount})',
+  'orders.title': 'Orders',
+  'orders.search': 'Search by order, name or number',
+  'orders.order': 'Order',
+  'orders.numbers': 'Numbers',
+  'orders.amount': 'Amount',
+  'orders.status': 'Status',
+  'orders.actions': 'Actions',
+  'orders.refunded': 'Refunded {amount}',
+  'orders.pay': 'Pay',
+  'orders.refund': 'Refund',
+  'orders.empty': 'No orders found',
+  'orders.cancelTitle': 'Cancel order',
+  'orders.refundTitle': 'Partial refund',
+  'orders.cancelHint': 'Numbers {numbers} go to the trash and become free for other people.',
+  'orders.refundNumbers': 'Returned numbers',
+  'orders.refundAmount': 'Refund amount',
+  'orders.refundHint':
+    'Suggested: what was charged minus the price of the numbers that stay. The returned ones go to the trash.',
+  'proofs.nothingPayable':
+    'None of the numbers in the proof from {name} is still reserved and unpaid. Reject it to take it off the queue.',
+  'proofs.title': 'Proofs to check',
+  'proofs.sentAt': 'Sent at',
+  'proofs.file': 'File',
+  'proofs.gone': 'Already paid or released: {numbers}',
+  'proofs.openPdf': 'Open PDF',
+  'proofs.openImage': 'View image',
+  'proofs.approve': 'Approve',
+  'proofs.reject': 'Reject',
+  'proofs.empty': 'No proofs waiting to be checked',
+  'sale.buyerName': 'Buyer name',
+  'sale.contact': 'Phone or e-mail (optional)',
+  'sale.contactPlaceholder': '(11) 98765-4321 or email@example.com',
+  'sale.paid': 'Already paid',
+  'sale.available': 'Available numbers',
+  'sale.confirmPaid': 'Record sale',
+  'sale.confirmReserve': 'Reserve',
+  'admin.frozen': 'The draw commitment is already published: reservations and payments are locked until the draw',
+  'admin.notReserved': 'Number {n} is no longer reserved',
+  'admin.deletedOne': 'Number {n} deleted',
+  'admin.undoSkipped': 'Could not undo {numbers}: reserved again.',
+  'admin.reopenAfterClose': 'The sales closing time has passed. Change the draw date or time before reopening.',
+  'admin.draftWithReservations': 'You can only go back to draft while there are no reservations',
+  'admin.configLocked': 'After the draw the settings are locked. Reopen the raffle to change them.',
+  'admin.nameDisplayFrozen':
+    'With the commitment published the reservation names cannot be rewritten. Change the display after the draw.',
+  'admin.totalBelowReserved': 'Cannot reduce to {total} because number {max} is already reserved.',
+  'admin.priceInvalid': 'Invalid price per number',
+  'admin.currencyInvalid': 'Invalid currency (use the 3-letter code, e.g. BRL)',
+  'admin.packagesInvalid': 'Check the packs: each needs a quantity (2 or more) and a price, with no repeated quantities',
+  'admin.timeZoneInvalid': 'Invalid time zone (e.g. America/Sao_Paulo)',
+  'admin.drawTimeInvalid': 'Invalid draw time',
+  'admin.autoDrawNeedsTime': 'For the automatic draw, enter the draw date and time',
+  'admin.autoDrawCutoff': 'With the automatic draw, close sales at least {minutes} minutes before the draw',
+  'admin.commitExists': 'The commitment is already published. Reset the draw to create another.',
+  'admin.commitNeedsClosed': 'Close sales before publishing the commitment',
+  'admin.drawWrongStatus': 'Cannot draw while the raffle is "{status}"',
+  'admin.drawNoPaid': 'There are no paid numbers to draw',
+  'admin.drawTooFew': {
+    one: 'Not enough paid participants for {count} prize',
+    other: 'Not enough paid participants for {count} prizes'
+  },
+  'admin.drawNeedsCommit': 'Publish the commitment (seed hash) before drawing',
+  'admin.seedMissing': 'Draw seed not found',
+  'admin.seedMismatch': 'The stored seed does not match the published commitment',
+  'admin.alreadyDrawn': 'The result was already published by someone else or by the scheduled draw',
+  'admin.commitChanged': 'The commitment changed during the draw. Check it and draw again',
+  'admin.reopenNeedsReason': 'Enter the reason to reopen the raffle',
+  'admin.deletedMany': { one: '{count} number deleted', other: '{count} numbers deleted' },
+  'admin.brand': 'Raffle',
+  'admin.title': 'Admin',
+  'admin.rafflePage': 'Raffle page',
+  'admin.statusTitle': 'Raffle status',
+  'admin.configTitle': 'Result settings',
+  'admin.totalNumbers': 'Number of tickets in the draw',
+  'admin.maxReserved': 'Highest reserved number today: {n}',
+  'admin.noReservations': 'No reservations yet',
+  'admin.drawDate': 'Draw date',
+  'admin.drawTimeZone': 'Draw time and time zone',
+  'admin.drawAtLocal': 'Draw on {when} (your time)',
+  'admin.noSchedule': 'No time set, nothing is scheduled',
+  'admin.cutoff': 'Close sales (minutes before the draw)',
+  'admin.cutoffMin': 'Minimum {minutes}',
+  'admin.cutoffNone': 'At the draw time',
+  'admin.autoDraw': 'Draw automatically at the set time',
+  'admin.salesCloseAt': 'Sales close on {when}',
+  'admin.autoDrawError': 'Automatic draw: {error}',
+  'admin.result': 'Result',
+  'admin.commitment': 'Commitment (seed hash)',
+  'admin.seedRevealed': 'Seed revealed after the draw',
+  'admin.committedAt': 'Published on {when}',
+  'admin.commitBeforeDraw': 'Publish before the draw date',
+  'admin.textsTitle': 'Texts and price',
+  'admin.headline': 'Page title',
+  'admin.headlinePlaceholder': 'We are running an amazing raffle!',
+  'admin.description': 'Description',
+  'admin.descriptionPlaceholder': 'What is being raffled',
+  'admin.price': 'Price per number',
+  'admin.holdHours': 'Time to pay (hours)',
+  'admin.holdNone': 'No deadline',
+  'admin.autoRelease': 'Release expired ones automatically',
+  'admin.trashDays': 'Days in the trash',
+  'admin.trashDaysHint': 'Deleted reservations can be restored until they are deleted for good',
+  'admin.board': 'Number board',
+  'admin.boardShowNames': 'Show names on the public board',
+  'admin.nameDisplay': 'Names on the public page',
+  'admin.nameDisplayHint': 'Applies to the list, the board and the winner. Signed-in staff see the full name.',
+  'admin.locale': 'Public page language',
+  'admin.localeAuto': 'Automatic (browser language)',
+  'admin.localeHint': 'Language and format of dates and amounts. Visitors can change it in the selector at the top.',
+  'admin.currency': 'Currency',
+  'admin.package': 'Pack',
+  'admin.quantity': 'Quantity',
+  'admin.packagePrice': 'Price',
+  'admin.removePackage': 'Remove pack',
+  'admin.addPackage': 'Add pack',
+  'admin.packagesHint': 'E.g. 3 numbers for 5.00. The amount uses the cheapest combination.',
+  'admin.prizes': 'Prizes',
+  'admin.prizeTitle': 'Title',
+  'admin.prizeImage': 'Image URL',
+  'admin.moveUp': 'Move up',
+  'admin.moveDown': 'Move down',
+  'admin.removePrize': 'Remove prize',
+  'admin.noPrizes': 'No prizes set: the draw picks a single winner.',
+  'admin.addPrize': 'Add prize',
+  'admin.allowRepeat': 'The same person can win more than one prize',
+  'admin.adminOnly': 'Only an admin can change the settings and draw.',
+  'admin.lockedHint': 'Raffle drawn: the settings stay locked until it is reopened.',
+  'admin.reopen': 'Reopen raffle',
+  'admin.resetDraw': 'Reset draw',
+  'admin.publishCommit': 'Publish commitment',
+  'admin.draw': 'Draw',
+  'admin.openScreen': 'Open big screen',
+  'admin.drawLiveHint': 'Spins the big screen for a few seconds on every screen, then reveals the result',
+  'admin.drawLive': 'Draw live',
+  'admin.save': 'Save',
+  'admin.listTitle': 'Reservations',
+  'admin.expiring': { one: '{count} expiring', other: '{count} expiring' },
+  'admin.revenue': 'Collected: {received} | To collect: {toReceive}',
+  'admin.releaseExpired': 'Release expired',
+  'admin.releaseExpiredCount': 'Release expired ({count})',
+  'admin.manualSale': 'Manual sale',
+  'admin.search': 'Search by number, name or contact',
+  'admin.reservedAt': 'Reserved on',
+  'admin.payment': 'Payment',
+  'admin.delete': 'Delete',
+  'admin.togglePaid': 'Toggle paid',
+  'admin.paid': 'Paid',
+  'admin.unpaid': 'Not paid',
+  'admin.deleteReservation': 'Delete reservation',
+  'admin.empty': 'No reservations found',
+  'admin.undoing': 'Undoing...',
+  'admin.undo': 'Undo',
+  'admin.releaseTitle': 'Release expired reservations',
+  'admin.releaseHint':
+    'Reservations unpaid for more than {hours}h become available again. Anyone who pays in the meantime is not affected.',
+  'admin.release': 'Release',
+  'admin.reopenTitle': 'Reopen drawn raffle',
+  'admin.publishedWinners': 'Published winners',
+  'admin.reopenHint':
+    'The result, the seed and the commitment are erased and the raffle goes back to "{status}". Anyone who saw the result will notice the change; the reason stays in the history.',
+  'admin.reason': 'Reason',
+  'admin.reasonPlaceholder': 'E.g. payment confirmed after the draw',
+  'admin.reopenConfirm': 'Reopen',
+  'admin.deleteTitle': 'Confirm deletion',
+  'admin.deleteHint': 'The reservation goes to the trash and can be restored while the number is free.',
+  'multi.title': 'Pay several',
+  'multi.open': 'Act on several',
+  'multi.search': 'Search name',
+  'multi.pickName': 'Pick a name',
+  'multi.pickNumbers': 'Pick the numbers you want to mark.',
+  'multi.selectAll': 'Select all',
+  'multi.totals': 'Total: {total} | Selected: {selected}',
+  'multi.unselect': 'Remove',
+  'multi.select': 'Select',
+  'multi.action': 'Action',
+  'multi.markPaid': 'Mark as paid',
+  'multi.markUnpaid': 'Mark as not paid',
+  'multi.confirmDelete': 'Confirm to delete the selected reservations.',
+  'multi.confirmStatus': 'Confirm to apply the status to all of them.',
+  'multi.markPaidHint': 'Mark as paid',
+  'multi.markUnpaidHint': 'Mark as not paid',
+  'multi.deleteHint': 'Delete reservations',
+  'data.kindAdded': 'Comes back from the backup',
+  'data.kindRemoved': 'Removed (not in the backup)',
+  'data.kindChanged': 'Name/payment changed',
+  'data.entry': '{name} ({paid})',
+  'data.writing': 'Writing {done}/{total}...',
+  'data.reading': 'Reading entries...',
+  'data.nothingToBackup': 'There is nothing in entries to back up',
+  'data.loadingBackup': 'Loading backup...',
+  'data.comparing': 'Comparing with entries...',
+  'data.safetyBackup': 'Creating automatic backup...',
+  'data.safetyReason': 'before restoring {backup}',
+  'data.restoring': 'Restoring {done}/{total}...',
+  'data.checking': 'Checking the result...',
+  'data.restoredWithBackup': 'Restored. Automatic backup: {backup}',
+  'data.restored': 'Restored.',
+  'data.title': 'Data admin',
+  'data.backupsTitle': 'Entries backups',
+  'data.backupNow': 'Back up now',
+  'data.backups': 'Backups',
+  'data.searchBackup': 'Search backup',
+  'data.docCount': 'docs: {count}',
+  'data.noBackups': 'No backups yet',
+  'data.contents': 'Backup contents',
+  'data.backup': 'Backup',
+  'data.contentsHint': 'This is a copy of the entries collection at backup time.',
+  'data.searchEntries': 'Search by number or name',
+  'data.items': 'Items',
+  'data.noItems': 'No items to show',
+  'data.restore': 'Restore',
+  'data.compare': 'Compare with current entries',
+  'data.diffTotals': 'Differences: {total} | Selected: {selected}',
+  'data.change': 'Change',
+  'data.current': 'Current',
+  'data.noDiff': 'Current entries already match the backup',
+  'data.restoreSelected': 'Restore selected',
+  'data.restoreAll': 'Restore all',
+  'data.compareFirst': 'Compare to see what changes before restoring',
+  'data.pickBackup': 'Pick a backup to view',
+  'data.confirmTitle': 'Confirm restore',
+  'data.confirmHint': 'Before overwriting, an automatic backup of the current entries is created.'
+}
+
+const es: Messages = {
+  'common.loading': 'Cargando...',
+  'common.loadingMore': 'Cargando más...',
+  'common.back': 'Volver',
+  'common.cancel': 'Cancelar',
+  'common.close': 'Cerrar',
+  'common.next': 'Siguiente',
+  'common.confirm': 'Confirmar',
+  'common.ok': 'Ok',
+  'common.copy': 'Copiar',
+  'common.total': 'Total: {count}',
+  'common.filterPlaceholder': 'Escribe para filtrar',
+  'common.language': 'Idioma',
+  'common.serviceUnavailable': 'Servicio no disponible. Inténtalo de nuevo.',
+
+  'nav.allRaffles': 'Todas las rifas',
+  'nav.myNumbers': 'Mis números',
+  'nav.manageRaffles': 'Administrar rifas',
+  'nav.settings': 'Configuración',
+
+  'count.numbers': { one: '{count} número', other: '{count} números' },
+  'count.paid': { one: '{count} pagado', other: '{count} pagados' },
+  'count.free': { one: '{count} libre', other: '{count} libres' },
+  'count.selected': { one: '{count} seleccionado', other: '{count} seleccionados' },
+
+  'entry.free': 'Libre',
+  'entry.reserved': 'Reservado',
+  'entry.paid': 'Pagado',
+  'entry.unpaid': 'No pagado',
+
+  'hold.expired': 'Reserva vencida',
+  'hold.expiresIn': 'Vence en {time}',
+
+  'reserve.soldOut': 'No quedan suficientes números libres. Elige menos números.',
+  'reserve.taken': 'Otra persona reservó el número {n}. Elige otro.',
+  'reserve.tooMany': 'Reserva como máximo {max} números por vez.',
+
+  'prize.ordinal': '{n}.º premio',
+  'prize.position': '{n}.º',
+
+  'quote.numbers': { one: '{count} número x {price}', other: '{count} números x {price}' },
+  'quote.packages': { one: '{count} paquete de {size} por {price}', other: '{count} paquetes de {size} por {price}' },
+
+  'picker.brand': 'Rifas',
+  'picker.title': 'Elige una rifa',
+  'picker.search': 'Buscar rifa',
+  'picker.drawn': 'Sorteada',
+  'picker.empty': 'No se encontraron rifas',
+
+  'grid.jumpPlaceholder': 'Ir al n.º',
+  'grid.jump': 'Ir',
+  'grid.jumpTaken': 'El número {n} ya está reservado',
+  'grid.select': 'Seleccionar',
+  'grid.remove': 'Quitar',
+
+  'title.headline': '¡Tenemos una {emph}!',
+  'title.headlineEmph': 'rifa increíble',
+  'title.price': 'Cada número cuesta solo {price}, de un total de {total}.',
+  'title.packages': 'Paquetes:',
+  'title.package': '{quantity} por {price}',
+
+  'summary.title': 'Resumen',
+  'summary.total': 'Total de números',
+  'summary.reserved': 'Reservados',
+  'summary.available': 'Disponibles',
+  'summary.paid': 'Pagados',
+  'summary.pending': 'Pendientes',
+  'summary.received': 'Recaudado',
+  'summary.toReceive': 'Por cobrar',
+  'summary.chart': 'Gráfico',
+  'summary.free': 'Libres',
+  'summary.openImage': 'Abrir imagen',
+  'summary.photoAlt': 'Foto de la rifa',
+  'summary.photoZoomedAlt': 'Foto de la rifa ampliada',
+  'summary.tapToZoom': 'Toca para ampliar',
+
+  'pix.title': 'Pago con Pix',
+  'pix.payment': 'Pago',
+  'pix.details': 'Datos de Pix',
+  'pix.copyPaste': 'Copiar y pegar',
+  'pix.copyCode': 'Copiar código Pix',
+  'pix.codeCopied': 'Código copiado',
+  'pix.key': 'Clave Pix',
+  'pix.copyKey': 'Copiar clave Pix',
+  'pix.keyCopied': 'Clave copiada',
+  'pix.name': 'Nombre',
+  'pix.bank': 'Banco',
+  'pix.missingKey': 'Falta configurar VITE_PIX_KEY en el .env, así que no se puede mostrar la clave aquí.',
+
+  'board.title': 'Tablero de números',
+  'board.all': 'Todos',
+  'board.free': 'Libres',
+  'board.mine': 'Míos',
+  'board.paid': 'Pagados',
+  'board.mineHint': 'Haz una reserva en este dispositivo para ver los tuyos',
+  'board.freeHint': 'Libre: toca para reservar',
+  'board.empty': 'Ningún número con este filtro',
+
+  'heat.title': 'Zonas Con Más Reservas',
+  'heat.range': { one: '{from} a {to}: {count} reservado', other: '{from} a {to}: {count} reservados' },
+  'heat.less': 'Menos reservado',
+  'heat.more': 'Más reservado',
+
+  'prizes.title': 'Premios',
+  'prizes.drawn': 'Sorteados: {done}/{total}',
+  'prizes.order': 'Orden',
+  'prizes.prize': 'Premio',
+  'prizes.winner': 'Ganador',
+
+  'live.title': 'Sorteo en vivo',
+  'live.waiting': 'Esperando el inicio del sorteo',
+  'live.spinning': 'Sorteando...',
+  'live.eligible': { one: '{count} número participando', other: '{count} números participando' },
+  'live.noPaid': 'Todavía no hay números pagados',
+  'live.fullscreen': 'Pantalla completa',
+  'live.exitFullscreen': 'Salir de pantalla completa',
+
+  'home.raffle': 'Rifa',
+  'home.notFound': 'Rifa no encontrada.',
+  'home.seeAll': 'Ver todas las rifas',
+  'home.newReservation': 'Nueva reserva',
+  'home.reserveButton': 'Reservar números',
+  'home.salesClosed': 'Ventas cerradas',
+  'home.notOpenYet': 'Ventas aún no abiertas',
+  'home.drawDone': 'Sorteo realizado',
+  'home.archived': 'Rifa finalizada',
+  'home.salesUntil': 'Ventas hasta {time}',
+  'home.winnerOf': 'Ganador del {prize}',
+  'home.result': 'Resultado',
+  'home.seedRevealed': 'Semilla revelada',
+  'home.commitment': 'Compromiso',
+  'home.verifyDraw': 'Verificar sorteo',
+  'home.reservations': 'Reservas realizadas',
+  'home.searchNumber': 'Buscar por número',
+  'home.searchNumberOrName': 'Buscar por número o nombre',
+  'home.colNumber': 'Número',
+  'home.colName': 'Nombre',
+  'home.colReservedAt': 'Reservado el',
+  'home.colPayment': 'Pago',
+  'home.empty': 'No se encontraron reservas',
+
+  'pay.confirmed': 'Reserva confirmada',
+  'pay.amount': 'Monto a pagar',
+  'pay.swapped': {
+    one: 'Otra persona tomó el {lost} mientras confirmabas. Lo cambiamos por {gained}.',
+    other: 'Otra persona tomó los {lost} mientras confirmabas. Los cambiamos por {gained}.'
+  },
+  'pay.deadline': 'Paga dentro de {time} o tus números quedarán libres para otras personas.',
+  'pay.deadlinePassed': 'El plazo de pago terminó. Si aún no pagaste, tus números pueden quedar libres.',
+  'pay.order': 'Pedido',
+  'pay.orderHint': 'Guarda este código: identifica tu compra.',
+
+  'proof.title': 'Comprobante',
+  'proof.hint': '¿Ya pagaste? Envía el comprobante (imagen o PDF) para que el organizador lo revise.',
+  'proof.choose': 'Enviar comprobante',
+  'proof.sending': 'Enviando...',
+  'proof.sent': 'Comprobante enviado. Cuando lo revisen, tus números aparecerán como pagados.',
+  'proof.badType': 'Envía una imagen o un PDF',
+  'proof.tooBig': 'Archivo demasiado grande (máximo {mb} MB)',
+
+  'reserve.confirmTitle': 'Confirmar reserva',
+  'reserve.yourName': 'Tu nombre',
+  'reserve.namePlaceholder': 'Escribe tu nombre',
+  'reserve.contact': 'Celular (WhatsApp) o e-mail',
+  'reserve.contactPlaceholder': '(11) 98765-4321 o tu@email.com',
+  'reserve.contactInvalid': 'Ingresa un celular con código de área o un e-mail válido',
+  'reserve.lucky': 'Sorpresita',
+  'reserve.luckyCount': 'Cantidad de números',
+  'reserve.luckyPick': 'Elige por mí',
+  'reserve.luckyAgain': 'Sortear de nuevo',
+  'reserve.orPick': 'O elige entre los números disponibles',
+  'reserve.name': 'Nombre',
+  'reserve.contactShort': 'Contacto',
+  'reserve.numbers': 'Números',
+  'reserve.luckySwapHint': 'Si alguien toma uno de los números de la sorpresita antes de que confirmes, lo cambiamos por otro libre.',
+  'reserve.takenHint': 'Si alguien toma uno de los números antes de que confirmes, te avisaremos.',
+  'reserve.lookupHint': 'Con este contacto puedes consultar tus números después en "Mis números".',
+
+  'lookup.askContact': 'Ingresa el contacto usado en la reserva',
+  'lookup.askCode': 'Escribe el código recibido',
+  'lookup.codeSentTo': 'Código enviado a {contact}',
+  'lookup.changeContact': 'Cambiar contacto',
+  'lookup.verifying': 'Verificando...',
+  'lookup.show': 'Ver mis números',
+  'lookup.sending': 'Enviando...',
+  'lookup.send': 'Enviar código',
+  'lookup.another': 'Consultar otro contacto',
+  'lookup.empty': 'No se encontraron números para este contacto',
+
+  'verify.title': 'Verificar sorteo',
+  'verify.raffle': 'Rifa: {name}',
+  'verify.data': 'Datos del sorteo',
+  'verify.explain':
+    'Antes del sorteo publicamos el hash SHA-256 de una semilla secreta. En el sorteo, los números pagados se ordenan y gana el de la posición SHA-256(semilla|números separados por coma) módulo la cantidad de números. Para los premios siguientes, el número sorteado sale de la lista (y, si la misma persona no puede ganar dos veces, también sus otros números) y la cuenta usa SHA-256(semilla|orden del premio|lista). Después se revela la semilla y cualquiera puede rehacer la cuenta aquí ({algorithm}).',
+  'verify.hash': 'Compromiso publicado (hash)',
+  'verify.seed': 'Semilla revelada',
+  'verify.seedPlaceholder': 'Disponible después del sorteo',
+  'verify.eligible': 'Números elegibles (pagados al momento del sorteo)',
+  'verify.prizeCount': 'Cantidad de premios',
+  'verify.oneWin': 'Cada persona puede ganar un solo premio (dueños de los números cargados del sorteo).',
+  'verify.run': 'Verificar',
+  'verify.seedHash': 'Hash de la semilla',
+  'verify.hashOk': 'Coincide con el compromiso',
+  'verify.hashBad': 'No coincide ({hash})',
+  'verify.position': '{n} (posición {position})',
+  'payment.cash': 'Efectivo',
+  'payment.pix': 'Pix',
+  'payment.card': 'Tarjeta',
+  'nameDisplay.full': 'Nombre completo',
+  'nameDisplay.initial': 'Nombre e inicial',
+  'nameDisplay.masked': 'Enmascarado (M*** S***)',
+  'nameDisplay.hidden': 'Oculto',
+  'role.seller': 'Vendedor',
+  'role.admin': 'Admin',
+  'role.dataAdmin': 'Admin de datos',
+  'audit.reserve': 'Reserva',
+  'audit.sale': 'Venta manual',
+  'audit.pay': 'Marcó pagado',
+  'audit.unpay': 'Marcó no pagado',
+  'audit.delete': 'Eliminó',
+  'audit.undelete': 'Restauró de la papelera',
+  'audit.releaseExpired': 'Liberó vencidas',
+  'audit.import': 'Importó planilla',
+  'audit.restore': 'Restauró copia',
+  'audit.config': 'Cambió la configuración',
+  'audit.commit': 'Publicó el compromiso',
+  'audit.draw': 'Sorteó',
+  'audit.resetDraw': 'Reinició el sorteo',
+  'audit.proofReject': 'Rechazó comprobante',
+  'audit.orderCancel': 'Canceló pedido',
+  'audit.refund': 'Reembolsó',
+  'audit.status': 'Cambió el estado',
+  'audit.actorSystem': 'Sistema',
+  'audit.actorBuyer': '{name} (comprador)',
+  'audit.buyer': 'Comprador',
+  'audit.actorStaff': 'Equipo',
+  'audit.free': 'libre',
+  'audit.paid': 'Pagado',
+  'audit.unpaid': 'No pagado',
+  'audit.winners': 'Ganadores: {numbers}',
+  'audit.previousWinners': 'Ganadores anteriores: {numbers}',
+  'audit.reason': 'motivo: {reason}',
+  'audit.proofOf': 'Comprobante de {name}: {numbers}',
+  'audit.fromBackup': 'copia {name}',
+  'audit.fromProof': 'comprobante',
+  'audit.order': 'pedido {order}',
+  'audit.orderRefund': 'pedido {order}, reembolso {refund}',
+  'audit.titleNumber': 'Historial del número {n}',
+  'audit.title': 'Historial de cambios',
+  'audit.search': 'Número, persona o correo',
+  'audit.searchPlaceholder': 'Escribe un número para ver su historial',
+  'audit.action': 'Acción',
+  'audit.allActions': 'Todas',
+  'audit.when': 'Cuándo',
+  'audit.who': 'Quién',
+  'audit.change': 'Cambio',
+  'audit.empty': 'No se encontraron eventos',
+  'status.draft': 'Borrador',
+  'status.open': 'Ventas abiertas',
+  'status.closed': 'Ventas cerradas',
+  'status.drawn': 'Sorteada',
+  'status.archived': 'Archivada',
+  'statusAction.draft': 'Volver a borrador',
+  'statusAction.open': 'Abrir ventas',
+  'statusAction.closed': 'Cerrar ventas',
+  'statusAction.drawn': 'Desarchivar',
+  'statusAction.archived': 'Archivar',
+  'orderStatus.open': 'Esperando pago',
+  'orderStatus.partial': 'Pagado en parte',
+  'orderStatus.paid': 'Pagado',
+  'orderStatus.released': 'Liberado',
+  'orderStatus.cancelled': 'Cancelado',
+  'staff.authInvalid': 'Correo o contraseña incorrectos',
+  'staff.authEmailInUse': 'Este correo ya tiene una cuenta',
+  'staff.authWeakPassword': 'La contraseña necesita al menos 6 caracteres',
+  'staff.authInvalidEmail': 'Correo inválido',
+  'staff.missingRole':
+    'Conectado como {user}, pero tu cuenta no tiene el permiso {role}. Pide a un admin de datos que te dé acceso.',
+  'staff.logout': 'Salir',
+  'staff.email': 'Correo',
+  'staff.password': 'Contraseña',
+  'staff.login': 'Entrar',
+  'staff.firstAccess': '¿Primer acceso? {signup} y pide el permiso a un admin de datos.',
+  'staff.signup': 'Crear cuenta',
+  'staff.home': 'Página de inicio',
+  'staff.number': 'Número',
+  'staff.name': 'Nombre',
+  'staff.saving': 'Guardando...',
+  'raffles.brand': 'Rifas',
+  'raffles.newTitle': 'Nueva rifa',
+  'raffles.name': 'Nombre de la rifa',
+  'raffles.id': 'Identificador (enlace)',
+  'raffles.idPlaceholder': 'mi-rifa',
+  'raffles.idHint': 'Usa letras, números y guiones',
+  'raffles.total': 'Cantidad de números del sorteo',
+  'raffles.drawDate': 'Fecha del sorteo',
+  'raffles.create': 'Crear rifa',
+  'raffles.importLegacy': 'Importar rifa antigua',
+  'raffles.importLegacyHint': 'Copia app/config, entries y las copias antiguas',
+  'raffles.list': 'Rifas registradas',
+  'raffles.empty': 'Ninguna rifa registrada',
+  'raffles.staff': 'Equipo y permisos',
+  'raffles.roleFor': '{role} para {user}',
+  'raffles.noStaff': 'Nadie ha creado una cuenta todavía',
+  'raffles.nameRequired': 'Indica el nombre de la rifa',
+  'raffles.idInvalid': 'Indica un identificador válido para la rifa',
+  'raffles.exists': 'Ya existe una rifa con el identificador {id}.',
+  'raffles.legacyMissing': 'No hay rifa antigua (app/config) para importar',
+  'raffles.legacyReading': 'Leyendo entries...',
+  'raffles.legacyEntries': 'Copiando entries {done}/{total}...',
+  'raffles.legacyBackup': 'Copiando copia {name}...',
+  'sheet.issueRange': 'Línea {line}: número "{value}" fuera de 1 a {total}',
+  'sheet.issueName': 'Línea {line}: número {n} sin nombre',
+  'sheet.issuePaid': 'Línea {line}: pago "{value}" no reconocido (usa sí o no)',
+  'sheet.issuePaidAdmin': 'Línea {line}: solo un admin puede importar el número {n} como pagado',
+  'sheet.issueDate': 'Línea {line}: fecha "{value}" inválida',
+  'sheet.issueRepeated': 'Línea {line}: número {n} repetido (ya está en la línea {prev})',
+  'sheet.sheetName': 'Reservas',
+  'sheet.empty': 'Planilla vacía',
+  'sheet.checking': 'Revisando las reservas actuales...',
+  'sheet.importingChunk': 'Importando {done}/{total}...',
+  'sheet.imported':
+    'Importados {imported}. Iguales: {same}. Conflictos omitidos: {skipped}. Líneas con error: {issues}.',
+  'sheet.importedLate': 'Reservados por otra persona durante la importación: {numbers}.',
+  'sheet.title': 'Planilla de reservas',
+  'sheet.hint': 'CSV o XLSX con Número, Nome, Pago y Reservado em',
+  'sheet.exportCsv': 'Exportar CSV',
+  'sheet.exportXlsx': 'Exportar XLSX',
+  'sheet.import': 'Importar planilla',
+  'sheet.planSummary': 'Nuevos: {fresh} · Iguales a los actuales: {same} · Conflictos: {conflicts} · Errores: {issues}',
+  'sheet.conflicts': 'Ya reservados con otro nombre o pago',
+  'sheet.conflictLine': 'planilla: {incoming} · actual: {live}',
+  'sheet.overwrite': 'Sobrescribir conflictos con la planilla',
+  'sheet.overwriteAdminOnly': 'Sobrescribir conflictos con la planilla (solo admin)',
+  'sheet.skippedLines': 'Líneas omitidas',
+  'sheet.importing': 'Importando...',
+  'sheet.importCount': { one: 'Importar {count} reserva', other: 'Importar {count} reservas' },
+  'trash.restored': 'Restaurados: {count}.',
+  'trash.skipped': 'No restaurados (reservados de nuevo): {numbers}.',
+  'trash.title': 'Papelera',
+  'trash.retention': { one: 'se borran del todo tras {count} día', other: 'se borran del todo tras {count} días' },
+  'trash.deletedAt': 'Eliminado el',
+  'trash.deletedBy': 'Por',
+  'trash.restore': 'Restaurar',
+  'trash.taken': 'Reservado de nuevo',
+  'trash.empty': 'Papelera vacía',
+  'trash.restoring': 'Restaurando...',
+  'orders.refundInvalid': 'Elige los números devueltos y un monto de reembolso válido',
+  'orders.refundTooHigh': 'El reembolso supera lo que aún se puede devolver en este pedido ({amount})',
+  'orders.title': 'Pedidos',
+  'orders.search': 'Buscar por pedido, nombre o número',
+  'orders.order': 'Pedido',
+  'orders.numbers': 'Números',
+  'orders.amount': 'Monto',
+  'orders.status': 'Estado',
+  'orders.actions': 'Acciones',
+  'orders.refunded': 'Reembolsado {amount}',
+  'orders.pay': 'Pagar',
+  'orders.refund': 'Reembolsar',
+  'orders.empty': 'No se encontraron pedidos',
+  'orders.cancelTitle': 'Cancelar pedido',
+  'orders.refundTitle': 'Reembolso parcial',
+  'orders.cancelHint': 'Los números {numbers} van a la papelera y quedan libres para otras personas.',
+  'orders.refundNumbers': 'Números devueltos',
+  'orders.refundAmount': 'Monto reembolsado',
+  'orders.refundHint':
+    'Sugerencia: lo cobrado menos el precio de los números que se quedan. Los devueltos van a la papelera.',
+  'proofs.nothingPayable':
+    'Ningún número del comprobante de {name} sigue reservado sin pago. Recházalo para sacarlo de la fila.',
+  'proofs.title': 'Comprobantes por revisar',
+  'proofs.sentAt': 'Enviado el',
+  'proofs.file': 'Archivo',
+  'proofs.gone': 'Ya pagados o liberados: {numbers}',
+  'proofs.openPdf': 'Abrir PDF',
+  'proofs.openImage': 'Ver imagen',
+  'proofs.approve': 'Aprobar',
+  'proofs.reject': 'Rechazar',
+  'proofs.empty': 'Ningún comprobante esperando revisión',
+  'sale.buyerName': 'Nombre del comprador',
+  'sale.contact': 'Celular o correo (opcional)',
+  'sale.contactPlaceholder': '(11) 98765-4321 o correo@ejemplo.com',
+  'sale.paid': 'Ya pagado',
+  'sale.available': 'Números disponibles',
+  'sale.confirmPaid': 'Registrar venta',
+  'sale.confirmReserve': 'Reservar',
+  'admin.frozen': 'El compromiso del sorteo ya está publicado: reservas y pagos quedan bloqueados hasta el sorteo',
+  'admin.notReserved': 'El número {n} ya no está reservado',
+  'admin.deletedOne': 'Número {n} eliminado',
+  'admin.undoSkipped': 'No se pudo deshacer {numbers}: reservado de nuevo.',
+  'admin.reopenAfterClose':
+    'La hora de cierre de ventas ya pasó. Ajusta la fecha o la hora del sorteo antes de reabrir.',
+  'admin.draftWithReservations': 'Solo se puede volver a borrador mientras no haya reservas',
+  'admin.configLocked': 'Después del sorteo la configuración queda bloqueada. Reabre la rifa para cambiarla.',
+  'admin.nameDisplayFrozen':
+    'Con el compromiso publicado no se pueden reescribir los nombres de las reservas. Cambia la visualización después del sorteo.',
+  'admin.totalBelowReserved': 'No se puede reducir a {total} porque el número {max} ya está reservado.',
+  'admin.priceInvalid': 'Precio por número inválido',
+  'admin.currencyInvalid': 'Moneda inválida (usa el código de 3 letras, ej.: BRL)',
+  'admin.packagesInvalid':
+    'Revisa los paquetes: cada uno necesita cantidad (2 o más) y precio, sin cantidades repetidas',
+  'admin.timeZoneInvalid': 'Zona horaria inválida (ej.: America/Sao_Paulo)',
+  'admin.drawTimeInvalid': 'Hora del sorteo inválida',
+  'admin.autoDrawNeedsTime': 'Para el sorteo automático, indica fecha y hora del sorteo',
+  'admin.autoDrawCutoff': 'Con sorteo automático, cierra las ventas al menos {minutes} minutos antes del sorteo',
+  'admin.commitExists': 'El compromiso ya está publicado. Reinicia el sorteo para generar otro.',
+  'admin.commitNeedsClosed': 'Cierra las ventas antes de publicar el compromiso',
+  'admin.drawWrongStatus': 'No se puede sortear con la rifa en "{status}"',
+  'admin.drawNoPaid': 'No hay números pagados para sortear',
+  'admin.drawTooFew': {
+    one: 'No hay participantes pagados suficientes para {count} premio',
+    other: 'No hay participantes pagados suficientes para {count} premios'
+  },
+  'admin.drawNeedsCommit': 'Publica el compromiso (hash de la semilla) antes de sortear',
+  'admin.seedMissing': 'Semilla del sorteo no encontrada',
+  'admin.seedMismatch': 'La semilla guardada no coincide con el compromiso publicado',
+  'admin.alreadyDrawn': 'El resultado ya lo publicó otra persona o el sorteo programado',
+  'admin.commitChanged': 'El compromiso cambió durante el sorteo. Revísalo y sortea de nuevo',
+  'admin.reopenNeedsReason': 'Indica el motivo para reabrir la rifa',
+  'admin.deletedMany': { one: '{count} número eliminado', other: '{count} números eliminados' },
+  'admin.brand': 'Rifa',
+  'admin.title': 'Admin',
+  'admin.rafflePage': 'Página de la rifa',
+  'admin.statusTitle': 'Estado de la rifa',
+  'admin.configTitle': 'Configuración del resultado',
+  'admin.totalNumbers': 'Cantidad de números para el sorteo',
+  'admin.maxReserved': 'Mayor número reservado hoy: {n}',
+  'admin.noReservations': 'Todavía no hay reservas',
+  'admin.drawDate': 'Fecha del sorteo',
+  'admin.drawTimeZone': 'Hora y zona horaria del sorteo',
+  'admin.drawAtLocal': 'Sorteo el {when} (tu hora)',
+  'admin.noSchedule': 'Sin hora, no se programa nada',
+  'admin.cutoff': 'Cerrar ventas (minutos antes del sorteo)',
+  'admin.cutoffMin': 'Mínimo {minutes}',
+  'admin.cutoffNone': 'A la hora del sorteo',
+  'admin.autoDraw': 'Sortear automáticamente a la hora',
+  'admin.salesCloseAt': 'Las ventas cierran el {when}',
+  'admin.autoDrawError': 'Sorteo automático: {error}',
+  'admin.result': 'Resultado',
+  'admin.commitment': 'Compromiso (hash de la semilla)',
+  'admin.seedRevealed': 'Semilla revelada tras el sorteo',
+  'admin.committedAt': 'Publicado el {when}',
+  'admin.commitBeforeDraw': 'Publícalo antes de la fecha del sorteo',
+  'admin.textsTitle': 'Textos y precio',
+  'admin.headline': 'Título de la página',
+  'admin.headlinePlaceholder': '¡Tenemos una rifa increíble!',
+  'admin.description': 'Descripción',
+  'admin.descriptionPlaceholder': 'Qué se está rifando',
+  'admin.price': 'Precio por número',
+  'admin.holdHours': 'Plazo para pagar (horas)',
+  'admin.holdNone': 'Sin plazo',
+  'admin.autoRelease': 'Liberar las vencidas automáticamente',
+  'admin.trashDays': 'Días en la papelera',
+  'admin.trashDaysHint': 'Las reservas eliminadas se pueden restaurar hasta que se borren del todo',
+  'admin.board': 'Tablero de números',
+  'admin.boardShowNames': 'Mostrar nombres en el tablero público',
+  'admin.nameDisplay': 'Nombres en la página pública',
+  'admin.nameDisplayHint': 'Vale para la lista, el tablero y el ganador. El equipo con sesión ve el nombre completo.',
+  'admin.locale': 'Idioma de la página pública',
+  'admin.localeAuto': 'Automático (idioma del navegador)',
+  'admin.localeHint': 'Idioma y formato de fechas y valores. Quien visita puede cambiarlo en el selector de arriba.',
+  'admin.currency': 'Moneda',
+  'admin.package': 'Paquete',
+  'admin.quantity': 'Cantidad',
+  'admin.packagePrice': 'Precio',
+  'admin.removePackage': 'Quitar paquete',
+  'admin.addPackage': 'Agregar paquete',
+  'admin.packagesHint': 'Ej.: 3 números por 5,00. El valor se calcula con la combinación más barata.',
+  'admin.prizes': 'Premios',
+  'admin.prizeTitle': 'Título',
+  'admin.prizeImage': 'URL de la imagen',
+  'admin.moveUp': 'Subir',
+  'admin.moveDown': 'Bajar',
+  'admin.removePrize': 'Quitar premio',
+  'admin.noPrizes': 'Sin premios cargados: el sorteo elige un único ganador.',
+  'admin.addPrize': 'Agregar premio',
+  'admin.allowRepeat': 'La misma persona puede ganar más de un premio',
+  'admin.adminOnly': 'Solo un admin puede cambiar la configuración y sortear.',
+  'admin.lockedHint': 'Rifa sorteada: la configuración queda bloqueada hasta reabrirla.',
+  'admin.reopen': 'Reabrir rifa',
+  'admin.resetDraw': 'Reiniciar sorteo',
+  'admin.publishCommit': 'Publicar compromiso',
+  'admin.draw': 'Sortear',
+  'admin.openScreen': 'Abrir pantalla',
+  'admin.drawLiveHint': 'Gira la pantalla unos segundos en todas las pantallas y luego revela el resultado',
+  'admin.drawLive': 'Sortear en vivo',
+  'admin.save': 'Guardar',
+  'admin.listTitle': 'Reservas realizadas',
+  'admin.expiring': { one: '{count} por vencer', other: '{count} por vencer' },
+  'admin.revenue': 'Recaudado: {received} | Por cobrar: {toReceive}',
+  'admin.releaseExpired': 'Liberar vencidas',
+  'admin.releaseExpiredCount': 'Liberar vencidas ({count})',
+  'admin.manualSale': 'Venta manual',
+  'admin.search': 'Buscar por número, nombre o contacto',
+  'admin.reservedAt': 'Reservado el',
+  'admin.payment': 'Pago',
+  'admin.delete': 'Eliminar',
+  'admin.togglePaid': 'Alternar pagado',
+  'admin.paid': 'Pagado',
+  'admin.unpaid': 'No pagado',
+  'admin.deleteReservation': 'Eliminar reserva',
+  'admin.empty': 'No se encontraron reservas',
+  'admin.undoing': 'Deshaciendo...',
+  'admin.undo': 'Deshacer',
+  'admin.releaseTitle': 'Liberar reservas vencidas',
+  'admin.releaseHint':
+    'Las reservas sin pagar hace más de {hours}h vuelven a quedar disponibles. Quien pague mientras tanto no se ve afectado.',
+  'admin.release': 'Liberar',
+  'admin.reopenTitle': 'Reabrir rifa sorteada',
+  'admin.publishedWinners': 'Ganadores publicados',
+  'admin.reopenHint':
+    'El resultado, la semilla y el compromiso se borran y la rifa vuelve a "{status}". Quien ya vio el resultado notará el cambio; el motivo queda en el historial.',
+  'admin.reason': 'Motivo',
+  'admin.reasonPlaceholder': 'Ej.: pago confirmado después del sorteo',
+  'admin.reopenConfirm': 'Reabrir',
+  'admin.deleteTitle': 'Confirmar eliminación',
+  'admin.deleteHint': 'La reserva va a la papelera y se puede restaurar mientras el número esté libre.',
+  'multi.title': 'Pagar varios',
+  'multi.open': 'Acción sobre varios',
+  'multi.search': 'Buscar nombre',
+  'multi.pickName': 'Elige un nombre',
+  'multi.pickNumbers': 'Elige los números que quieres marcar.',
+  'multi.selectAll': 'Seleccionar todos',
+  'multi.totals': 'Total: {total} | Seleccionados: {selected}',
+  'multi.unselect': 'Quitar',
+  'multi.select': 'Seleccionar',
+  'multi.action': 'Acción',
+  'multi.markPaid': 'Marcar como pagado',
+  'multi.markUnpaid': 'Marcar como no pagado',
+  'multi.confirmDelete': 'Confirma para eliminar las reservas seleccionadas.',
+  'multi.confirmStatus': 'Confirma para aplicar el estado a todos.',
+  'multi.markPaidHint': 'Marcar como pagado',
+  'multi.markUnpaidHint': 'Marcar como no pagado',
+  'multi.deleteHint': 'Eliminar reservas',
+  'data.kindAdded': 'Vuelve del backup',
+  'data.kindRemoved': 'Sale (no existe en el backup)',
+  'data.kindChanged': 'Nombre/pago cambiado',
+  'data.entry': '{name} ({paid})',
+  'data.writing': 'Guardando {done}/{total}...',
+  'data.reading': 'Leyendo entries...',
+  'data.nothingToBackup': 'No hay nada en entries para respaldar',
+  'data.loadingBackup': 'Cargando backup...',
+  'data.comparing': 'Comparando con entries...',
+  'data.safetyBackup': 'Generando backup automático...',
+  'data.safetyReason': 'antes de restaurar {backup}',
+  'data.restoring': 'Restaurando {done}/{total}...',
+  'data.checking': 'Verificando el resultado...',
+  'data.restoredWithBackup': 'Restaurado. Backup automático: {backup}',
+  'data.restored': 'Restaurado.',
+  'data.title': 'Admin de datos',
+  'data.backupsTitle': 'Backups de entries',
+  'data.backupNow': 'Generar backup ahora',
+  'data.backups': 'Backups',
+  'data.searchBackup': 'Buscar backup',
+  'data.docCount': 'docs: {count}',
+  'data.noBackups': 'Todavía no hay backups',
+  'data.contents': 'Contenido del backup',
+  'data.backup': 'Backup',
+  'data.contentsHint': 'Esto es una copia de la colección entries en el momento del backup.',
+  'data.searchEntries': 'Buscar por número o nombre',
+  'data.items': 'Ítems',
+  'data.noItems': 'No hay ítems para mostrar',
+  'data.restore': 'Restaurar',
+  'data.compare': 'Comparar con las entries actuales',
+  'data.diffTotals': 'Diferencias: {total} | Seleccionadas: {selected}',
+  'data.change': 'Cambio',
+  'data.current': 'Actual',
+  'data.noDiff': 'Las entries actuales ya coinciden con el backup',
+  'data.restoreSelected': 'Restaurar seleccionados',
+  'data.restoreAll': 'Restaurar todo',
+  'data.compareFirst': 'Compara para ver qué cambia antes de restaurar',
+  'data.pickBackup': 'Elige un backup para ver',
+  'data.confirmTitle': 'Confirmar restauración',
+  'data.confirmHint': 'Antes de sobrescribir, se genera un backup automático de las entries actuales.'
+}
+
+const CATALOGS: Record<Locale, Messages> = { 'pt-BR': ptBR, en, es }
+
+export function normalizeLocale(v: unknown): Locale | null {
+  const s = String(v || '').trim().toLowerCase()
+  if (!s) return null
+  if (s === 'pt' || s.startsWith('pt-')) return 'pt-BR'
+  if (s === 'en' || s.startsWith('en-')) return 'en'
+  if (s === 'es' || s.startsWith('es-')) return 'es'
+  return null
+}
+
+export function browserLocale(): Locale {
+  try {
+    for (const l of navigator.languages || [navigator.language]) {
+      const found = normalizeLocale(l)
+      if (found) return found
+    }
+  } catch {
+    // Sem navigator (testes/SSR): cai no padrão.
+  }
+  return DEFAULT_LOCALE
+}
+
+export function fillMessage(template: string, vars?: MessageVars) {
+  if (!vars) return template
+  return template.replace(/\{(\w+)\}/g, (m, k: string) => (k in vars ? String(vars[k]) : m))
+}
+
+export type I18n = {
+  locale: Locale
+  // Texto já preenchido; "count" em vars escolhe a forma do plural.
+  t: (key: MessageKey, vars?: MessageVars) => string
+  // Modelo cru (com {placeholders}), para quando os valores são elementos e não texto.
+  template: (key: MessageKey, count?: number) => string
+  money: (v: number, currency: string) => string
+  when: (v: unknown) => string
+  date: (iso: string) => string
+}
+
+const translators: Partial<Record<Locale, I18n>> = {}
+
+export function createI18n(locale: Locale): I18n {
+  const cached = translators[locale]
+  if (cached) return cached
+
+  const catalog = CATALOGS[locale]
+  const plurals = new Intl.PluralRules(locale)
+  const moneyFormatters: Record<string, Intl.NumberFormat> = {}
+
+  function template(key: MessageKey, count?: number) {
+    const msg = catalog[key] ?? ptBR[key]
+    if (typeof msg === 'string') return msg
+    const form = plurals.select(Number(count) || 0) as keyof Plural
+    return msg[form] ?? msg.other
+  }
+
+  function money(v: number, currency: string) {
+    if (!moneyFormatters[currency]) {
+      moneyFormatters[currency] = new Intl.NumberFormat(locale, { style: 'currency', currency })
+    }
+    return moneyFormatters[currency].format(v)
+  }
+
+  function when(v: unknown) {
+    try {
+      if (!v) return ''
+      if (typeof v === 'object' && 'toDate' in v && typeof v.toDate === 'function') {
+        return (v.toDate() as Date).toLocaleString(locale)
+      }
+      const d = v instanceof Date || typeof v === 'number' ? new Date(v) : new Date(String(v))
+      if (!Number.isNaN(d.getTime())) return d.toLocaleString(locale)
+      return String(v)
+    } catch {
+      return ''
+    }
+  }
+
+  function date(iso: string) {
+    try {
+      if (!iso) return ''
+      const d = new Date(iso + 'T00:00:00')
+      if (Number.isNaN(d.getTime())) return iso
+      return d.toLocaleDateString(locale)
+    } catch {
+      return iso
+    }
+  }
+
+  const i18n: I18n = {
+    locale,
+    t: (key, vars) => fillMessage(template(key, typeof vars?.count === 'number' ? vars.count : undefined), vars),
+    template,
+    money,
+    when,
+    date
+  }
+
+  translators[locale] = i18n
+  return i18n
+}
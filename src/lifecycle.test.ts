@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import {
+  RAFFLE_STATUSES,
+  acceptsReservations,
+  acceptsStaffSales,
+  canCommitDraw,
+  canDraw,
+  canTransition,
+  configLocked,
+  entriesFrozen,
+  raffleStatusOf
+} from './lifecycle'
+
+describe('canTransition', () => {
+  it('allows only the panel transitions', () => {
+    const allowed = RAFFLE_STATUSES.flatMap((from) =>
+      RAFFLE_STATUSES.filter((to) => canTransition(from, to)).map((to) => `${from}→${to}`)
+    )
+    expect(allowed).toEqual(['draft→open', 'open→draft', 'open→closed', 'closed→open', 'drawn→closed', 'drawn→archived', 'archived→drawn'])
+  })
+
+  it('never reaches drawn from the panel', () => {
+    expect(canTransition('open', 'drawn')).toBe(false)
+    expect(canTransition('closed', 'drawn')).toBe(false)
+  })
+})
+
+describe('raffleStatusOf', () => {
+  const now = Date.UTC(2025, 11, 20, 20)
+
+  it('deduces the status of raffles saved before the field existed', () => {
+    expect(raffleStatusOf({}, now)).toBe('open')
+    expect(raffleStatusOf({ winners: [4] }, now)).toBe('drawn')
+    expect(raffleStatusOf({ resultNumber: 7 }, now)).toBe('drawn')
+    expect(raffleStatusOf({ status: 'bogus', winners: [] }, now)).toBe('open')
+  })
+
+  it('counts an open raffle past its cutoff as closed', () => {
+    expect(raffleStatusOf({ status: 'open', salesCloseAt: new Date(now) }, now)).toBe('closed')
+    expect(raffleStatusOf({ status: 'open', salesCloseAt: { toMillis: () => now + 1 } }, now)).toBe('open')
+    expect(raffleStatusOf({ status: 'draft', salesCloseAt: new Date(now - 1) }, now)).toBe('draft')
+  })
+})
+
+describe('status gates', () => {
+  it('splits public sales, staff sales, the commitment and the draw', () => {
+    expect(RAFFLE_STATUSES.filter(acceptsReservations)).toEqual(['open'])
+    expect(RAFFLE_STATUSES.filter(acceptsStaffSales)).toEqual(['open', 'closed'])
+    expect(RAFFLE_STATUSES.filter(canCommitDraw)).toEqual(['closed'])
+    expect(RAFFLE_STATUSES.filter(canDraw)).toEqual(['open', 'closed'])
+    expect(RAFFLE_STATUSES.filter(configLocked)).toEqual(['drawn', 'archived'])
+  })
+
+  it('freezes entries only with a published commitment', () => {
+    expect(entriesFrozen({ drawCommitment: { hash: 'abc' } })).toBe(true)
+    expect(entriesFrozen({ drawCommitment: null })).toBe(false)
+  })
+})
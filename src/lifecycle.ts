@@ -0,0 +1,78 @@
+export type RaffleStatus = 'draft' | 'open' | 'closed' | 'drawn' | 'archived'
+
+export const RAFFLE_STATUSES: RaffleStatus[] = ['draft', 'open', 'closed', 'drawn', 'archived']
+
+// Transições feitas pelo painel. open/closed → drawn só acontece pelo sorteio (manual ou agendado),
+// e drawn → closed é a reabertura, que exige motivo e apaga o resultado.
+export const STATUS_TRANSITIONS: Record<RaffleStatus, RaffleStatus[]> = {
+  draft: ['open'],
+  open: ['closed', 'draft'],
+  closed: ['open'],
+  drawn: ['archived', 'closed'],
+  archived: ['drawn']
+}
+
+export type LifecycleConfig = {
+  status?: string | null
+  resultNumber?: number | null
+  winners?: number[] | null
+  salesCloseAt?: unknown
+  drawCommitment?: { hash?: unknown } | null
+}
+
+function toMs(v: unknown) {
+  if (!v) return 0
+  if (typeof v === 'object' && 'toMillis' in v && typeof v.toMillis === 'function') return Number(v.toMillis())
+  if (typeof v !== 'string' && typeof v !== 'number' && !(v instanceof Date)) return 0
+  const t = new Date(v).getTime()
+  return Number.isFinite(t) ? t : 0
+}
+
+function isRaffleStatus(v: unknown): v is RaffleStatus {
+  return typeof v === 'string' && (RAFFLE_STATUSES as string[]).includes(v)
+}
+
+export function normalizeStatus(v: unknown): RaffleStatus | null {
+  return isRaffleStatus(v) ? v : null
+}
+
+// Rifas antigas não têm status: vale o que dá para deduzir do resultado.
+// "open" com o horário de corte vencido já conta como fechada, mesmo antes de alguém mudar o campo.
+export function raffleStatusOf(cfg: LifecycleConfig, now: number): RaffleStatus {
+  const drawn = (Array.isArray(cfg.winners) && cfg.winners.length > 0) || !!Number(cfg.resultNumber || 0)
+  const status = normalizeStatus(cfg.status) || (drawn ? 'drawn' : 'open')
+  if (status !== 'open') return status
+  const closeAt = toMs(cfg.salesCloseAt)
+  return closeAt && now >= closeAt ? 'closed' : 'open'
+}
+
+export function canTransition(from: RaffleStatus, to: RaffleStatus) {
+  return STATUS_TRANSITIONS[from].includes(to)
+}
+
+export function acceptsReservations(status: RaffleStatus) {
+  return status === 'open'
+}
+
+// Venda manual da equipe continua depois do corte, até o sorteio.
+export function acceptsStaffSales(status: RaffleStatus) {
+  return status === 'open' || status === 'closed'
+}
+
+// Com o compromisso publicado, reservas e pagamentos ficam congelados até o sorteio (ou até resetar o sorteio).
+export function entriesFrozen(cfg: LifecycleConfig) {
+  return !!cfg.drawCommitment?.hash
+}
+
+// O compromisso só sai com as vendas encerradas: assim a lista de pagos que ele trava já é a definitiva.
+export function canCommitDraw(status: RaffleStatus) {
+  return status === 'closed'
+}
+
+export function canDraw(status: RaffleStatus) {
+  return status === 'open' || status === 'closed'
+}
+
+export function configLocked(status: RaffleStatus) {
+  return status === 'drawn' || status === 'archived'
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import { createMemoryRepository } from './memoryRepository'
+import type { BackupInfo, CollectionQuery, EntryChange, StoredDoc } from './repository'
+
+const actor = { kind: 'buyer' }
+
+function audit(numbers: number[]) {
+  return { actor, action: 'reserve', numbers, before: null, after: null }
+}
+
+describe('memory repository transactions', () => {
+  it('reserves numbers and notifies the entries listener', async () => {
+    const repo = createMemoryRepository({ demo: { raffleName: 'Demo', totalNumbers: 10 } })
+    const seen: EntryChange[][] = []
+    repo.watchEntries('demo', (changes) => seen.push(changes), () => {})
+
+    const orderId = await repo.transact('demo', async (tx) => {
+      if (await tx.get('entries/3')) throw new Error('RESERVED:3')
+      tx.set('entries/3', { name: 'Ana', paid: false, reservedAt: tx.now() })
+      tx.set('orders/A1', { numbers: [3] })
+      tx.audit(audit([3]))
+      return 'A1'
+    })
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    expect(orderId).toBe('A1')
+    expect((await repo.listEntries('demo')).map((d) => d.id)).toEqual(['3'])
+    expect(seen.at(-1)?.map((c) => [c.type, c.id])).toEqual([['added', '3']])
+    expect(await repo.transact('demo', (tx) => tx.get('orders/A1'))).toEqual({ numbers: [3] })
+  })
+
+  it('runs one transaction at a time so a number is claimed once', async () => {
+    const repo = createMemoryRepository({ demo: { totalNumbers: 10 } })
+    const claim = (name: string) =>
+      repo.transact('demo', async (tx) => {
+        if (await tx.get('entries/5')) throw new Error('RESERVED:5')
+        tx.set('entries/5', { name, paid: false })
+      })
+
+    const results = await Promise.allSettled([claim('Ana'), claim('Bruno')])
+    expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected'])
+    expect((await repo.listEntries('demo'))[0].data.name).toBe('Ana')
+  })
+
+  it('writes nothing when an update targets a missing document', async () => {
+    const repo = createMemoryRepository({ demo: { totalNumbers: 10 } })
+    await expect(
+      repo.transact('demo', async (tx) => {
+        tx.set('entries/1', { name: 'Ana', paid: false })
+        tx.update('entries/2', { paid: true })
+      })
+    ).rejects.toThrow('NOT_FOUND')
+    expect(await repo.listEntries('demo')).toEqual([])
+  })
+
+  it('merges nested maps into the raffle document', async () => {
+    const repo = createMemoryRepository({ demo: { totalNumbers: 10, draw: { hash: 'h', seed: 's' } } })
+    await repo.transact('demo', async (tx) => {
+      tx.set('', { draw: { seed: 't' }, status: 'drawn' }, { merge: true })
+    })
+    const cfg = await repo.transact('demo', (tx) => tx.get(''))
+    expect(cfg).toEqual({ totalNumbers: 10, draw: { hash: 'h', seed: 't' }, status: 'drawn' })
+  })
+})
+
+describe('memory repository backups', () => {
+  it('keeps the original date of an imported backup', async () => {
+    const repo = createMemoryRepository({ demo: { totalNumbers: 10 } })
+    const createdAt = new Date('2024-05-01T12:00:00Z')
+    let seen: BackupInfo[] = []
+    repo.watchBackups('demo', (list) => (seen = list), () => {})
+
+    await repo.createBackup('demo', 'entries-20240501-120000', [{ id: '3', data: { name: 'Ana' } }], { createdAt })
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    expect(seen[0]).toMatchObject({ name: 'entries-20240501-120000', createdAt, docCount: 1 })
+    expect(await repo.listBackupEntries('demo', 'entries-20240501-120000')).toEqual([{ id: '3', data: { name: 'Ana' } }])
+  })
+})
+
+describe('memory repository collections', () => {
+  it('filters, sorts and limits a collection and follows later writes', async () => {
+    const repo = createMemoryRepository({ demo: { totalNumbers: 10 } })
+    let seen: StoredDoc[] = []
+    const q: CollectionQuery = { where: ['status', '==', 'pending'], orderBy: ['size', 'desc'], limit: 2 }
+    repo.watchCollection('demo', 'proofs', q, (list) => (seen = list), () => {})
+
+    await repo.transact('demo', async (tx) => {
+      tx.set('proofs/a', { status: 'pending', size: 1 })
+      tx.set('proofs/b', { status: 'approved', size: 9 })
+      tx.set('proofs/c', { status: 'pending', size: 5 })
+      tx.set('proofs/d', { status: 'pending', size: 3 })
+    })
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    expect(seen.map((d) => d.id)).toEqual(['c', 'd'])
+  })
+
+  it('keeps the audit trail readable like any other collection', async () => {
+    const repo = createMemoryRepository({ demo: { totalNumbers: 10 } })
+    await repo.transact('demo', async (tx) => {
+      tx.set('entries/4', { name: 'Ana', paid: false })
+      tx.audit(audit([4]))
+    })
+    await repo.writeEntries('demo', [{ id: '5', data: { name: 'Bia', paid: false } }], audit([5]))
+
+    const events = await repo.listCollection('demo', 'audit', { where: ['numbers', 'array-contains', 5] })
+    expect(events.map((d) => d.data.numbers)).toEqual([[5]])
+  })
+
+  it('gives the first account the bootstrap roles and the next ones none', async () => {
+    const repo = createMemoryRepository({}, { firstUserRoles: ['data-admin'] })
+    await repo.createUser('u1', 'ana@rifa.test')
+    await repo.createUser('u2', 'bia@rifa.test')
+
+    const users = await new Promise<StoredDoc[]>((resolve) => repo.watchUsers(resolve, () => {}))
+    expect(users.map((d) => [d.id, d.data.roles])).toEqual([
+      ['u1', ['data-admin']],
+      ['u2', []]
+    ])
+  })
+})
@@ -0,0 +1,451 @@
+import type {
+  AuditRecord,
+  BackupInfo,
+  CollectionQuery,
+  DocData,
+  EntryChange,
+  RaffleRepository,
+  RaffleTransaction,
+  StoredDoc
+} from './repository'
+
+type RaffleStore = {
+  config: DocData | null
+  entries: Map<string, DocData>
+  // Demais documentos da rifa (orders/X, trash/Y, audit/Z, private/draw...), pelo caminho relativo.
+  docs: Map<string, DocData>
+  backups: Map<string, { info: BackupInfo; docs: StoredDoc[] }>
+}
+
+type Listener<T> = { next: T }
+
+export type MemoryRepositoryOptions = {
+  // Papéis da primeira conta criada: sem Firestore não há console para promover o primeiro data-admin.
+  firstUserRoles?: string[]
+}
+
+type StagedWrite =
+  | { kind: 'set'; path: string; data: DocData; merge: boolean }
+  | { kind: 'update'; path: string; data: DocData }
+  | { kind: 'delete'; path: string }
+
+function isPlainObject(v: unknown): v is DocData {
+  return !!v && typeof v === 'object' && Object.getPrototypeOf(v) === Object.prototype
+}
+
+// Copia objetos simples e listas; Date, Timestamp e afins passam como estão, sem perder os métodos.
+function clone<T>(v: T): T {
+  if (Array.isArray(v)) return v.map(clone) as T
+  if (isPlainObject(v)) return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, clone(x)])) as T
+  return v
+}
+
+// set com merge do Firestore: mapas aninhados se juntam, o resto é substituído.
+function mergeDeep(prev: DocData, patch: DocData): DocData {
+  const out = { ...prev }
+  for (const [k, v] of Object.entries(patch)) {
+    const old = out[k]
+    out[k] = isPlainObject(old) && isPlainObject(v) ? mergeDeep(old, v) : clone(v)
+  }
+  return out
+}
+
+function millis(v: unknown) {
+  if (!v) return 0
+  if (v instanceof Date) return v.getTime()
+  if (typeof v === 'object' && 'toMillis' in v && typeof v.toMillis === 'function') return Number(v.toMillis())
+  if (typeof v !== 'string' && typeof v !== 'number') return 0
+  const t = new Date(v).getTime()
+  return Number.isFinite(t) ? t : 0
+}
+
+function compareValues(a: unknown, b: unknown) {
+  if (typeof a === 'string' && typeof b === 'string') return a.localeCompare(b)
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  return millis(a) - millis(b)
+}
+
+// 'orders/AB12' → 'orders'; o próprio documento da rifa ('') e caminhos de coleção não têm coleção.
+function collectionOf(path: string) {
+  const parts = path.split('/')
+  return path && parts.length % 2 === 0 ? parts.slice(0, -1).join('/') : null
+}
+
+function applyQuery(list: StoredDoc[], q: CollectionQuery | undefined) {
+  let out = list
+  if (q?.where) {
+    const [field, op, value] = q.where
+    out = out.filter((d) => {
+      const v = d.data[field]
+      return op === '==' ? v === value : Array.isArray(v) && v.includes(value)
+    })
+  }
+  if (q?.orderBy) {
+    const [field, dir] = q.orderBy
+    const sign = dir === 'desc' ? -1 : 1
+    out = out.slice().sort((a, b) => sign * compareValues(a.data[field], b.data[field]))
+  }
+  return q?.limit ? out.slice(0, q.limit) : out
+}
+
+// Guarda tudo em memória, com a mesma ordem de eventos do Firestore (callbacks sempre assíncronos).
+// Serve para demos offline e para testar os hooks sem projeto Firebase.
+export function createMemoryRepository(
+  seed: Record<string, DocData> = {},
+  opts: MemoryRepositoryOptions = {}
+): RaffleRepository {
+  const raffles = new Map<string, RaffleStore>()
+  const users = new Map<string, DocData>()
+  const raffleListeners = new Set<Listener<(list: StoredDoc[]) => void>>()
+  const configListeners = new Map<string, Set<Listener<(data: DocData | null) => void>>>()
+  const entryListeners = new Map<string, Set<Listener<(changes: EntryChange[], reset: boolean) => void>>>()
+  const backupListeners = new Map<string, Set<Listener<(list: BackupInfo[]) => void>>>()
+  const docListeners = new Map<string, Set<Listener<(data: DocData | null) => void> & { path: string }>>()
+  const collectionListeners = new Map<
+    string,
+    Set<Listener<(list: StoredDoc[]) => void> & { col: string; q: CollectionQuery }>
+  >()
+  const userListeners = new Map<string, Set<Listener<(data: DocData | null) => void>>>()
+  const usersListeners = new Set<Listener<(list: StoredDoc[]) => void>>()
+
+  function store(raffleId: string) {
+    let s = raffles.get(raffleId)
+    if (!s) {
+      s = { config: null, entries: new Map(), docs: new Map(), backups: new Map() }
+      raffles.set(raffleId, s)
+    }
+    return s
+  }
+
+  for (const [id, cfg] of Object.entries(seed)) store(id).config = clone(cfg)
+
+  function listenersOf<T>(map: Map<string, Set<T>>, raffleId: string) {
+    let set = map.get(raffleId)
+    if (!set) {
+      set = new Set()
+      map.set(raffleId, set)
+    }
+    return set
+  }
+
+  function subscribe<T>(set: Set<T>, l: T) {
+    set.add(l)
+    return () => {
+      set.delete(l)
+    }
+  }
+
+  function later(fn: () => void) {
+    queueMicrotask(fn)
+  }
+
+  function raffleList(): StoredDoc[] {
+    return Array.from(raffles.entries())
+      .filter(([, s]) => s.config)
+      .map(([id, s]) => ({ id, data: clone(s.config as DocData) }))
+      .sort((a, b) => millis(b.data.createdAt) - millis(a.data.createdAt))
+  }
+
+  function backupList(raffleId: string) {
+    return Array.from(store(raffleId).backups.values())
+      .map((b) => clone(b.info))
+      .sort((a, b) => millis(b.createdAt) - millis(a.createdAt))
+  }
+
+  function emitConfig(raffleId: string) {
+    const data = store(raffleId).config
+    for (const l of listenersOf(configListeners, raffleId)) later(() => l.next(data ? clone(data) : null))
+    const list = raffleList()
+    for (const l of raffleListeners) later(() => l.next(list))
+  }
+
+  function emitEntries(raffleId: string, changes: EntryChange[]) {
+    if (!changes.length) return
+    for (const l of listenersOf(entryListeners, raffleId)) later(() => l.next(clone(changes), false))
+  }
+
+  // Avisa quem observa um dos documentos gravados ou a coleção de algum deles.
+  function emitDocs(raffleId: string, paths: string[]) {
+    if (!paths.length) return
+    const cols = new Set(paths.map(collectionOf))
+    for (const l of listenersOf(docListeners, raffleId)) {
+      if (!paths.includes(l.path)) continue
+      const data = readDoc(raffleId, l.path)
+      later(() => l.next(data ? clone(data) : null))
+    }
+    for (const l of listenersOf(collectionListeners, raffleId)) {
+      if (!cols.has(l.col)) continue
+      const list = applyQuery(readCollection(raffleId, l.col), l.q)
+      later(() => l.next(list))
+    }
+  }
+
+  function emitUser(uid: string) {
+    const data = users.get(uid)
+    for (const l of listenersOf(userListeners, uid)) later(() => l.next(data ? clone(data) : null))
+    const list = userList()
+    for (const l of usersListeners) later(() => l.next(list))
+  }
+
+  function userList(): StoredDoc[] {
+    return Array.from(users, ([id, data]) => ({ id, data: clone(data) }))
+  }
+
+  let nextId = 0
+
+  function freshId(col: string) {
+    nextId += 1
+    return `${col}-${Date.now().toString(36)}-${nextId.toString(36)}`
+  }
+
+  // Devolve o caminho do evento gravado, para avisar quem observa a auditoria.
+  function addAudit(raffleId: string, audit: AuditRecord | undefined, id?: string) {
+    if (!audit) return []
+    const path = `audit/${id || freshId('audit')}`
+    store(raffleId).docs.set(path, { ...clone(audit), at: new Date() })
+    return [path]
+  }
+
+  function entryIdOf(path: string) {
+    const [col, id, ...rest] = path.split('/')
+    return col === 'entries' && id && !rest.length ? id : null
+  }
+
+  function readDoc(raffleId: string, path: string) {
+    const s = store(raffleId)
+    if (!path) return s.config
+    const entryId = entryIdOf(path)
+    return (entryId ? s.entries.get(entryId) : s.docs.get(path)) ?? null
+  }
+
+  function readCollection(raffleId: string, col: string): StoredDoc[] {
+    const s = store(raffleId)
+    if (col === 'entries') return Array.from(s.entries, ([id, data]) => ({ id, data: clone(data) }))
+    const out: StoredDoc[] = []
+    for (const [path, data] of s.docs) {
+      if (collectionOf(path) === col) out.push({ id: path.slice(col.length + 1), data: clone(data) })
+    }
+    return out
+  }
+
+  // Confere tudo antes de gravar a primeira escrita: update em documento inexistente derruba a transação inteira.
+  function commit(raffleId: string, writes: StagedWrite[], audits: Array<{ record: AuditRecord; id?: string }>) {
+    const next = new Map<string, DocData | null>()
+    const current = (path: string) => (next.has(path) ? (next.get(path) ?? null) : readDoc(raffleId, path))
+    for (const w of writes) {
+      const prev = current(w.path)
+      if (w.kind === 'delete') next.set(w.path, null)
+      else if (w.kind === 'set') next.set(w.path, w.merge && prev ? mergeDeep(prev, w.data) : clone(w.data))
+      else if (!prev) throw new Error(`NOT_FOUND:${w.path}`)
+      else next.set(w.path, { ...prev, ...clone(w.data) })
+    }
+
+    const s = store(raffleId)
+    const changes: EntryChange[] = []
+    let configChanged = false
+    for (const [path, data] of next) {
+      const entryId = entryIdOf(path)
+      if (!path) {
+        s.config = data
+        configChanged = true
+      } else if (entryId) {
+        const prev = s.entries.get(entryId)
+        if (data) {
+          s.entries.set(entryId, data)
+          changes.push({ type: prev ? 'modified' : 'added', id: entryId, data: clone(data) })
+        } else if (prev) {
+          s.entries.delete(entryId)
+          changes.push({ type: 'removed', id: entryId, data: prev })
+        }
+      } else if (data) {
+        s.docs.set(path, data)
+      } else {
+        s.docs.delete(path)
+      }
+    }
+    const paths = Array.from(next.keys())
+    for (const a of audits) paths.push(...addAudit(raffleId, a.record, a.id))
+    if (configChanged) emitConfig(raffleId)
+    emitEntries(raffleId, changes)
+    emitDocs(raffleId, paths)
+  }
+
+  // Uma transação por vez: as leituras de uma nunca veem escritas pela metade de outra.
+  let queue: Promise<unknown> = Promise.resolve()
+
+  async function runTransaction<T>(raffleId: string, fn: (tx: RaffleTransaction) => Promise<T>) {
+    const writes: StagedWrite[] = []
+    const audits: Array<{ record: AuditRecord; id?: string }> = []
+    const result = await fn({
+      async get(path) {
+        const data = readDoc(raffleId, path)
+        return data ? clone(data) : null
+      },
+      set(path, data, opts) {
+        writes.push({ kind: 'set', path, data: clone(data), merge: !!opts?.merge })
+      },
+      update(path, patch) {
+        writes.push({ kind: 'update', path, data: clone(patch) })
+      },
+      delete(path) {
+        writes.push({ kind: 'delete', path })
+      },
+      newId(col) {
+        return freshId(col)
+      },
+      now() {
+        return new Date()
+      },
+      audit(record, id) {
+        audits.push({ record, id })
+      }
+    })
+    commit(raffleId, writes, audits)
+    return result
+  }
+
+  return {
+    watchRaffles(next) {
+      const l = { next }
+      later(() => l.next(raffleList()))
+      return subscribe(raffleListeners, l)
+    },
+
+    watchConfig(raffleId, next) {
+      const l = { next }
+      later(() => {
+        const data = store(raffleId).config
+        l.next(data ? clone(data) : null)
+      })
+      return subscribe(listenersOf(configListeners, raffleId), l)
+    },
+
+    async saveConfig(raffleId, patch, audit) {
+      const s = store(raffleId)
+      s.config = { ...(s.config || {}), ...clone(patch) }
+      const paths = ['', ...addAudit(raffleId, audit)]
+      emitConfig(raffleId)
+      emitDocs(raffleId, paths)
+    },
+
+    watchEntries(raffleId, next) {
+      const l = { next }
+      later(() => {
+        const all = Array.from(store(raffleId).entries.entries()).map(
+          ([id, data]): EntryChange => ({ type: 'added', id, data: clone(data) })
+        )
+        l.next(all, true)
+      })
+      return subscribe(listenersOf(entryListeners, raffleId), l)
+    },
+
+    async listEntries(raffleId) {
+      return Array.from(store(raffleId).entries.entries()).map(([id, data]) => ({ id, data: clone(data) }))
+    },
+
+    async writeEntries(raffleId, writes, audit) {
+      const entries = store(raffleId).entries
+      const changes: EntryChange[] = []
+      for (const w of writes) {
+        const prev = entries.get(w.id)
+        if (w.data) {
+          entries.set(w.id, clone(w.data))
+          changes.push({ type: prev ? 'modified' : 'added', id: w.id, data: clone(w.data) })
+        } else if (prev) {
+          entries.delete(w.id)
+          changes.push({ type: 'removed', id: w.id, data: prev })
+        }
+      }
+      const paths = changes.map((ch) => `entries/${ch.id}`).concat(addAudit(raffleId, audit))
+      emitEntries(raffleId, changes)
+      emitDocs(raffleId, paths)
+    },
+
+    watchBackups(raffleId, next) {
+      const l = { next }
+      later(() => l.next(backupList(raffleId)))
+      return subscribe(listenersOf(backupListeners, raffleId), l)
+    },
+
+    async createBackup(raffleId, name, docs, opts) {
+      opts?.onProgress?.(1, 1)
+      store(raffleId).backups.set(name, {
+        info: { name, createdAt: opts?.createdAt ?? new Date(), docCount: docs.length, ...(opts?.reason ? { reason: opts.reason } : {}) },
+        docs: clone(docs)
+      })
+      const list = backupList(raffleId)
+      for (const l of listenersOf(backupListeners, raffleId)) later(() => l.next(list))
+    },
+
+    async listBackupEntries(raffleId, name) {
+      const b = store(raffleId).backups.get(name)
+      return b ? clone(b.docs) : []
+    },
+
+    watchDoc(raffleId, path, next) {
+      const l = { next, path }
+      later(() => {
+        const data = readDoc(raffleId, path)
+        l.next(data ? clone(data) : null)
+      })
+      return subscribe(listenersOf(docListeners, raffleId), l)
+    },
+
+    watchCollection(raffleId, col, q, next) {
+      const l = { next, col, q }
+      later(() => l.next(applyQuery(readCollection(raffleId, col), q)))
+      return subscribe(listenersOf(collectionListeners, raffleId), l)
+    },
+
+    async listCollection(raffleId, col, q) {
+      return applyQuery(readCollection(raffleId, col), q)
+    },
+
+    newId(_raffleId, col) {
+      return freshId(col)
+    },
+
+    transact(raffleId, fn) {
+      const run = queue.then(() => runTransaction(raffleId, fn))
+      queue = run.catch(() => {})
+      return run
+    },
+
+    watchUser(uid, next) {
+      const l = { next }
+      later(() => {
+        const data = users.get(uid)
+        l.next(data ? clone(data) : null)
+      })
+      return subscribe(listenersOf(userListeners, uid), l)
+    },
+
+    async createUser(uid, email) {
+      if (users.has(uid)) return
+      users.set(uid, { email, roles: users.size ? [] : (opts.firstUserRoles ?? []), createdAt: new Date() })
+      emitUser(uid)
+    },
+
+    watchUsers(next) {
+      const l = { next }
+      later(() => l.next(userList()))
+      return subscribe(usersListeners, l)
+    },
+
+    async setUserRoles(uid, roles) {
+      const prev = users.get(uid)
+      if (!prev) throw new Error(`NOT_FOUND:users/${uid}`)
+      users.set(uid, { ...prev, roles: roles.slice() })
+      emitUser(uid)
+    },
+
+    // Na memória não há rifa de antes das rifas múltiplas.
+    async getLegacyDoc() {
+      return null
+    },
+
+    async listLegacyCollection() {
+      return []
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { newOrderId, normalizeOrder, normalizeOrderId, orderLiveNumbers, orderStatus, refundableAmount, refundedTotal, suggestedRefund } from './orders'
+
+const order = normalizeOrder('ABC23456', {
+  numbers: [7, 3, 5],
+  name: 'Ana',
+  amount: 30,
+  currency: 'BRL',
+  refunds: { r1: { numbers: [7], amount: 10, by: 'admin' } }
+})
+
+describe('newOrderId / normalizeOrderId', () => {
+  it('uses eight unambiguous characters', () => {
+    expect(newOrderId()).toMatch(/^[2-9A-HJKMNP-Z]{8}$/)
+  })
+
+  it('cleans what the buyer types', () => {
+    expect(normalizeOrderId(' abc-234 56 ')).toBe('ABC23456')
+  })
+})
+
+describe('normalizeOrder', () => {
+  it('sorts the numbers and reads refunds from the map', () => {
+    expect(order).toMatchObject({ numbers: [3, 5, 7], source: 'reserve', cancelledAt: null })
+    expect(order.refunds).toEqual([{ numbers: [7], amount: 10, at: undefined, by: 'admin' }])
+    expect(normalizeOrder('X', null)).toMatchObject({ numbers: [], amount: 0, refunds: [] })
+  })
+})
+
+describe('orderStatus', () => {
+  it('derives the status from the numbers still with the order', () => {
+    const entries = {
+      '3': { orderId: order.id, paid: true },
+      '5': { orderId: order.id, paid: false },
+      '7': { orderId: 'OTHER', paid: true }
+    }
+    expect(orderLiveNumbers(order, entries)).toEqual([3, 5])
+    expect(orderStatus(order, entries)).toBe('partial')
+    expect(orderStatus(order, { ...entries, '5': { orderId: order.id, paid: true } })).toBe('paid')
+    expect(orderStatus(order, { '3': { orderId: order.id } })).toBe('open')
+    expect(orderStatus(order, {})).toBe('released')
+    expect(orderStatus({ ...order, cancelledAt: new Date() }, entries)).toBe('cancelled')
+  })
+})
+
+describe('refunds', () => {
+  it('caps a new refund at what is left of the order', () => {
+    expect(refundedTotal(order)).toBe(10)
+    expect(refundableAmount(order)).toBe(20)
+    expect(refundableAmount({ ...order, refunds: [{ numbers: [], amount: 45 }] })).toBe(0)
+  })
+
+  it('suggests what was charged minus the price of what stays', () => {
+    const cfg = { pricePerNumber: 10, pricePackages: [{ quantity: 3, price: 25 }] }
+    const pack = { ...order, amount: 25, refunds: [] }
+    // Com o pacote de 3 por 25, devolver um número deixa 2 a 10 cada: volta só 5.
+    expect(suggestedRefund(pack, 2, cfg)).toBe(5)
+    expect(suggestedRefund(order, 1, cfg)).toBe(10)
+  })
+})
@@ -0,0 +1,102 @@
+import { quotePrice, roundMoney } from './pricing'
+import type { PricingConfig } from './pricing'
+
+export type OrderRefund = {
+  numbers: number[]
+  amount: number
+  at?: unknown
+  by?: string
+}
+
+export type Order = {
+  id: string
+  numbers: number[]
+  name: string
+  buyerId?: string
+  amount: number
+  currency: string
+  source: 'reserve' | 'sale'
+  createdAt?: unknown
+  cancelledAt?: unknown
+  refunds: OrderRefund[]
+}
+
+// Derivado das entries: o pedido guarda só o que foi comprado; pago/liberado vem de cada número.
+export type OrderStatus = 'open' | 'partial' | 'paid' | 'released' | 'cancelled'
+
+// Sem 0/O/1/I/L para dar para ditar por telefone; também serve de txid do Pix (alfanumérico, até 25).
+const ORDER_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ'
+const ORDER_ID_LENGTH = 8
+
+export function newOrderId() {
+  const bytes = new Uint8Array(ORDER_ID_LENGTH)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, (b) => ORDER_ALPHABET[b % ORDER_ALPHABET.length]).join('')
+}
+
+export function normalizeOrderId(v: unknown) {
+  return String(v || '')
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, '')
+}
+
+function asRecord(v: unknown): Record<string, unknown> {
+  return v && typeof v === 'object' ? (v as Record<string, unknown>) : {}
+}
+
+function numberList(v: unknown) {
+  return Array.isArray(v) ? v.map((n) => Number(n)).filter((n) => Number.isInteger(n) && n > 0) : []
+}
+
+export function normalizeOrder(id: string, raw: unknown): Order {
+  const data = asRecord(raw)
+  return {
+    id,
+    numbers: numberList(data.numbers).sort((a, b) => a - b),
+    name: String(data.name || ''),
+    ...(data.buyerId ? { buyerId: String(data.buyerId) } : {}),
+    amount: Number(data.amount || 0),
+    currency: String(data.currency || ''),
+    source: data.source === 'sale' ? 'sale' : 'reserve',
+    createdAt: data.createdAt,
+    cancelledAt: data.cancelledAt || null,
+    // Mapa id → reembolso, e não lista: o "at" vem do servidor, e serverTimestamp não entra em listas.
+    refunds: Object.values(asRecord(data.refunds))
+      .map(asRecord)
+      .map((r) => ({
+        numbers: numberList(r.numbers),
+        amount: Number(r.amount || 0),
+        at: r.at,
+        ...(r.by ? { by: String(r.by) } : {})
+      }))
+  }
+}
+
+// Números do pedido que ainda estão com ele (não foram liberados, reembolsados ou reservados por outro pedido).
+export function orderLiveNumbers(order: Order, entries: Record<string, { orderId?: string } | null | undefined>) {
+  return order.numbers.filter((n) => entries[String(n)]?.orderId === order.id)
+}
+
+export function orderStatus(order: Order, entries: Record<string, { orderId?: string; paid?: boolean } | null | undefined>): OrderStatus {
+  if (order.cancelledAt) return 'cancelled'
+  const live = orderLiveNumbers(order, entries)
+  if (!live.length) return 'released'
+  const paid = live.filter((n) => !!entries[String(n)]?.paid).length
+  if (!paid) return 'open'
+  return paid === live.length ? 'paid' : 'partial'
+}
+
+export function refundedTotal(order: Order) {
+  return roundMoney(order.refunds.reduce((sum, r) => sum + r.amount, 0))
+}
+
+// Teto de um novo reembolso: o valor do pedido menos o que já foi devolvido.
+export function refundableAmount(order: Order) {
+  return Math.max(0, roundMoney(order.amount - refundedTotal(order)))
+}
+
+// Sugestão de reembolso ao devolver parte dos números: o que foi cobrado menos o preço do que fica
+// (com pacote, devolver um número pode custar mais que o preço unitário).
+export function suggestedRefund(order: Order, keepCount: number, cfg: PricingConfig) {
+  return Math.max(0, roundMoney(refundableAmount(order) - quotePrice(keepCount, cfg).amount))
+}
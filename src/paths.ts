@@ -0,0 +1,32 @@
+// Caminhos relativos à rifa, para repo.transact.
+export function entryPath(n: number | string) {
+  return `entries/${n}`
+}
+
+export function orderPath(orderId: string) {
+  return `orders/${orderId}`
+}
+
+// O evento da reserva leva o código do pedido no id: as regras do Firestore conferem que ele entrou junto com os números.
+export function orderAuditId(orderId: string) {
+  return `order-${orderId}`
+}
+
+export function holderPath(n: number | string) {
+  return `holders/${n}`
+}
+
+export function buyerPath(buyerId: string) {
+  return `buyers/${buyerId}`
+}
+
+export function trashPath(id: string) {
+  return `trash/${id}`
+}
+
+export function proofPath(id: string) {
+  return `proofs/${id}`
+}
+
+export const DRAW_SECRET_PATH = 'private/draw'
+export const LIVE_DRAW_PATH = 'live/draw'
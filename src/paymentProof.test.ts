@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { PROOF_MAX_BYTES, normalizeProof, proofFileProblem, proofPayableNumbers, proofStoragePath, safeFileName } from './paymentProof'
+
+describe('proof upload', () => {
+  it('takes images and PDFs up to the size limit', () => {
+    expect(proofFileProblem({ type: 'image/png', size: 1000 })).toBeNull()
+    expect(proofFileProblem({ type: 'application/pdf', size: PROOF_MAX_BYTES })).toBeNull()
+    expect(proofFileProblem({ type: 'text/plain', size: 10 })).toBe('type')
+    expect(proofFileProblem({ type: 'image/jpeg', size: PROOF_MAX_BYTES + 1 })).toBe('size')
+    expect(proofFileProblem({ type: 'image/jpeg', size: 0 })).toBe('size')
+  })
+
+  it('stores under a clean file name', () => {
+    expect(safeFileName('Comprovante Pix (1).JPG')).toBe('Comprovante-Pix-1-.JPG')
+    expect(safeFileName('ção.png')).toBe('cao.png')
+    expect(safeFileName('???')).toBe('comprovante')
+    expect(proofStoragePath('r1', 'p1', 'pix ok.pdf')).toBe('raffles/r1/proofs/p1/pix-ok.pdf')
+  })
+})
+
+describe('normalizeProof', () => {
+  it('defaults the status and drops bad numbers', () => {
+    expect(normalizeProof('p0', { numbers: [3, '4', 0, 'x'], status: 'weird' })).toMatchObject({
+      numbers: [3, 4],
+      status: 'pending',
+      name: ''
+    })
+  })
+})
+
+describe('proofPayableNumbers', () => {
+  it('matches the order first, even when another order of the same buyer holds a number', () => {
+    const proof = normalizeProof('p1', { numbers: [1, 2, 3], name: 'Ana', buyerId: 'b1', orderId: 'o1' })
+    expect(proof.orderId).toBe('o1')
+    expect(
+      proofPayableNumbers(proof, {
+        '1': { name: 'Ana', buyerId: 'b1', orderId: 'o1' },
+        '2': { name: 'Ana', buyerId: 'b1', orderId: 'o2' },
+        '3': { name: 'Ana', buyerId: 'b1', orderId: 'o1', paid: true }
+      })
+    ).toEqual([1])
+  })
+
+  it('falls back to the buyer and then the name without an order', () => {
+    const byBuyer = normalizeProof('p2', { numbers: [4, 5], name: 'Ana', buyerId: 'b1' })
+    expect(proofPayableNumbers(byBuyer, { '4': { name: 'Ana', buyerId: 'b1' }, '5': { name: 'Ana', buyerId: 'b2' } })).toEqual([4])
+
+    const byName = normalizeProof('p3', { numbers: [6, 7], name: ' Bia ' })
+    expect(proofPayableNumbers(byName, { '6': { name: 'Bia' }, '7': { name: 'Caio' } })).toEqual([6])
+  })
+})
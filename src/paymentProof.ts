@@ -0,0 +1,78 @@
+export type ProofStatus = 'pending' | 'approved' | 'rejected'
+
+export type PaymentProof = {
+  id: string
+  numbers: number[]
+  name: string
+  buyerId?: string
+  orderId?: string
+  path: string
+  fileName: string
+  contentType: string
+  size: number
+  status: ProofStatus
+  createdAt?: unknown
+  reviewedAt?: unknown
+  reviewedBy?: string
+}
+
+export const PROOF_MAX_MB = 10
+export const PROOF_MAX_BYTES = PROOF_MAX_MB * 1024 * 1024
+export const PROOF_ACCEPT = 'image/*,application/pdf'
+
+export function proofFileProblem(file: { size: number; type: string }): 'type' | 'size' | null {
+  const type = String(file.type || '')
+  if (!type.startsWith('image/') && type !== 'application/pdf') return 'type'
+  if (!file.size || file.size > PROOF_MAX_BYTES) return 'size'
+  return null
+}
+
+export function safeFileName(name: string) {
+  const clean = String(name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(-80)
+  return clean || 'comprovante'
+}
+
+// Mesmo caminho que storage.rules libera para upload sem login.
+export function proofStoragePath(raffleId: string, proofId: string, fileName: string) {
+  return `raffles/${raffleId}/proofs/${proofId}/${safeFileName(fileName)}`
+}
+
+export function normalizeProof(id: string, raw: unknown): PaymentProof {
+  const data: Record<string, unknown> = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {}
+  const status = data.status === 'approved' || data.status === 'rejected' ? data.status : 'pending'
+  return {
+    id,
+    numbers: Array.isArray(data.numbers) ? data.numbers.map((n) => Number(n)).filter((n) => n > 0) : [],
+    name: String(data.name || ''),
+    ...(data.buyerId ? { buyerId: String(data.buyerId) } : {}),
+    ...(data.orderId ? { orderId: String(data.orderId) } : {}),
+    path: String(data.path || ''),
+    fileName: String(data.fileName || ''),
+    contentType: String(data.contentType || ''),
+    size: Number(data.size || 0),
+    status,
+    createdAt: data.createdAt,
+    reviewedAt: data.reviewedAt,
+    ...(data.reviewedBy ? { reviewedBy: String(data.reviewedBy) } : {})
+  }
+}
+
+// Números do comprovante que ainda estão com o mesmo pedido (ou, sem pedido, o mesmo comprador) e sem pagamento;
+// é isso que a aprovação marca.
+export function proofPayableNumbers(
+  proof: PaymentProof,
+  entries: Record<string, { name?: string; paid?: boolean; buyerId?: string; orderId?: string } | null | undefined>
+) {
+  return proof.numbers.filter((n) => {
+    const e = entries[String(n)]
+    if (!e || e.paid) return false
+    if (proof.orderId) return e.orderId === proof.orderId
+    if (proof.buyerId && e.buyerId) return e.buyerId === proof.buyerId
+    return String(e.name || '').trim() === proof.name.trim()
+  })
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { buildPixPayload, buildPixTxid, crc16, isValidPixPayload, parsePixPayload, sanitizeTxid } from './pix'
+
+// Exemplo do manual do BR Code do Banco Central (Pix estático, sem valor nem txid).
+const BCB_REFERENCE =
+  '00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-4266554400005204000053039865802BR' +
+  '5913Fulano de Tal6008BRASILIA62070503***63041D3D'
+
+describe('crc16', () => {
+  it('is CRC-16/CCITT-FALSE', () => {
+    expect(crc16('123456789')).toBe('29B1')
+    expect(crc16('')).toBe('FFFF')
+  })
+
+  it('pads to four uppercase hex digits', () => {
+    expect(crc16(BCB_REFERENCE.slice(0, -4))).toBe('1D3D')
+  })
+})
+
+describe('buildPixPayload', () => {
+  it('reproduces the BCB reference payload', () => {
+    const payload = buildPixPayload({
+      key: '123e4567-e12b-12d1-a456-426655440000',
+      name: 'Fulano de Tal',
+      city: 'BRASILIA'
+    })
+    expect(payload).toBe(BCB_REFERENCE)
+    expect(isValidPixPayload(payload)).toBe(true)
+  })
+
+  it('writes the amount in field 54 with two decimals', () => {
+    const fields = (amount: number) => parsePixPayload(buildPixPayload({ key: 'k', name: 'N', city: 'C', amount }))
+    expect(fields(10)['54']).toBe('10.00')
+    expect(fields(1234.5)['54']).toBe('1234.50')
+    expect(fields(0.1 + 0.2)['54']).toBe('0.30')
+    expect(fields(0)['54']).toBeUndefined()
+    expect(buildPixPayload({ key: 'k', name: 'N', city: 'C', amount: 10 })).toContain('540510.00')
+  })
+
+  it('strips accents and limits name and city', () => {
+    const fields = parsePixPayload(
+      buildPixPayload({ key: 'k', name: 'José da Conceição Ribeiro Júnior', city: 'São José dos Campos' })
+    )
+    expect(fields['59']).toBe('Jose da Conceicao Ribeiro')
+    expect(fields['60']).toBe('Sao Jose dos Ca')
+  })
+
+  it('refuses a field over 99 characters', () => {
+    expect(() => buildPixPayload({ key: 'x'.repeat(100), name: 'N', city: 'C' })).toThrow('99')
+  })
+
+  it('requires a key', () => {
+    expect(() => buildPixPayload({ key: ' ', name: 'N', city: 'C' })).toThrow()
+  })
+
+  it('flags a payload with a broken checksum', () => {
+    expect(isValidPixPayload(BCB_REFERENCE.slice(0, -4) + '0000')).toBe(false)
+  })
+})
+
+describe('buildPixTxid', () => {
+  it('lists the sorted numbers when they fit', () => {
+    expect(buildPixTxid([12, 3, 7])).toBe('N3N7N12')
+    expect(buildPixTxid([])).toBe('***')
+  })
+
+  it('summarizes as first, last and count past 25 characters', () => {
+    const numbers = Array.from({ length: 10 }, (_, i) => 1000 + i)
+    const txid = buildPixTxid(numbers)
+    expect(txid).toBe('N1000A1009Q10')
+    expect(txid.length).toBeLessThanOrEqual(25)
+  })
+
+  it('keeps txids alphanumeric and at most 25 characters', () => {
+    expect(sanitizeTxid('AB-12_cd 34')).toBe('AB12cd34')
+    expect(sanitizeTxid('x'.repeat(40))).toHaveLength(25)
+    expect(sanitizeTxid('')).toBe('***')
+  })
+})
@@ -0,0 +1,104 @@
+export type PixPayloadInput = {
+  key: string
+  name: string
+  city: string
+  amount?: number
+  txid?: string
+  description?: string
+}
+
+const GUI = 'br.gov.bcb.pix'
+
+function field(id: string, value: string) {
+  const len = value.length
+  if (len > 99) throw new Error(`Campo ${id} do Pix passou de 99 caracteres`)
+  return `${id}${String(len).padStart(2, '0')}${value}`
+}
+
+function stripAccents(v: string) {
+  return String(v || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+}
+
+export function sanitizePixText(v: string, max: number) {
+  return stripAccents(v)
+    .replace(/[^A-Za-z0-9 $%*+\-./:]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, max)
+}
+
+export function sanitizeTxid(v: string) {
+  const id = String(v || '')
+    .replace(/[^A-Za-z0-9]/g, '')
+    .slice(0, 25)
+  return id || '***'
+}
+
+export function buildPixTxid(numbers: number[], prefix = 'N') {
+  const sorted = numbers.slice().sort((a, b) => a - b)
+  if (!sorted.length) return '***'
+  const full = prefix + sorted.join(prefix)
+  if (full.length <= 25) return full
+  return sanitizeTxid(`${prefix}${sorted[0]}A${sorted[sorted.length - 1]}Q${sorted.length}`)
+}
+
+export function crc16(payload: string) {
+  let crc = 0xffff
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8
+    for (let b = 0; b < 8; b++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1
+      crc &= 0xffff
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0')
+}
+
+export function buildPixPayload(input: PixPayloadInput) {
+  const key = String(input.key || '').trim()
+  if (!key) throw new Error('Chave Pix não informada')
+
+  const description = sanitizePixText(input.description || '', 40)
+  const account =
+    field('00', GUI) + field('01', key) + (description ? field('02', description) : '')
+
+  const amount = Number(input.amount || 0)
+  const name = sanitizePixText(input.name, 25) || 'RECEBEDOR'
+  const city = sanitizePixText(input.city, 15) || 'BRASIL'
+
+  const body =
+    field('00', '01') +
+    field('26', account) +
+    field('52', '0000') +
+    field('53', '986') +
+    (amount > 0 ? field('54', amount.toFixed(2)) : '') +
+    field('58', 'BR') +
+    field('59', name) +
+    field('60', city) +
+    field('62', field('05', sanitizeTxid(input.txid || '')))
+
+  const withCrcHeader = body + '6304'
+  return withCrcHeader + crc16(withCrcHeader)
+}
+
+export function parsePixPayload(payload: string) {
+  const out: Record<string, string> = {}
+  let i = 0
+  while (i + 4 <= payload.length) {
+    const id = payload.slice(i, i + 2)
+    const len = Number(payload.slice(i + 2, i + 4))
+    if (!Number.isFinite(len)) break
+    out[id] = payload.slice(i + 4, i + 4 + len)
+    i += 4 + len
+  }
+  return out
+}
+
+export function isValidPixPayload(payload: string) {
+  if (payload.length < 8) return false
+  const head = payload.slice(0, -4)
+  if (!head.endsWith('6304')) return false
+  return crc16(head) === payload.slice(-4).toUpperCase()
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_PRICE_PER_NUMBER, currencyOf, normalizePackages, normalizePrice, quotePrice } from './pricing'
+
+describe('normalizePrice / normalizePackages', () => {
+  it('accepts comma decimals and falls back on garbage', () => {
+    expect(normalizePrice('2,5')).toBe(2.5)
+    expect(normalizePrice('abc')).toBe(DEFAULT_PRICE_PER_NUMBER)
+    expect(normalizePrice(-1, 0)).toBe(0)
+  })
+
+  it('keeps the cheapest package per quantity and drops single-number ones', () => {
+    expect(
+      normalizePackages([
+        { quantity: 5, price: 20 },
+        { quantity: 5, price: 18 },
+        { quantity: 1, price: 1 },
+        { quantity: 3, price: 'x' }
+      ])
+    ).toEqual([{ quantity: 5, price: 18 }])
+    expect(normalizePackages(null)).toEqual([])
+  })
+
+  it('only takes three-letter currency codes', () => {
+    expect(currencyOf({ currency: 'eur' })).toBe('EUR')
+    expect(currencyOf({ currency: 'euro' })).toBe('BRL')
+  })
+})
+
+describe('quotePrice', () => {
+  it('charges the unit price without packages', () => {
+    expect(quotePrice(3, { pricePerNumber: 2.5 })).toEqual({
+      count: 3,
+      amount: 7.5,
+      lines: [{ quantity: 1, price: 2.5, times: 3 }]
+    })
+  })
+
+  it('combines packages for the cheapest total', () => {
+    const cfg = { pricePerNumber: 10, pricePackages: [{ quantity: 3, price: 25 }, { quantity: 5, price: 40 }] }
+    // 8 = 5 + 3 (65) é mais barato que 5 + 1 + 1 + 1 (70) ou 3 + 3 + 1 + 1 (70).
+    expect(quotePrice(8, cfg)).toEqual({
+      count: 8,
+      amount: 65,
+      lines: [
+        { quantity: 5, price: 40, times: 1 },
+        { quantity: 3, price: 25, times: 1 }
+      ]
+    })
+  })
+
+  it('ignores a package that is not a discount', () => {
+    const cfg = { pricePerNumber: 1, pricePackages: [{ quantity: 2, price: 3 }] }
+    expect(quotePrice(2, cfg).amount).toBe(2)
+  })
+
+  it('rounds to cents and handles zero', () => {
+    expect(quotePrice(3, { pricePerNumber: 0.1 }).amount).toBe(0.3)
+    expect(quotePrice(0, { pricePerNumber: 5 })).toEqual({ count: 0, amount: 0, lines: [] })
+  })
+})
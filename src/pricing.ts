@@ -0,0 +1,95 @@
+export type PricePackage = {
+  quantity: number
+  price: number
+}
+
+export type PricingConfig = {
+  pricePerNumber?: number
+  currency?: string
+  pricePackages?: PricePackage[]
+}
+
+export type PriceLine = {
+  quantity: number
+  price: number
+  times: number
+}
+
+export type PriceQuote = {
+  count: number
+  amount: number
+  lines: PriceLine[]
+}
+
+export const DEFAULT_PRICE_PER_NUMBER = 2
+export const DEFAULT_CURRENCY = 'BRL'
+
+export function roundMoney(v: number) {
+  return Math.round(v * 100) / 100
+}
+
+export function normalizePrice(v: unknown, fallback = DEFAULT_PRICE_PER_NUMBER) {
+  const n = Number(String(v ?? '').replace(',', '.'))
+  if (!Number.isFinite(n) || n < 0) return fallback
+  return roundMoney(n)
+}
+
+export function normalizePackages(list: unknown): PricePackage[] {
+  if (!Array.isArray(list)) return []
+  const byQty = new Map<number, number>()
+  for (const p of list) {
+    const quantity = Math.floor(Number(p?.quantity))
+    const price = normalizePrice(p?.price, -1)
+    if (!Number.isFinite(quantity) || quantity < 2 || price < 0) continue
+    const prev = byQty.get(quantity)
+    if (prev === undefined || price < prev) byQty.set(quantity, price)
+  }
+  return Array.from(byQty.entries())
+    .map(([quantity, price]) => ({ quantity, price }))
+    .sort((a, b) => a.quantity - b.quantity)
+}
+
+export function unitPrice(cfg: PricingConfig) {
+  return normalizePrice(cfg.pricePerNumber)
+}
+
+export function currencyOf(cfg: PricingConfig) {
+  const c = String(cfg.currency || '').trim().toUpperCase()
+  return /^[A-Z]{3}$/.test(c) ? c : DEFAULT_CURRENCY
+}
+
+export function quotePrice(count: number, cfg: PricingConfig): PriceQuote {
+  const n = Math.max(0, Math.floor(count))
+  const unit = unitPrice(cfg)
+  const packages = normalizePackages(cfg.pricePackages)
+
+  const options: PricePackage[] = [{ quantity: 1, price: unit }].concat(packages)
+
+  const cents = options.map((o) => Math.round(o.price * 100))
+  const best: number[] = new Array(n + 1).fill(Infinity)
+  const choice: number[] = new Array(n + 1).fill(-1)
+  best[0] = 0
+
+  for (let i = 1; i <= n; i++) {
+    for (let k = 0; k < options.length; k++) {
+      const q = options[k].quantity
+      if (q > i) continue
+      const v = best[i - q] + cents[k]
+      if (v < best[i]) {
+        best[i] = v
+        choice[i] = k
+      }
+    }
+  }
+
+  const times = new Map<number, number>()
+  for (let i = n; i > 0; i -= options[choice[i]].quantity) {
+    times.set(choice[i], (times.get(choice[i]) || 0) + 1)
+  }
+
+  const lines: PriceLine[] = Array.from(times.entries())
+    .sort((a, b) => options[b[0]].quantity - options[a[0]].quantity)
+    .map(([k, t]) => ({ quantity: options[k].quantity, price: options[k].price, times: t }))
+
+  return { count: n, amount: roundMoney(best[n] / 100), lines }
+}
@@ -0,0 +1,14 @@
+import { db } from './firebase'
+import { createFirestoreRepository } from './firestoreRepository'
+import { createMemoryRepository } from './memoryRepository'
+import type { RaffleRepository } from './repository'
+
+// VITE_DATA_BACKEND=memory roda todos os dados (rifas, pedidos, auditoria, perfis da equipe) sem Firestore (demo offline).
+// Login, Storage e Cloud Functions continuam no Firebase; a primeira conta que entrar vira data-admin.
+export const repo: RaffleRepository =
+  import.meta.env.VITE_DATA_BACKEND === 'memory'
+    ? createMemoryRepository(
+        { demo: { raffleName: 'Rifa de demonstração', totalNumbers: 100, pricePerNumber: 5, createdAt: new Date() } },
+        { firstUserRoles: ['data-admin'] }
+      )
+    : createFirestoreRepository(db)
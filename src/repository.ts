@@ -0,0 +1,101 @@
+export type DocData = Record<string, unknown>
+
+export type StoredDoc = { id: string; data: DocData }
+
+export type Unsubscribe = () => void
+
+export type EntryChange = { type: 'added' | 'modified' | 'removed'; id: string; data: DocData }
+
+// data null apaga o documento.
+export type EntryWrite = { id: string; data: DocData | null }
+
+// Evento de auditoria sem o "at": cada backend carimba a hora do seu jeito.
+export type AuditRecord = {
+  actor: DocData
+  action: string
+  numbers: number[]
+  before: unknown
+  after: unknown
+}
+
+export type BackupInfo = {
+  name: string
+  createdAt?: unknown
+  docCount: number
+  reason?: string
+}
+
+// Filtro, ordem e limite de uma subcoleção da rifa. No Firestore, where e orderBy em campos diferentes pedem índice
+// composto (firestore.indexes.json).
+export type CollectionQuery = {
+  where?: [field: string, op: '==' | 'array-contains', value: unknown]
+  orderBy?: [field: string, dir: 'asc' | 'desc']
+  limit?: number
+}
+
+// Caminhos relativos à rifa: '' é o próprio documento da rifa; 'entries/12', 'orders/AB12', 'private/draw'...
+// Leituras vêm antes das escritas, como no Firestore; as escritas só valem se a função inteira terminar.
+export type RaffleTransaction = {
+  get(path: string): Promise<DocData | null>
+  set(path: string, data: DocData, opts?: { merge?: boolean }): void
+  update(path: string, patch: DocData): void
+  delete(path: string): void
+  // Id livre numa subcoleção da rifa (ex.: 'trash').
+  newId(collection: string): string
+  // Hora do servidor no Firestore; hora local na memória.
+  now(): unknown
+  // id fixo quando as regras precisam achar o evento (o da reserva, pelo pedido); sem id, um novo.
+  audit(record: AuditRecord, id?: string): void
+}
+
+export type RaffleRepository = {
+  watchRaffles(next: (list: StoredDoc[]) => void, fail: (err: Error) => void): Unsubscribe
+  watchConfig(raffleId: string, next: (data: DocData | null) => void, fail: (err: Error) => void): Unsubscribe
+  saveConfig(raffleId: string, patch: DocData, audit?: AuditRecord): Promise<void>
+
+  // A primeira chamada traz tudo com reset = true; depois só o que mudou.
+  watchEntries(
+    raffleId: string,
+    next: (changes: EntryChange[], reset: boolean) => void,
+    fail: (err: Error) => void
+  ): Unsubscribe
+  listEntries(raffleId: string): Promise<StoredDoc[]>
+  // Tudo numa escrita atômica (no Firestore, no máximo ~450 documentos por chamada).
+  writeEntries(raffleId: string, writes: EntryWrite[], audit?: AuditRecord): Promise<void>
+
+  watchBackups(raffleId: string, next: (list: BackupInfo[]) => void, fail: (err: Error) => void): Unsubscribe
+  createBackup(
+    raffleId: string,
+    name: string,
+    docs: StoredDoc[],
+    // createdAt só na importação de backups antigos, para manter a data original.
+    opts?: { reason?: string; createdAt?: unknown; onProgress?: (done: number, total: number) => void }
+  ): Promise<void>
+  listBackupEntries(raffleId: string, name: string): Promise<StoredDoc[]>
+
+  // Demais documentos e subcoleções da rifa, pelos mesmos caminhos relativos da transação ('live/draw', 'orders'...).
+  watchDoc(raffleId: string, path: string, next: (data: DocData | null) => void, fail: (err: Error) => void): Unsubscribe
+  watchCollection(
+    raffleId: string,
+    col: string,
+    q: CollectionQuery,
+    next: (list: StoredDoc[]) => void,
+    fail: (err: Error) => void
+  ): Unsubscribe
+  listCollection(raffleId: string, col: string, q?: CollectionQuery): Promise<StoredDoc[]>
+  // Id livre para quem precisa dele antes de escrever (ex.: o caminho do comprovante no Storage).
+  newId(raffleId: string, col: string): string
+
+  // Tudo o que precisa ler antes de escrever (reservas, pagamentos, lixeira, sorteio). Pode rodar fn mais de uma vez.
+  transact<T>(raffleId: string, fn: (tx: RaffleTransaction) => Promise<T>): Promise<T>
+
+  // Perfis da equipe (users/{uid}). A conta nasce sem papéis; só o data-admin muda os papéis.
+  watchUser(uid: string, next: (data: DocData | null) => void, fail: (err: Error) => void): Unsubscribe
+  createUser(uid: string, email: string): Promise<void>
+  watchUsers(next: (list: StoredDoc[]) => void, fail: (err: Error) => void): Unsubscribe
+  setUserRoles(uid: string, roles: string[]): Promise<void>
+
+  // Layout de antes das rifas múltiplas, na raiz do banco (app/config, entries, backups, buyers). Só leitura.
+  getLegacyDoc(path: string): Promise<DocData | null>
+  listLegacyCollection(col: string): Promise<StoredDoc[]>
+}
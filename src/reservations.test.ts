@@ -0,0 +1,187 @@
+import { describe, expect, it } from 'vitest'
+import {
+  availableNumbers,
+  claimNumbers,
+  displayName,
+  maxReservedNumber,
+  numbersOfBuyer,
+  pickRandomNumbers,
+  publicEntryName,
+  raffleStats,
+  reservationList,
+  reserveConflict,
+  reservedBuyerGroups,
+  revenueStats,
+  selectedNumbersOf,
+  statusChart,
+  swapDiff
+} from './reservations'
+import type { EntryMap } from './reservations'
+
+const entries: EntryMap = {
+  '2': { name: 'Ana', paid: true },
+  '3': { name: 'Ana', paid: false },
+  '7': { name: 'Bruno', paid: false },
+  '9': null
+}
+
+const takenIn = (set: number[]) => async (n: number) => set.includes(n)
+
+describe('claimNumbers', () => {
+  it('keeps the requested numbers when all are free', async () => {
+    expect(await claimNumbers([4, 5], takenIn([1]))).toEqual([4, 5])
+  })
+
+  it('fails on the first taken number without spares', async () => {
+    await expect(claimNumbers([4, 5, 6], takenIn([5, 6]))).rejects.toThrow('RESERVED:5')
+  })
+
+  it('swaps a taken number for the next free spare', async () => {
+    expect(await claimNumbers([4, 5], takenIn([5, 10]), [4, 10, 11, 12])).toEqual([4, 11])
+  })
+
+  it('reports sold out when the spares run out', async () => {
+    await expect(claimNumbers([4, 5], takenIn([5, 10]), [10])).rejects.toThrow('SOLD_OUT')
+  })
+})
+
+describe('reserveConflict', () => {
+  it('recognizes the claim errors', () => {
+    expect(reserveConflict(new Error('RESERVED:42'))).toEqual({ kind: 'taken', n: 42 })
+    expect(reserveConflict(new Error('SOLD_OUT'))).toEqual({ kind: 'sold-out' })
+    expect(reserveConflict('SOLD_OUT')).toEqual({ kind: 'sold-out' })
+  })
+
+  it('ignores anything else', () => {
+    expect(reserveConflict(new Error('permission-denied'))).toBeNull()
+    expect(reserveConflict(undefined)).toBeNull()
+  })
+})
+
+describe('maxReservedNumber', () => {
+  it('is the highest reserved number inside the raffle', () => {
+    expect(maxReservedNumber(entries, 10)).toBe(7)
+    expect(maxReservedNumber(entries, 5)).toBe(3)
+  })
+
+  it('is zero with no reservations', () => {
+    expect(maxReservedNumber({}, 100)).toBe(0)
+  })
+})
+
+describe('raffleStats / statusChart', () => {
+  it('counts reserved, paid and pending numbers', () => {
+    const stats = raffleStats(entries, 10)
+    expect(stats).toEqual({
+      total: 10,
+      reserved: 3,
+      available: 7,
+      paid: 1,
+      pending: 2,
+      pctReserved: 0.3,
+      pctPaidOfReserved: 1 / 3
+    })
+  })
+
+  it('splits the chart in percentages that add up to 100', () => {
+    const chart = statusChart(raffleStats(entries, 10))
+    expect(chart.free).toBe(7)
+    expect(chart.freePct + chart.paidPct + chart.pendingPct).toBeCloseTo(100)
+    expect(chart.paidPct).toBeCloseTo(10)
+  })
+
+  it('does not divide by zero on an empty raffle', () => {
+    const stats = raffleStats({}, 0)
+    expect(stats.pctReserved).toBe(0)
+    expect(stats.pctPaidOfReserved).toBe(0)
+    expect(statusChart(stats).freePct).toBe(0)
+  })
+})
+
+describe('revenueStats', () => {
+  const cfg = { pricePerNumber: 10, pricePackages: [{ quantity: 2, price: 15 }] }
+
+  it('quotes each buyer as a whole so packages apply', () => {
+    const list = reservationList(entries, 10)
+    // Ana: 2 números = pacote de 15, 1 pago (10) → falta 5; Bruno: 1 pendente (10).
+    expect(revenueStats(list, cfg)).toEqual({ received: 10, toReceive: 15 })
+  })
+
+  it('does not merge two buyers with the same name', () => {
+    const list = reservationList(
+      {
+        '1': { name: 'João', buyerId: 'a' },
+        '2': { name: 'João', buyerId: 'b' }
+      },
+      2
+    )
+    // Juntos seriam um pacote de 15; cada João paga o unitário.
+    expect(revenueStats(list, cfg)).toEqual({ received: 0, toReceive: 20 })
+  })
+})
+
+describe('availableNumbers / pickRandomNumbers', () => {
+  it('lists only free numbers', () => {
+    expect(availableNumbers(entries, 8)).toEqual([1, 4, 5, 6, 8])
+  })
+
+  it('picks distinct numbers from the pool, sorted', () => {
+    const picked = pickRandomNumbers([1, 4, 5, 6, 8], 3, () => 0)
+    expect(picked).toEqual([1, 4, 5])
+    expect(pickRandomNumbers([1, 2], 5, () => 0)).toEqual([1, 2])
+  })
+})
+
+describe('displayName / publicEntryName', () => {
+  it('shortens the name per mode', () => {
+    expect(displayName('ana maria souza', 'initial')).toBe('ana S.')
+    expect(displayName('Ana Souza', 'masked')).toBe('A** S****')
+    expect(displayName('  Ana   Souza ', 'full')).toBe('Ana Souza')
+  })
+
+  it('shows only the label the caller passes when names are hidden', () => {
+    expect(displayName('Ana Souza', 'hidden')).toBe('')
+    expect(displayName('Ana Souza', 'hidden', 'Reserved')).toBe('Reserved')
+    expect(publicEntryName('Ana Souza', 'hidden')).toBe('')
+  })
+})
+
+describe('multi-pay helpers', () => {
+  const list = reservationList(entries, 10)
+
+  it('groups buyers with their counts', () => {
+    expect(reservedBuyerGroups(list)).toEqual([
+      { key: 'nm:ana', name: 'Ana', count: 2 },
+      { key: 'nm:bruno', name: 'Bruno', count: 1 }
+    ])
+    expect(numbersOfBuyer(list, 'nm:ana')).toEqual([2, 3])
+  })
+
+  it('keeps buyers with the same name apart by buyerId', () => {
+    const joaos = reservationList(
+      {
+        '1': { name: 'João', buyerId: 'a' },
+        '2': { name: 'João', buyerId: 'b' },
+        '3': { name: 'João', buyerId: 'a' },
+        '4': { name: 'João' }
+      },
+      4
+    )
+    const groups = reservedBuyerGroups(joaos)
+    expect(groups.map((g) => [g.key, g.count])).toEqual([
+      ['id:a', 2],
+      ['id:b', 1],
+      ['nm:joão', 1]
+    ])
+    expect(numbersOfBuyer(joaos, 'id:a')).toEqual([1, 3])
+    expect(numbersOfBuyer(joaos, 'nm:joão')).toEqual([4])
+  })
+
+  it('keeps only valid selected numbers', () => {
+    expect(selectedNumbersOf({ '3': true, '11': true, x: true, '1': true }, 10)).toEqual([1, 3])
+  })
+
+  it('diffs the numbers swapped by the lucky dip', () => {
+    expect(swapDiff([1, 2, 3], [1, 3, 8])).toEqual({ lost: [2], gained: [8] })
+  })
+})
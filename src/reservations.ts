@@ -0,0 +1,232 @@
+import { quotePrice } from './pricing'
+import type { PricingConfig } from './pricing'
+
+export type EntryLike = {
+  name?: string
+  paid?: boolean
+  buyerId?: string
+}
+
+export type Reservation<E extends EntryLike = EntryLike> = {
+  n: number
+  e: E
+}
+
+export type EntryMap<E extends EntryLike = EntryLike> = Record<string, E | null | undefined>
+
+export type RaffleStats = {
+  total: number
+  reserved: number
+  available: number
+  paid: number
+  pending: number
+  pctReserved: number
+  pctPaidOfReserved: number
+}
+
+export type StatusChart = {
+  free: number
+  paid: number
+  pending: number
+  freePct: number
+  paidPct: number
+  pendingPct: number
+}
+
+export type ReserveConflict = { kind: 'sold-out' } | { kind: 'taken'; n: number }
+
+export type NameDisplay = 'full' | 'initial' | 'masked' | 'hidden'
+
+export type BuyerGroup = {
+  key: string
+  name: string
+  buyerId?: string
+  count: number
+}
+
+// Quem comprou: o buyerId quando a reserva tem contato (dois "João" diferentes não se misturam);
+// sem ele, o nome. Reserva sem nome nem contato fica sozinha.
+export function buyerKey(r: Reservation) {
+  if (r.e.buyerId) return `id:${r.e.buyerId}`
+  const nm = String(r.e.name || '').trim().toLowerCase()
+  return nm ? `nm:${nm}` : `#${r.n}`
+}
+
+// O rótulo do modo "oculto" vem traduzido de quem chama; sem ele, o nome simplesmente não aparece.
+export function displayName(name: string, mode: NameDisplay, hiddenLabel = '') {
+  if (mode === 'hidden') return hiddenLabel
+  const words = String(name || '').trim().split(/\s+/).filter(Boolean)
+  if (!words.length) return ''
+  if (mode === 'initial') return words.length > 1 ? `${words[0]} ${words[words.length - 1][0].toUpperCase()}.` : words[0]
+  if (mode === 'masked') return words.map((w) => w[0] + '*'.repeat(Math.max(2, w.length - 1))).join(' ')
+  return words.join(' ')
+}
+
+// O que vai no entry público. Com "oculto" não grava nada: a tela pública mostra só "Reservado".
+export function publicEntryName(name: string, mode: NameDisplay) {
+  return mode === 'hidden' ? '' : displayName(name, mode)
+}
+
+export function reservationList<E extends EntryLike>(entries: EntryMap<E>, total: number): Reservation<E>[] {
+  const list: Reservation<E>[] = []
+  for (let i = 1; i <= total; i++) {
+    const e = entries[String(i)]
+    if (e) list.push({ n: i, e })
+  }
+  return list
+}
+
+export function availableNumbers(entries: EntryMap, total: number) {
+  const list: number[] = []
+  for (let i = 1; i <= total; i++) {
+    if (!entries[String(i)]) list.push(i)
+  }
+  return list
+}
+
+// Limite para reduzir totalNumbers: abaixo disso alguma reserva ficaria fora da rifa.
+export function maxReservedNumber(entries: EntryMap, total: number) {
+  let max = 0
+  for (let i = 1; i <= total; i++) {
+    if (entries[String(i)]) max = i
+  }
+  return max
+}
+
+export function raffleStats(entries: EntryMap, total: number): RaffleStats {
+  let reserved = 0
+  let paid = 0
+
+  for (let i = 1; i <= total; i++) {
+    const e = entries[String(i)]
+    if (e) {
+      reserved++
+      if (e.paid) paid++
+    }
+  }
+
+  const available = total - reserved
+  const pending = reserved - paid
+  const pctReserved = total ? reserved / total : 0
+  const pctPaidOfReserved = reserved ? paid / reserved : 0
+
+  return { total, reserved, available, paid, pending, pctReserved, pctPaidOfReserved }
+}
+
+export function statusChart(stats: RaffleStats): StatusChart {
+  const free = stats.available
+  const paid = stats.paid
+  const pending = stats.pending
+  const sum = free + paid + pending || 1
+  return {
+    free,
+    paid,
+    pending,
+    freePct: (free / sum) * 100,
+    paidPct: (paid / sum) * 100,
+    pendingPct: (pending / sum) * 100
+  }
+}
+
+// Pacotes valem por comprador: o total de cada um é cotado junto, não número a número.
+export function revenueStats(list: Reservation[], cfg: PricingConfig) {
+  const byBuyer = new Map<string, { paid: number; pending: number }>()
+  for (const r of list) {
+    const k = buyerKey(r)
+    const cur = byBuyer.get(k) || { paid: 0, pending: 0 }
+    if (r.e.paid) cur.paid++
+    else cur.pending++
+    byBuyer.set(k, cur)
+  }
+
+  let received = 0
+  let toReceive = 0
+  for (const b of byBuyer.values()) {
+    const paidAmount = quotePrice(b.paid, cfg).amount
+    received += paidAmount
+    toReceive += quotePrice(b.paid + b.pending, cfg).amount - paidAmount
+  }
+
+  return { received, toReceive }
+}
+
+function cryptoIndex(max: number) {
+  const rnd = new Uint32Array(1)
+  crypto.getRandomValues(rnd)
+  return rnd[0] % max
+}
+
+export function pickRandomNumbers(pool: number[], count: number, randomIndex: (max: number) => number = cryptoIndex) {
+  const list = pool.slice()
+  const k = Math.min(Math.max(0, Math.floor(count)), list.length)
+  for (let i = 0; i < k; i++) {
+    const j = i + randomIndex(list.length - i)
+    const tmp = list[i]
+    list[i] = list[j]
+    list[j] = tmp
+  }
+  return list.slice(0, k).sort((a, b) => a - b)
+}
+
+// Decide os números finais de uma reserva. Sem spares, qualquer número já pego derruba tudo (RESERVED:n);
+// com spares (surpresinha), o pego é trocado pelo próximo livre da lista e só falha quando ela acaba (SOLD_OUT).
+export async function claimNumbers(nums: number[], isTaken: (n: number) => Promise<boolean>, spares?: number[] | null) {
+  const queue = spares ? spares.filter((n) => !nums.includes(n)).slice(0, 30) : null
+  const finalNums: number[] = []
+
+  for (const n of nums) {
+    let cur: number | undefined = n
+    while (cur !== undefined) {
+      if (!(await isTaken(cur))) break
+      if (!queue) throw new Error(`RESERVED:${cur}`)
+      cur = queue.shift()
+    }
+    if (cur === undefined) throw new Error('SOLD_OUT')
+    finalNums.push(cur)
+  }
+
+  return finalNums
+}
+
+export function reserveConflict(e: unknown): ReserveConflict | null {
+  const msg = String(e instanceof Error ? e.message : e)
+  if (msg === 'SOLD_OUT') return { kind: 'sold-out' }
+  if (!msg.startsWith('RESERVED:')) return null
+  return { kind: 'taken', n: Number(msg.split(':')[1]) || 0 }
+}
+
+export function swapDiff(requested: number[], finalNums: number[]) {
+  return {
+    lost: requested.filter((n) => !finalNums.includes(n)),
+    gained: finalNums.filter((n) => !requested.includes(n))
+  }
+}
+
+// Passos do "pagar múltiplos": compradores com quantos números cada um tem, depois os números de um comprador.
+export function reservedBuyerGroups(list: Reservation[]): BuyerGroup[] {
+  const map = new Map<string, BuyerGroup>()
+  for (const r of list) {
+    const name = String(r.e.name || '').trim()
+    if (!name && !r.e.buyerId) continue
+    const key = buyerKey(r)
+    const cur = map.get(key)
+    if (cur) cur.count++
+    else map.set(key, { key, name, ...(r.e.buyerId ? { buyerId: r.e.buyerId } : {}), count: 1 })
+  }
+  return Array.from(map.values()).sort((a, b) => a.name.localeCompare(b.name, 'pt-BR') || a.key.localeCompare(b.key))
+}
+
+export function numbersOfBuyer(list: Reservation[], key: string) {
+  if (!key) return []
+  return list
+    .filter((r) => buyerKey(r) === key)
+    .map((r) => r.n)
+    .sort((a, b) => a - b)
+}
+
+export function selectedNumbersOf(set: Record<string, true>, total: number) {
+  return Object.keys(set)
+    .map((k) => Number(k))
+    .filter((n) => Number.isInteger(n) && n >= 1 && n <= total)
+    .sort((a, b) => a - b)
+}
@@ -0,0 +1,126 @@
+import { readFileSync } from 'node:fs'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { initializeTestEnvironment } from '@firebase/rules-unit-testing'
+import type { RulesTestEnvironment } from '@firebase/rules-unit-testing'
+import { deleteApp, initializeApp } from 'firebase/app'
+import type { FirebaseApp } from 'firebase/app'
+import { connectAuthEmulator, createUserWithEmailAndPassword, getAuth, signOut } from 'firebase/auth'
+import type { Auth } from 'firebase/auth'
+import { connectFirestoreEmulator, getFirestore } from 'firebase/firestore'
+import { createFirestoreRepository } from './firestoreRepository'
+import type { RaffleRepository } from './repository'
+import { reserveNumbers } from './reserve'
+import type { ReserveInput } from './reserve'
+
+// A mesma transação da página pública e da venda manual, agora contra as regras de verdade: npm run test:emulators.
+const EMULATOR = process.env.FIRESTORE_EMULATOR_HOST
+const PROJECT = process.env.GCLOUD_PROJECT || 'demo-rifa'
+
+const buyerInput: ReserveInput = {
+  name: 'Ana Souza',
+  nameDisplay: 'initial',
+  paid: false,
+  buyer: { id: 'b1', contact: { type: 'email', value: 'ana@rifa.test' } },
+  actor: { kind: 'buyer', buyerId: 'b1' },
+  action: 'reserve',
+  pricing: { pricePerNumber: 10 }
+}
+
+describe.skipIf(!EMULATOR)('reserveNumbers against the emulator', () => {
+  let env: RulesTestEnvironment
+  let app: FirebaseApp
+  let auth: Auth
+  let repo: RaffleRepository
+
+  beforeAll(async () => {
+    env = await initializeTestEnvironment({
+      projectId: PROJECT,
+      firestore: { rules: readFileSync('firestore.rules', 'utf8') }
+    })
+
+    app = initializeApp({ projectId: PROJECT, apiKey: 'demo' }, 'reserve-emulator-test')
+    const db = getFirestore(app)
+    const [host, port] = String(EMULATOR).split(':')
+    connectFirestoreEmulator(db, host, Number(port))
+    auth = getAuth(app)
+    connectAuthEmulator(auth, `http://${process.env.FIREBASE_AUTH_EMULATOR_HOST || '127.0.0.1:9099'}`, {
+      disableWarnings: true
+    })
+    repo = createFirestoreRepository(db)
+  })
+
+  afterAll(async () => {
+    await env?.cleanup()
+    if (app) await deleteApp(app)
+  })
+
+  beforeEach(async () => {
+    if (auth.currentUser) await signOut(auth)
+    await env.clearFirestore()
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      await ctx.firestore().doc('raffles/r1').set({ status: 'open', totalNumbers: 50 })
+    })
+  })
+
+  async function signInWithRole(role: string) {
+    const cred = await createUserWithEmailAndPassword(auth, `${role}-${Date.now()}@rifa.test`, 'senha-teste')
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      await ctx.firestore().doc(`users/${cred.user.uid}`).set({ roles: [role] })
+    })
+    return cred.user.uid
+  }
+
+  async function readDoc(path: string) {
+    let data: unknown = null
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      data = (await ctx.firestore().doc(path).get()).data() ?? null
+    })
+    return data
+  }
+
+  it('lets a buyer reserve without signing in and logs the order', async () => {
+    const { numbers, orderId } = await reserveNumbers(repo, 'r1', [3, 7], buyerInput)
+
+    expect(numbers).toEqual([3, 7])
+    expect(await readDoc('raffles/r1/entries/3')).toMatchObject({ name: 'Ana S.', paid: false, orderId })
+    expect(await readDoc('raffles/r1/holders/7')).toEqual({ name: 'Ana Souza', orderId })
+    expect(await readDoc(`raffles/r1/orders/${orderId}`)).toMatchObject({ numbers: [3, 7], amount: 20, source: 'reserve' })
+  })
+
+  it('reports the taken number and writes nothing', async () => {
+    await reserveNumbers(repo, 'r1', [5], buyerInput)
+
+    await expect(reserveNumbers(repo, 'r1', [4, 5], { ...buyerInput, buyer: null })).rejects.toThrow('RESERVED:5')
+    expect(await readDoc('raffles/r1/entries/4')).toBeNull()
+  })
+
+  it('is refused once sales are closed', async () => {
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      await ctx.firestore().doc('raffles/r1').update({ status: 'closed' })
+    })
+
+    await expect(reserveNumbers(repo, 'r1', [1], buyerInput)).rejects.toThrow()
+    expect(await readDoc('raffles/r1/entries/1')).toBeNull()
+  })
+
+  it('lets a seller sell only unpaid and an admin sell paid', async () => {
+    const sale = (uid: string, paid: boolean): ReserveInput => ({
+      ...buyerInput,
+      buyer: null,
+      paid,
+      actor: { kind: 'staff', uid },
+      action: 'sale',
+      paymentMethod: 'cash'
+    })
+
+    const seller = await signInWithRole('seller')
+    await expect(reserveNumbers(repo, 'r1', [1], sale(seller, true))).rejects.toThrow()
+    await reserveNumbers(repo, 'r1', [1], sale(seller, false))
+    expect(await readDoc('raffles/r1/entries/1')).toMatchObject({ paid: false, soldBy: seller })
+
+    await signOut(auth)
+    const admin = await signInWithRole('admin')
+    await reserveNumbers(repo, 'r1', [2], sale(admin, true))
+    expect(await readDoc('raffles/r1/entries/2')).toMatchObject({ paid: true, paymentMethod: 'cash', soldBy: admin })
+  })
+})
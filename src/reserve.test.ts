@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { createMemoryRepository } from './memoryRepository'
+import { reserveNumbers } from './reserve'
+import type { ReserveInput } from './reserve'
+
+const pricing = { pricePerNumber: 10, pricePackages: [{ quantity: 2, price: 15 }] }
+
+const buyerInput: ReserveInput = {
+  name: 'Ana Souza',
+  nameDisplay: 'initial',
+  paid: false,
+  buyer: { id: 'b1', contact: { type: 'phone', value: '11987654321' } },
+  actor: { kind: 'buyer', buyerId: 'b1' },
+  action: 'reserve',
+  pricing
+}
+
+function setup() {
+  const repo = createMemoryRepository({ demo: { totalNumbers: 20 } })
+  const read = (path: string) => repo.transact('demo', (tx) => tx.get(path))
+  return { repo, read }
+}
+
+describe('reserveNumbers', () => {
+  it('writes the entries, holders, order and buyer in one go', async () => {
+    const { repo, read } = setup()
+    const { numbers, orderId } = await reserveNumbers(repo, 'demo', [3, 7], buyerInput)
+
+    expect(numbers).toEqual([3, 7])
+    expect(await read('entries/3')).toMatchObject({ name: 'Ana S.', paid: false, orderId, buyerId: 'b1' })
+    expect(await read('holders/7')).toEqual({ name: 'Ana Souza', orderId })
+    expect(await read(`orders/${orderId}`)).toMatchObject({
+      numbers: [3, 7],
+      name: 'Ana S.',
+      amount: 15,
+      currency: 'BRL',
+      source: 'reserve'
+    })
+    expect(await read('buyers/b1')).toMatchObject({ name: 'Ana Souza', contact: '11987654321', contactType: 'phone' })
+    expect(await read(`audit/order-${orderId}`)).toMatchObject({ action: 'reserve', numbers: [3, 7], after: { order: orderId } })
+  })
+
+  it('fails whole when a number is taken', async () => {
+    const { repo } = setup()
+    await reserveNumbers(repo, 'demo', [5], buyerInput)
+
+    await expect(reserveNumbers(repo, 'demo', [4, 5], { ...buyerInput, buyer: null })).rejects.toThrow('RESERVED:5')
+    expect((await repo.listEntries('demo')).map((d) => d.id)).toEqual(['5'])
+  })
+
+  it('swaps a taken number for a spare on the lucky dip', async () => {
+    const { repo } = setup()
+    await reserveNumbers(repo, 'demo', [5], buyerInput)
+
+    const { numbers } = await reserveNumbers(repo, 'demo', [4, 5], { ...buyerInput, spares: [5, 9] })
+    expect(numbers).toEqual([4, 9])
+  })
+
+  it('keeps the seller and payment method on a paid staff sale', async () => {
+    const { repo, read } = setup()
+    const { orderId } = await reserveNumbers(repo, 'demo', [1], {
+      ...buyerInput,
+      nameDisplay: 'hidden',
+      paid: true,
+      buyer: null,
+      actor: { kind: 'staff', uid: 'u1', email: 'equipe@rifa.test' },
+      action: 'sale',
+      paymentMethod: 'pix'
+    })
+
+    expect(await read('entries/1')).toMatchObject({ name: '', paid: true, paymentMethod: 'pix', soldBy: 'u1' })
+    expect(await read(`orders/${orderId}`)).toMatchObject({ source: 'sale', amount: 10 })
+  })
+})
@@ -0,0 +1,88 @@
+import { auditEntries, writeAudit } from './audit'
+import type { AuditAction, AuditActor } from './audit'
+import type { Contact } from './contact'
+import { newOrderId } from './orders'
+import { buyerPath, entryPath, holderPath, orderAuditId, orderPath } from './paths'
+import { currencyOf, quotePrice } from './pricing'
+import type { PricingConfig } from './pricing'
+import type { RaffleRepository } from './repository'
+import { claimNumbers, publicEntryName } from './reservations'
+import type { NameDisplay } from './reservations'
+
+export type PaymentMethod = 'cash' | 'pix' | 'card'
+
+export type ReserveInput = {
+  name: string
+  nameDisplay: NameDisplay
+  paid: boolean
+  buyer: { id: string; contact: Contact } | null
+  actor: AuditActor
+  action: AuditAction
+  pricing: PricingConfig
+  paymentMethod?: PaymentMethod
+  spares?: number[]
+}
+
+// Transação usada tanto pela reserva pública quanto pela venda manual: falha inteira se algum número já foi pego.
+export async function reserveNumbers(repo: RaffleRepository, raffleId: string, nums: number[], input: ReserveInput) {
+  const { name, paid, buyer } = input
+  const buyerId = buyer?.id || ''
+  const shown = publicEntryName(name, input.nameDisplay)
+
+  return repo.transact(raffleId, async (tx) => {
+    // Com spares (surpresinha), número pego no meio do caminho é trocado por outro em vez de falhar tudo.
+    const finalNums = await claimNumbers(nums, async (n) => !!(await tx.get(entryPath(n))), input.spares)
+
+    // Cada reserva vira um pedido: os números ficam ligados por orderId em vez de só pelo nome.
+    let orderId = newOrderId()
+    while (await tx.get(orderPath(orderId))) orderId = newOrderId()
+    const quote = quotePrice(finalNums.length, input.pricing)
+
+    const entry = {
+      name: shown,
+      paid,
+      reservedAt: tx.now(),
+      orderId,
+      ...(buyerId ? { buyerId } : {}),
+      ...(paid && input.paymentMethod ? { paymentMethod: input.paymentMethod } : {}),
+      ...(input.actor.kind === 'staff' && input.actor.uid ? { soldBy: input.actor.uid } : {})
+    }
+
+    for (const n of finalNums) {
+      tx.set(entryPath(n), entry)
+      tx.set(holderPath(n), { name, orderId })
+    }
+
+    tx.set(orderPath(orderId), {
+      numbers: finalNums,
+      name: shown,
+      ...(buyerId ? { buyerId } : {}),
+      amount: quote.amount,
+      currency: currencyOf(input.pricing),
+      source: input.action === 'sale' ? 'sale' : 'reserve',
+      createdAt: tx.now()
+    })
+
+    if (buyer) {
+      tx.set(
+        buyerPath(buyer.id),
+        { name, contact: buyer.contact.value, contactType: buyer.contact.type, updatedAt: tx.now() },
+        { merge: true }
+      )
+    }
+
+    writeAudit(
+      tx,
+      {
+        actor: input.actor,
+        action: input.action,
+        numbers: finalNums,
+        before: auditEntries(finalNums, () => null),
+        after: { ...auditEntries(finalNums, () => ({ name: shown, paid })), order: orderId }
+      },
+      orderAuditId(orderId)
+    )
+
+    return { numbers: finalNums, orderId }
+  })
+}
@@ -0,0 +1,200 @@
+import { readFileSync } from 'node:fs'
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest'
+import { assertFails, assertSucceeds, initializeTestEnvironment } from '@firebase/rules-unit-testing'
+import type { RulesTestEnvironment } from '@firebase/rules-unit-testing'
+import firebase from 'firebase/compat/app'
+import 'firebase/compat/firestore'
+
+// Roda só com o emulador do Firestore no ar: npm run test:emulators.
+const EMULATOR = process.env.FIRESTORE_EMULATOR_HOST
+
+const RAFFLE = 'raffles/r1'
+const now = () => firebase.firestore.FieldValue.serverTimestamp()
+
+describe.skipIf(!EMULATOR)('firestore.rules', () => {
+  let env: RulesTestEnvironment
+
+  beforeAll(async () => {
+    env = await initializeTestEnvironment({
+      projectId: process.env.GCLOUD_PROJECT || 'demo-rifa',
+      firestore: { rules: readFileSync('firestore.rules', 'utf8') }
+    })
+  })
+
+  afterAll(async () => {
+    await env?.cleanup()
+  })
+
+  async function seed(raffle: Record<string, unknown> = { status: 'open', totalNumbers: 50 }, docs: Record<string, object> = {}) {
+    await env.clearFirestore()
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      const db = ctx.firestore()
+      await db.doc('users/seller').set({ roles: ['seller'] })
+      await db.doc('users/admin').set({ roles: ['admin'] })
+      await db.doc('users/data').set({ roles: ['data-admin'] })
+      await db.doc(RAFFLE).set(raffle)
+      for (const [path, data] of Object.entries(docs)) await db.doc(path).set(data)
+    })
+  }
+
+  const anon = () => env.unauthenticatedContext().firestore()
+  const as = (uid: string) => env.authenticatedContext(uid).firestore()
+
+  // O que reserveNumbers grava numa reserva pública: números, holders, o pedido novo e o evento order-{pedido}.
+  function reserve(db: ReturnType<typeof anon>, numbers: number[], order: string, entry: Record<string, unknown> = {}) {
+    const batch = db.batch()
+    for (const n of numbers) {
+      batch.set(db.doc(`${RAFFLE}/entries/${n}`), { name: 'Bia S.', paid: false, reservedAt: now(), orderId: order, ...entry })
+      batch.set(db.doc(`${RAFFLE}/holders/${n}`), { name: 'Bia Souza', orderId: order })
+    }
+    batch.set(db.doc(`${RAFFLE}/orders/${order}`), {
+      numbers,
+      name: 'Bia S.',
+      amount: 10 * numbers.length,
+      currency: 'BRL',
+      source: 'reserve',
+      createdAt: now()
+    })
+    batch.set(db.doc(`${RAFFLE}/audit/order-${order}`), {
+      actor: { kind: 'buyer' },
+      action: 'reserve',
+      numbers,
+      after: { order },
+      at: now()
+    })
+    return batch.commit()
+  }
+
+  describe('users', () => {
+    beforeEach(() => seed())
+
+    it('lets a new account create its own profile only without roles', async () => {
+      await assertSucceeds(as('nova').doc('users/nova').set({ email: 'nova@rifa.test', roles: [] }))
+      await assertFails(as('outra').doc('users/outra').set({ email: 'outra@rifa.test', roles: ['admin'] }))
+    })
+
+    it('leaves the roles to the data-admin', async () => {
+      await assertFails(as('seller').doc('users/seller').update({ roles: ['admin'] }))
+      await assertFails(as('admin').doc('users/seller').update({ roles: ['admin'] }))
+      await assertSucceeds(as('data').doc('users/seller').update({ roles: ['seller', 'admin'] }))
+    })
+  })
+
+  describe('entries', () => {
+    beforeEach(() => seed(undefined, { [`${RAFFLE}/entries/9`]: { name: 'Ana', paid: false } }))
+
+    it('takes a public reservation only unpaid and while sales are open', async () => {
+      await assertSucceeds(reserve(anon(), [1, 2], 'A1'))
+      await assertFails(reserve(anon(), [3], 'A2', { paid: true }))
+
+      await seed({ status: 'closed', totalNumbers: 50 })
+      await assertFails(reserve(anon(), [1], 'A3'))
+    })
+
+    it('starts the payment hold at server time on a public reservation', async () => {
+      const later = new Date(Date.now() + 30 * 24 * 3600_000)
+      await assertFails(reserve(anon(), [1], 'A1', { reservedAt: later }))
+      await assertFails(reserve(anon(), [2], 'A2', { reservedAt: null }))
+    })
+
+    it('refuses a public number without its new order and audit event', async () => {
+      const db = anon()
+      const entry = { name: 'Bia S.', paid: false, reservedAt: now(), orderId: 'A1' }
+      await assertFails(db.doc(`${RAFFLE}/entries/1`).set(entry))
+
+      const batch = db.batch()
+      batch.set(db.doc(`${RAFFLE}/entries/1`), entry)
+      batch.set(db.doc(`${RAFFLE}/orders/A1`), { numbers: [1], amount: 10, source: 'reserve', createdAt: now() })
+      await assertFails(batch.commit())
+
+      await reserve(db, [2], 'B2')
+      await assertFails(db.doc(`${RAFFLE}/entries/3`).set({ ...entry, orderId: 'B2' }))
+    })
+
+    it('lets only an admin sell a number already paid', async () => {
+      await assertSucceeds(as('seller').doc(`${RAFFLE}/entries/1`).set({ name: 'Bia', paid: false }))
+      await assertFails(as('seller').doc(`${RAFFLE}/entries/2`).set({ name: 'Bia', paid: true }))
+      await assertSucceeds(as('admin').doc(`${RAFFLE}/entries/2`).set({ name: 'Bia', paid: true }))
+    })
+
+    it('keeps payments and deletions with the admin', async () => {
+      await assertFails(anon().doc(`${RAFFLE}/entries/9`).update({ paid: true }))
+      await assertFails(as('seller').doc(`${RAFFLE}/entries/9`).update({ paid: true }))
+      await assertFails(as('seller').doc(`${RAFFLE}/entries/9`).delete())
+      await assertSucceeds(as('admin').doc(`${RAFFLE}/entries/9`).update({ paid: true }))
+      await assertSucceeds(as('admin').doc(`${RAFFLE}/entries/9`).delete())
+    })
+
+    it('stops staff sales once the raffle is drawn', async () => {
+      await seed({ status: 'drawn', totalNumbers: 50 })
+      await assertFails(as('admin').doc(`${RAFFLE}/entries/1`).set({ name: 'Bia', paid: true }))
+      await assertSucceeds(as('data').doc(`${RAFFLE}/entries/1`).set({ name: 'Bia', paid: true }))
+    })
+
+    it('freezes the list once the draw commitment is published', async () => {
+      await seed(
+        { status: 'closed', totalNumbers: 50, drawCommitment: { hash: 'abc' } },
+        { [`${RAFFLE}/entries/9`]: { name: 'Ana', paid: false } }
+      )
+      await assertFails(as('admin').doc(`${RAFFLE}/entries/9`).update({ paid: true }))
+      await assertFails(as('admin').doc(`${RAFFLE}/entries/9`).delete())
+    })
+  })
+
+  describe('raffle document', () => {
+    it('publishes the commitment only after sales close', async () => {
+      await seed()
+      await assertFails(as('admin').doc(RAFFLE).update({ drawCommitment: { hash: 'abc' } }))
+
+      await seed({ status: 'closed', totalNumbers: 50 })
+      await assertSucceeds(as('admin').doc(RAFFLE).update({ drawCommitment: { hash: 'abc' } }))
+    })
+
+    it('keeps the draw seed private', async () => {
+      await seed(undefined, { [`${RAFFLE}/private/draw`]: { seed: 's' } })
+      await assertFails(anon().doc(`${RAFFLE}/private/draw`).get())
+      await assertFails(as('seller').doc(`${RAFFLE}/private/draw`).get())
+      await assertSucceeds(as('admin').doc(`${RAFFLE}/private/draw`).get())
+    })
+  })
+
+  describe('audit', () => {
+    beforeEach(() => seed())
+
+    it('makes staff sign events as themselves', async () => {
+      const event = (uid: string) => ({ actor: { kind: 'staff', uid }, action: 'pay', numbers: [1], at: now() })
+      await assertSucceeds(as('seller').collection(`${RAFFLE}/audit`).add(event('seller')))
+      await assertFails(as('seller').collection(`${RAFFLE}/audit`).add(event('admin')))
+    })
+
+    it('refuses a buyer event without the reservation it describes', async () => {
+      await assertFails(
+        anon()
+          .collection(`${RAFFLE}/audit`)
+          .add({ actor: { kind: 'buyer' }, action: 'reserve', numbers: [1], after: { order: 'AB12CD34' }, at: now() })
+      )
+    })
+
+    it('never rewrites history', async () => {
+      const ref = await as('admin').collection(`${RAFFLE}/audit`).add({
+        actor: { kind: 'staff', uid: 'admin' },
+        action: 'pay',
+        numbers: [1],
+        at: now()
+      })
+      await assertFails(as('admin').doc(ref.path).delete())
+    })
+  })
+
+  describe('orders', () => {
+    beforeEach(() => seed())
+
+    it('takes a public order only as a reservation stamped by the server', async () => {
+      const order = { numbers: [1], name: 'Bia', amount: 10, currency: 'BRL', source: 'reserve' }
+      await assertSucceeds(anon().doc(`${RAFFLE}/orders/A1`).set({ ...order, createdAt: now() }))
+      await assertFails(anon().doc(`${RAFFLE}/orders/A2`).set({ ...order, createdAt: new Date() }))
+      await assertFails(anon().doc(`${RAFFLE}/orders/A3`).set({ ...order, source: 'sale', createdAt: now() }))
+      await assertFails(anon().collection(`${RAFFLE}/orders`).get())
+    })
+  })
+})
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { clampCutoffMinutes, isValidTimeZone, normalizeDrawTime, salesCloseMs, zonedDateTimeToMs } from './schedule'
+
+describe('zonedDateTimeToMs', () => {
+  it('reads the wall clock in the raffle time zone', () => {
+    expect(new Date(zonedDateTimeToMs('2025-12-20', '20:00', 'America/Sao_Paulo')).toISOString()).toBe('2025-12-20T23:00:00.000Z')
+    expect(new Date(zonedDateTimeToMs('2025-07-01', '12:00', 'Europe/Lisbon')).toISOString()).toBe('2025-07-01T11:00:00.000Z')
+  })
+
+  it('follows the daylight saving change on the day itself', () => {
+    expect(new Date(zonedDateTimeToMs('2025-03-08', '03:30', 'America/New_York')).toISOString()).toBe('2025-03-08T08:30:00.000Z')
+    expect(new Date(zonedDateTimeToMs('2025-03-09', '01:30', 'America/New_York')).toISOString()).toBe('2025-03-09T06:30:00.000Z')
+    expect(new Date(zonedDateTimeToMs('2025-03-09', '03:30', 'America/New_York')).toISOString()).toBe('2025-03-09T07:30:00.000Z')
+  })
+
+  it('gives 0 without a usable date, time or zone', () => {
+    expect(zonedDateTimeToMs('', '20:00', 'UTC')).toBe(0)
+    expect(zonedDateTimeToMs('2025-12-20', '24:00', 'UTC')).toBe(0)
+    expect(zonedDateTimeToMs('2025-12-20', '20:00', 'Mars/Base')).toBe(0)
+    expect(isValidTimeZone('Mars/Base')).toBe(false)
+  })
+})
+
+describe('normalizeDrawTime', () => {
+  it('pads the hour and rejects out-of-range times', () => {
+    expect(normalizeDrawTime(' 9:05 ')).toBe('09:05')
+    expect(normalizeDrawTime('23:60')).toBe('')
+    expect(normalizeDrawTime('2005')).toBe('')
+  })
+})
+
+describe('sales cutoff', () => {
+  it('closes sales the cutoff before the draw', () => {
+    const drawAt = Date.UTC(2025, 11, 20, 23)
+    expect(salesCloseMs(drawAt, 30)).toBe(drawAt - 30 * 60_000)
+    expect(salesCloseMs(drawAt, 0)).toBe(drawAt)
+    expect(salesCloseMs(0, 30)).toBe(0)
+  })
+
+  it('clamps the cutoff to whole minutes within a week', () => {
+    expect(clampCutoffMinutes('15.9')).toBe(15)
+    expect(clampCutoffMinutes(-5)).toBe(0)
+    expect(clampCutoffMinutes('x')).toBe(0)
+    expect(clampCutoffMinutes(99_999)).toBe(7 * 24 * 60)
+  })
+})
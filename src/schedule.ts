@@ -0,0 +1,83 @@
+export const DEFAULT_TIME_ZONE = 'America/Sao_Paulo'
+
+export const TIME_ZONE_SUGGESTIONS = [
+  'America/Sao_Paulo',
+  'America/Manaus',
+  'America/Cuiaba',
+  'America/Belem',
+  'America/Fortaleza',
+  'America/Recife',
+  'America/Noronha',
+  'America/Rio_Branco',
+  'America/Argentina/Buenos_Aires',
+  'America/Santiago',
+  'America/Mexico_City',
+  'America/New_York',
+  'Europe/Lisbon',
+  'Europe/Madrid',
+  'UTC'
+]
+
+export function isValidTimeZone(tz: string) {
+  if (!tz) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Quanto o relógio do fuso está à frente do UTC naquele instante (horário de verão incluso).
+function zoneOffsetMs(utcMs: number, tz: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: tz,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(new Date(utcMs))
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value || 0)
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'))
+  return asUtc - Math.floor(utcMs / 1000) * 1000
+}
+
+export function normalizeDrawTime(v: unknown) {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(String(v || '').trim())
+  if (!m) return ''
+  const h = Number(m[1])
+  const min = Number(m[2])
+  if (h > 23 || min > 59) return ''
+  return `${String(h).padStart(2, '0')}:${m[2]}`
+}
+
+// "2025-12-20" + "20:00" no fuso dado → instante em ms. 0 se faltar data ou hora.
+export function zonedDateTimeToMs(date: string, time: string, tz: string) {
+  const d = /^(\d{4})-(\d{2})-(\d{2})$/.exec(String(date || '').trim())
+  const t = normalizeDrawTime(time)
+  if (!d || !t || !isValidTimeZone(tz)) return 0
+  const [h, min] = t.split(':').map(Number)
+  const wall = Date.UTC(Number(d[1]), Number(d[2]) - 1, Number(d[3]), h, min)
+  // Duas passadas: a primeira acha o offset aproximado, a segunda corrige quando o dia tem troca de horário.
+  const first = wall - zoneOffsetMs(wall, tz)
+  return wall - zoneOffsetMs(first, tz)
+}
+
+// O job do sorteio automático roda a cada 5 minutos: uma passada publica o compromisso quando as vendas fecham
+// e uma passada seguinte sorteia. Por isso o corte mínimo cobre dois ciclos.
+export const SCHEDULED_DRAW_INTERVAL_MINUTES = 5
+export const MIN_AUTO_DRAW_CUTOFF_MINUTES = 2 * SCHEDULED_DRAW_INTERVAL_MINUTES
+
+export function clampCutoffMinutes(n: unknown) {
+  const v = Number(n)
+  if (!Number.isFinite(v) || v <= 0) return 0
+  return Math.min(7 * 24 * 60, Math.floor(v))
+}
+
+export function salesCloseMs(drawAtMs: number, cutoffMinutes: number) {
+  if (!drawAtMs) return 0
+  return drawAtMs - clampCutoffMinutes(cutoffMinutes) * 60_000
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { parseCsv, toCsv } from './spreadsheet'
+
+describe('toCsv / parseCsv', () => {
+  it('round-trips quotes, separators and line breaks', () => {
+    const rows = [['Número', 'Nome'], [1, 'Ana; "Aninha"\nSilva'], [2, true]]
+    expect(parseCsv(toCsv(rows))).toEqual([['Número', 'Nome'], ['1', 'Ana; "Aninha"\nSilva'], ['2', 'sim']])
+  })
+
+  it('neutralizes cells that a spreadsheet would run as formulas', () => {
+    const csv = toCsv([['=HYPERLINK("http://x")', '+1', '-2', '@SUM(A1)', '\tx', 'ok', -3]])
+    const cells = csv.replace(/^\ufeff/, '').trim().split(';')
+    expect(cells.slice(1, 4)).toEqual(["'+1", "'-2", "'@SUM(A1)"])
+    expect(cells[0].startsWith(`"'=`)).toBe(true)
+    expect(cells[5]).toBe('ok')
+    expect(cells[6]).toBe('-3')
+  })
+
+  it('takes the guard off again on import', () => {
+    const rows = [['=1+1', '-x', "'plain"]]
+    expect(parseCsv(toCsv(rows))).toEqual([['=1+1', '-x', "'plain"]])
+  })
+})
@@ -0,0 +1,267 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate'
+
+export type SheetCell = string | number | boolean | null | undefined
+export type SheetRows = SheetCell[][]
+
+export const CSV_MIME = 'text/csv;charset=utf-8'
+export const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+function cellText(v: SheetCell) {
+  if (v === null || v === undefined) return ''
+  if (typeof v === 'boolean') return v ? 'sim' : 'não'
+  return String(v)
+}
+
+// Nome vem do formulário público: "=HYPERLINK(...)" viraria fórmula ao abrir no Excel.
+// O apóstrofo na frente faz a célula ser lida como texto; parseCsv tira de volta.
+const FORMULA_START = /^[=+\-@\t\r]/
+
+function csvCellText(v: SheetCell) {
+  const s = cellText(v)
+  return typeof v === 'string' && FORMULA_START.test(s) ? `'${s}` : s
+}
+
+function unguardCell(s: string) {
+  return s.startsWith("'") && FORMULA_START.test(s.slice(1)) ? s.slice(1) : s
+}
+
+// Excel em pt-BR abre CSV separado por ";" direto; o BOM garante UTF-8 nos acentos.
+export function toCsv(rows: SheetRows, sep = ';') {
+  const quote = (s: string) => (/[";\r\n,\t]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s)
+  return '\ufeff' + rows.map((r) => r.map((c) => quote(csvCellText(c))).join(sep)).join('\r\n') + '\r\n'
+}
+
+function detectSeparator(text: string) {
+  const firstLine = text.split(/\r?\n/, 1)[0] || ''
+  const counts: Array<[string, number]> = [';', ',', '\t'].map((s) => [s, firstLine.split(s).length - 1])
+  counts.sort((a, b) => b[1] - a[1])
+  return counts[0][1] > 0 ? counts[0][0] : ';'
+}
+
+export function parseCsv(text: string): string[][] {
+  const src = String(text || '').replace(/^\ufeff/, '')
+  const sep = detectSeparator(src)
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i]
+
+    if (quoted) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          cell += '"'
+          i++
+        } else {
+          quoted = false
+        }
+      } else {
+        cell += ch
+      }
+      continue
+    }
+
+    if (ch === '"' && !cell) quoted = true
+    else if (ch === sep) {
+      row.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += ch
+    }
+  }
+
+  if (cell || row.length) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows.filter((r) => r.some((c) => c.trim())).map((r) => r.map(unguardCell))
+}
+
+function xmlEscape(s: string) {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .split('')
+    .filter((ch) => ch >= ' ' || ch === '\t' || ch === '\n' || ch === '\r')
+    .join('')
+}
+
+function columnName(i: number) {
+  let n = i + 1
+  let out = ''
+  while (n > 0) {
+    const r = (n - 1) % 26
+    out = String.fromCharCode(65 + r) + out
+    n = Math.floor((n - 1) / 26)
+  }
+  return out
+}
+
+function columnIndex(ref: string) {
+  const letters = (ref.match(/^[A-Z]+/i)?.[0] || 'A').toUpperCase()
+  let n = 0
+  for (const ch of letters) n = n * 26 + (ch.charCodeAt(0) - 64)
+  return n - 1
+}
+
+function sheetXml(rows: SheetRows) {
+  const body = rows
+    .map((r, ri) => {
+      const cells = r
+        .map((c, ci) => {
+          const ref = `${columnName(ci)}${ri + 1}`
+          if (c === null || c === undefined || c === '') return ''
+          if (typeof c === 'number' && Number.isFinite(c)) return `<c r="${ref}"><v>${c}</v></c>`
+          if (typeof c === 'boolean') return `<c r="${ref}" t="b"><v>${c ? 1 : 0}</v></c>`
+          return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${xmlEscape(String(c))}</t></is></c>`
+        })
+        .join('')
+      return `<row r="${ri + 1}">${cells}</row>`
+    })
+    .join('')
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetData>${body}</sheetData></worksheet>`
+  )
+}
+
+export function buildXlsx(rows: SheetRows, sheetName = 'Planilha1') {
+  const name = xmlEscape(sheetName.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31) || 'Planilha1')
+
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '</Types>'
+    ),
+    '_rels/.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+    ),
+    'xl/workbook.xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+        'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets></workbook>`
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '</Relationships>'
+    ),
+    'xl/worksheets/sheet1.xml': strToU8(sheetXml(rows))
+  }
+
+  return zipSync(files)
+}
+
+function parseXml(text: string) {
+  const docXml = new DOMParser().parseFromString(text, 'application/xml')
+  if (docXml.getElementsByTagName('parsererror').length) throw new Error('Planilha XLSX inválida')
+  return docXml
+}
+
+function textOf(el: Element) {
+  const ts = el.getElementsByTagName('t')
+  if (!ts.length) return el.textContent || ''
+  return Array.from(ts)
+    .map((t) => t.textContent || '')
+    .join('')
+}
+
+function firstSheetPath(files: Record<string, Uint8Array>) {
+  const wb = files['xl/workbook.xml']
+  const rels = files['xl/_rels/workbook.xml.rels']
+  if (wb && rels) {
+    const sheet = parseXml(strFromU8(wb)).getElementsByTagName('sheet')[0]
+    const rid = sheet?.getAttribute('r:id') || ''
+    const rel = Array.from(parseXml(strFromU8(rels)).getElementsByTagName('Relationship')).find(
+      (r) => r.getAttribute('Id') === rid
+    )
+    const target = rel?.getAttribute('Target') || ''
+    if (target) {
+      const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`
+      if (files[path]) return path
+    }
+  }
+  return Object.keys(files).find((k) => /^xl\/worksheets\/[^/]+\.xml$/.test(k)) || ''
+}
+
+// Lê só a primeira aba, como texto. Datas gravadas como número de série do Excel voltam como número.
+export function parseXlsx(data: Uint8Array): string[][] {
+  let files: Record<string, Uint8Array>
+  try {
+    files = unzipSync(data)
+  } catch {
+    throw new Error('Arquivo XLSX inválido')
+  }
+
+  const sheetPath = firstSheetPath(files)
+  if (!sheetPath) throw new Error('Nenhuma aba encontrada no XLSX')
+
+  const shared = files['xl/sharedStrings.xml']
+    ? Array.from(parseXml(strFromU8(files['xl/sharedStrings.xml'])).getElementsByTagName('si')).map(textOf)
+    : []
+
+  const sheet = parseXml(strFromU8(files[sheetPath]))
+  const rows: string[][] = []
+
+  for (const rowEl of Array.from(sheet.getElementsByTagName('row'))) {
+    const row: string[] = []
+    let next = 0
+    for (const c of Array.from(rowEl.getElementsByTagName('c'))) {
+      const ref = c.getAttribute('r')
+      const col = ref ? columnIndex(ref) : next
+      next = col + 1
+      const type = c.getAttribute('t') || ''
+      const v = c.getElementsByTagName('v')[0]?.textContent || ''
+      let value = ''
+      if (type === 's') value = shared[Number(v)] || ''
+      else if (type === 'inlineStr') value = textOf(c)
+      else if (type === 'b') value = v === '1' ? 'sim' : 'não'
+      else value = v
+      while (row.length < col) row.push('')
+      row[col] = value
+    }
+    rows.push(row)
+  }
+
+  return rows.filter((r) => r.some((c) => String(c || '').trim()))
+}
+
+export function excelSerialToDate(serial: number) {
+  const ms = Math.round((serial - 25569) * 86400_000)
+  const d = new Date(ms)
+  return new Date(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), d.getUTCHours(), d.getUTCMinutes(), d.getUTCSeconds())
+}
+
+export function downloadFile(fileName: string, data: BlobPart, mime: string) {
+  const url = URL.createObjectURL(new Blob([data], { type: mime }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
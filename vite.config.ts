@@ -1,7 +1,13 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  test: {
+    include: ['src/**/*.test.{ts,tsx}'],
+    // Os testes de emulador pulam sozinhos sem FIRESTORE_EMULATOR_HOST (ver npm run test:emulators).
+    testTimeout: 20_000
+  }
 })